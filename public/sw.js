@@ -0,0 +1,168 @@
+// Service worker for the training ground, where the connection comes and goes.
+// Pages fall back to the cached app shell, Supabase reads fall back to the
+// last response seen, and queued sign-offs are replayed by the open app when
+// a background sync fires.
+
+const SHELL_CACHE = "shell-v1"
+const ASSET_CACHE = "assets-v1"
+const DATA_CACHE = "supabase-data-v2"
+const SYNC_TAG = "sync-offline-queue"
+
+// Read-only database functions; their answers are cached per argument set.
+// verify_certificate is left out: a stale "valid" could hide a revocation.
+const READ_ONLY_RPCS = ["certificate_blockers", "enrollment_attendance", "instructor_sessions"]
+
+// Tables read on the ground: the catalog and schedule, the signed-in user's
+// profile, enrollments, progress and certificates, and the instructor's
+// register and skill sheets. Other reads need a connection.
+const CACHED_TABLES = [
+  "training_programs",
+  "training_cohort_availability",
+  "training_sessions",
+  "profiles",
+  "enrollments",
+  "topic_progress",
+  "certificates",
+  "session_attendance",
+  "skill_sheets",
+  "skill_evaluations",
+]
+
+// Every filter combination is its own entry, so the oldest are dropped past this.
+const MAX_DATA_ENTRIES = 200
+
+const SHELL_URLS = ["/", "/index.html", "/manifest.webmanifest", "/icons/icon-640.png", "/favicon.ico"]
+
+// Built bundles have hashed names, so they are read off the current index.html.
+const shellAssets = async () => {
+  const response = await caches.match("/index.html", { cacheName: SHELL_CACHE })
+  const html = response ? await response.text() : ""
+  return [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1])
+}
+
+const precacheShell = async () => {
+  await (await caches.open(SHELL_CACHE)).addAll(SHELL_URLS)
+
+  const assets = await shellAssets()
+  if (assets.length > 0) await (await caches.open(ASSET_CACHE)).addAll(assets)
+}
+
+// Bundles from earlier builds are dropped once this one is installed. Chunks
+// loaded on demand, like the PDF and QR code libraries, are cached again the
+// next time they are used.
+const pruneAssets = async () => {
+  const assets = await shellAssets()
+  if (assets.length === 0) return
+
+  const cache = await caches.open(ASSET_CACHE)
+  const keys = await cache.keys()
+  await Promise.all(
+    keys
+      .filter((key) => {
+        const { origin, pathname } = new URL(key.url)
+        return origin === self.location.origin && pathname.startsWith("/assets/") && !assets.includes(pathname)
+      })
+      .map((key) => cache.delete(key))
+  )
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()))
+})
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, ASSET_CACHE, DATA_CACHE]
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(pruneAssets)
+      .then(() => self.clients.claim())
+  )
+})
+
+// Keys come back oldest first; caching a URL again moves it to the end.
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)))
+}
+
+const networkFirst = async (request, cacheName, cacheKey) => {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const stored = cache.put(cacheKey ?? request, response.clone())
+      if (cacheName === DATA_CACHE) stored.then(() => trimCache(cache, MAX_DATA_ENTRIES))
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(cacheKey ?? request)
+    if (cached) return cached
+    throw error
+  }
+}
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.status === 200) (await caches.open(cacheName)).put(request, response.clone())
+  return response
+}
+
+// The Cache API only stores GETs, so the call's arguments go into the key.
+const cachedRpc = async (request) => {
+  const body = await request.clone().text()
+  const key = `${request.url}?args=${encodeURIComponent(body)}`
+  return networkFirst(request, DATA_CACHE, key)
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  if (request.method === "POST") {
+    const rpc = url.pathname.match(/^\/rest\/v1\/rpc\/(\w+)$/)?.[1]
+    if (rpc && READ_ONLY_RPCS.includes(rpc)) event.respondWith(cachedRpc(request))
+    return
+  }
+  if (request.method !== "GET") return
+
+  // Every route is the single-page app, so one cached index.html serves them all.
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/index.html"))
+    return
+  }
+
+  // Catalog, syllabus, enrollment, register and certificate reads. The app clears
+  // these on sign-out.
+  const table = url.pathname.match(/^\/rest\/v1\/(\w+)$/)?.[1]
+  if (table && CACHED_TABLES.includes(table)) {
+    event.respondWith(networkFirst(request, DATA_CACHE))
+    return
+  }
+
+  if (url.pathname.startsWith("/storage/v1/object/public/")) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE))
+    return
+  }
+
+  if (url.origin !== self.location.origin) return
+
+  if (url.pathname.startsWith("/assets/") || /\.(png|jpe?g|webp|svg|ico|woff2?)$/.test(url.pathname)) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE))
+  }
+})
+
+// Requests need the signed-in user's fresh token, which only the app has, so
+// the worker just wakes any open window up to drain its queue.
+self.addEventListener("sync", (event) => {
+  if (event.tag !== SYNC_TAG) return
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window" })
+      .then((clients) => clients.forEach((client) => client.postMessage({ type: SYNC_TAG })))
+  )
+})
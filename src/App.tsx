@@ -8,30 +8,188 @@ import NewsPage from "./pages/news/NewsPage";
 import NewsDetail from "./pages/news/NewsDetail";
 import TrainingProgramsList from "./pages/training/TrainingPage";
 import TrainingDetailPage from "./pages/training/TrainingDetailPage";
+import ComparePage from "./pages/training/ComparePage";
+import SchedulePage from "./pages/schedule/SchedulePage";
 import AuthPage from "./pages/auth/AuthPage";
+import RequireRole from "./components/RequireRole";
+import I18nProvider from "./components/I18nProvider";
+import ConnectionStatus from "./components/ConnectionStatus";
+import { ThemeProvider } from "next-themes";
+import NewsAdminPage from "./pages/admin/NewsAdminPage";
+import TrainingAdminPage from "./pages/admin/TrainingAdminPage";
+import WaitlistAdminPage from "./pages/admin/WaitlistAdminPage";
+import CertificatesAdminPage from "./pages/admin/CertificatesAdminPage";
+import QuizAdminPage from "./pages/admin/QuizAdminPage";
+import SkillSheetsAdminPage from "./pages/admin/SkillSheetsAdminPage";
+import ReviewsAdminPage from "./pages/admin/ReviewsAdminPage";
+import MyCertificatesPage from "./pages/certificates/MyCertificatesPage";
+import DashboardPage from "./pages/dashboard/DashboardPage";
+import LearningPage from "./pages/learning/LearningPage";
+import QuizPage from "./pages/learning/QuizPage";
+import CohortProgressPage from "./pages/instructor/CohortProgressPage";
+import InstructorClassesPage from "./pages/instructor/InstructorClassesPage";
+import SkillSignOffPage from "./pages/instructor/SkillSignOffPage";
+import VerifyCertificatePage from "./pages/verify/VerifyCertificatePage";
+import CheckInPage from "./pages/check-in/CheckInPage";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Queries and mutations still run without a connection so the service worker
+// can answer reads from its cache and writes can be queued for background sync.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { networkMode: "offlineFirst" },
+    mutations: { networkMode: "offlineFirst" },
+  },
+});
 
 const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/news" element={<NewsPage />} />
-          <Route path="/news/:id" element={<NewsDetail />} />
-          <Route path="/training" element={<TrainingProgramsList />} />
-          <Route path="/training/:slug" element={<TrainingDetailPage />} />
-          <Route path="/auth" element={<AuthPage />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
+  <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange storageKey="theme">
+    <QueryClientProvider client={queryClient}>
+      <I18nProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <ConnectionStatus />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/news" element={<NewsPage />} />
+              <Route path="/news/:id" element={<NewsDetail />} />
+              <Route path="/training" element={<TrainingProgramsList />} />
+              <Route path="/training/compare" element={<ComparePage />} />
+              <Route path="/training/:slug" element={<TrainingDetailPage />} />
+              <Route path="/schedule" element={<SchedulePage />} />
+              <Route path="/verify" element={<VerifyCertificatePage />} />
+              <Route path="/verify/:code" element={<VerifyCertificatePage />} />
+              <Route path="/auth" element={<AuthPage />} />
+              <Route
+                path="/admin/news"
+                element={
+                  <RequireRole>
+                    <NewsAdminPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/admin/training"
+                element={
+                  <RequireRole roles={["coordinator", "admin"]}>
+                    <TrainingAdminPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/admin/waitlist"
+                element={
+                  <RequireRole roles={["coordinator", "admin"]}>
+                    <WaitlistAdminPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/admin/certificates"
+                element={
+                  <RequireRole roles={["coordinator", "admin"]}>
+                    <CertificatesAdminPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/admin/quizzes"
+                element={
+                  <RequireRole roles={["coordinator", "admin"]}>
+                    <QuizAdminPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/admin/skills"
+                element={
+                  <RequireRole roles={["coordinator", "admin"]}>
+                    <SkillSheetsAdminPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/admin/reviews"
+                element={
+                  <RequireRole roles={["coordinator", "admin"]}>
+                    <ReviewsAdminPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/dashboard"
+                element={
+                  <RequireRole>
+                    <DashboardPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/certificates"
+                element={
+                  <RequireRole>
+                    <MyCertificatesPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/learn/:slug"
+                element={
+                  <RequireRole>
+                    <LearningPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/learn/:slug/quiz/:quizId"
+                element={
+                  <RequireRole>
+                    <QuizPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/check-in/:code"
+                element={
+                  <RequireRole>
+                    <CheckInPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/instructor/classes"
+                element={
+                  <RequireRole roles={["instructor", "coordinator", "admin"]}>
+                    <InstructorClassesPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/instructor/progress"
+                element={
+                  <RequireRole roles={["instructor", "coordinator", "admin"]}>
+                    <CohortProgressPage />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="/instructor/skills"
+                element={
+                  <RequireRole roles={["instructor", "coordinator", "admin"]}>
+                    <SkillSignOffPage />
+                  </RequireRole>
+                }
+              />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </I18nProvider>
+    </QueryClientProvider>
+  </ThemeProvider>
 );
 
 export default App;
@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { LucideIcon, Users, Scale, DollarSign, Building, ShieldCheck, HeartPulse } from "lucide-react";
 import PriorityModal from "./PriorityModal";
 import { useState } from "react";
+import { useTranslation } from "@/hooks/use-translation";
 
 interface Priority {
   icon: LucideIcon;
@@ -12,6 +13,7 @@ interface Priority {
 }
 
 const AboutSection = () => {
+  const { t } = useTranslation();
   const [selectedPriority, setSelectedPriority] = useState<Priority | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
@@ -23,38 +25,38 @@ const AboutSection = () => {
   const priorities: Priority[] = [
     {
       icon: ShieldCheck,
-      title: "Safety & Protection",
-      description: "Fire fighters have a dangerous job. We work to make it safer. Learn what tools, resources, and support are available to protect you and your family.",
+      title: t("home.about.safety.title"),
+      description: t("home.about.safety.description"),
       link: "safety-protection"
     },
     {
       icon: HeartPulse,
-      title: "Presumptive Health",
-      description: "Fire fighters are at a greater risk for cancer, heart and lung disease, and behavioral health conditions. Find out what presumptive coverage is available.",
+      title: t("home.about.health.title"),
+      description: t("home.about.health.description"),
       link: "presumptive-health"
     },
     {
       icon: Users,
-      title: "Cancer Awareness",
-      description: "Job-related cancer is the leading cause of line-of-duty deaths in the fire service. Learn what we are doing to combat this deadly disease.",
+      title: t("home.about.cancer.title"),
+      description: t("home.about.cancer.description"),
       link: "cancer-awareness"
     },
     {
       icon: Scale,
-      title: "Collective Bargaining",
-      description: "Every worker deserves a voice at the table. Learn what the union is doing to secure local, state, and federal collective bargaining.",
+      title: t("home.about.bargaining.title"),
+      description: t("home.about.bargaining.description"),
       link: "collective-bargaining"
     },
     {
       icon: DollarSign,
-      title: "Pay & Benefits",
-      description: "Navigating pension systems and choosing benefits can be daunting. Our union is here to help, offering assistance for members and affiliate leaders.",
+      title: t("home.about.pay.title"),
+      description: t("home.about.pay.description"),
       link: "pay-benefits"
     },
     {
       icon: Building,
-      title: "Training Excellence",
-      description: "Professional development and training programs that meet the highest industry standards for fire safety and emergency response education.",
+      title: t("home.about.training.title"),
+      description: t("home.about.training.description"),
       link: "training-excellence"
     }
   ];
@@ -64,14 +66,13 @@ const AboutSection = () => {
       <div className="container mx-auto px-6">
         <div className="text-center mb-16">
           <h3 className="inline-block bg-accent/10 backdrop-blur-sm px-4 py-2 rounded-lg border border-accent/30 text-sm font-semibold tracking-wider text-accent mb-4">
-            OUR PRIORITIES
+            {t("home.about.eyebrow")}
           </h3>
           <h2 className="text-4xl md:text-5xl font-bold text-foreground mb-6">
-            What Matters Most to <span className="text-accent">Fire Fighters</span>
+            {t("home.about.titleLead")} <span className="text-accent">{t("home.about.titleAccent")}</span>
           </h2>
           <p className="text-xl text-muted-foreground max-w-6xl mx-auto">
-            Our commitment to fire fighter safety, health, and professional advancement drives everything we do. 
-            These are the core areas where we focus our advocacy, training, and support efforts.
+            {t("home.about.subtitle")}
           </p>
         </div>
 
@@ -92,7 +93,7 @@ const AboutSection = () => {
                   className="text-accent border-accent hover:bg-accent hover:text-accent-foreground transition-all duration-300"
                   onClick={() => handleLearnMore(priority)}
                 >
-                  Learn More
+                  {t("catalog.learnMore")}
                 </Button>
               </CardContent>
             </Card>
@@ -101,11 +102,9 @@ const AboutSection = () => {
 
         {/* Mission Statement */}
         <div className="bg-primary text-primary-foreground rounded-2xl p-12 text-center">
-          <h3 className="text-3xl md:text-4xl font-bold mb-6">Our Mission</h3>
+          <h3 className="text-3xl md:text-4xl font-bold mb-6">{t("home.about.missionTitle")}</h3>
           <p className="text-l md:text-xl text-primary-foreground/90 max-w-7xl mx-auto leading-relaxed">
-            To advance the rights, safety, and future of fire fighters, emergency medical workers, and rescue workers 
-            through comprehensive training, advocacy, and professional development programs that serve communities 
-            across the United States and Canada.
+            {t("home.about.missionText")}
           </p>
         </div>
 
@@ -0,0 +1,160 @@
+import { useState } from "react"
+import { Bookmark, Link2, Plus, Trash2 } from "lucide-react"
+import Swal from "sweetalert2"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  useCatalogFilterPresets,
+  useDeleteCatalogFilterPreset,
+  useSaveCatalogFilterPreset,
+} from "@/hooks/use-catalog-filters"
+import { useTranslation } from "@/hooks/use-translation"
+import { cn } from "@/lib/utils"
+
+type CatalogPresetMenuProps = {
+  /** Signed-out visitors can still copy a link, just not save presets. */
+  userId: string | undefined
+  /** Query string of the filters currently applied. */
+  currentQuery: string
+  onApply: (query: string) => void
+  className?: string
+}
+
+export default function CatalogPresetMenu({ userId, currentQuery, onApply, className }: CatalogPresetMenuProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const { data: presets = [] } = useCatalogFilterPresets(userId)
+  const savePreset = useSaveCatalogFilterPreset()
+  const deletePreset = useDeleteCatalogFilterPreset()
+
+  const handleCopyLink = async () => {
+    setOpen(false)
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      Swal.fire({
+        icon: "success",
+        title: t("catalog.presets.linkCopiedTitle"),
+        text: t("catalog.presets.linkCopiedText"),
+        timer: 1800,
+        showConfirmButton: false,
+      })
+    } catch (error) {
+      console.error("Error copying catalog link:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("catalog.presets.copyFailedTitle"),
+        text: t("catalog.presets.copyFailedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleSave = async () => {
+    if (!userId) return
+    setOpen(false)
+    const { value: name } = await Swal.fire({
+      title: t("catalog.presets.saveTitle"),
+      input: "text",
+      inputLabel: t("catalog.presets.presetName"),
+      inputPlaceholder: t("catalog.presets.presetPlaceholder"),
+      inputValidator: (value) => (!value?.trim() ? t("catalog.presets.presetRequired") : undefined),
+      showCancelButton: true,
+      confirmButtonText: t("catalog.presets.save"),
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+    })
+    if (!name) return
+
+    try {
+      await savePreset.mutateAsync({ userId, name: name.trim(), query: currentQuery })
+      Swal.fire({
+        icon: "success",
+        title: t("catalog.presets.savedTitle"),
+        timer: 1500,
+        showConfirmButton: false,
+      })
+    } catch (error) {
+      console.error("Error saving filter preset:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("catalog.presets.saveFailedTitle"),
+        text: t("catalog.presets.saveFailedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePreset.mutateAsync(id)
+    } catch (error) {
+      console.error("Error deleting filter preset:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("catalog.presets.deleteFailedTitle"),
+        text: t("catalog.presets.deleteFailedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn("h-12 px-4", className)}>
+          <Bookmark className="w-5 h-5 mr-2" />
+          {t("catalog.presets.menu")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <div className="px-4 py-3 border-b font-semibold text-sm">{t("catalog.presets.savedFilters")}</div>
+        {!userId ? (
+          <p className="px-4 py-4 text-sm text-muted-foreground">{t("catalog.presets.signIn")}</p>
+        ) : presets.length === 0 ? (
+          <p className="px-4 py-4 text-sm text-muted-foreground">{t("catalog.presets.empty")}</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto divide-y">
+            {presets.map((preset) => (
+              <div
+                key={preset.id}
+                className={cn("flex items-center gap-2 px-2 py-1", preset.query === currentQuery && "bg-red-50")}
+              >
+                <button
+                  type="button"
+                  className="flex-1 px-2 py-1.5 text-left text-sm hover:underline"
+                  onClick={() => {
+                    onApply(preset.query)
+                    setOpen(false)
+                  }}
+                >
+                  {preset.name}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-gray-500 hover:text-red-600"
+                  aria-label={t("catalog.presets.delete", { name: preset.name })}
+                  onClick={() => handleDelete(preset.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2 border-t p-2">
+          {userId && (
+            <Button variant="ghost" size="sm" className="flex-1" onClick={handleSave}>
+              <Plus className="w-4 h-4 mr-1" />
+              {t("catalog.presets.saveCurrent")}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="flex-1" onClick={handleCopyLink}>
+            <Link2 className="w-4 h-4 mr-1" />
+            {t("catalog.presets.copyLink")}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,165 @@
+import { useState } from "react"
+import { Link } from "react-router-dom"
+import { AlarmClock, Award, Download, Loader2, RefreshCw, Share2, ShieldCheck } from "lucide-react"
+import Swal from "sweetalert2"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { downloadCertificatePdf } from "@/lib/certificatePdf"
+import {
+  certificateExpiryLabels,
+  certificateExpiryStyles,
+  certificateValidityLabels,
+  certificateValidityStyles,
+  formatVerificationCode,
+  getCertificateExpiryState,
+  getCertificateValidity,
+  getVerificationUrl,
+  type Certificate,
+} from "@/lib/certificates"
+import type { CertificateDetail, TrainingProgram } from "@/data/trainingData"
+import { useTranslation } from "@/hooks/use-translation"
+
+type CertificateCardProps = {
+  certificate: Certificate
+  rule?: CertificateDetail
+  refresher?: TrainingProgram | null
+  renewed?: boolean
+}
+
+export default function CertificateCard({ certificate, rule, refresher, renewed = false }: CertificateCardProps) {
+  const { t, formatDate } = useTranslation()
+  const [isDownloading, setIsDownloading] = useState(false)
+  const validity = getCertificateValidity(certificate)
+  const expiryState = getCertificateExpiryState(certificate)
+  const needsRenewal = !renewed && (validity === "expired" || expiryState !== null)
+
+  const handleDownload = async () => {
+    setIsDownloading(true)
+    try {
+      await downloadCertificatePdf(certificate)
+    } catch (error) {
+      console.error("Error generating certificate PDF:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("certificates.card.downloadFailedTitle"),
+        text: t("certificates.card.downloadFailedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const handleShare = async () => {
+    const url = getVerificationUrl(certificate.verificationCode)
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: certificate.certificationName, url })
+      } catch {
+        // Closing the share sheet rejects; nothing to report.
+      }
+      return
+    }
+
+    await navigator.clipboard.writeText(url)
+    Swal.fire({
+      icon: "success",
+      title: t("certificates.card.linkCopiedTitle"),
+      text: t("certificates.card.linkCopiedText"),
+      timer: 2000,
+      showConfirmButton: false,
+    })
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <Award className="w-8 h-8 text-red-600 flex-shrink-0" />
+            <div>
+              <h3 className="font-semibold text-foreground">{certificate.certificationName}</h3>
+              <p className="text-sm text-gray-600">{certificate.programTitle}</p>
+              <p className="text-xs text-gray-500">{certificate.issuer}</p>
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Badge variant="outline" className={certificateValidityStyles[validity]}>
+              {t(certificateValidityLabels[validity])}
+            </Badge>
+            {expiryState && !renewed && (
+              <Badge variant="outline" className={certificateExpiryStyles[expiryState]}>
+                {t(certificateExpiryLabels[expiryState])}
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div>
+            <p className="text-gray-500">{t("certificates.card.issued")}</p>
+            <p className="font-medium">{formatDate(certificate.issuedOn, "LLL dd, y")}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">{t("certificates.card.validUntil")}</p>
+            <p className="font-medium">
+              {certificate.expiresOn ? formatDate(certificate.expiresOn, "LLL dd, y") : t("certificates.card.noExpiry")}
+            </p>
+          </div>
+        </div>
+
+        {renewed && (
+          <p className="flex items-center text-sm text-green-700">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {t("certificates.card.renewed")}
+          </p>
+        )}
+
+        {needsRenewal && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm space-y-2">
+            <p className="flex items-center font-medium text-amber-900">
+              <AlarmClock className="w-4 h-4 mr-2" />
+              {rule?.renewalRequirement ?? t("certificates.card.recertificationRequired")}
+            </p>
+            {refresher && (
+              <Button size="sm" variant="outline" className="w-full" asChild>
+                <Link to={`/training/${refresher.slug}`}>{t("certificates.card.book", { program: refresher.title })}</Link>
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 pt-2 border-t">
+          <span className="font-mono text-xs text-gray-500">{formatVerificationCode(certificate.verificationCode)}</span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              aria-label={t("certificates.card.share")}
+              disabled={validity === "revoked"}
+              onClick={handleShare}
+            >
+              <Share2 className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to={`/verify/${formatVerificationCode(certificate.verificationCode)}`}>
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                {t("certificates.card.verify")}
+              </Link>
+            </Button>
+            <Button
+              size="sm"
+              className="bg-red-600 hover:bg-red-700"
+              disabled={isDownloading || validity === "revoked"}
+              onClick={handleDownload}
+            >
+              {isDownloading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              PDF
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
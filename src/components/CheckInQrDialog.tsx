@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { AlertTriangle, Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useCheckInCode } from "@/hooks/use-check-in"
+import { CHECK_IN_ROTATION_MS, checkInFlagLabels, getCheckInUrl, type CheckIn } from "@/lib/checkIn"
+import type { Enrollment } from "@/lib/enrollment"
+import type { TrainingSession } from "@/lib/schedule"
+
+type CheckInQrDialogProps = {
+  session: TrainingSession
+  roster: Enrollment[]
+  checkIns: CheckIn[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Shown on a laptop or projector at the training ground. The code rotates, so
+// a photo of it is useless to anyone who is not in the room.
+export default function CheckInQrDialog({ session, roster, checkIns, open, onOpenChange }: CheckInQrDialogProps) {
+  const { data: code, dataUpdatedAt, isError } = useCheckInCode(session.id, open)
+  const [qrDataUrl, setQrDataUrl] = useState<string>()
+  const [isQrFailed, setIsQrFailed] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!code) return
+    let isCurrent = true
+    import("qrcode")
+      .then((QRCode) => QRCode.toDataURL(getCheckInUrl(code.code), { width: 480, margin: 1 }))
+      .then((url) => {
+        if (!isCurrent) return
+        setQrDataUrl(url)
+        setIsQrFailed(false)
+      })
+      .catch((error) => {
+        console.error("Error rendering check-in QR code:", error)
+        if (isCurrent) setIsQrFailed(true)
+      })
+    return () => {
+      isCurrent = false
+    }
+  }, [code])
+
+  useEffect(() => {
+    if (!open) return
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(interval)
+  }, [open])
+
+  const secondsLeft = Math.max(Math.ceil((dataUpdatedAt + CHECK_IN_ROTATION_MS - now) / 1000), 0)
+  const namesById = new Map(roster.map((enrollment) => [enrollment.id, enrollment.fullName]))
+  const checkedIn = new Set(checkIns.filter((checkIn) => checkIn.attendanceStatus).map((checkIn) => checkIn.enrollmentId))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Check in · {session.title}</DialogTitle>
+          <DialogDescription>
+            Scan with your phone while signed in to record attendance. The code changes every{" "}
+            {CHECK_IN_ROTATION_MS / 1000} seconds.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-5 gap-6">
+          <div className="md:col-span-3 flex flex-col items-center">
+            {isError ? (
+              <p className="py-24 text-center text-red-700">Check-in codes could not be issued. Close and try again.</p>
+            ) : isQrFailed ? (
+              <p className="py-24 text-center text-red-700">The QR code could not be displayed. Close and try again.</p>
+            ) : qrDataUrl ? (
+              <img src={qrDataUrl} alt="Check-in QR code" className="w-full max-w-md aspect-square" />
+            ) : (
+              <Loader2 className="w-10 h-10 my-24 animate-spin text-gray-400" />
+            )}
+            <p className="text-sm text-gray-500 mt-2">New code in {secondsLeft}s</p>
+          </div>
+
+          <div className="md:col-span-2 space-y-3">
+            <p className="text-4xl font-bold text-foreground">
+              {checkedIn.size}
+              <span className="text-xl text-gray-500">/{roster.length}</span>
+            </p>
+            <p className="text-sm text-gray-600">trainees checked in</p>
+            <div className="max-h-80 overflow-y-auto divide-y">
+              {checkIns.slice(0, 20).map((checkIn) => (
+                <div key={checkIn.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                  <span className="text-foreground">{namesById.get(checkIn.enrollmentId) ?? "Trainee"}</span>
+                  {checkIn.flag ? (
+                    <Badge variant="outline" className="bg-amber-100 text-amber-800">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      {checkInFlagLabels[checkIn.flag]}
+                    </Badge>
+                  ) : (
+                    <span className="text-gray-500">{format(new Date(checkIn.scannedAt), "HH:mm:ss")}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
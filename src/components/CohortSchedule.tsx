@@ -0,0 +1,62 @@
+import { useMemo } from "react"
+import { CalendarDays, List } from "lucide-react"
+import CohortScheduleTable from "@/components/CohortScheduleTable"
+import SessionCalendar from "@/components/SessionCalendar"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useCohortSessions } from "@/hooks/use-schedule"
+import { useTranslation } from "@/hooks/use-translation"
+import type { TrainingCohort } from "@/lib/schedule"
+
+type CohortScheduleProps = {
+  cohorts: TrainingCohort[]
+  isLoading: boolean
+  showProgram?: boolean
+  onEnroll?: (cohort: TrainingCohort) => void
+}
+
+// Upcoming cohorts as a table, with their sessions on a month calendar.
+export default function CohortSchedule({ cohorts, isLoading, showProgram, onEnroll }: CohortScheduleProps) {
+  const { t } = useTranslation()
+  const cohortIds = useMemo(() => cohorts.map((cohort) => cohort.id), [cohorts])
+  const { data: sessions = [], isLoading: isSessionsLoading } = useCohortSessions(cohortIds)
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 3 }, (_, index) => (
+          <Skeleton key={index} className="h-14 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (cohorts.length === 0) {
+    return <p className="text-center text-gray-600 py-8">{t("schedule.empty")}</p>
+  }
+
+  return (
+    <Tabs defaultValue="list">
+      <TabsList>
+        <TabsTrigger value="list">
+          <List className="w-4 h-4 mr-2" />
+          {t("schedule.upcomingSessions")}
+        </TabsTrigger>
+        <TabsTrigger value="calendar">
+          <CalendarDays className="w-4 h-4 mr-2" />
+          {t("schedule.calendar")}
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value="list" className="pt-4">
+        <CohortScheduleTable cohorts={cohorts} showProgram={showProgram} onEnroll={onEnroll} />
+      </TabsContent>
+      <TabsContent value="calendar" className="pt-4">
+        {isSessionsLoading ? (
+          <Skeleton className="h-80 w-full" />
+        ) : (
+          <SessionCalendar sessions={sessions} cohorts={cohorts} />
+        )}
+      </TabsContent>
+    </Tabs>
+  )
+}
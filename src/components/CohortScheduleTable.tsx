@@ -0,0 +1,80 @@
+import { Link } from "react-router-dom"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTranslation } from "@/hooks/use-translation"
+import { isCohortWaitlisted, type TrainingCohort } from "@/lib/schedule"
+
+type CohortScheduleTableProps = {
+  cohorts: TrainingCohort[]
+  /** Adds a program column, for schedules that span the whole catalog. */
+  showProgram?: boolean
+  onEnroll?: (cohort: TrainingCohort) => void
+}
+
+export default function CohortScheduleTable({ cohorts, showProgram = false, onEnroll }: CohortScheduleTableProps) {
+  const { t, formatDate } = useTranslation()
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {showProgram && <TableHead>{t("schedule.program")}</TableHead>}
+          <TableHead>{t("schedule.cohort")}</TableHead>
+          <TableHead>{t("schedule.dates")}</TableHead>
+          <TableHead>{t("schedule.venue")}</TableHead>
+          <TableHead>{t("schedule.instructors")}</TableHead>
+          <TableHead className="w-40">{t("schedule.seats")}</TableHead>
+          {onEnroll && <TableHead className="text-right">{t("schedule.enroll")}</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {cohorts.map((cohort) => (
+          <TableRow key={cohort.id}>
+            {showProgram && (
+              <TableCell>
+                <Link to={`/training/${cohort.programSlug}`} className="font-medium text-foreground hover:text-red-600">
+                  {cohort.programTitle}
+                </Link>
+                <p className="text-xs text-gray-500">{cohort.programCategory}</p>
+              </TableCell>
+            )}
+            <TableCell className="font-medium">{cohort.code}</TableCell>
+            <TableCell className="whitespace-nowrap">
+              {formatDate(cohort.startDate, "LLL dd")} – {formatDate(cohort.endDate, "LLL dd, y")}
+            </TableCell>
+            <TableCell>
+              <p>{cohort.venue}</p>
+              <p className="text-xs text-gray-500">{cohort.location}</p>
+            </TableCell>
+            <TableCell>{cohort.instructors.join(", ") || t("schedule.toBeAnnounced")}</TableCell>
+            <TableCell>
+              <Progress value={(cohort.seatsTaken / cohort.capacity) * 100} className="h-2 mb-1" />
+              <p className="text-xs text-gray-600">
+                {cohort.seatsRemaining > 0
+                  ? t("schedule.seatsLeft", { remaining: cohort.seatsRemaining, capacity: cohort.capacity })
+                  : t("schedule.full")}
+                {cohort.waitlistCount > 0 && ` · ${t("schedule.waiting", { count: cohort.waitlistCount })}`}
+              </p>
+            </TableCell>
+            {onEnroll && (
+              <TableCell className="text-right">
+                {!isCohortWaitlisted(cohort) ? (
+                  <Button size="sm" className="bg-red-600 hover:bg-red-700" onClick={() => onEnroll(cohort)}>
+                    {t("schedule.enroll")}
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => onEnroll(cohort)}>
+                    <Badge variant="secondary" className="mr-2 px-1.5">{t("schedule.full")}</Badge>
+                    {t("schedule.joinWaitlist")}
+                  </Button>
+                )}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { Award, GraduationCap, History, LayoutGrid, Newspaper, Users, type LucideIcon } from "lucide-react"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command"
+import { DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { teamMembers } from "@/data/teamData"
+import { useDebouncedValue } from "@/hooks/use-debounce"
+import { useNewsList } from "@/hooks/use-news"
+import { useTrainingPrograms } from "@/hooks/use-training-programs"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  clearRecentSearches,
+  loadRecentSearches,
+  saveRecentSearch,
+  scoreSearchResult,
+  searchGroupLabels,
+  toCertificationResults,
+  toNewsResults,
+  toProgramResults,
+  toSiteSectionResults,
+  toTeamResults,
+  type SearchGroup,
+  type SearchResult,
+} from "@/lib/siteSearch"
+
+const groupIcons: Record<SearchGroup, LucideIcon> = {
+  programs: GraduationCap,
+  certifications: Award,
+  news: Newspaper,
+  team: Users,
+  pages: LayoutGrid,
+}
+
+const searchGroups: SearchGroup[] = ["programs", "certifications", "news", "team", "pages"]
+
+type CommandPaletteProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Role-aware account pages from the header, searchable alongside public pages. */
+  accountLinks: { to: string; label: string }[]
+}
+
+// Site-wide search, opened from the header or with Ctrl/Cmd+K anywhere.
+export default function CommandPalette({ open, onOpenChange, accountLinks }: CommandPaletteProps) {
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        onOpenChange(!open)
+      }
+    }
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [open, onOpenChange])
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      commandProps={{
+        // cmdk hands over the item value (its id); the label and keywords ride along as keywords.
+        filter: (_value, search, keywords = []) => scoreSearchResult(keywords[0] ?? "", keywords.slice(1), search),
+      }}
+    >
+      <DialogTitle className="sr-only">{t("search.title")}</DialogTitle>
+      <DialogDescription className="sr-only">{t("search.description")}</DialogDescription>
+      {/* Mounted only while open, so nothing is fetched until someone searches. */}
+      <CommandPaletteResults accountLinks={accountLinks} onClose={() => onOpenChange(false)} />
+    </CommandDialog>
+  )
+}
+
+function CommandPaletteResults({
+  accountLinks,
+  onClose,
+}: {
+  accountLinks: CommandPaletteProps["accountLinks"]
+  onClose: () => void
+}) {
+  const navigate = useNavigate()
+  const { t } = useTranslation()
+  const [search, setSearch] = useState("")
+  const [recentSearches, setRecentSearches] = useState(loadRecentSearches)
+  const { data: programs = [] } = useTrainingPrograms()
+  const debouncedSearch = useDebouncedValue(search.trim())
+  // News is searched on the server so older articles turn up too.
+  const { data: news } = useNewsList({ search: debouncedSearch, pageSize: 20 }, debouncedSearch.length > 0)
+
+  const resultsByGroup = useMemo(() => {
+    const accountPages: SearchResult[] = accountLinks.map((link) => ({
+      id: `page:${link.to}`,
+      group: "pages",
+      label: link.label,
+      description: t("search.yourAccount"),
+      to: link.to,
+      keywords: [],
+    }))
+    return {
+      programs: toProgramResults(programs),
+      certifications: toCertificationResults(programs),
+      news: debouncedSearch ? toNewsResults(news?.articles ?? []) : [],
+      team: toTeamResults(teamMembers),
+      pages: [...toSiteSectionResults(t), ...accountPages],
+    } satisfies Record<SearchGroup, SearchResult[]>
+  }, [programs, news, debouncedSearch, accountLinks, t])
+
+  const isSearching = search.trim().length > 0
+
+  const handleSelect = (result: SearchResult) => {
+    setRecentSearches(saveRecentSearch(result))
+    onClose()
+    navigate(result.to)
+  }
+
+  return (
+    <>
+      <CommandInput
+        placeholder={t("search.placeholder")}
+        value={search}
+        onValueChange={setSearch}
+      />
+      <CommandList className="max-h-[420px]">
+        <CommandEmpty>{t("search.noResults", { search })}</CommandEmpty>
+
+        {!isSearching && recentSearches.length > 0 && (
+          <>
+            <CommandGroup heading={t("search.recent")}>
+              {recentSearches.map((recent) => (
+                <CommandItem
+                  key={recent.id}
+                  value={`recent:${recent.id}`}
+                  onSelect={() => handleSelect({ ...recent, keywords: [] })}
+                >
+                  <History className="mr-2 text-muted-foreground" />
+                  <span className="truncate">{recent.label}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground">
+                    {t(searchGroupLabels[recent.group])}
+                  </span>
+                </CommandItem>
+              ))}
+              <CommandItem
+                value="recent:clear"
+                onSelect={() => {
+                  clearRecentSearches()
+                  setRecentSearches([])
+                }}
+                className="text-muted-foreground"
+              >
+                {t("search.clearRecent")}
+              </CommandItem>
+            </CommandGroup>
+            <CommandSeparator />
+          </>
+        )}
+
+        {searchGroups
+          // Before typing, only pages are listed; everything else waits for a query.
+          .filter((group) => isSearching || group === "pages")
+          .map((group) => {
+            const Icon = groupIcons[group]
+            return (
+              <CommandGroup key={group} heading={t(searchGroupLabels[group])}>
+                {resultsByGroup[group].map((result) => (
+                  <CommandItem
+                    key={result.id}
+                    value={result.id}
+                    keywords={[result.label, result.description, ...result.keywords]}
+                    onSelect={() => handleSelect(result)}
+                  >
+                    <Icon className="mr-2 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="truncate">{result.label}</p>
+                      <p className="truncate text-xs text-muted-foreground">{result.description}</p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )
+          })}
+      </CommandList>
+    </>
+  )
+}
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { CloudUpload, RefreshCw, Wifi, WifiOff } from "lucide-react"
+import Swal from "sweetalert2"
+import { Button } from "@/components/ui/button"
+import { supabase } from "@/lib/supabaseClient"
+import { SYNC_TAG, clearOfflineData, flushQueue, queuedMutationLabels } from "@/lib/offline"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useOnlineStatus, usePrecacheForOffline, useQueuedMutations } from "@/hooks/use-offline"
+import { useTranslation } from "@/hooks/use-translation"
+import { attendanceKeys } from "@/hooks/use-attendance"
+import { skillKeys } from "@/hooks/use-skills"
+import { certificateKeys } from "@/hooks/use-certificates"
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+// Mounted once for the whole app: keeps offline data warm, drains the sync
+// queue when the connection returns and shows where things stand.
+export default function ConnectionStatus() {
+  const queryClient = useQueryClient()
+  const { t } = useTranslation()
+  const { user } = useCurrentUser()
+  const userId = user?.id
+  const isOnline = useOnlineStatus()
+  const queued = useQueuedMutations(userId)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [isBackOnline, setIsBackOnline] = useState(false)
+  const wasOffline = useRef(!navigator.onLine)
+
+  usePrecacheForOffline(userId)
+
+  const hasQueued = queued.length > 0
+
+  const syncQueue = useCallback(async () => {
+    if (!userId || !navigator.onLine) return
+    setIsSyncing(true)
+    try {
+      const { synced, failed } = await flushQueue(userId)
+      if (synced.length > 0 || failed.length > 0) {
+        queryClient.invalidateQueries({ queryKey: attendanceKeys.all })
+        queryClient.invalidateQueries({ queryKey: skillKeys.all })
+        queryClient.invalidateQueries({ queryKey: certificateKeys.all })
+      }
+      if (failed.length > 0) {
+        Swal.fire({
+          icon: "warning",
+          title: t("offline.rejectedTitle"),
+          html: `<p>${t("offline.rejectedText")}</p><ul style="text-align: left; margin-top: 12px;">${failed
+            .map(({ mutation, message }) => `<li>${queuedMutationLabels[mutation.kind]}: ${escapeHtml(message)}</li>`)
+            .join("")}</ul>`,
+          confirmButtonColor: "#dc2626",
+        })
+      }
+    } catch (error) {
+      console.error("Error syncing offline changes:", error)
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [userId, queryClient, t])
+
+  // Drains on sign-in and whenever the connection comes back.
+  useEffect(() => {
+    if (isOnline && hasQueued) syncQueue()
+  }, [isOnline, hasQueued, syncQueue])
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === SYNC_TAG) syncQueue()
+    }
+    navigator.serviceWorker.addEventListener("message", handleMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage)
+  }, [syncQueue])
+
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_OUT") clearOfflineData()
+    })
+    return () => subscription.unsubscribe()
+  }, [])
+
+  useEffect(() => {
+    if (!isOnline) {
+      wasOffline.current = true
+      setIsBackOnline(false)
+      return
+    }
+    if (!wasOffline.current) return
+
+    wasOffline.current = false
+    setIsBackOnline(true)
+    const timer = window.setTimeout(() => setIsBackOnline(false), 3000)
+    return () => window.clearTimeout(timer)
+  }, [isOnline])
+
+  if (isOnline && !hasQueued && !isSyncing && !isBackOnline) return null
+
+  const pendingText = t(queued.length === 1 ? "offline.pending.one" : "offline.pending.other", {
+    count: queued.length,
+  })
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={`fixed bottom-4 left-4 z-50 flex items-center gap-3 rounded-full px-4 py-2 text-sm font-medium shadow-lg ${
+        isOnline ? "bg-card text-card-foreground border" : "bg-amber-500 text-white"
+      }`}
+    >
+      {!isOnline ? (
+        <>
+          <WifiOff className="h-4 w-4 shrink-0" />
+          <span>
+            {t("offline.offlineNotice")}
+            {hasQueued && <span className="block text-xs font-normal opacity-90">{pendingText}</span>}
+          </span>
+        </>
+      ) : isSyncing ? (
+        <>
+          <RefreshCw className="h-4 w-4 shrink-0 animate-spin" />
+          <span>{t("offline.syncing")}</span>
+        </>
+      ) : hasQueued ? (
+        <>
+          <CloudUpload className="h-4 w-4 shrink-0 text-amber-500" />
+          <span>{pendingText}</span>
+          <Button size="sm" variant="outline" className="h-7 rounded-full" onClick={syncQueue}>
+            {t("offline.syncNow")}
+          </Button>
+        </>
+      ) : (
+        <>
+          <Wifi className="h-4 w-4 shrink-0 text-green-600" />
+          <span>{t("offline.backOnline")}</span>
+        </>
+      )}
+    </div>
+  )
+}
@@ -4,32 +4,34 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Phone, Mail, MapPin, Clock, Flame } from "lucide-react";
 import InteractiveMap from "./InteractiveMap";
+import { useTranslation } from "@/hooks/use-translation";
 
 const ContactSection = () => {
+  const { t } = useTranslation();
   const contactInfo = [
     {
       icon: Phone,
-      title: "Phone",
+      title: t("home.contact.phone"),
       details: ["+1 (555) 123-4567", "+1 (555) 987-6543"],
-      subtitle: "24/7 Emergency Line Available"
+      subtitle: t("home.contact.phoneSubtitle")
     },
     {
       icon: Mail,
-      title: "Email",
+      title: t("home.contact.email"),
       details: ["info@firetraininghse.com", "emergency@firetraininghse.com"],
-      subtitle: "Quick Response Guaranteed"
+      subtitle: t("home.contact.emailSubtitle")
     },
     {
       icon: MapPin,
-      title: "Location",
+      title: t("home.contact.location"),
       details: ["Jl. Badak LNG, Bontang Utara", "Bontang, Kalimantan Timur, Indonesia"],
-      subtitle: "PT Badak LNG Facility"
+      subtitle: t("home.contact.locationSubtitle")
     },
     {
       icon: Clock,
-      title: "Business Hours",
-      details: ["Mon-Fri: 8:00 AM - 6:00 PM", "Sat: 9:00 AM - 4:00 PM"],
-      subtitle: "Emergency Services 24/7"
+      title: t("home.contact.hours"),
+      details: [t("home.contact.weekdayHours"), t("home.contact.saturdayHours")],
+      subtitle: t("home.contact.hoursSubtitle")
     }
   ];
 
@@ -38,11 +40,10 @@ const ContactSection = () => {
       <div className="container mx-auto px-6">
         <div className="text-center mb-16">
           <h2 className="text-4xl md:text-5xl font-bold text-foreground mb-6">
-            Get In <span className="text-primary">Touch</span>
+            {t("home.contact.titleLead")} <span className="text-primary">{t("home.contact.titleAccent")}</span>
           </h2>
           <p className="text-l text-muted-foreground max-w-3xl mx-auto">
-            Ready to enhance your fire safety knowledge or need HSE consulting? 
-            Contact us today to discuss your training needs and safety requirements.
+            {t("home.contact.subtitle")}
           </p>
         </div>
 
@@ -54,7 +55,7 @@ const ContactSection = () => {
                 <div className="bg-accent p-2 rounded-lg">
                   <Flame className="h-6 w-6 text-accent-foreground" />
                 </div>
-                Send Us a Message
+                {t("home.contact.formTitle")}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -62,61 +63,61 @@ const ContactSection = () => {
                 <div className="grid md:grid-cols-2 gap-4">
                   <div>
                     <label className="text-sm font-medium text-foreground mb-2 block">
-                      First Name *
+                      {t("home.contact.firstName")}
                     </label>
-                    <Input placeholder="Your first name" className="border-border" />
+                    <Input placeholder={t("home.contact.firstNamePlaceholder")} className="border-border" />
                   </div>
                   <div>
                     <label className="text-sm font-medium text-foreground mb-2 block">
-                      Last Name *
+                      {t("home.contact.lastName")}
                     </label>
-                    <Input placeholder="Your last name" className="border-border" />
+                    <Input placeholder={t("home.contact.lastNamePlaceholder")} className="border-border" />
                   </div>
                 </div>
                 
                 <div>
                   <label className="text-sm font-medium text-foreground mb-2 block">
-                    Email Address *
+                    {t("home.contact.emailAddress")}
                   </label>
                   <Input type="email" placeholder="your.email@example.com" className="border-border" />
                 </div>
                 
                 <div>
                   <label className="text-sm font-medium text-foreground mb-2 block">
-                    Phone Number
+                    {t("home.contact.phoneNumber")}
                   </label>
                   <Input type="tel" placeholder="+1 (555) 123-4567" className="border-border" />
                 </div>
                 
                 <div>
                   <label className="text-sm font-medium text-foreground mb-2 block">
-                    Organization/Company
+                    {t("home.contact.organization")}
                   </label>
-                  <Input placeholder="Your organization name" className="border-border" />
+                  <Input placeholder={t("home.contact.organizationPlaceholder")} className="border-border" />
                 </div>
                 
                 <div>
                   <label className="text-sm font-medium text-foreground mb-2 block">
-                    Training Interest
+                    {t("home.contact.trainingInterest")}
                   </label>
                   <select className="w-full p-3 border border-border rounded-lg bg-background text-foreground">
-                    <option value="">Select training program</option>
-                    <option value="fire-safety">Fire Safety Training</option>
-                    <option value="hse-consulting">HSE Consulting</option>
-                    <option value="industrial-safety">Industrial Safety</option>
-                    <option value="team-leadership">Team Leadership</option>
-                    <option value="building-safety">Building Safety</option>
-                    <option value="equipment-training">Equipment Training</option>
-                    <option value="custom">Custom Training Solution</option>
+                    <option value="">{t("home.contact.interest.placeholder")}</option>
+                    <option value="fire-safety">{t("home.contact.interest.fire_safety")}</option>
+                    <option value="hse-consulting">{t("home.contact.interest.hse_consulting")}</option>
+                    <option value="industrial-safety">{t("home.contact.interest.industrial_safety")}</option>
+                    <option value="team-leadership">{t("home.contact.interest.team_leadership")}</option>
+                    <option value="building-safety">{t("home.contact.interest.building_safety")}</option>
+                    <option value="equipment-training">{t("home.contact.interest.equipment_training")}</option>
+                    <option value="custom">{t("home.contact.interest.custom")}</option>
                   </select>
                 </div>
                 
                 <div>
                   <label className="text-sm font-medium text-foreground mb-2 block">
-                    Message *
+                    {t("home.contact.message")}
                   </label>
                   <Textarea 
-                    placeholder="Tell us about your training needs, number of participants, preferred dates, or any specific requirements..."
+                    placeholder={t("home.contact.messagePlaceholder")}
                     className="min-h-[120px] border-border"
                   />
                 </div>
@@ -126,13 +127,13 @@ const ContactSection = () => {
                   className="w-full bg-accent hover:bg-accent/90 text-accent-foreground transition-all duration-300"
                   size="lg"
                 >
-                  Send Message
+                  {t("home.contact.send")}
                 </Button>
               </form>
               
               <div className="text-center pt-4">
                 <p className="text-sm text-muted-foreground">
-                  * Required fields. We'll respond within 24 hours.
+                  {t("home.contact.requiredNote")}
                 </p>
               </div>
             </CardContent>
@@ -142,10 +143,9 @@ const ContactSection = () => {
           <div className="space-y-6">
             <Card className="bg-accent border-0 text-accent-foreground">
               <CardContent className="p-8">
-                <h3 className="text-2xl font-bold mb-4">Emergency Contact</h3>
+                <h3 className="text-2xl font-bold mb-4">{t("home.contact.emergencyTitle")}</h3>
                 <p className="text-primary-foreground/90 mb-4">
-                  For immediate fire safety emergencies or urgent consulting needs, 
-                  our emergency response team is available 24/7.
+                  {t("home.contact.emergencyText")}
                 </p>
                 <Button 
                   size="lg"
@@ -154,7 +154,7 @@ const ContactSection = () => {
                   onClick={() => window.location.href = 'tel:12345'}
                 >
                   <Phone className="h-5 w-5 mr-2" />
-                  Call Emergency Line
+                  {t("home.contact.callEmergency")}
                 </Button>
               </CardContent>
             </Card>
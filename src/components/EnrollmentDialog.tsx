@@ -0,0 +1,415 @@
+import { useEffect, useMemo, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { CalendarDays, CheckCircle, Clock, Loader2, MapPin, UserCheck, Users } from "lucide-react"
+import Swal from "sweetalert2"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Skeleton } from "@/components/ui/skeleton"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useEnroll, useUserEnrollments } from "@/hooks/use-enrollment"
+import { useCohort, useCohorts } from "@/hooks/use-schedule"
+import { useTranslation } from "@/hooks/use-translation"
+import { enrollmentStatusLabels, type Enrollment, type EnrollmentInput } from "@/lib/enrollment"
+import { isCohortWaitlisted, type TrainingCohort } from "@/lib/schedule"
+import type { I18n } from "@/lib/i18n"
+import type { TrainingProgram } from "@/data/trainingData"
+import { cn } from "@/lib/utils"
+
+// Built per locale so validation messages follow the language switcher.
+const createEnrollmentSchema = (t: I18n["t"]) =>
+  z.object({
+    cohortId: z.string().min(1, t("enrollDialog.validation.cohort")),
+    fullName: z.string().trim().min(3, t("enrollDialog.validation.fullName")),
+    email: z.string().trim().email(t("enrollDialog.validation.email")),
+    phone: z.string().trim().min(8, t("enrollDialog.validation.phone")),
+    employer: z.string().trim().min(2, t("enrollDialog.validation.employer")),
+    jobTitle: z.string().trim().min(2, t("enrollDialog.validation.jobTitle")),
+    employeeId: z.string().trim(),
+    prerequisitesAccepted: z.literal(true, {
+      errorMap: () => ({ message: t("enrollDialog.validation.prerequisites") }),
+    }),
+    medicalFitnessDeclared: z.literal(true, {
+      errorMap: () => ({ message: t("enrollDialog.validation.medical") }),
+    }),
+    medicalNotes: z.string().trim(),
+  })
+
+type EnrollmentFormValues = z.infer<ReturnType<typeof createEnrollmentSchema>>
+
+const steps = [
+  { id: "cohort", title: "enrollDialog.step.cohort", fields: ["cohortId"] },
+  {
+    id: "details",
+    title: "enrollDialog.step.details",
+    fields: ["fullName", "email", "phone", "employer", "jobTitle", "employeeId"],
+  },
+  {
+    id: "declarations",
+    title: "enrollDialog.step.declarations",
+    fields: ["prerequisitesAccepted", "medicalFitnessDeclared", "medicalNotes"],
+  },
+] as const
+
+const formatCohortDates = (cohort: TrainingCohort, formatDate: I18n["formatDate"]) =>
+  `${formatDate(cohort.startDate, "LLL dd, y")} – ${formatDate(cohort.endDate, "LLL dd, y")}`
+
+type EnrollmentDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  program: TrainingProgram
+  /** Preselects a cohort, e.g. when enrolling from a row of the schedule. */
+  initialCohortId?: string
+}
+
+export default function EnrollmentDialog({ open, onOpenChange, program, initialCohortId }: EnrollmentDialogProps) {
+  const { t, formatDate, formatCurrency } = useTranslation()
+  const { user, profile } = useCurrentUser()
+  const { data: cohorts = [], isLoading: isCohortsLoading } = useCohorts({ programId: program.id }, open)
+  const { data: enrollments = [] } = useUserEnrollments(user?.id)
+  const enroll = useEnroll()
+
+  const [stepIndex, setStepIndex] = useState(0)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const { data: enrolledCohort } = useCohort(enrollment?.cohortId)
+
+  const enrollmentSchema = useMemo(() => createEnrollmentSchema(t), [t])
+  const form = useForm<EnrollmentFormValues>({
+    resolver: zodResolver(enrollmentSchema),
+  })
+
+  // Prefilled from primitives so a session refresh does not wipe a half-filled form.
+  const defaultFullName = profile?.fullName || user?.user_metadata?.full_name || ""
+  const defaultEmail = profile?.email || user?.email || ""
+  const defaultPhone = profile?.phone ?? ""
+
+  useEffect(() => {
+    if (!open) return
+    setStepIndex(0)
+    setEnrollment(null)
+    form.reset({
+      cohortId: initialCohortId ?? "",
+      fullName: defaultFullName,
+      email: defaultEmail,
+      phone: defaultPhone,
+      employer: "",
+      jobTitle: "",
+      employeeId: "",
+      prerequisitesAccepted: undefined,
+      medicalFitnessDeclared: undefined,
+      medicalNotes: "",
+    })
+  }, [open, initialCohortId, defaultFullName, defaultEmail, defaultPhone, form])
+
+  const activeCohortIds = new Set(
+    enrollments.filter((item) => item.status !== "cancelled").map((item) => item.cohortId)
+  )
+  const selectedCohort = cohorts.find((cohort) => cohort.id === form.watch("cohortId"))
+  const step = steps[stepIndex]
+  const isLastStep = stepIndex === steps.length - 1
+
+  const handleNext = async () => {
+    if (await form.trigger([...step.fields])) setStepIndex((index) => index + 1)
+  }
+
+  const handleSubmit = async (values: EnrollmentFormValues) => {
+    try {
+      // The resolver has validated every field by the time this runs.
+      setEnrollment(await enroll.mutateAsync(values as EnrollmentInput))
+    } catch (error) {
+      console.error("Error enrolling:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("enrollDialog.failedTitle"),
+        text: error instanceof Error && error.message ? error.message : t("enrollDialog.failedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const textField = (name: "fullName" | "email" | "phone" | "employer" | "jobTitle" | "employeeId", label: string, type = "text") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type={type} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        {enrollment ? (
+          <div className="text-center py-6 space-y-4">
+            <CheckCircle className="w-16 h-16 text-green-500 mx-auto" />
+            <DialogHeader>
+              <DialogTitle className="text-2xl text-center">
+                {t(enrollment.status === "waitlisted" ? "enrollDialog.waitlistedTitle" : "enrollDialog.receivedTitle")}
+              </DialogTitle>
+              <DialogDescription className="text-center">
+                {enrollment.status === "waitlisted"
+                  ? t("enrollDialog.waitlistedText", { position: enrollment.waitlistPosition })
+                  : t("enrollDialog.receivedText")}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="rounded-lg border bg-muted p-4 text-left space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">{t("schedule.program")}</span>
+                <span className="font-medium">{program.title}</span>
+              </div>
+              {enrolledCohort && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t("schedule.cohort")}</span>
+                    <span className="font-medium">{enrolledCohort.code}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t("schedule.dates")}</span>
+                    <span className="font-medium">{formatCohortDates(enrolledCohort, formatDate)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t("enrollDialog.seatsRemaining")}</span>
+                    <span className="font-medium">
+                      {t("enrollDialog.seatsOf", {
+                        remaining: enrolledCohort.seatsRemaining,
+                        capacity: enrolledCohort.capacity,
+                      })}
+                    </span>
+                  </div>
+                </>
+              )}
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">{t("enrollDialog.status")}</span>
+                <Badge variant={enrollment.status === "waitlisted" ? "secondary" : "default"}>
+                  {t(enrollmentStatusLabels[enrollment.status])}
+                </Badge>
+              </div>
+            </div>
+            <Button className="bg-red-600 hover:bg-red-700" onClick={() => onOpenChange(false)}>
+              {t("enrollDialog.done")}
+            </Button>
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>{t("enrollDialog.title", { title: program.title })}</DialogTitle>
+              <DialogDescription>
+                {t("enrollDialog.stepOf", { step: stepIndex + 1, total: steps.length, title: t(step.title) })}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex gap-2">
+              {steps.map((item, index) => (
+                <div
+                  key={item.id}
+                  className={cn("h-1.5 flex-1 rounded-full", index <= stepIndex ? "bg-red-600" : "bg-gray-200")}
+                />
+              ))}
+            </div>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+                {step.id === "cohort" && (
+                  <FormField
+                    control={form.control}
+                    name="cohortId"
+                    render={({ field }) => (
+                      <FormItem>
+                        {isCohortsLoading ? (
+                          <div className="space-y-3">
+                            <Skeleton className="h-24 w-full" />
+                            <Skeleton className="h-24 w-full" />
+                          </div>
+                        ) : cohorts.length === 0 ? (
+                          <p className="text-center text-gray-600 py-8">
+                            {t("enrollDialog.noCohorts")}
+                          </p>
+                        ) : (
+                          <FormControl>
+                            <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-3">
+                              {cohorts.map((cohort) => {
+                                const isEnrolled = activeCohortIds.has(cohort.id)
+                                const isFull = isCohortWaitlisted(cohort)
+                                return (
+                                  <label
+                                    key={cohort.id}
+                                    className={cn(
+                                      "flex items-start gap-4 rounded-lg border p-4 cursor-pointer transition-colors",
+                                      field.value === cohort.id ? "border-red-600 bg-red-50" : "hover:bg-muted",
+                                      isEnrolled && "cursor-not-allowed opacity-60"
+                                    )}
+                                  >
+                                    <RadioGroupItem value={cohort.id} disabled={isEnrolled} className="mt-1" />
+                                    <div className="flex-1 space-y-1">
+                                      <div className="flex items-center justify-between gap-2">
+                                        <span className="font-semibold">{cohort.code}</span>
+                                        {isEnrolled ? (
+                                          <Badge variant="secondary">{t("enrollDialog.alreadyEnrolled")}</Badge>
+                                        ) : isFull ? (
+                                          <Badge variant="secondary">
+                                            {cohort.waitlistCount > 0
+                                              ? t("enrollDialog.fullWaiting", { count: cohort.waitlistCount })
+                                              : t("enrollDialog.fullJoinWaitlist")}
+                                          </Badge>
+                                        ) : (
+                                          <Badge className="bg-green-600">
+                                            {t("enrollDialog.seatsLeft", { count: cohort.seatsRemaining })}
+                                          </Badge>
+                                        )}
+                                      </div>
+                                      <p className="flex items-center text-sm text-gray-600">
+                                        <CalendarDays className="w-4 h-4 mr-2" />
+                                        {formatCohortDates(cohort, formatDate)}
+                                      </p>
+                                      <p className="flex items-center text-sm text-gray-600">
+                                        <MapPin className="w-4 h-4 mr-2" />
+                                        {cohort.venue}, {cohort.location}
+                                      </p>
+                                      {cohort.instructors.length > 0 && (
+                                        <p className="flex items-center text-sm text-gray-600">
+                                          <UserCheck className="w-4 h-4 mr-2" />
+                                          {cohort.instructors.join(", ")}
+                                        </p>
+                                      )}
+                                      <p className="flex items-center text-sm text-gray-600">
+                                        <Users className="w-4 h-4 mr-2" />
+                                        {t("enrollDialog.seatsTaken", { taken: cohort.seatsTaken, capacity: cohort.capacity })}
+                                      </p>
+                                    </div>
+                                  </label>
+                                )
+                              })}
+                            </RadioGroup>
+                          </FormControl>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {step.id === "details" && (
+                  <div className="space-y-4">
+                    <div className="grid md:grid-cols-2 gap-4">
+                      {textField("fullName", t("enrollDialog.fullName"))}
+                      {textField("email", t("enrollDialog.email"), "email")}
+                      {textField("phone", t("enrollDialog.phone"), "tel")}
+                      {textField("employeeId", t("enrollDialog.employeeId"))}
+                      {textField("employer", t("enrollDialog.employer"))}
+                      {textField("jobTitle", t("enrollDialog.jobTitle"))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {t("enrollDialog.invoiceNote", { price: formatCurrency(program.price) })}
+                    </p>
+                  </div>
+                )}
+
+                {step.id === "declarations" && (
+                  <div className="space-y-5">
+                    <FormField
+                      control={form.control}
+                      name="prerequisitesAccepted"
+                      render={({ field }) => (
+                        <FormItem className="flex items-start space-x-3 space-y-0 rounded-lg border p-4">
+                          <FormControl>
+                            <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true || undefined)} />
+                          </FormControl>
+                          <div className="space-y-1">
+                            <FormLabel>{t("enrollDialog.prerequisitesLabel")}</FormLabel>
+                            <FormDescription>{t("enrollDialog.prerequisitesHint")}</FormDescription>
+                            <FormMessage />
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="medicalFitnessDeclared"
+                      render={({ field }) => (
+                        <FormItem className="flex items-start space-x-3 space-y-0 rounded-lg border p-4">
+                          <FormControl>
+                            <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true || undefined)} />
+                          </FormControl>
+                          <div className="space-y-1">
+                            <FormLabel>{t("enrollDialog.medicalLabel")}</FormLabel>
+                            <FormDescription>{t("enrollDialog.medicalHint")}</FormDescription>
+                            <FormMessage />
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="medicalNotes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("enrollDialog.medicalNotes")}</FormLabel>
+                          <FormControl>
+                            <Textarea rows={3} placeholder={t("enrollDialog.medicalNotesPlaceholder")} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {selectedCohort && (
+                      <div className="flex items-center rounded-lg bg-muted p-4 text-sm text-gray-600">
+                        <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
+                        {!isCohortWaitlisted(selectedCohort)
+                          ? t("enrollDialog.enrollingIn", {
+                              code: selectedCohort.code,
+                              dates: formatCohortDates(selectedCohort, formatDate),
+                            })
+                          : t("enrollDialog.joiningWaitlist", { code: selectedCohort.code })}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <DialogFooter className="gap-2">
+                  {stepIndex > 0 && (
+                    <Button type="button" variant="outline" onClick={() => setStepIndex((index) => index - 1)}>
+                      {t("common.back")}
+                    </Button>
+                  )}
+                  {isLastStep ? (
+                    <Button type="submit" className="bg-red-600 hover:bg-red-700" disabled={enroll.isPending}>
+                      {enroll.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {t(
+                        selectedCohort && isCohortWaitlisted(selectedCohort)
+                          ? "schedule.joinWaitlist"
+                          : "enrollDialog.submit"
+                      )}
+                    </Button>
+                  ) : (
+                    <Button
+                      type="button"
+                      className="bg-red-600 hover:bg-red-700"
+                      onClick={handleNext}
+                      disabled={step.id === "cohort" && cohorts.length === 0}
+                    >
+                      {t("enrollDialog.continue")}
+                    </Button>
+                  )}
+                </DialogFooter>
+              </form>
+            </Form>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
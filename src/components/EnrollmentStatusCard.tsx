@@ -0,0 +1,168 @@
+import { Link } from "react-router-dom"
+import { Hourglass } from "lucide-react"
+import Swal from "sweetalert2"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAcceptWaitlistOffer, useCancelEnrollment } from "@/hooks/use-enrollment"
+import { useTranslation } from "@/hooks/use-translation"
+import { enrollmentStatusLabels, type Enrollment, type EnrollmentStatus } from "@/lib/enrollment"
+import type { TrainingCohort } from "@/lib/schedule"
+
+const statusStyles: Record<EnrollmentStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  confirmed: "bg-green-100 text-green-800",
+  waitlisted: "bg-blue-100 text-blue-800",
+  offered: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+  completed: "bg-purple-100 text-purple-800",
+}
+
+type EnrollmentStatusCardProps = {
+  enrollments: Enrollment[]
+  cohorts: TrainingCohort[]
+  title?: string
+  showProgram?: boolean
+}
+
+// The signed-in trainee's live enrollments, including any seat offered to
+// them from the waitlist.
+export default function EnrollmentStatusCard({
+  enrollments,
+  cohorts,
+  title,
+  showProgram = false,
+}: EnrollmentStatusCardProps) {
+  const { t, formatDate, formatDistanceToNow } = useTranslation()
+  const acceptOffer = useAcceptWaitlistOffer()
+  const cancelEnrollment = useCancelEnrollment()
+  const cohortsById = new Map(cohorts.map((cohort) => [cohort.id, cohort]))
+
+  const handleAccept = async (enrollment: Enrollment) => {
+    try {
+      await acceptOffer.mutateAsync(enrollment.id)
+      Swal.fire({
+        icon: "success",
+        title: t("enrollment.card.seatConfirmedTitle"),
+        text: t("enrollment.card.seatConfirmedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    } catch (error) {
+      console.error("Error accepting seat offer:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("enrollment.card.offerUnavailableTitle"),
+        text: t("enrollment.card.offerUnavailableText"),
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleCancel = async (enrollment: Enrollment) => {
+    const { isConfirmed } = await Swal.fire({
+      icon: "warning",
+      title: t(enrollment.status === "offered" ? "enrollment.card.declineTitle" : "enrollment.card.cancelTitle"),
+      text: t(
+        enrollment.status === "waitlisted" ? "enrollment.card.leaveWaitlistText" : "enrollment.card.releaseSeatText"
+      ),
+      showCancelButton: true,
+      confirmButtonText: t(
+        enrollment.status === "offered" ? "enrollment.card.declineSeat" : "enrollment.card.cancelEnrollment"
+      ),
+      cancelButtonText: t("enrollment.card.keep"),
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+    })
+    if (!isConfirmed) return
+
+    try {
+      await cancelEnrollment.mutateAsync(enrollment.id)
+    } catch (error) {
+      console.error("Error cancelling enrollment:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("enrollment.card.cancelFailedTitle"),
+        text: t("enrollment.card.cancelFailedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title ?? t("enrollment.card.title")}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {enrollments.map((enrollment) => {
+          const cohort = cohortsById.get(enrollment.cohortId)
+          return (
+            <div key={enrollment.id} className="rounded-lg border p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  {showProgram && cohort && (
+                    <Link to={`/training/${cohort.programSlug}`} className="font-semibold text-foreground hover:text-red-600">
+                      {cohort.programTitle}
+                    </Link>
+                  )}
+                  <p className={showProgram ? "text-sm font-medium text-gray-700" : "font-semibold text-foreground"}>
+                    {cohort?.code}
+                  </p>
+                  {cohort && (
+                    <p className="text-sm text-gray-600">
+                      {t("enrollment.card.starts", { date: formatDate(cohort.startDate, "LLL dd, y"), venue: cohort.venue })}
+                    </p>
+                  )}
+                </div>
+                <Badge className={statusStyles[enrollment.status]} variant="outline">
+                  {enrollment.status === "waitlisted" && enrollment.waitlistPosition
+                    ? t("enrollment.card.waitlistPosition", { position: enrollment.waitlistPosition })
+                    : t(enrollmentStatusLabels[enrollment.status])}
+                </Badge>
+              </div>
+
+              {enrollment.status === "offered" && enrollment.offerExpiresAt && (
+                <div className="flex items-start rounded-md bg-red-50 p-3 text-sm text-red-800">
+                  <Hourglass className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  {t("enrollment.card.offerNotice", { time: formatDistanceToNow(enrollment.offerExpiresAt) })}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                {(enrollment.status === "pending" || enrollment.status === "confirmed") && cohort && (
+                  <Button size="sm" variant="outline" asChild>
+                    <Link to={`/learn/${cohort.programSlug}`}>{t("enrollment.card.openCourse")}</Link>
+                  </Button>
+                )}
+                {enrollment.status === "offered" && (
+                  <Button
+                    size="sm"
+                    className="bg-red-600 hover:bg-red-700"
+                    disabled={acceptOffer.isPending}
+                    onClick={() => handleAccept(enrollment)}
+                  >
+                    {t("enrollment.card.acceptSeat")}
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={cancelEnrollment.isPending}
+                  onClick={() => handleCancel(enrollment)}
+                >
+                  {t(
+                    enrollment.status === "offered"
+                      ? "enrollment.card.decline"
+                      : enrollment.status === "waitlisted"
+                        ? "enrollment.card.leaveWaitlist"
+                        : "enrollment.card.cancel"
+                  )}
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
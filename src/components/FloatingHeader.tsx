@@ -16,6 +16,19 @@ import {
   Phone,
   Mail,
   MapPin,
+  Newspaper,
+  GraduationCap,
+  ListOrdered,
+  BadgeCheck,
+  LayoutDashboard,
+  ClipboardCheck,
+  FileQuestion,
+  Signature,
+  ClipboardList,
+  CalendarCheck,
+  MessageSquareText,
+  Wifi,
+  WifiOff,
 } from "lucide-react";
 import logoBadak from "@/assets/logobadak.png";
 import {
@@ -27,16 +40,26 @@ import {
   NavigationMenuTrigger,
 } from "@/components/ui/navigation-menu";
 import { supabase } from "@/lib/supabaseClient";
-import { type Session } from "@supabase/supabase-js";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { userRoleLabels } from "@/lib/profile";
+import NotificationBell from "@/components/NotificationBell";
+import CommandPalette from "@/components/CommandPalette";
+import ThemeToggle from "@/components/ThemeToggle";
+import { useTranslation } from "@/hooks/use-translation";
+import { useOnlineStatus } from "@/hooks/use-offline";
+import { localeLabels, locales } from "@/lib/i18n";
 
 const FloatingHeader = () => {
   const [isScrolled, setIsScrolled] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
-  const [session, setSession] = useState<Session | null>(null);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
+  const { session, profile, role, hasRole } = useCurrentUser();
+  const { t, locale, setLocale } = useTranslation();
+  const isOnline = useOnlineStatus();
 
   const handleDropdown = (menu: string) => {
     setOpenDropdown((prevState) => (prevState === menu ? null : menu));
@@ -63,14 +86,6 @@ const FloatingHeader = () => {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, [openDropdown, isUserMenuOpen]);
 
-  useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => setSession(session));
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-    });
-    return () => subscription.unsubscribe();
-  }, []);
-
   useEffect(() => {
     const handleScroll = () => {
       setIsScrolled(window.scrollY > 50);
@@ -85,7 +100,23 @@ const FloatingHeader = () => {
     setIsMobileMenuOpen(false);
   };
 
-  const userFirstName = session?.user?.user_metadata?.full_name?.split(" ")[0] || "User";
+  const userFirstName =
+    (profile?.fullName || session?.user?.user_metadata?.full_name)?.split(" ")[0] || "User";
+
+  const accountLinks = [
+    session && { to: "/dashboard", label: t("header.myDashboard"), icon: LayoutDashboard },
+    session && { to: "/certificates", label: t("header.myCertificates"), icon: BadgeCheck },
+    hasRole("instructor", "coordinator", "admin") && { to: "/instructor/classes", label: t("header.myClasses"), icon: CalendarCheck },
+    hasRole("instructor", "coordinator", "admin") && { to: "/instructor/progress", label: t("header.cohortProgress"), icon: ClipboardCheck },
+    hasRole("instructor", "coordinator", "admin") && { to: "/instructor/skills", label: t("header.skillSignOff"), icon: Signature },
+    hasRole("coordinator", "admin") && { to: "/admin/training", label: t("header.manageTraining"), icon: GraduationCap },
+    hasRole("coordinator", "admin") && { to: "/admin/waitlist", label: t("header.waitlists"), icon: ListOrdered },
+    hasRole("coordinator", "admin") && { to: "/admin/quizzes", label: t("header.quizzes"), icon: FileQuestion },
+    hasRole("coordinator", "admin") && { to: "/admin/skills", label: t("header.skillSheets"), icon: ClipboardList },
+    hasRole("coordinator", "admin") && { to: "/admin/reviews", label: t("header.reviewModeration"), icon: MessageSquareText },
+    hasRole("coordinator", "admin") && { to: "/admin/certificates", label: t("header.issueCertificates"), icon: Award },
+    profile?.newsRole && { to: "/admin/news", label: t("header.newsroom"), icon: Newspaper },
+  ].filter(Boolean) as { to: string; label: string; icon: typeof Newspaper }[];
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
@@ -108,9 +139,30 @@ const FloatingHeader = () => {
               <span>badak@lng</span>
             </div>
           </div>
-          <div className="flex items-center space-x-2 text-xs">
-            <Globe className="h-3 w-3" />
-            <span>EN | FR | ES</span>
+          <div className="flex items-center space-x-4 text-xs">
+            <span className="flex items-center space-x-1" title={isOnline ? t("offline.online") : t("offline.offlineNotice")}>
+              {isOnline ? <Wifi className="h-3 w-3" /> : <WifiOff className="h-3 w-3 text-amber-300" />}
+              <span className={isOnline ? "" : "font-semibold text-amber-300"}>
+                {isOnline ? t("offline.online") : t("offline.offline")}
+              </span>
+            </span>
+            <div className="flex items-center space-x-2" role="group" aria-label={t("header.language")}>
+              <Globe className="h-3 w-3" />
+              {locales.map((option, index) => (
+                <span key={option} className="flex items-center space-x-2">
+                  {index > 0 && <span aria-hidden="true">|</span>}
+                  <button
+                    type="button"
+                    onClick={() => setLocale(option)}
+                    title={localeLabels[option]}
+                    aria-pressed={locale === option}
+                    className={locale === option ? "font-semibold underline underline-offset-2" : "opacity-80 hover:opacity-100"}
+                  >
+                    {option.toUpperCase()}
+                  </button>
+                </span>
+              ))}
+            </div>
           </div>
         </div>
       </div>
@@ -138,7 +190,7 @@ const FloatingHeader = () => {
               />
               <div>
                 <h1 className="text-xl font-bold text-foreground">BADAK LNG</h1>
-                <p className="text-xs text-black/90">Fire Training Ground</p>
+                <p className="text-xs text-muted-foreground">Fire Training Ground</p>
               </div>
             </Link>
 
@@ -158,7 +210,7 @@ const FloatingHeader = () => {
                       onClick={() => handleDropdown("training")}
                       aria-expanded={openDropdown === "training"}
                     >
-                      Training Programs
+                      {t("header.trainingPrograms")}
                       <ChevronDown
                         className={`ml-1 h-4 w-4 transition-transform duration-200 
                         ${
@@ -180,11 +232,10 @@ const FloatingHeader = () => {
                               <a className="flex h-full w-full select-none flex-col justify-end rounded-md bg-gradient-to-b from-primary/50 to-primary p-6 no-underline outline-none focus:shadow-md">
                                 <Shield className="h-6 w-6 text-primary-foreground" />
                                 <div className="mb-2 mt-4 text-lg font-medium text-primary-foreground">
-                                  Fire Safety Training
+                                  {t("header.fireSafetyTraining")}
                                 </div>
                                 <p className="text-sm leading-tight text-primary-foreground/90">
-                                  Comprehensive fire safety and emergency
-                                  response training programs.
+                                  {t("header.fireSafetyTrainingDescription")}
                                 </p>
                               </a>
                             </NavigationMenuLink>
@@ -198,22 +249,20 @@ const FloatingHeader = () => {
                               className="block select-none space-y-1 rounded-md p-3 leading-none no-underline outline-none transition-colors hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground cursor-pointer"
                             >
                               <div className="text-sm leading-none font-semibold">
-                                HSE Certification
+                                {t("header.hseCertification")}
                               </div>
                               <p className="line-clamp-2 text-sm leading-snug opacity-80">
-                                Health, safety, and environmental certification
-                                programs.
+                                {t("header.hseCertificationDescription")}
                               </p>
                             </a>
                           </NavigationMenuLink>
                           <NavigationMenuLink asChild>
                             <a className="block select-none space-y-1 rounded-md p-3 leading-none no-underline outline-none transition-colors hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground">
                               <div className="text-sm leading-none font-semibold">
-                                Emergency Response
+                                {t("header.emergencyResponse")}
                               </div>
                               <p className="line-clamp-2 text-sm leading-snug opacity-80">
-                                Advanced emergency response and crisis
-                                management.
+                                {t("header.emergencyResponseDescription")}
                               </p>
                             </a>
                           </NavigationMenuLink>
@@ -234,7 +283,7 @@ const FloatingHeader = () => {
                       onClick={() => handleDropdown("services")}
                       aria-expanded={openDropdown === "services"}
                     >
-                      Services
+                      {t("header.services")}
                       <ChevronDown
                         className={`ml-1 h-4 w-4 transition-transform duration-200 
                         ${
@@ -251,12 +300,11 @@ const FloatingHeader = () => {
                             <div className="flex items-center space-x-2">
                               <Users className="h-4 w-4" />
                               <div className="text-sm font-medium leading-none">
-                                Consultation
+                                {t("header.consultation")}
                               </div>
                             </div>
                             <p className="line-clamp-2 text-sm leading-snug text-muted-foreground">
-                              Professional safety consultation and assessment
-                              services.
+                              {t("header.consultationDescription")}
                             </p>
                           </a>
                         </NavigationMenuLink>
@@ -265,11 +313,11 @@ const FloatingHeader = () => {
                             <div className="flex items-center space-x-2">
                               <BookOpen className="h-4 w-4" />
                               <div className="text-sm font-medium leading-none">
-                                Documentation
+                                {t("header.documentation")}
                               </div>
                             </div>
                             <p className="line-clamp-2 text-sm leading-snug text-muted-foreground">
-                              Safety documentation and compliance management.
+                              {t("header.documentationDescription")}
                             </p>
                           </a>
                         </NavigationMenuLink>
@@ -278,12 +326,11 @@ const FloatingHeader = () => {
                             <div className="flex items-center space-x-2">
                               <Award className="h-4 w-4" />
                               <div className="text-sm font-medium leading-none">
-                                Certification
+                                {t("header.certification")}
                               </div>
                             </div>
                             <p className="line-clamp-2 text-sm leading-snug text-muted-foreground">
-                              Professional certification and accreditation
-                              programs.
+                              {t("header.certificationDescription")}
                             </p>
                           </a>
                         </NavigationMenuLink>
@@ -292,12 +339,11 @@ const FloatingHeader = () => {
                             <div className="flex items-center space-x-2">
                               <Shield className="h-4 w-4" />
                               <div className="text-sm font-medium leading-none">
-                                Risk Assessment
+                                {t("header.riskAssessment")}
                               </div>
                             </div>
                             <p className="line-clamp-2 text-sm leading-snug text-muted-foreground">
-                              Comprehensive workplace risk assessment and
-                              mitigation.
+                              {t("header.riskAssessmentDescription")}
                             </p>
                           </a>
                         </NavigationMenuLink>
@@ -305,12 +351,21 @@ const FloatingHeader = () => {
                     )}
                   </NavigationMenuItem>
 
+                  <NavigationMenuItem>
+                    <NavigationMenuLink
+                      onClick={() => navigate("/schedule")}
+                      className="group inline-flex h-10 w-max items-center justify-center rounded-md bg-transparent px-4 py-2 text-sm font-medium transition-colors hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground focus:outline-none cursor-pointer"
+                    >
+                      {t("header.schedule")}
+                    </NavigationMenuLink>
+                  </NavigationMenuItem>
+
                   <NavigationMenuItem>
                     <NavigationMenuLink
                       onClick={() => navigate("/news")}
                       className="group inline-flex h-10 w-max items-center justify-center rounded-md bg-transparent px-4 py-2 text-sm font-medium transition-colors hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground focus:outline-none cursor-pointer"
                     >
-                      News
+                      {t("header.news")}
                     </NavigationMenuLink>
                   </NavigationMenuItem>
 
@@ -319,17 +374,22 @@ const FloatingHeader = () => {
                       onClick={() => scrollToSection("contact")}
                       className="group inline-flex h-10 w-max items-center justify-center rounded-md bg-transparent px-4 py-2 text-sm font-medium transition-colors hover:bg-accent hover:text-accent-foreground focus:bg-accent focus:text-accent-foreground focus:outline-none cursor-pointer"
                     >
-                      Contact
+                      {t("header.contact")}
                     </NavigationMenuLink>
                   </NavigationMenuItem>
                 </NavigationMenuList>
               </NavigationMenu>
 
               <div className="flex items-center space-x-3 ml-6">
-                <Button size="sm" variant="outline" className="h-9">
+                <Button size="sm" variant="outline" className="h-9" onClick={() => setIsSearchOpen(true)}>
                   <Search className="h-4 w-4 mr-2" />
-                  Search
+                  {t("common.search")}
+                  <kbd className="ml-3 rounded border bg-muted px-1.5 font-mono text-[10px] text-muted-foreground">
+                    {/Mac|iPhone|iPad/.test(navigator.platform) ? "⌘K" : "Ctrl K"}
+                  </kbd>
                 </Button>
+                <ThemeToggle />
+                {session && <NotificationBell userId={session.user.id} />}
                 {session ? (
                   <div className="relative" ref={userMenuRef}>
                     <Button
@@ -342,10 +402,26 @@ const FloatingHeader = () => {
                       <ChevronDown className={`h-4 w-4 transition-transform ${isUserMenuOpen ? "rotate-180" : ""}`} />
                     </Button>
                     {isUserMenuOpen && (
-                      <div className="absolute right-0 mt-2 w-48 bg-background rounded-md shadow-lg border py-1 z-10">
+                      <div className="absolute right-0 mt-2 w-56 bg-background rounded-md shadow-lg border py-1 z-10">
+                        {role && (
+                          <div className="px-3 py-2 text-xs text-muted-foreground border-b">
+                            {t(userRoleLabels[role])}
+                          </div>
+                        )}
+                        {accountLinks.map((link) => (
+                          <Link
+                            key={link.to}
+                            to={link.to}
+                            onClick={() => setIsUserMenuOpen(false)}
+                            className="flex items-center px-3 py-2 text-sm hover:bg-accent"
+                          >
+                            <link.icon className="w-4 h-4 mr-2" />
+                            {link.label}
+                          </Link>
+                        ))}
                         <button onClick={handleLogout} className="w-full text-left flex items-center px-3 py-2 text-sm hover:bg-accent">
                           <LogOut className="w-4 h-4 mr-2" />
-                          Logout
+                          {t("header.logout")}
                         </button>
                       </div>
                     )}
@@ -355,52 +431,68 @@ const FloatingHeader = () => {
                     onClick={() => navigate("/auth")}
                     className="h-9 bg-primary hover:bg-primary/90"
                   >
-                    Join Us
+                    {t("header.joinUs")}
                   </Button>
                 )}
               </div>
             </div>
 
             {/* Mobile Menu Button */}
-            <button
-              onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-              className="lg:hidden p-2 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
-            >
-              {isMobileMenuOpen ? (
-                <X className="h-5 w-5" />
-              ) : (
-                <Menu className="h-5 w-5" />
-              )}
-            </button>
+            <div className="lg:hidden flex items-center space-x-2">
+              <ThemeToggle />
+              <button
+                onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+                className="p-2 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+              >
+                {isMobileMenuOpen ? (
+                  <X className="h-5 w-5" />
+                ) : (
+                  <Menu className="h-5 w-5" />
+                )}
+              </button>
+            </div>
           </div>
 
           {/* Mobile Menu */}
           {isMobileMenuOpen && (
             <div className="lg:hidden mt-4 p-4 bg-background/95 backdrop-blur-xl rounded-xl border border-border/50 shadow-lg">
               <div className="flex flex-col space-y-3">
+                <button
+                  onClick={() => { setIsSearchOpen(true); setIsMobileMenuOpen(false); }}
+                  className="text-left flex items-center p-3 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors font-medium text-foreground"
+                >
+                  <Search className="h-4 w-4 mr-2" />
+                  {t("common.search")}
+                </button>
                 <button
                   onClick={() => scrollToSection("services")}
                   className="text-left p-3 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors font-medium text-foreground"
                 >
-                  Training Programs
+                  {t("header.trainingPrograms")}
                 </button>
                 <button
                   onClick={() => scrollToSection("services")}
                   className="text-left p-3 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors font-medium text-foreground"
                 >
-                  Services
+                  {t("header.services")}
+                </button>
+                <button
+                  onClick={() => navigate("/schedule")}
+                  className="text-left p-3 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors font-medium text-foreground"
+                >
+                  {t("header.schedule")}
                 </button>
                 <button
                   onClick={() => navigate("/news")}
                   className="text-left p-3 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors font-medium text-foreground"
                 >
-                  News
+                  {t("header.news")}
                 </button>
                 <button
                   onClick={() => scrollToSection("contact")}
                   className="text-left p-3 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors font-medium text-foreground"
                 >
-                  Contact
+                  {t("header.contact")}
                 </button>
                 {session ? (
                   <div className="pt-3 border-t border-border/50">
@@ -408,6 +500,7 @@ const FloatingHeader = () => {
                       <div className="flex items-center gap-2 font-medium">
                         <UserIcon className="h-5 w-5 text-primary" />
                         <span>{userFirstName}</span>
+                        <NotificationBell userId={session.user.id} />
                       </div>
                       <Button
                         variant="ghost"
@@ -417,14 +510,24 @@ const FloatingHeader = () => {
                           setIsMobileMenuOpen(false);
                         }}
                       >
-                        <LogOut className="w-4 h-4 mr-2" /> Logout
+                        <LogOut className="w-4 h-4 mr-2" /> {t("header.logout")}
                       </Button>
                     </div>
+                    {accountLinks.map((link) => (
+                      <button
+                        key={link.to}
+                        onClick={() => { navigate(link.to); setIsMobileMenuOpen(false); }}
+                        className="w-full text-left flex items-center p-3 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors font-medium text-foreground"
+                      >
+                        <link.icon className="w-4 h-4 mr-2" />
+                        {link.label}
+                      </button>
+                    ))}
                   </div>
                 ) : (
                   <div className="pt-3 border-t border-border/50">
                     <Button onClick={() => { navigate("/auth"); setIsMobileMenuOpen(false); }} className="w-full bg-primary hover:bg-primary/90">
-                      Join Us
+                      {t("header.joinUs")}
                     </Button>
                   </div>
                 )}
@@ -433,6 +536,8 @@ const FloatingHeader = () => {
           )}
         </nav>
       </header>
+
+      <CommandPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} accountLinks={accountLinks} />
     </>
   );
 };
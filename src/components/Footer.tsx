@@ -1,24 +1,26 @@
 import { Phone, Mail, MapPin, Facebook, Twitter, Linkedin, Instagram } from "lucide-react";
 import logoBadak from "@/assets/logobadak.png";
+import { useTranslation } from "@/hooks/use-translation";
 
 const Footer = () => {
+  const { t } = useTranslation();
   const currentYear = new Date().getFullYear();
 
   const quickLinks = [
-    { name: "Home", href: "#home" },
-    { name: "About", href: "#about" },
-    { name: "Training Programs", href: "#services" },
-    { name: "Our Team", href: "#team" },
-    { name: "Contact", href: "#contact" }
+    { name: t("footer.home"), href: "#home" },
+    { name: t("footer.aboutLink"), href: "#about" },
+    { name: t("header.trainingPrograms"), href: "#services" },
+    { name: t("footer.ourTeam"), href: "#team" },
+    { name: t("header.contact"), href: "#contact" }
   ];
 
   const services = [
-    "Fire Safety Training",
-    "HSE Consulting",
-    "Industrial Safety",
-    "Emergency Response",
-    "Building Safety",
-    "Equipment Training"
+    t("footer.service.fireSafety"),
+    t("footer.service.hseConsulting"),
+    t("footer.service.industrialSafety"),
+    t("footer.service.emergencyResponse"),
+    t("footer.service.buildingSafety"),
+    t("footer.service.equipmentTraining")
   ];
 
   const scrollToSection = (id: string) => {
@@ -27,7 +29,7 @@ const Footer = () => {
   };
 
   return (
-    <footer className="bg-foreground text-background py-16">
+    <footer className="bg-footer text-footer-foreground py-16">
       <div className="container mx-auto px-6">
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-8 mb-12">
           {/* Company Info */}
@@ -41,12 +43,11 @@ const Footer = () => {
               </div>
               <div>
                 <h3 className="text-xl font-bold"> Badak Lng</h3>
-                <p className="text-background/70 text-sm">Fire Training Ground</p>
+                <p className="text-footer-foreground/70 text-sm">{t("footer.tagline")}</p>
               </div>
             </div>
-            <p className="text-white/80 text-sm">
-              Leading provider of fire safety training and HSE consulting services. 
-              Building safer communities through expert education and professional development.
+            <p className="text-footer-foreground/80 text-sm">
+              {t("footer.about")}
             </p>
             <div className="flex flex-wrap gap-4 pt-2">
               {/* Facebook */}
@@ -82,13 +83,13 @@ const Footer = () => {
 
           {/* Quick Links */}
           <div>
-            <h4 className="text-lg font-semibold mb-4">Quick Links</h4>
+            <h4 className="text-lg font-semibold mb-4">{t("footer.quickLinks")}</h4>
             <ul className="space-y-2">
               {quickLinks.map((link, index) => (
                 <li key={index}>
                   <button
                     onClick={() => scrollToSection(link.href)}
-                    className="text-background/80 hover:text-primary transition-colors"
+                    className="text-footer-foreground/80 hover:text-primary transition-colors"
                   >
                     {link.name}
                   </button>
@@ -99,10 +100,10 @@ const Footer = () => {
 
           {/* Services */}
           <div>
-            <h4 className="text-lg font-semibold mb-4">Our Services</h4>
+            <h4 className="text-lg font-semibold mb-4">{t("footer.ourServices")}</h4>
             <ul className="space-y-2">
               {services.map((service, index) => (
-                <li key={index} className="text-background/80 hover:text-primary transition-colors cursor-pointer">
+                <li key={index} className="text-footer-foreground/80 hover:text-primary transition-colors cursor-pointer">
                   {service}
                 </li>
               ))}
@@ -111,27 +112,27 @@ const Footer = () => {
 
           {/* Contact Info */}
           <div>
-            <h4 className="text-lg font-semibold mb-4">Contact Info</h4>
+            <h4 className="text-lg font-semibold mb-4">{t("footer.contactInfo")}</h4>
             <div className="space-y-3">
               <div className="flex items-center gap-3">
                 <Phone className="h-5 w-5 text-primary" />
                 <div>
-                  <p className="text-background/80">+1 (555) 123-4567</p>
-                  <p className="text-background/60 text-sm">24/7 Emergency</p>
+                  <p className="text-footer-foreground/80">+1 (555) 123-4567</p>
+                  <p className="text-footer-foreground/60 text-sm">{t("footer.emergency")}</p>
                 </div>
               </div>
               <div className="flex items-center gap-3">
                 <Mail className="h-5 w-5 text-primary" />
                 <div>
-                  <p className="text-background/80">info@firetraininghse.com</p>
-                  <p className="text-background/60 text-sm">Quick Response</p>
+                  <p className="text-footer-foreground/80">info@firetraininghse.com</p>
+                  <p className="text-footer-foreground/60 text-sm">{t("footer.quickResponse")}</p>
                 </div>
               </div>
               <div className="flex items-center gap-3">
                 <MapPin className="h-5 w-5 text-primary" />
                 <div>
-                  <p className="text-background/80">123 Safety Drive</p>
-                  <p className="text-background/60 text-sm">Training Center, ST 12345</p>
+                  <p className="text-footer-foreground/80">123 Safety Drive</p>
+                  <p className="text-footer-foreground/60 text-sm">Training Center, ST 12345</p>
                 </div>
               </div>
             </div>
@@ -139,20 +140,20 @@ const Footer = () => {
         </div>
 
         {/* Bottom Bar */}
-        <div className="border-t border-background/20 pt-8">
+        <div className="border-t border-footer-foreground/20 pt-8">
           <div className="flex flex-col md:flex-row justify-between items-center gap-4">
-            <p className="text-background/60 text-center md:text-left">
-              © {currentYear} Fire Training Ground - Badak LNG. All rights reserved.
+            <p className="text-footer-foreground/60 text-center md:text-left">
+              {t("footer.copyright", { year: currentYear })}
             </p>
             <div className="flex gap-6 text-sm">
-              <a href="#" className="text-background/60 hover:text-primary transition-colors">
-                Privacy Policy
+              <a href="#" className="text-footer-foreground/60 hover:text-primary transition-colors">
+                {t("footer.privacy")}
               </a>
-              <a href="#" className="text-background/60 hover:text-primary transition-colors">
-                Terms of Service
+              <a href="#" className="text-footer-foreground/60 hover:text-primary transition-colors">
+                {t("footer.terms")}
               </a>
-              <a href="#" className="text-background/60 hover:text-primary transition-colors">
-                Safety Guidelines
+              <a href="#" className="text-footer-foreground/60 hover:text-primary transition-colors">
+                {t("footer.safetyGuidelines")}
               </a>
             </div>
           </div>
@@ -0,0 +1,84 @@
+import { useState, type PointerEvent } from "react"
+import type { HotspotPoint, HotspotRegion } from "@/lib/quizzes"
+
+type HotspotImageProps = {
+  src: string
+  alt: string
+  point?: HotspotPoint | null
+  region?: HotspotRegion | null
+  // Trainees click to answer; quiz authors drag to draw the target region.
+  onPoint?: (point: HotspotPoint) => void
+  onRegion?: (region: HotspotRegion) => void
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+const toPercentPoint = (event: PointerEvent<HTMLDivElement>): HotspotPoint => {
+  const bounds = event.currentTarget.getBoundingClientRect()
+  return {
+    x: round(Math.min(Math.max(((event.clientX - bounds.left) / bounds.width) * 100, 0), 100)),
+    y: round(Math.min(Math.max(((event.clientY - bounds.top) / bounds.height) * 100, 0), 100)),
+  }
+}
+
+const toRegion = (start: HotspotPoint, end: HotspotPoint): HotspotRegion => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: round(Math.abs(end.x - start.x)),
+  height: round(Math.abs(end.y - start.y)),
+})
+
+export default function HotspotImage({ src, alt, point, region, onPoint, onRegion }: HotspotImageProps) {
+  const [dragStart, setDragStart] = useState<HotspotPoint | null>(null)
+  const [draft, setDraft] = useState<HotspotRegion | null>(null)
+  const shownRegion = draft ?? region
+  const isInteractive = !!onPoint || !!onRegion
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!onRegion) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setDragStart(toPercentPoint(event))
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragStart) setDraft(toRegion(dragStart, toPercentPoint(event)))
+  }
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (onPoint) onPoint(toPercentPoint(event))
+    if (onRegion && dragStart) {
+      const next = toRegion(dragStart, toPercentPoint(event))
+      if (next.width > 0 && next.height > 0) onRegion(next)
+    }
+    setDragStart(null)
+    setDraft(null)
+  }
+
+  return (
+    <div
+      className={`relative select-none touch-none overflow-hidden rounded-md border ${isInteractive ? "cursor-crosshair" : ""}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <img src={src} alt={alt} className="block w-full pointer-events-none" draggable={false} />
+      {shownRegion && (
+        <div
+          className="absolute border-2 border-green-600 bg-green-500/20"
+          style={{
+            left: `${shownRegion.x}%`,
+            top: `${shownRegion.y}%`,
+            width: `${shownRegion.width}%`,
+            height: `${shownRegion.height}%`,
+          }}
+        />
+      )}
+      {point && (
+        <div
+          className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-red-600 shadow"
+          style={{ left: `${point.x}%`, top: `${point.y}%` }}
+        />
+      )}
+    </div>
+  )
+}
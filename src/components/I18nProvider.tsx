@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { currentUserKeys, useCurrentUser } from "@/hooks/use-current-user"
+import {
+  I18nContext,
+  createI18n,
+  loadStoredLocale,
+  saveProfileLocale,
+  storeLocale,
+  type Locale,
+} from "@/lib/i18n"
+import type { UserProfile } from "@/lib/profile"
+
+// Signed-in users carry their language between devices on their profile;
+// everyone else keeps it in this browser.
+export default function I18nProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient()
+  const { user, profile } = useCurrentUser()
+  const userId = user?.id
+  const [locale, setLocaleState] = useState<Locale>(loadStoredLocale)
+
+  const persistLocale = useCallback(
+    (next: Locale) => {
+      if (!userId) return
+      saveProfileLocale(next)
+        .then(() =>
+          queryClient.setQueryData<UserProfile | null>(currentUserKeys.profile(userId), (current) =>
+            current ? { ...current, locale: next } : current
+          )
+        )
+        .catch((error) => console.error("Error saving language preference:", error))
+    },
+    [userId, queryClient]
+  )
+
+  useEffect(() => {
+    if (!profile) return
+    if (profile.locale) {
+      setLocaleState(profile.locale)
+      storeLocale(profile.locale)
+    } else {
+      // First sign-in: keep the language they were already browsing in.
+      persistLocale(loadStoredLocale())
+    }
+  }, [profile, persistLocale])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      setLocaleState(next)
+      storeLocale(next)
+      persistLocale(next)
+    },
+    [persistLocale]
+  )
+
+  const value = useMemo(() => createI18n(locale, setLocale), [locale, setLocale])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
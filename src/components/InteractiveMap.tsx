@@ -1,16 +1,34 @@
 import React, { useEffect, useRef, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
+import { useTheme } from 'next-themes';
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { MapPin, Navigation, Phone, Globe } from "lucide-react";
+import { useTranslation } from "@/hooks/use-translation";
+
+const mapStyles = {
+  light: 'mapbox://styles/mapbox/satellite-streets-v12',
+  dark: 'mapbox://styles/mapbox/dark-v11',
+};
+
+// A full reload (no diff) so 'style.load' fires and terrain and buildings are
+// re-added. The font options are required here; these are mapbox's defaults.
+const styleSwapOptions = {
+  diff: false,
+  localFontFamily: null,
+  localIdeographFontFamily: 'sans-serif',
+} satisfies Parameters<mapboxgl.Map['setStyle']>[1];
 
 const InteractiveMap = () => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const [mapboxToken, setMapboxToken] = useState('');
   const [showTokenInput, setShowTokenInput] = useState(true);
+  const { resolvedTheme } = useTheme();
+  const { t } = useTranslation();
+  const mapStyle = resolvedTheme === 'dark' ? mapStyles.dark : mapStyles.light;
 
   // PT Badak LNG coordinates in Bontang, East Kalimantan
   const badakLngCoordinates: [number, number] = [117.4851, 0.1347];
@@ -22,7 +40,7 @@ const InteractiveMap = () => {
     
     map.current = new mapboxgl.Map({
       container: mapContainer.current,
-      style: 'mapbox://styles/mapbox/satellite-streets-v12',
+      style: mapStyle,
       center: badakLngCoordinates,
       zoom: 13,
       pitch: 45,
@@ -80,7 +98,7 @@ const InteractiveMap = () => {
           </div>
           <div style="display: flex; align-items: center; gap: 8px; font-size: 14px;">
             <span style="color: #dc2626;">🏭</span>
-            <span>Natural Gas Processing Facility</span>
+            <span>${t("home.map.facility")}</span>
           </div>
           <div style="display: flex; align-items: center; gap: 8px; font-size: 14px;">
             <span style="color: #dc2626;">🌐</span>
@@ -92,7 +110,7 @@ const InteractiveMap = () => {
             onclick="window.open('https://www.google.com/maps/dir/?api=1&destination=${badakLngCoordinates[1]},${badakLngCoordinates[0]}', '_blank')"
             style="background: #dc2626; color: white; border: none; padding: 8px 16px; border-radius: 6px; font-size: 14px; cursor: pointer; width: 100%;"
           >
-            Get Directions
+            ${t("home.map.directions")}
           </button>
         </div>
       </div>
@@ -105,7 +123,7 @@ const InteractiveMap = () => {
       popup.addTo(map.current!);
     }, 1000);
 
-    // Add 3D buildings layer
+    // Add 3D buildings layer; runs again whenever the theme swaps the style
     map.current.on('style.load', () => {
       if (!map.current) return;
 
@@ -162,6 +180,10 @@ const InteractiveMap = () => {
     setShowTokenInput(false);
   };
 
+  useEffect(() => {
+    map.current?.setStyle(mapStyle, styleSwapOptions);
+  }, [mapStyle]);
+
   const handleTokenSubmit = () => {
     if (mapboxToken.trim()) {
       initializeMap(mapboxToken.trim());
@@ -186,16 +208,16 @@ const InteractiveMap = () => {
             </div>
             <div>
               <h3 className="text-xl font-semibold text-foreground mb-2">
-                Interactive Map
+                {t("home.map.title")}
               </h3>
               <p className="text-muted-foreground mb-6">
-                Enter your Mapbox access token to view PT Badak LNG location in Bontang, Kalimantan Timur
+                {t("home.map.tokenPrompt")}
               </p>
             </div>
             <div className="space-y-4 max-w-md mx-auto">
               <Input
                 type="password"
-                placeholder="Enter Mapbox access token..."
+                placeholder={t("home.map.tokenPlaceholder")}
                 value={mapboxToken}
                 onChange={(e) => setMapboxToken(e.target.value)}
                 onKeyPress={handleKeyPress}
@@ -207,10 +229,10 @@ const InteractiveMap = () => {
                 className="w-full bg-accent hover:bg-accent/90"
               >
                 <Globe className="h-4 w-4 mr-2" />
-                Load Map
+                {t("home.map.load")}
               </Button>
               <p className="text-sm text-muted-foreground">
-                Get your free token at{' '}
+                {t("home.map.freeToken")}{' '}
                 <a 
                   href="https://mapbox.com" 
                   target="_blank" 
@@ -0,0 +1,67 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeSlug from "rehype-slug";
+import { cn } from "@/lib/utils";
+import { getVideoEmbed } from "@/lib/markdown";
+
+const components: Components = {
+  // `![caption](url)` embeds YouTube, Vimeo and mp4/webm links as video.
+  img: ({ src = "", alt }) => {
+    const embed = getVideoEmbed(src);
+    if (embed?.type === "iframe") {
+      return (
+        <span className="not-prose block aspect-video my-6">
+          <iframe
+            src={embed.src}
+            title={alt || "Embedded video"}
+            className="w-full h-full rounded-lg"
+            allow="accelerometer; encrypted-media; picture-in-picture"
+            allowFullScreen
+          />
+        </span>
+      );
+    }
+    if (embed?.type === "video") {
+      return <video src={embed.src} controls className="w-full rounded-lg my-6" aria-label={alt} />;
+    }
+    return (
+      <span className="block my-6">
+        <img src={src} alt={alt} className="w-full rounded-lg shadow" loading="lazy" />
+        {alt && <span className="block text-center text-sm text-muted-foreground mt-2">{alt}</span>}
+      </span>
+    );
+  },
+  // Blockquotes are styled as pull quotes.
+  blockquote: ({ children }) => (
+    <blockquote className="not-italic border-l-4 border-primary bg-primary/5 rounded-r-lg px-6 py-4 text-xl font-medium text-foreground">
+      {children}
+    </blockquote>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+  a: ({ href, children }) => (
+    <a href={href} target={href?.startsWith("/") ? undefined : "_blank"} rel="noopener noreferrer">
+      {children}
+    </a>
+  ),
+};
+
+type MarkdownContentProps = {
+  content: string;
+  className?: string;
+};
+
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => (
+  <div className={cn("prose prose-lg max-w-none text-foreground", className)}>
+    {/* Sanitize before slugging so heading ids are not given the `user-content-` prefix */}
+    <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize, rehypeSlug]} components={components}>
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownContent;
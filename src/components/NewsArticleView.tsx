@@ -0,0 +1,85 @@
+import { Calendar, Clock, List, Tag } from "lucide-react";
+import MarkdownContent from "@/components/MarkdownContent";
+import type { NewsArticle } from "@/data/newsData";
+import { getReadingTime, getTableOfContents } from "@/lib/markdown";
+import { useTranslation } from "@/hooks/use-translation";
+
+type NewsArticleViewProps = {
+  article: Pick<NewsArticle, "title" | "description" | "content" | "image" | "date" | "category">;
+};
+
+export const NewsArticleHeader = ({ article }: NewsArticleViewProps) => {
+  const { t, formatDate } = useTranslation();
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="flex items-center gap-4 mb-6">
+        <span className="bg-primary text-primary-foreground px-3 py-1 rounded-full text-sm font-medium flex items-center gap-1">
+          <Tag className="w-3 h-3" />
+          {article.category}
+        </span>
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Calendar className="w-4 h-4" />
+          <time dateTime={article.date}>
+            {formatDate(article.date)}
+          </time>
+        </div>
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Clock className="w-4 h-4" />
+          <span>{t("news.minRead", { minutes: getReadingTime(article.content) })}</span>
+        </div>
+      </div>
+
+      <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-6">
+        {article.title}
+      </h1>
+
+      <p className="text-xl text-muted-foreground mb-8">
+        {article.description}
+      </p>
+    </div>
+  );
+};
+
+const NewsTableOfContents = ({ content }: { content: string }) => {
+  const { t } = useTranslation();
+  const entries = getTableOfContents(content);
+
+  if (entries.length < 2) return null;
+
+  return (
+    <nav aria-label="Table of contents" className="mb-8 rounded-lg border border-border bg-muted/30 p-6">
+      <h2 className="flex items-center gap-2 font-semibold text-foreground mb-3">
+        <List className="w-4 h-4" />
+        {t("news.tableOfContents")}
+      </h2>
+      <ol className="space-y-2 text-sm">
+        {entries.map((entry) => (
+          <li key={entry.id} className={entry.level === 3 ? "ml-4" : undefined}>
+            <a href={`#${entry.id}`} className="text-muted-foreground hover:text-primary transition-colors">
+              {entry.text}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+};
+
+export const NewsArticleBody = ({ article }: NewsArticleViewProps) => (
+  <>
+    <div className="mb-6">
+      <img 
+        src={article.image || "/placeholder.svg"} 
+        alt={article.title}
+        className="w-full h-full   md:h-96 object-cover rounded-lg shadow-lg"
+      />
+    </div>
+
+    <NewsTableOfContents content={article.content} />
+
+    <article>
+      <MarkdownContent content={article.content} />
+    </article>
+  </>
+);
@@ -0,0 +1,361 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Calendar as CalendarIcon, Loader2, Upload } from "lucide-react";
+import Swal from "sweetalert2";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { NewsArticleBody, NewsArticleHeader } from "@/components/NewsArticleView";
+import { newsCategories } from "@/data/newsData";
+import { uploadNewsCover, type AdminNewsArticle, type NewsArticleInput } from "@/lib/newsAdmin";
+import { compactTranslations } from "@/lib/i18n";
+
+const articleSchema = z.object({
+  title: z.string().trim().min(5, "Title must be at least 5 characters"),
+  description: z.string().trim().min(20, "Summary must be at least 20 characters").max(280, "Keep the summary under 280 characters"),
+  content: z.string().trim().min(50, "Body must be at least 50 characters"),
+  category: z.string().min(1, "Choose a category"),
+  image: z.string(),
+  publishedAt: z.date({ required_error: "Choose a publish date" }),
+  translations: z.object({
+    id: z.object({
+      title: z.string().optional(),
+      description: z.string().max(280, "Keep the summary under 280 characters").optional(),
+      content: z.string().optional(),
+    }).optional(),
+  }),
+});
+
+type NewsEditorDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  article?: AdminNewsArticle | null;
+  isSaving: boolean;
+  onSave: (input: NewsArticleInput) => Promise<void>;
+};
+
+const emptyArticle = (): NewsArticleInput => ({
+  title: "",
+  description: "",
+  content: "",
+  category: "",
+  image: "",
+  publishedAt: new Date(),
+  translations: { id: { title: "", description: "", content: "" } },
+});
+
+const NewsEditorDialog = ({ open, onOpenChange, article, isSaving, onSave }: NewsEditorDialogProps) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const form = useForm<NewsArticleInput>({
+    resolver: zodResolver(articleSchema),
+    defaultValues: emptyArticle(),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      article
+        ? {
+            title: article.title,
+            description: article.description,
+            content: article.content,
+            category: article.category,
+            image: article.image === "/placeholder.svg" ? "" : article.image,
+            publishedAt: new Date(article.date),
+            translations: {
+              id: {
+                title: article.translations?.id?.title ?? "",
+                description: article.translations?.id?.description ?? "",
+                content: article.translations?.id?.content ?? "",
+              },
+            },
+          }
+        : emptyArticle()
+    );
+  }, [open, article, form]);
+
+  const handleCoverUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setIsUploading(true);
+    try {
+      form.setValue("image", await uploadNewsCover(file), { shouldDirty: true });
+    } catch (error) {
+      console.error("Error uploading cover image:", error);
+      await Swal.fire({
+        icon: "error",
+        title: "Upload Failed",
+        text: "The cover image could not be uploaded. Please try again.",
+        confirmButtonColor: "#dc2626",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const values = form.watch();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{article ? "Edit Article" : "New Article"}</DialogTitle>
+          <DialogDescription>
+            New articles stay in draft until they are submitted and approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((formValues) =>
+              onSave({ ...formValues, translations: compactTranslations(formValues.translations) })
+            )}
+            className="space-y-6"
+          >
+            <Tabs defaultValue="edit">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="edit">Edit</TabsTrigger>
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="edit" className="space-y-4 pt-4">
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Title</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Summary</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} />
+                      </FormControl>
+                      <FormDescription>Shown on news cards and under the article title.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a category" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {newsCategories
+                              .filter((category) => category !== "All")
+                              .map((category) => (
+                                <SelectItem key={category} value={category}>
+                                  {category}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="publishedAt"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Publish Date</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button variant="outline" className="justify-start text-left font-normal">
+                                <CalendarIcon className="mr-2 h-4 w-4" />
+                                {field.value ? format(field.value, "LLL dd, y") : <span>Pick a date</span>}
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar mode="single" selected={field.value} onSelect={field.onChange} initialFocus />
+                          </PopoverContent>
+                        </Popover>
+                        <FormDescription>Future dates are scheduled once approved.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="image"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cover Image</FormLabel>
+                      <div className="flex gap-2">
+                        <FormControl>
+                          <Input placeholder="https://... or /news1.jpeg" {...field} />
+                        </FormControl>
+                        <Button type="button" variant="outline" disabled={isUploading} asChild>
+                          <label className="cursor-pointer">
+                            {isUploading ? (
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                              <Upload className="w-4 h-4 mr-2" />
+                            )}
+                            Upload
+                            <input
+                              type="file"
+                              accept="image/*"
+                              className="hidden"
+                              onChange={(e) => handleCoverUpload(e.target.files?.[0])}
+                            />
+                          </label>
+                        </Button>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="content"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Body</FormLabel>
+                      <FormControl>
+                        <Textarea rows={12} className="font-mono text-sm" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Markdown: ## headings, - lists, | tables |, &gt; pull quotes, and ![caption](url) for
+                        images or YouTube, Vimeo and .mp4 videos.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="rounded-lg border p-4 space-y-4">
+                  <div>
+                    <p className="text-sm font-medium">Bahasa Indonesia</p>
+                    <p className="text-sm text-muted-foreground">
+                      Optional. Shown to readers browsing in Bahasa Indonesia; empty fields fall back to English.
+                    </p>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="translations.id.title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Title</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder={values.title} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="translations.id.description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Summary</FormLabel>
+                        <FormControl>
+                          <Textarea rows={2} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="translations.id.content"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Body</FormLabel>
+                        <FormControl>
+                          <Textarea rows={8} className="font-mono text-sm" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="preview" className="pt-4">
+                <div className="rounded-lg border p-6">
+                  <NewsArticleHeader
+                    article={{
+                      ...values,
+                      date: (values.publishedAt ?? new Date()).toISOString(),
+                    }}
+                  />
+                  <NewsArticleBody
+                    article={{
+                      ...values,
+                      date: (values.publishedAt ?? new Date()).toISOString(),
+                    }}
+                  />
+                </div>
+              </TabsContent>
+            </Tabs>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || isUploading} className="bg-red-600 hover:bg-red-700">
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {article ? "Save Changes" : "Save Draft"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewsEditorDialog;
@@ -4,88 +4,17 @@ import { useSwipeable } from "react-swipeable";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-
-interface NewsItem {
-  id: number;
-  title: string;
-  description: string;
-  image: string;
-  date: string;
-  category: string;
-}
-
-const newsData: NewsItem[] = [
-  {
-    id: 1,
-    title: "PT Badak LNG Achieves New Safety Milestone",
-    description: "Our commitment to safety excellence continues with zero incidents recorded for 365 consecutive days.",
-    image: "/news1.jpeg",
-    date: "2024-08-05",
-    category: "Safety"
-  },
-  {
-    id: 2,
-    title: "Sustainable Energy Initiative Launch",
-    description: "Introducing our new renewable energy program to reduce carbon footprint by 30%.",
-    image: "/news2.jpg",
-    date: "2024-08-03",
-    category: "Environment"
-  },
-  {
-    id: 3,
-    title: "Community Development Program Expansion",
-    description: "Expanding educational support programs for local communities in East Kalimantan.",
-    image: "/news3.jpg",
-    date: "2024-07-28",
-    category: "Community"
-  },
-  {
-    id: 4,
-    title: "Technology Innovation in LNG Production",
-    description: "Implementation of AI-driven monitoring systems to optimize production efficiency.",
-    image: "/news4.jpg",
-    date: "2024-07-25",
-    category: "Technology"
-  },
-  {
-    id: 5,
-    title: "International Partnership Agreement",
-    description: "Strategic alliance with global energy partners to enhance LNG distribution network.",
-    image: "/placeholder.svg",
-    date: "2024-07-20",
-    category: "Business"
-  },
-  {
-    id: 6,
-    title: "Employee Excellence Recognition",
-    description: "Celebrating outstanding achievements of our workforce in operational excellence.",
-    image: "/placeholder.svg",
-    date: "2024-07-18",
-    category: "People"
-  },
-  {
-    id: 7,
-    title: "Environmental Conservation Project",
-    description: "New marine conservation initiative to protect coastal ecosystems around Bontang.",
-    image: "/placeholder.svg",
-    date: "2024-07-15",
-    category: "Environment"
-  },
-  {
-    id: 8,
-    title: "Digital Transformation Progress",
-    description: "Advancing digitalization across all operational departments for improved efficiency.",
-    image: "/placeholder.svg",
-    date: "2024-07-10",
-    category: "Technology"
-  }
-];
+import { useNewsList } from "@/hooks/use-news";
+import { useTranslation } from "@/hooks/use-translation";
 
 const NewsSection = () => {
   const [currentSlide, setCurrentSlide] = useState(0);
   const navigate = useNavigate();
-  const totalSlides = 2;
+  const { t, formatDate } = useTranslation();
   const itemsPerSlide = 4;
+  const { data } = useNewsList({ page: 1, pageSize: itemsPerSlide * 2 });
+  const newsData = data?.articles ?? [];
+  const totalSlides = Math.max(1, Math.ceil(newsData.length / itemsPerSlide));
 
   const handlePrevSlide = () => {
     setCurrentSlide((prev) => (prev === 0 ? totalSlides - 1 : prev - 1));
@@ -99,11 +28,6 @@ const NewsSection = () => {
     navigate(`/news/${newsId}`);
   };
 
-  const getCurrentSlideNews = () => {
-    const startIndex = currentSlide * itemsPerSlide;
-    return newsData.slice(startIndex, startIndex + itemsPerSlide);
-  };
-
   const handlers = useSwipeable({
     onSwipedLeft: () => handleNextSlide(),
     onSwipedRight: () => handlePrevSlide(),
@@ -115,9 +39,9 @@ const NewsSection = () => {
     <section className="py-20 bg-background">
       <div className="container mx-auto px-4">
         <div className="text-center mb-16">
-          <h2 className="text-4xl font-bold text-foreground mb-4">Latest News & Updates</h2>
+          <h2 className="text-4xl font-bold text-foreground mb-4">{t("news.sectionTitle")}</h2>
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-            Stay informed about our latest developments, achievements, and initiatives
+            {t("news.subtitle")}
           </p>
         </div>
 
@@ -156,11 +80,7 @@ const NewsSection = () => {
                               <div className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
                                 <Calendar className="w-4 h-4" />
                                 <time dateTime={news.date}>
-                                  {new Date(news.date).toLocaleDateString('en-US', {
-                                    year: 'numeric',
-                                    month: 'long',
-                                    day: 'numeric'
-                                  })}
+                                  {formatDate(news.date)}
                                 </time>
                               </div>
                               <h3 className="text-xl font-semibold text-foreground mb-3 group-hover:text-primary transition-colors">
@@ -170,7 +90,7 @@ const NewsSection = () => {
                                 {news.description}
                               </p>
                               <div className="flex items-center text-primary font-medium group-hover:gap-2 transition-all">
-                                Read More
+                                {t("news.readMore")}
                                 <ArrowRight className="w-4 h-4 ml-1 group-hover:translate-x-1 transition-transform" />
                               </div>
                             </div>
@@ -208,7 +128,7 @@ const NewsSection = () => {
             onClick={() => navigate('/news')}
             className="hover:bg-primary hover:text-primary-foreground"
           >
-            View All News
+            {t("news.viewAll")}
             <ArrowRight className="w-4 h-4 ml-2" />
           </Button>
         </div>
@@ -0,0 +1,59 @@
+import { useState } from "react"
+import { Link } from "react-router-dom"
+import { Bell } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useMarkNotificationsRead, useNotifications } from "@/hooks/use-notifications"
+import { useTranslation } from "@/hooks/use-translation"
+
+export default function NotificationBell({ userId }: { userId: string }) {
+  const { t, formatDistanceToNow } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const { data: notifications = [] } = useNotifications(userId)
+  const markRead = useMarkNotificationsRead()
+  const unreadIds = notifications.filter((notification) => !notification.readAt).map((notification) => notification.id)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    // Marked read on close so unread items stay highlighted while the list is open.
+    if (!nextOpen && unreadIds.length > 0) markRead.mutate(unreadIds)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-9 w-9" aria-label={t("notifications.title")}>
+          <Bell className="h-5 w-5" />
+          {unreadIds.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-[10px] font-semibold leading-4 text-white">
+              {unreadIds.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b font-semibold text-sm">{t("notifications.title")}</div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-muted-foreground">{t("notifications.empty")}</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <Link
+                key={notification.id}
+                to={notification.link ?? "/certificates"}
+                onClick={() => handleOpenChange(false)}
+                className={`block px-4 py-3 hover:bg-accent ${notification.readAt ? "" : "bg-red-50/60"}`}
+              >
+                <p className="text-sm font-medium">{notification.title}</p>
+                <p className="text-xs text-muted-foreground mt-1">{notification.body}</p>
+                <p className="text-[11px] text-muted-foreground mt-1">
+                  {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+                </p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -14,6 +14,8 @@ import {
   ArrowRight,
   Star
 } from "lucide-react";
+import { useTranslation } from "@/hooks/use-translation";
+import type { MessageKey } from "@/locales/en";
 
 interface PriorityModalProps {
   isOpen: boolean;
@@ -26,103 +28,112 @@ interface PriorityModalProps {
   } | null;
 }
 
-const priorityDetails = {
+interface PriorityDetail {
+  fullDescription: MessageKey;
+  benefits: MessageKey[];
+  stats: { label: MessageKey; value: string }[];
+  youtubeId: string;
+}
+
+const priorityDetails: Record<string, PriorityDetail> = {
   "safety-protection": {
-    fullDescription: "Fire fighters face numerous hazards daily, from structural collapses to chemical exposures. Our comprehensive safety program ensures every fire fighter has access to the latest protective equipment, safety protocols, and emergency response procedures.",
+    fullDescription: "home.priority.safetyProtection.description",
     benefits: [
-      "State-of-the-art protective equipment",
-      "Regular safety training updates",
-      "24/7 emergency support system",
-      "Family safety education programs"
+      "home.priority.safetyProtection.benefit1",
+      "home.priority.safetyProtection.benefit2",
+      "home.priority.safetyProtection.benefit3",
+      "home.priority.safetyProtection.benefit4"
     ],
     stats: [
-      { label: "Injury Reduction", value: "65%" },
-      { label: "Equipment Upgrades", value: "100%" },
-      { label: "Safety Protocols", value: "50+" }
+      { label: "home.priority.safetyProtection.stat.injuryReduction", value: "65%" },
+      { label: "home.priority.safetyProtection.stat.equipmentUpgrades", value: "100%" },
+      { label: "home.priority.safetyProtection.stat.safetyProtocols", value: "50+" }
     ],
     youtubeId: "G5n2OoUTUmY"
   },
   "presumptive-health": {
-    fullDescription: "Fire fighters have significantly higher rates of cancer, heart disease, and other serious health conditions due to occupational exposures. Our presumptive health coverage ensures you receive the medical care and support you deserve.",
+    fullDescription: "home.priority.presumptiveHealth.description",
     benefits: [
-      "Comprehensive health screenings",
-      "Presumptive disease coverage",
-      "Mental health support services",
-      "Early detection programs"
+      "home.priority.presumptiveHealth.benefit1",
+      "home.priority.presumptiveHealth.benefit2",
+      "home.priority.presumptiveHealth.benefit3",
+      "home.priority.presumptiveHealth.benefit4"
     ],
     stats: [
-      { label: "Health Screenings", value: "5,000+" },
-      { label: "Coverage Claims", value: "95%" },
-      { label: "Early Detection", value: "40%" }
+      { label: "home.priority.presumptiveHealth.stat.healthScreenings", value: "5,000+" },
+      { label: "home.priority.presumptiveHealth.stat.coverageClaims", value: "95%" },
+      { label: "home.priority.presumptiveHealth.stat.earlyDetection", value: "40%" }
     ],
     youtubeId: "G5n2OoUTUmY"
   },
   "cancer-awareness": {
-    fullDescription: "Job-related cancer is the leading cause of line-of-duty deaths among fire fighters. We're committed to education, prevention, and supporting those affected through comprehensive awareness and treatment programs.",
+    fullDescription: "home.priority.cancerAwareness.description",
     benefits: [
-      "Cancer prevention education",
-      "Early screening programs",
-      "Treatment support services",
-      "Research funding initiatives"
+      "home.priority.cancerAwareness.benefit1",
+      "home.priority.cancerAwareness.benefit2",
+      "home.priority.cancerAwareness.benefit3",
+      "home.priority.cancerAwareness.benefit4"
     ],
     stats: [
-      { label: "Lives Saved", value: "500+" },
-      { label: "Awareness Programs", value: "200+" },
-      { label: "Research Funding", value: "$2M+" }
+      { label: "home.priority.cancerAwareness.stat.livesSaved", value: "500+" },
+      { label: "home.priority.cancerAwareness.stat.awarenessPrograms", value: "200+" },
+      { label: "home.priority.cancerAwareness.stat.researchFunding", value: "$2M+" }
     ],
     youtubeId: "U65F3f_s5w0"
   },
   "collective-bargaining": {
-    fullDescription: "Every fire fighter deserves fair representation and a voice in their workplace conditions. Our collective bargaining efforts focus on securing better working conditions, fair compensation, and comprehensive benefits.",
+    fullDescription: "home.priority.collectiveBargaining.description",
     benefits: [
-      "Fair wage negotiations",
-      "Improved working conditions",
-      "Comprehensive benefits packages",
-      "Workplace rights protection"
+      "home.priority.collectiveBargaining.benefit1",
+      "home.priority.collectiveBargaining.benefit2",
+      "home.priority.collectiveBargaining.benefit3",
+      "home.priority.collectiveBargaining.benefit4"
     ],
     stats: [
-      { label: "Contracts Negotiated", value: "150+" },
-      { label: "Wage Increases", value: "25%" },
-      { label: "Members Served", value: "10,000+" }
+      { label: "home.priority.collectiveBargaining.stat.contractsNegotiated", value: "150+" },
+      { label: "home.priority.collectiveBargaining.stat.wageIncreases", value: "25%" },
+      { label: "home.priority.collectiveBargaining.stat.membersServed", value: "10,000+" }
     ],
     youtubeId: "W0qgMr1sY-A"
   },
   "pay-benefits": {
-    fullDescription: "Navigating complex pension systems and benefit structures can be overwhelming. Our dedicated team provides guidance and advocacy to ensure you receive the full compensation and benefits you've earned.",
+    fullDescription: "home.priority.payBenefits.description",
     benefits: [
-      "Pension planning assistance",
-      "Benefits optimization guidance",
-      "Retirement planning services",
-      "Financial education programs"
+      "home.priority.payBenefits.benefit1",
+      "home.priority.payBenefits.benefit2",
+      "home.priority.payBenefits.benefit3",
+      "home.priority.payBenefits.benefit4"
     ],
     stats: [
-      { label: "Pension Claims", value: "98%" },
-      { label: "Benefit Increases", value: "$5M+" },
-      { label: "Members Assisted", value: "8,000+" }
+      { label: "home.priority.payBenefits.stat.pensionClaims", value: "98%" },
+      { label: "home.priority.payBenefits.stat.benefitIncreases", value: "$5M+" },
+      { label: "home.priority.payBenefits.stat.membersAssisted", value: "8,000+" }
     ],
     youtubeId: "O155_u1g5SE"
   },
   "training-excellence": {
-    fullDescription: "Professional development is crucial for career advancement and public safety. Our training programs meet the highest industry standards and prepare fire fighters for the challenges of modern emergency response.",
+    fullDescription: "home.priority.trainingExcellence.description",
     benefits: [
-      "Advanced certification programs",
-      "Leadership development courses",
-      "Technical skills training",
-      "Career advancement support"
+      "home.priority.trainingExcellence.benefit1",
+      "home.priority.trainingExcellence.benefit2",
+      "home.priority.trainingExcellence.benefit3",
+      "home.priority.trainingExcellence.benefit4"
     ],
     stats: [
-      { label: "Training Hours", value: "50,000+" },
-      { label: "Certifications", value: "1,200+" },
-      { label: "Success Rate", value: "95%" }
+      { label: "home.priority.trainingExcellence.stat.trainingHours", value: "50,000+" },
+      { label: "home.priority.trainingExcellence.stat.certifications", value: "1,200+" },
+      { label: "home.priority.trainingExcellence.stat.successRate", value: "95%" }
     ],
     youtubeId: "CZIjA34F31A"
   }
 };
 
 const PriorityModal = ({ isOpen, onClose, priority }: PriorityModalProps) => {
+  const { t } = useTranslation();
+
   if (!priority) return null;
 
-  const details = priorityDetails[priority.link as keyof typeof priorityDetails];
+  const details = priorityDetails[priority.link];
   const Icon = priority.icon;
 
   return (
@@ -138,7 +149,7 @@ const PriorityModal = ({ isOpen, onClose, priority }: PriorityModalProps) => {
                 {priority.title}
               </DialogTitle>
               <Badge variant="secondary" className="text-sm">
-                Priority Focus Area
+                {t("home.priority.focusArea")}
               </Badge>
             </div>
           </div>
@@ -161,21 +172,21 @@ const PriorityModal = ({ isOpen, onClose, priority }: PriorityModalProps) => {
         <div className="space-y-6 md:space-y-8">
           {/* Overview */}
           <div>
-            <h3 className="text-xl font-semibold text-foreground mb-4">Overview</h3>
+            <h3 className="text-xl font-semibold text-foreground mb-4">{t("home.priority.overview")}</h3>
             <p className="text-lg text-muted-foreground leading-relaxed">
-              {details?.fullDescription}
+              {details && t(details.fullDescription)}
             </p>
           </div>
 
           {/* Statistics */}
           <div>
-            <h3 className="text-xl font-semibold text-foreground mb-4 md:mb-6">Impact & Results</h3>
+            <h3 className="text-xl font-semibold text-foreground mb-4 md:mb-6">{t("home.priority.impact")}</h3>
             <div className="grid md:grid-cols-3 gap-6">
               {details?.stats.map((stat, index) => (
                 <Card key={index} className="border-0 bg-accent/10">
                   <CardContent className="p-6 text-center">
                     <div className="text-3xl font-bold text-accent mb-2">{stat.value}</div>
-                    <div className="text-sm text-muted-foreground">{stat.label}</div>
+                    <div className="text-sm text-muted-foreground">{t(stat.label)}</div>
                   </CardContent>
                 </Card>
               ))}
@@ -184,12 +195,12 @@ const PriorityModal = ({ isOpen, onClose, priority }: PriorityModalProps) => {
 
           {/* Benefits */}
           <div>
-            <h3 className="text-xl font-semibold text-foreground mb-4 md:mb-6">Key Benefits</h3>
+            <h3 className="text-xl font-semibold text-foreground mb-4 md:mb-6">{t("home.priority.benefits")}</h3>
             <div className="grid md:grid-cols-2 gap-4">
               {details?.benefits.map((benefit, index) => (
                 <div key={index} className="flex items-start gap-3">
                   <CheckCircle className="h-5 w-5 text-accent mt-0.5 flex-shrink-0" />
-                  <span className="text-muted-foreground">{benefit}</span>
+                  <span className="text-muted-foreground">{t(benefit)}</span>
                 </div>
               ))}
             </div>
@@ -200,18 +211,18 @@ const PriorityModal = ({ isOpen, onClose, priority }: PriorityModalProps) => {
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="text-xl font-semibold text-foreground mb-2">
-                  Get Involved
+                  {t("home.priority.getInvolved")}
                 </h3>
                 <p className="text-muted-foreground">
-                  Learn more about how this program can benefit you and your family.
+                  {t("home.priority.getInvolvedText")}
                 </p>
               </div>
               <div className="flex gap-3">
                 <Button variant="outline" onClick={onClose}>
-                  Close
+                  {t("home.priority.close")}
                 </Button>
                 <Button className="bg-accent hover:bg-accent/90">
-                  Contact Us
+                  {t("home.priority.contactUs")}
                   <ArrowRight className="h-4 w-4 ml-2" />
                 </Button>
               </div>
@@ -0,0 +1,158 @@
+import { useState } from "react"
+import { Loader2, MessageSquare, PenLine } from "lucide-react"
+import ReviewDialog from "@/components/ReviewDialog"
+import StarRating from "@/components/StarRating"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Separator } from "@/components/ui/separator"
+import { usePublishedReviews, useReviewEligibility, useReviewStats } from "@/hooks/use-reviews"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  emptyReviewStats,
+  reviewDimensionLabels,
+  reviewDimensions,
+  reviewStatusLabels,
+  reviewStatusStyles,
+} from "@/lib/reviews"
+import type { TrainingProgram } from "@/data/trainingData"
+
+type ProgramReviewsProps = {
+  training: TrainingProgram
+}
+
+// Published reviews with their aggregates, plus the entry point for trainees
+// who completed the program to write or edit their own.
+export default function ProgramReviews({ training }: ProgramReviewsProps) {
+  const { t, formatDate } = useTranslation()
+  const { data: stats = emptyReviewStats, isError: isStatsError } = useReviewStats(training.id)
+  const { data: reviews = [], isLoading, isError } = usePublishedReviews(training.id)
+  const { enrollment, review: ownReview } = useReviewEligibility(training.id)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  if (isError || isStatsError) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-gray-600">{t("reviews.unavailable")}</CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("reviews.title")}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="text-center md:border-r md:pr-6">
+            <p className="text-5xl font-bold text-foreground">
+              {stats.reviewCount > 0 ? stats.averageRating.toFixed(1) : "–"}
+            </p>
+            <StarRating value={stats.averageRating} className="justify-center my-2" starClassName="w-5 h-5" />
+            <p className="text-sm text-gray-500">
+              {t(stats.reviewCount === 1 ? "reviews.count.one" : "reviews.count.other", { count: stats.reviewCount })}
+            </p>
+          </div>
+
+          <div className="space-y-1.5">
+            {[5, 4, 3, 2, 1].map((star) => {
+              const count = stats.distribution[star - 1] ?? 0
+              return (
+                <div key={star} className="flex items-center gap-2 text-sm">
+                  <span className="w-3 text-gray-600">{star}</span>
+                  <Progress value={stats.reviewCount ? (count / stats.reviewCount) * 100 : 0} className="h-2 flex-1" />
+                  <span className="w-6 text-right text-gray-500">{count}</span>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="space-y-2">
+            {reviewDimensions.map((dimension) => (
+              <div key={dimension} className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">{t(reviewDimensionLabels[dimension])}</span>
+                <span className="font-medium text-foreground">
+                  {stats.reviewCount > 0 ? stats.averages[dimension].toFixed(1) : "–"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-muted p-4">
+          {enrollment ? (
+            <>
+              <div className="text-sm text-gray-600">
+                {ownReview ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span>{t("reviews.yourReview")}</span>
+                    <Badge variant="outline" className={reviewStatusStyles[ownReview.status]}>
+                      {t(reviewStatusLabels[ownReview.status])}
+                    </Badge>
+                    {ownReview.status === "rejected" && ownReview.moderationNote && (
+                      <span className="text-red-700">{ownReview.moderationNote}</span>
+                    )}
+                  </div>
+                ) : (
+                  t("reviews.prompt")
+                )}
+              </div>
+              <Button size="sm" className="bg-red-600 hover:bg-red-700" onClick={() => setIsDialogOpen(true)}>
+                <PenLine className="w-4 h-4 mr-2" />
+                {t(ownReview ? "reviews.edit" : "reviews.write")}
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">{t("reviews.onlyCompleted")}</p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="py-8 text-center text-gray-500">
+            <MessageSquare className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+            {t("reviews.empty")}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review, index) => (
+              <div key={review.id} className="space-y-2">
+                {index > 0 && <Separator className="mb-4" />}
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-3">
+                    <span className="font-semibold text-foreground">{review.reviewerName}</span>
+                    <StarRating value={review.rating} />
+                  </div>
+                  <span className="text-xs text-gray-500">{formatDate(review.createdAt, "LLL dd, y")}</span>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                  {reviewDimensions.map((dimension) => (
+                    <span key={dimension}>
+                      {t(reviewDimensionLabels[dimension])}: {review.ratings[dimension]}/5
+                    </span>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{review.comment}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {enrollment && (
+        <ReviewDialog
+          open={isDialogOpen}
+          onOpenChange={setIsDialogOpen}
+          programTitle={training.title}
+          enrollment={enrollment}
+          review={ownReview}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,680 @@
+import { useEffect, useState } from "react"
+import { useFieldArray, useForm, useFormContext } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2, Upload } from "lucide-react"
+import Swal from "sweetalert2"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import HotspotImage from "@/components/HotspotImage"
+import { useQuizQuestions } from "@/hooks/use-quizzes"
+import { useTranslation } from "@/hooks/use-translation"
+import { getTopicKey } from "@/lib/learningProgress"
+import { uploadTrainingAsset } from "@/lib/trainingAdmin"
+import {
+  questionTypeLabels,
+  quizKindLabels,
+  type HotspotRegion,
+  type QuestionType,
+  type Quiz,
+  type QuizInput,
+  type QuizKind,
+  type QuizQuestion,
+  type QuizQuestionInput,
+} from "@/lib/quizzes"
+import type { TrainingProgram } from "@/data/trainingData"
+
+const questionTypes = Object.keys(questionTypeLabels) as QuestionType[]
+const quizKinds = Object.keys(quizKindLabels) as QuizKind[]
+
+const optionalCount = z.preprocess(
+  (value) => (value === "" || value === null ? undefined : value),
+  z.coerce.number().int().positive("Use a whole number").optional()
+)
+
+const questionSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(questionTypes as [QuestionType, ...QuestionType[]]),
+    prompt: z.string().trim().min(3, "Question is required"),
+    imageUrl: z.string(),
+    points: z.coerce.number().int().min(1, "At least one point"),
+    options: z.array(
+      z.object({
+        id: z.string(),
+        label: z.string().trim().min(1, "Option text is required"),
+        correct: z.boolean(),
+      })
+    ),
+    region: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }).nullable(),
+  })
+  .superRefine((question, ctx) => {
+    if (question.type === "hotspot") {
+      if (!question.imageUrl) ctx.addIssue({ code: "custom", path: ["imageUrl"], message: "Upload the image to click on" })
+      if (!question.region) ctx.addIssue({ code: "custom", path: ["region"], message: "Drag on the image to mark the answer" })
+      return
+    }
+    if (question.options.length < 2) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: "Add at least two options" })
+      return
+    }
+    const correctCount = question.options.filter((option) => option.correct).length
+    if (question.type === "multiple_choice" && correctCount === 0) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: "Mark at least one correct option" })
+    }
+    if ((question.type === "single_choice" || question.type === "true_false") && correctCount !== 1) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: "Mark exactly one correct option" })
+    }
+  })
+
+const quizSchema = z
+  .object({
+    title: z.string().trim().min(3, "Title is required"),
+    description: z.string(),
+    kind: z.enum(quizKinds as [QuizKind, ...QuizKind[]]),
+    topicKey: z.string(),
+    timeLimitMinutes: optionalCount,
+    questionCount: optionalCount,
+    passingScore: z.coerce.number().int().min(1, "Between 1 and 100").max(100, "Between 1 and 100"),
+    maxAttempts: optionalCount,
+    published: z.boolean(),
+    questions: z.array(questionSchema).min(1, "Add at least one question"),
+  })
+  .superRefine((values, ctx) => {
+    if (values.kind === "knowledge_check" && !values.topicKey) {
+      ctx.addIssue({ code: "custom", path: ["topicKey"], message: "Choose the topic this check belongs to" })
+    }
+    if (values.questionCount && values.questionCount > values.questions.length) {
+      ctx.addIssue({ code: "custom", path: ["questionCount"], message: "The pool has fewer questions than that" })
+    }
+  })
+
+type QuizFormValues = z.infer<typeof quizSchema>
+type QuestionFormValues = QuizFormValues["questions"][number]
+
+const newId = () => crypto.randomUUID()
+const newOption = () => ({ id: newId().slice(0, 8), label: "", correct: false })
+
+const trueFalseOptions = () => [
+  { id: "true", label: "True", correct: true },
+  { id: "false", label: "False", correct: false },
+]
+
+const newQuestion = (): QuestionFormValues => ({
+  id: newId(),
+  type: "single_choice",
+  prompt: "",
+  imageUrl: "",
+  points: 1,
+  options: [newOption(), newOption()],
+  region: null,
+})
+
+const toQuestionFormValues = (question: QuizQuestion): QuestionFormValues => ({
+  id: question.id,
+  type: question.type,
+  prompt: question.prompt,
+  imageUrl: question.imageUrl ?? "",
+  points: question.points,
+  options: question.options.map((option) => ({
+    ...option,
+    correct: Array.isArray(question.answer) && question.type !== "ordering" && question.answer.includes(option.id),
+  })),
+  region: question.type === "hotspot" ? (question.answer as HotspotRegion) : null,
+})
+
+const toFormValues = (quiz?: Quiz | null, questions: QuizQuestion[] = []): QuizFormValues => ({
+  title: quiz?.title ?? "",
+  description: quiz?.description ?? "",
+  kind: quiz?.kind ?? "knowledge_check",
+  topicKey: quiz?.moduleIndex !== null && quiz?.moduleIndex !== undefined ? getTopicKey(quiz) : "",
+  timeLimitMinutes: quiz?.timeLimitMinutes ?? undefined,
+  questionCount: quiz?.questionCount ?? undefined,
+  passingScore: quiz?.passingScore ?? 70,
+  maxAttempts: quiz?.maxAttempts ?? undefined,
+  published: quiz?.published ?? true,
+  questions: quiz ? questions.map(toQuestionFormValues) : [newQuestion()],
+})
+
+// The answer key is derived from the option flags (or option order, for
+// ordering questions) so authors never type ids by hand.
+const toQuestionInput = (question: QuestionFormValues, index: number): QuizQuestionInput => ({
+  id: question.id,
+  type: question.type,
+  prompt: question.prompt,
+  imageUrl: question.imageUrl || null,
+  points: question.points,
+  options: question.type === "hotspot" ? [] : question.options.map(({ id, label }) => ({ id, label })),
+  answer:
+    question.type === "hotspot"
+      ? (question.region as HotspotRegion)
+      : question.type === "ordering"
+        ? question.options.map((option) => option.id)
+        : question.options.filter((option) => option.correct).map((option) => option.id),
+  sortOrder: index,
+})
+
+const toQuizInput = (values: QuizFormValues, programId: string, sortOrder: number): QuizInput => {
+  const [moduleIndex, topicIndex] =
+    values.kind === "knowledge_check" && values.topicKey ? values.topicKey.split("-").map(Number) : [null, null]
+  return {
+    programId,
+    title: values.title,
+    description: values.description ?? "",
+    kind: values.kind,
+    moduleIndex,
+    topicIndex,
+    timeLimitMinutes: values.timeLimitMinutes ?? null,
+    questionCount: values.questionCount ?? null,
+    passingScore: values.passingScore,
+    maxAttempts: values.maxAttempts ?? null,
+    published: values.published,
+    sortOrder,
+  }
+}
+
+function QuestionEditor({ index, onRemove }: { index: number; onRemove: () => void }) {
+  const { control, setValue, watch } = useFormContext<QuizFormValues>()
+  const { t } = useTranslation()
+  // Options carry their own ids, so the generated key goes elsewhere.
+  const options = useFieldArray({ control, name: `questions.${index}.options`, keyName: "fieldId" })
+  const [isUploading, setIsUploading] = useState(false)
+  const question = watch(`questions.${index}`)
+  const isChoice = question.type !== "hotspot" && question.type !== "ordering"
+
+  const handleTypeChange = (type: QuestionType) => {
+    if (type === "true_false") {
+      setValue(`questions.${index}.options`, trueFalseOptions())
+    } else if (question.type === "true_false") {
+      setValue(`questions.${index}.options`, [newOption(), newOption()])
+    } else if (type === "single_choice") {
+      setValue(
+        `questions.${index}.options`,
+        question.options.map((option) => ({ ...option, correct: false }))
+      )
+    }
+    setValue(`questions.${index}.type`, type)
+  }
+
+  const handleCorrectChange = (optionIndex: number, checked: boolean) => {
+    const isSingle = question.type === "single_choice" || question.type === "true_false"
+    setValue(
+      `questions.${index}.options`,
+      question.options.map((option, current) => ({
+        ...option,
+        correct: current === optionIndex ? checked : isSingle && checked ? false : option.correct,
+      })),
+      { shouldValidate: true }
+    )
+  }
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return
+    setIsUploading(true)
+    try {
+      setValue(`questions.${index}.imageUrl`, await uploadTrainingAsset(file, "quizzes"), { shouldDirty: true })
+    } catch (error) {
+      console.error("Error uploading quiz image:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Upload Failed",
+        text: "The image could not be uploaded. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold">Question {index + 1}</h4>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+          <Trash2 className="w-4 h-4 text-red-600" />
+        </Button>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-4">
+        <FormField
+          control={control}
+          name={`questions.${index}.type`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Type</FormLabel>
+              <Select value={field.value} onValueChange={(value) => handleTypeChange(value as QuestionType)}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {questionTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t(questionTypeLabels[type])}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`questions.${index}.prompt`}
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Question</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`questions.${index}.points`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Points</FormLabel>
+              <FormControl>
+                <Input type="number" min={1} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={control}
+        name={`questions.${index}.imageUrl`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{question.type === "hotspot" ? "Image" : "Image (optional)"}</FormLabel>
+            <div className="flex gap-2">
+              <FormControl>
+                <Input placeholder="https://..." {...field} />
+              </FormControl>
+              <Button type="button" variant="outline" disabled={isUploading} asChild>
+                <label className="cursor-pointer">
+                  {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => handleUpload(e.target.files?.[0])}
+                  />
+                </label>
+              </Button>
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {question.type === "hotspot" ? (
+        <FormField
+          control={control}
+          name={`questions.${index}.region`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Correct Area</FormLabel>
+              <FormDescription>Drag across the image to mark where trainees should click.</FormDescription>
+              {question.imageUrl && (
+                <div className="max-w-xl">
+                  <HotspotImage
+                    src={question.imageUrl}
+                    alt={question.prompt}
+                    region={field.value as HotspotRegion}
+                    onRegion={(region) => field.onChange(region)}
+                  />
+                </div>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ) : (
+        <FormField
+          control={control}
+          name={`questions.${index}.options`}
+          render={() => (
+            <FormItem>
+              <FormLabel>{question.type === "ordering" ? "Steps" : "Options"}</FormLabel>
+              <FormDescription>
+                {question.type === "ordering"
+                  ? "List the steps in the correct order. Trainees see them shuffled."
+                  : "Tick the correct answer(s)."}
+              </FormDescription>
+              <div className="space-y-2">
+                {options.fields.map((option, optionIndex) => (
+                  <div key={option.fieldId} className="flex items-center gap-2">
+                    {isChoice ? (
+                      <Checkbox
+                        checked={question.options[optionIndex]?.correct ?? false}
+                        onCheckedChange={(checked) => handleCorrectChange(optionIndex, checked === true)}
+                        aria-label="Correct answer"
+                      />
+                    ) : (
+                      <span className="w-6 text-sm font-semibold text-gray-500">{optionIndex + 1}.</span>
+                    )}
+                    <FormField
+                      control={control}
+                      name={`questions.${index}.options.${optionIndex}.label`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input {...field} disabled={question.type === "true_false"} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    {question.type === "ordering" && (
+                      <>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={optionIndex === 0}
+                          onClick={() => options.move(optionIndex, optionIndex - 1)}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={optionIndex === options.fields.length - 1}
+                          onClick={() => options.move(optionIndex, optionIndex + 1)}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                    {question.type !== "true_false" && (
+                      <Button type="button" variant="ghost" size="sm" onClick={() => options.remove(optionIndex)}>
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {question.type !== "true_false" && (
+                <Button type="button" variant="outline" size="sm" onClick={() => options.append(newOption())}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  {question.type === "ordering" ? "Add Step" : "Add Option"}
+                </Button>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+    </div>
+  )
+}
+
+type QuizEditorDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  program: TrainingProgram
+  quiz?: Quiz | null
+  sortOrder: number
+  isSaving: boolean
+  onSave: (input: QuizInput, questions: QuizQuestionInput[]) => Promise<void>
+}
+
+export default function QuizEditorDialog({
+  open,
+  onOpenChange,
+  program,
+  quiz,
+  sortOrder,
+  isSaving,
+  onSave,
+}: QuizEditorDialogProps) {
+  const { t } = useTranslation()
+  const { data: questions, isLoading: isQuestionsLoading } = useQuizQuestions(open ? quiz?.id : undefined)
+  const form = useForm<QuizFormValues>({
+    resolver: zodResolver(quizSchema),
+    defaultValues: toFormValues(),
+  })
+  const pool = useFieldArray({ control: form.control, name: "questions", keyName: "fieldId" })
+
+  useEffect(() => {
+    if (open && (!quiz || questions)) form.reset(toFormValues(quiz, questions))
+  }, [open, quiz, questions, form])
+
+  const kind = form.watch("kind")
+
+  const handleSubmit = (values: QuizFormValues) =>
+    onSave(
+      toQuizInput(values, program.id, quiz?.sortOrder ?? sortOrder),
+      (values.questions ?? []).map(toQuestionInput)
+    )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{quiz ? "Edit Quiz" : "New Quiz"}</DialogTitle>
+          <DialogDescription>{program.title}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <Tabs defaultValue="settings">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="settings">Settings</TabsTrigger>
+                <TabsTrigger value="questions">Question Pool ({pool.fields.length})</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="settings" className="space-y-4 pt-4">
+                <div className="grid md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Title</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="kind"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Kind</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {quizKinds.map((quizKind) => (
+                              <SelectItem key={quizKind} value={quizKind}>
+                                {t(quizKindLabels[quizKind])}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {kind === "knowledge_check" && (
+                  <FormField
+                    control={form.control}
+                    name="topicKey"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Syllabus Topic</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a topic" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {program.syllabus.flatMap((syllabusModule, moduleIndex) =>
+                              syllabusModule.topics.map((topic, topicIndex) => (
+                                <SelectItem
+                                  key={getTopicKey({ moduleIndex, topicIndex })}
+                                  value={getTopicKey({ moduleIndex, topicIndex })}
+                                >
+                                  Module {moduleIndex + 1} · {topic.week}: {topic.title}
+                                </SelectItem>
+                              ))
+                            )}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Passing the check marks this topic complete.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Instructions</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid md:grid-cols-4 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="timeLimitMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Time Limit (min)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} placeholder="Untimed" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="questionCount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Questions per Attempt</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} placeholder="Whole pool" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormDescription>Drawn at random from the pool.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="passingScore"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Passing Score (%)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={100} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="maxAttempts"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Attempt Limit</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} placeholder="Unlimited" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="published"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                      <div>
+                        <FormLabel>Published</FormLabel>
+                        <FormDescription>
+                          Published quizzes are visible to trainees and must be passed before certification.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </TabsContent>
+
+              <TabsContent value="questions" className="space-y-4 pt-4">
+                {quiz && isQuestionsLoading ? (
+                  <Loader2 className="w-6 h-6 animate-spin mx-auto text-gray-400" />
+                ) : (
+                  pool.fields.map((question, index) => (
+                    <QuestionEditor key={question.fieldId} index={index} onRemove={() => pool.remove(index)} />
+                  ))
+                )}
+                <FormField
+                  control={form.control}
+                  name="questions"
+                  render={() => (
+                    <FormItem>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="button" variant="outline" onClick={() => pool.append(newQuestion())}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Question
+                </Button>
+              </TabsContent>
+            </Tabs>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving} className="bg-red-600 hover:bg-red-700">
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Quiz
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,127 @@
+import { ArrowDown, ArrowUp } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import HotspotImage from "@/components/HotspotImage"
+import { questionTypeLabels, type AttemptQuestion, type QuizResponse } from "@/lib/quizzes"
+import { useTranslation } from "@/hooks/use-translation"
+import type { MessageKey } from "@/locales/en"
+
+type QuizQuestionCardProps = {
+  question: AttemptQuestion
+  number: number
+  response: QuizResponse | undefined
+  onChange: (response: QuizResponse) => void
+}
+
+const instructions: Partial<Record<AttemptQuestion["type"], MessageKey>> = {
+  multiple_choice: "quiz.instructions.multipleChoice",
+  hotspot: "quiz.instructions.hotspot",
+  ordering: "quiz.instructions.ordering",
+}
+
+export default function QuizQuestionCard({ question, number, response, onChange }: QuizQuestionCardProps) {
+  const { t } = useTranslation()
+  const selected = Array.isArray(response) ? response : []
+  const optionsById = new Map(question.options.map((option) => [option.id, option]))
+
+  const toggleOption = (optionId: string, checked: boolean) =>
+    onChange(checked ? [...selected, optionId] : selected.filter((id) => id !== optionId))
+
+  const moveOption = (index: number, offset: number) => {
+    const next = [...selected]
+    const [moved] = next.splice(index, 1)
+    next.splice(index + offset, 0, moved)
+    onChange(next)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium text-gray-500">Question {number}</span>
+          <div className="flex gap-2">
+            <Badge variant="outline">{t(questionTypeLabels[question.type])}</Badge>
+            <Badge variant="outline">
+              {question.points} {question.points === 1 ? "pt" : "pts"}
+            </Badge>
+          </div>
+        </div>
+        <CardTitle className="text-lg leading-snug">{question.prompt}</CardTitle>
+        {instructions[question.type] && <p className="text-sm text-gray-600">{t(instructions[question.type])}</p>}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {question.imageUrl && question.type !== "hotspot" && (
+          <img src={question.imageUrl} alt="" className="max-h-72 rounded-md border" />
+        )}
+
+        {(question.type === "single_choice" || question.type === "true_false") && (
+          <RadioGroup value={selected[0] ?? ""} onValueChange={(value) => onChange([value])}>
+            {question.options.map((option) => (
+              <div key={option.id} className="flex items-center gap-3 rounded-md border p-3">
+                <RadioGroupItem value={option.id} id={`${question.id}-${option.id}`} />
+                <Label htmlFor={`${question.id}-${option.id}`} className="flex-1 cursor-pointer font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        )}
+
+        {question.type === "multiple_choice" &&
+          question.options.map((option) => (
+            <div key={option.id} className="flex items-center gap-3 rounded-md border p-3">
+              <Checkbox
+                id={`${question.id}-${option.id}`}
+                checked={selected.includes(option.id)}
+                onCheckedChange={(checked) => toggleOption(option.id, checked === true)}
+              />
+              <Label htmlFor={`${question.id}-${option.id}`} className="flex-1 cursor-pointer font-normal">
+                {option.label}
+              </Label>
+            </div>
+          ))}
+
+        {question.type === "ordering" &&
+          selected.map((optionId, index) => (
+            <div key={optionId} className="flex items-center gap-3 rounded-md border bg-card p-3">
+              <span className="w-6 text-sm font-semibold text-gray-500">{index + 1}.</span>
+              <span className="flex-1">{optionsById.get(optionId)?.label}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={index === 0}
+                onClick={() => moveOption(index, -1)}
+                aria-label={t("quiz.moveUp")}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={index === selected.length - 1}
+                onClick={() => moveOption(index, 1)}
+                aria-label={t("quiz.moveDown")}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+        {question.type === "hotspot" && question.imageUrl && (
+          <HotspotImage
+            src={question.imageUrl}
+            alt={question.prompt}
+            point={response && !Array.isArray(response) ? response : null}
+            onPoint={onChange}
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,59 @@
+import type { ReactNode } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import FloatingHeader from "@/components/FloatingHeader";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useTranslation } from "@/hooks/use-translation";
+import { userRoleLabels, type UserRole } from "@/lib/profile";
+
+type RequireRoleProps = {
+  /** Roles allowed through. Leave empty to only require a signed-in user. */
+  roles?: UserRole[];
+  children: ReactNode;
+};
+
+const RequireRole = ({ roles = [], children }: RequireRoleProps) => {
+  const { session, isLoading, hasRole } = useCurrentUser();
+  const location = useLocation();
+  const { t } = useTranslation();
+
+  if (isLoading) {
+    return <Skeleton className="h-screen w-full" />;
+  }
+
+  if (!session) {
+    const redirect = encodeURIComponent(location.pathname + location.search + location.hash);
+    return <Navigate to={`/auth?redirect=${redirect}`} replace />;
+  }
+
+  if (roles.length > 0 && !hasRole(...roles)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <FloatingHeader />
+        <div className="max-w-xl mx-auto px-4 pt-40 pb-24">
+          <Card>
+            <CardContent className="py-16 text-center">
+              <ShieldAlert className="w-12 h-12 text-red-600 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-foreground mb-2">{t("access.restrictedTitle")}</h3>
+              <p className="text-gray-600 mb-6">
+                {t("access.restrictedText", { roles: roles.map((role) => t(userRoleLabels[role])).join(", ") })}
+              </p>
+              <Button asChild className="bg-red-600 hover:bg-red-700">
+                <Link to="/">{t("access.backHome")}</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
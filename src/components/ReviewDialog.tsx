@@ -0,0 +1,145 @@
+import { useEffect, useMemo } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Loader2 } from "lucide-react"
+import Swal from "sweetalert2"
+import StarRating from "@/components/StarRating"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useSubmitReview } from "@/hooks/use-reviews"
+import { useTranslation } from "@/hooks/use-translation"
+import { reviewDimensionLabels, reviewDimensions, type ProgramReview } from "@/lib/reviews"
+import type { Enrollment } from "@/lib/enrollment"
+import type { I18n } from "@/lib/i18n"
+
+// Built per locale so validation messages follow the language switcher.
+const createReviewSchema = (t: I18n["t"]) => {
+  const starsSchema = z.number().int().min(1, t("reviews.dialog.chooseRating")).max(5)
+  return z.object({
+    instructor: starsSchema,
+    facilities: starsSchema,
+    content: starsSchema,
+    comment: z.string().trim().min(20, t("reviews.dialog.commentTooShort")),
+  })
+}
+
+type ReviewFormValues = z.infer<ReturnType<typeof createReviewSchema>>
+
+const toFormValues = (review?: ProgramReview | null): ReviewFormValues => ({
+  instructor: review?.ratings.instructor ?? 0,
+  facilities: review?.ratings.facilities ?? 0,
+  content: review?.ratings.content ?? 0,
+  comment: review?.comment ?? "",
+})
+
+type ReviewDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  programTitle: string
+  enrollment: Enrollment
+  review?: ProgramReview | null
+}
+
+export default function ReviewDialog({ open, onOpenChange, programTitle, enrollment, review }: ReviewDialogProps) {
+  const { t } = useTranslation()
+  const submitReview = useSubmitReview()
+  const reviewSchema = useMemo(() => createReviewSchema(t), [t])
+  const form = useForm<ReviewFormValues>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: toFormValues(),
+  })
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(review))
+  }, [open, review, form])
+
+  const handleSubmit = async (values: ReviewFormValues) => {
+    try {
+      await submitReview.mutateAsync({
+        enrollmentId: enrollment.id,
+        ratings: { instructor: values.instructor, facilities: values.facilities, content: values.content },
+        comment: values.comment,
+      })
+      onOpenChange(false)
+      Swal.fire({
+        icon: "success",
+        title: t("reviews.dialog.thanksTitle"),
+        text: t("reviews.dialog.thanksText"),
+        timer: 2500,
+        showConfirmButton: false,
+      })
+    } catch (error) {
+      console.error("Error submitting review:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("reviews.dialog.failedTitle"),
+        text: error instanceof Error ? error.message : t("reviews.dialog.failedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t(review ? "reviews.dialog.editTitle" : "reviews.write")}</DialogTitle>
+          <DialogDescription>{programTitle}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-5">
+            {reviewDimensions.map((dimension) => (
+              <FormField
+                key={dimension}
+                control={form.control}
+                name={dimension}
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>{t(reviewDimensionLabels[dimension])}</FormLabel>
+                      <FormControl>
+                        <StarRating value={field.value} onChange={field.onChange} starClassName="w-6 h-6" />
+                      </FormControl>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="comment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("reviews.dialog.experience")}</FormLabel>
+                  <FormControl>
+                    <Textarea rows={5} placeholder={t("reviews.dialog.placeholder")} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    {t("reviews.dialog.moderation")}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" className="bg-red-600 hover:bg-red-700" disabled={submitReview.isPending}>
+                {submitReview.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {t("reviews.dialog.submit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useState } from "react"
+import { isSameDay } from "date-fns"
+import { Clock, MapPin, UserCheck } from "lucide-react"
+import { Calendar } from "@/components/ui/calendar"
+import { useTranslation } from "@/hooks/use-translation"
+import type { TrainingCohort, TrainingSession } from "@/lib/schedule"
+
+type SessionCalendarProps = {
+  sessions: TrainingSession[]
+  cohorts: TrainingCohort[]
+}
+
+// Month view of individual sessions; days with sessions are highlighted and
+// picking one lists what runs that day.
+export default function SessionCalendar({ sessions, cohorts }: SessionCalendarProps) {
+  const { t, formatDate, dateLocale } = useTranslation()
+  const cohortsById = useMemo(() => new Map(cohorts.map((cohort) => [cohort.id, cohort])), [cohorts])
+  const sessionDays = useMemo(() => sessions.map((session) => new Date(session.startsAt)), [sessions])
+
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>()
+  const [month, setMonth] = useState<Date>(new Date())
+
+  // Jump to the first scheduled session whenever the schedule changes.
+  useEffect(() => {
+    if (sessionDays.length === 0) return
+    setSelectedDay(sessionDays[0])
+    setMonth(sessionDays[0])
+  }, [sessionDays])
+
+  const daySessions = selectedDay
+    ? sessions.filter((session) => isSameDay(new Date(session.startsAt), selectedDay))
+    : []
+
+  return (
+    <div className="grid md:grid-cols-[auto_1fr] gap-6">
+      <Calendar
+        mode="single"
+        selected={selectedDay}
+        onSelect={setSelectedDay}
+        month={month}
+        onMonthChange={setMonth}
+        locale={dateLocale}
+        modifiers={{ scheduled: sessionDays }}
+        modifiersClassNames={{ scheduled: "font-bold text-red-600 underline underline-offset-4" }}
+        className="rounded-lg border bg-card self-start"
+      />
+      <div className="space-y-3">
+        <h4 className="font-semibold text-foreground">
+          {selectedDay ? formatDate(selectedDay, "EEEE, LLL dd, y") : t("schedule.selectDay")}
+        </h4>
+        {daySessions.length === 0 ? (
+          <p className="text-sm text-gray-600">{t("schedule.noSessionsOnDay")}</p>
+        ) : (
+          daySessions.map((session) => {
+            const cohort = cohortsById.get(session.cohortId)
+            return (
+              <div key={session.id} className="rounded-lg border bg-card p-4 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-foreground">{session.title}</p>
+                  {cohort && <span className="text-xs text-gray-500">{cohort.code}</span>}
+                </div>
+                {cohort && <p className="text-sm text-gray-700">{cohort.programTitle}</p>}
+                <p className="flex items-center text-sm text-gray-600">
+                  <Clock className="w-4 h-4 mr-2" />
+                  {formatDate(session.startsAt, "HH:mm")} – {formatDate(session.endsAt, "HH:mm")}
+                </p>
+                <p className="flex items-center text-sm text-gray-600">
+                  <MapPin className="w-4 h-4 mr-2" />
+                  {session.venue}
+                </p>
+                {session.instructor && (
+                  <p className="flex items-center text-sm text-gray-600">
+                    <UserCheck className="w-4 h-4 mr-2" />
+                    {session.instructor}
+                  </p>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
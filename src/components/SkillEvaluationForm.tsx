@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react"
+import { AlertTriangle, Check, Loader2, Pause, Play, RotateCcw, Signature, Timer, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { formatSeconds, scoreSkillEvaluation, type SkillSheet } from "@/lib/skills"
+
+type SkillEvaluationFormProps = {
+  sheet: SkillSheet
+  isSaving: boolean
+  onSignOff: (stepResults: Record<string, boolean>, timeSeconds: number | null, notes: string) => void
+}
+
+// Step-by-step grading sized for a tablet held at the training ground. The
+// parent keys this by trainee and sheet so each evaluation starts clean.
+export default function SkillEvaluationForm({ sheet, isSaving, onSignOff }: SkillEvaluationFormProps) {
+  const [stepResults, setStepResults] = useState<Record<string, boolean>>({})
+  const [notes, setNotes] = useState("")
+  const [elapsed, setElapsed] = useState(0)
+  const [runningSince, setRunningSince] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (runningSince === null) return
+    const interval = window.setInterval(() => setNow(Date.now()), 100)
+    return () => window.clearInterval(interval)
+  }, [runningSince])
+
+  const elapsedMs = elapsed + (runningSince === null ? 0 : now - runningSince)
+  const timeSeconds = sheet.timeLimitSeconds !== null || elapsedMs > 0 ? Math.round(elapsedMs / 100) / 10 : null
+  const isComplete = sheet.steps.every((step) => stepResults[step.id] !== undefined)
+  const outcome = scoreSkillEvaluation(sheet, stepResults, timeSeconds)
+
+  const toggleTimer = () => {
+    if (runningSince === null) {
+      setRunningSince(Date.now())
+      setNow(Date.now())
+    } else {
+      setElapsed(elapsedMs)
+      setRunningSince(null)
+    }
+  }
+
+  const resetTimer = () => {
+    setElapsed(0)
+    setRunningSince(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      {sheet.timeLimitSeconds !== null && (
+        <div className="rounded-lg border p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="flex items-center">
+              <Timer className="w-4 h-4 mr-2" />
+              Time (limit {formatSeconds(sheet.timeLimitSeconds)})
+            </Label>
+            <span
+              className={`font-mono text-3xl font-bold ${outcome.isOverTime && elapsedMs > 0 ? "text-red-600" : "text-foreground"}`}
+            >
+              {(elapsedMs / 1000).toFixed(1)}s
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" className="flex-1 h-12 bg-red-600 hover:bg-red-700" onClick={toggleTimer}>
+              {runningSince === null ? <Play className="w-5 h-5 mr-2" /> : <Pause className="w-5 h-5 mr-2" />}
+              {runningSince === null ? (elapsed > 0 ? "Resume" : "Start") : "Stop"}
+            </Button>
+            <Button type="button" variant="outline" className="h-12" onClick={resetTimer} disabled={elapsedMs === 0}>
+              <RotateCcw className="w-5 h-5" />
+            </Button>
+            <Input
+              type="number"
+              min={0}
+              step={0.1}
+              className="h-12 w-28"
+              aria-label="Time in seconds"
+              value={runningSince === null && elapsed > 0 ? elapsed / 1000 : ""}
+              placeholder="Manual"
+              onChange={(e) => setElapsed(Math.max(Number(e.target.value) || 0, 0) * 1000)}
+              disabled={runningSince !== null}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {sheet.steps.map((step, index) => (
+          <div key={step.id} className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border p-3">
+            <div className="flex-1">
+              <p className="font-medium text-foreground">
+                {index + 1}. {step.description}
+              </p>
+              <div className="flex gap-2 mt-1">
+                <span className="text-xs text-gray-500">
+                  {step.points} {step.points === 1 ? "pt" : "pts"}
+                </span>
+                {step.critical && (
+                  <Badge variant="outline" className="bg-red-50 text-red-700 text-xs">
+                    Critical
+                  </Badge>
+                )}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant={stepResults[step.id] === true ? "default" : "outline"}
+                className={`h-12 w-24 ${stepResults[step.id] === true ? "bg-green-600 hover:bg-green-700" : ""}`}
+                onClick={() => setStepResults((current) => ({ ...current, [step.id]: true }))}
+              >
+                <Check className="w-5 h-5 mr-1" />
+                Pass
+              </Button>
+              <Button
+                type="button"
+                variant={stepResults[step.id] === false ? "default" : "outline"}
+                className={`h-12 w-24 ${stepResults[step.id] === false ? "bg-red-600 hover:bg-red-700" : ""}`}
+                onClick={() => setStepResults((current) => ({ ...current, [step.id]: false }))}
+              >
+                <X className="w-5 h-5 mr-1" />
+                Fail
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="evaluation-notes">Notes</Label>
+        <Textarea
+          id="evaluation-notes"
+          rows={3}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Coaching points or the reason for a fail"
+        />
+      </div>
+
+      <div className="rounded-lg bg-muted p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600">
+            Score {outcome.score}% · pass mark {sheet.passingScore}%
+          </span>
+          {isComplete && (
+            <Badge className={outcome.passed ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"} variant="outline">
+              {outcome.passed ? "Pass" : "Fail"}
+            </Badge>
+          )}
+        </div>
+        {outcome.criticalFailures.length > 0 && isComplete && (
+          <p className="flex items-start text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            Critical fail: {outcome.criticalFailures.map((step) => step.description).join("; ")}
+          </p>
+        )}
+        {outcome.isOverTime && isComplete && sheet.timeLimitSeconds !== null && (
+          <p className="flex items-center text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            {elapsedMs === 0 ? "No time recorded." : `Over the ${formatSeconds(sheet.timeLimitSeconds)} limit.`}
+          </p>
+        )}
+      </div>
+
+      <Button
+        type="button"
+        className="w-full h-14 text-lg bg-red-600 hover:bg-red-700"
+        disabled={!isComplete || runningSince !== null || isSaving}
+        onClick={() => onSignOff(stepResults, timeSeconds, notes.trim())}
+      >
+        {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Signature className="w-5 h-5 mr-2" />}
+        Sign Off Evaluation
+      </Button>
+      {!isComplete && <p className="text-center text-sm text-gray-500">Grade every step to sign off.</p>}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+import { useEffect } from "react"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import type { SkillSheet, SkillSheetInput } from "@/lib/skills"
+import type { TrainingProgram } from "@/data/trainingData"
+
+const skillSheetSchema = z.object({
+  title: z.string().trim().min(3, "Title is required"),
+  description: z.string(),
+  timeLimitSeconds: z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    z.coerce.number().int().positive("Use a whole number of seconds").optional()
+  ),
+  passingScore: z.coerce.number().int().min(1, "Between 1 and 100").max(100, "Between 1 and 100"),
+  required: z.boolean(),
+  steps: z
+    .array(
+      z.object({
+        id: z.string(),
+        description: z.string().trim().min(3, "Describe the step"),
+        points: z.coerce.number().int().min(1, "At least one point"),
+        critical: z.boolean(),
+      })
+    )
+    .min(1, "Add at least one step"),
+})
+
+type SkillSheetFormValues = z.infer<typeof skillSheetSchema>
+
+const newStep = () => ({ id: crypto.randomUUID().slice(0, 8), description: "", points: 1, critical: false })
+
+const toFormValues = (sheet?: SkillSheet | null): SkillSheetFormValues => ({
+  title: sheet?.title ?? "",
+  description: sheet?.description ?? "",
+  timeLimitSeconds: sheet?.timeLimitSeconds ?? undefined,
+  passingScore: sheet?.passingScore ?? 80,
+  required: sheet?.required ?? true,
+  steps: sheet?.steps ?? [newStep()],
+})
+
+type SkillSheetEditorDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  program: TrainingProgram
+  sheet?: SkillSheet | null
+  sortOrder: number
+  isSaving: boolean
+  onSave: (input: SkillSheetInput) => Promise<void>
+}
+
+export default function SkillSheetEditorDialog({
+  open,
+  onOpenChange,
+  program,
+  sheet,
+  sortOrder,
+  isSaving,
+  onSave,
+}: SkillSheetEditorDialogProps) {
+  const form = useForm<SkillSheetFormValues>({
+    resolver: zodResolver(skillSheetSchema),
+    defaultValues: toFormValues(),
+  })
+  // Steps carry their own ids (evaluations reference them), so the generated key goes elsewhere.
+  const steps = useFieldArray({ control: form.control, name: "steps", keyName: "fieldId" })
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(sheet))
+  }, [open, sheet, form])
+
+  const handleSubmit = (values: SkillSheetFormValues) =>
+    onSave({
+      programId: program.id,
+      title: values.title,
+      description: values.description ?? "",
+      steps: values.steps as SkillSheetInput["steps"],
+      timeLimitSeconds: values.timeLimitSeconds ?? null,
+      passingScore: values.passingScore,
+      required: values.required,
+      sortOrder: sheet?.sortOrder ?? sortOrder,
+    })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{sheet ? "Edit Skill Sheet" : "New Skill Sheet"}</DialogTitle>
+          <DialogDescription>{program.title}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Skill</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. SCBA Donning" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Scenario</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="timeLimitSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time Limit (seconds)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} placeholder="Untimed" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>Instructors run a stopwatch; going over fails the skill.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="passingScore"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Passing Score (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="required"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                  <div>
+                    <FormLabel>Required for Certification</FormLabel>
+                    <FormDescription>Trainees must pass this skill before certificates can be issued.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="steps"
+              render={() => (
+                <FormItem>
+                  <FormLabel>Graded Steps</FormLabel>
+                  <FormDescription>Failing a critical step fails the skill regardless of score.</FormDescription>
+                  <div className="space-y-2">
+                    {steps.fields.map((step, index) => (
+                      <div key={step.fieldId} className="flex items-start gap-2">
+                        <span className="w-6 pt-2 text-sm font-semibold text-gray-500">{index + 1}.</span>
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.description`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <FormControl>
+                                <Input {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.points`}
+                          render={({ field }) => (
+                            <FormItem className="w-20">
+                              <FormControl>
+                                <Input type="number" min={1} aria-label="Points" {...field} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.critical`}
+                          render={({ field }) => (
+                            <FormItem className="flex items-center gap-2 space-y-0 pt-2.5">
+                              <FormControl>
+                                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                              </FormControl>
+                              <FormLabel className="font-normal">Critical</FormLabel>
+                            </FormItem>
+                          )}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="mt-1"
+                          disabled={index === 0}
+                          onClick={() => steps.move(index, index - 1)}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="mt-1"
+                          disabled={index === steps.fields.length - 1}
+                          onClick={() => steps.move(index, index + 1)}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="sm" className="mt-1" onClick={() => steps.remove(index)}>
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button type="button" variant="outline" size="sm" onClick={() => steps.append(newStep())}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Step
+                  </Button>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving} className="bg-red-600 hover:bg-red-700">
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Skill Sheet
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,39 @@
+import { Star } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+type StarRatingProps = {
+  value: number
+  /** Makes the stars clickable; omitted for read-only display. */
+  onChange?: (value: number) => void
+  className?: string
+  starClassName?: string
+}
+
+// Whole stars only: averages are rounded to the nearest star for display.
+export default function StarRating({ value, onChange, className, starClassName = "w-4 h-4" }: StarRatingProps) {
+  const filled = Math.round(value)
+
+  return (
+    <div className={cn("flex items-center", className)}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star className={cn(starClassName, star <= filled ? "text-yellow-400 fill-current" : "text-gray-300")} />
+        )
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            className="p-0.5"
+            aria-label={`${star} ${star === 1 ? "star" : "stars"}`}
+            aria-pressed={star === value}
+            onClick={() => onChange(star)}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+import { useFieldArray, useFormContext } from "react-hook-form"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { assessmentTypes } from "@/data/trainingData"
+import type { ProgramFormValues } from "@/components/TrainingProgramEditorDialog"
+
+const emptyTopic = {
+  week: "",
+  title: "",
+  contactHours: 0,
+  assessment: "Written Exam" as const,
+  content: "",
+  learningObjectives: "",
+}
+
+function ModuleTopicsEditor({ moduleIndex }: { moduleIndex: number }) {
+  const { control } = useFormContext<ProgramFormValues>()
+  const topics = useFieldArray({ control, name: `syllabus.${moduleIndex}.topics` })
+
+  return (
+    <div className="space-y-3">
+      {topics.fields.map((topic, index) => (
+        <div key={topic.id} className="rounded-md border bg-muted p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <h5 className="text-sm font-semibold">Week Block {index + 1}</h5>
+            <Button type="button" variant="ghost" size="sm" onClick={() => topics.remove(index)}>
+              <Trash2 className="w-4 h-4 text-red-600" />
+            </Button>
+          </div>
+          <div className="grid md:grid-cols-4 gap-3">
+            <FormField
+              control={control}
+              name={`syllabus.${moduleIndex}.topics.${index}.week`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Week</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Week 1-2" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`syllabus.${moduleIndex}.topics.${index}.title`}
+              render={({ field }) => (
+                <FormItem className="md:col-span-3">
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`syllabus.${moduleIndex}.topics.${index}.contactHours`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contact Hours</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`syllabus.${moduleIndex}.topics.${index}.assessment`}
+              render={({ field }) => (
+                <FormItem className="md:col-span-3">
+                  <FormLabel>Assessment</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {assessmentTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          </div>
+          <div className="grid md:grid-cols-2 gap-3">
+            <FormField
+              control={control}
+              name={`syllabus.${moduleIndex}.topics.${index}.learningObjectives`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Learning Objectives</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormDescription>One objective per line.</FormDescription>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`syllabus.${moduleIndex}.topics.${index}.content`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Topics Covered</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormDescription>One topic per line.</FormDescription>
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => topics.append(emptyTopic)}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Week Block
+      </Button>
+    </div>
+  )
+}
+
+// Syllabus tab of the program editor: modules, each split into weeks.
+export default function SyllabusEditor() {
+  const { control } = useFormContext<ProgramFormValues>()
+  const modules = useFieldArray({ control, name: "syllabus" })
+
+  return (
+    <>
+      {modules.fields.length === 0 && (
+        <p className="text-sm text-gray-600">This program does not have a syllabus yet.</p>
+      )}
+      {modules.fields.map((syllabusModule, index) => (
+        <div key={syllabusModule.id} className="rounded-lg border p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold">Module {index + 1}</h4>
+            <Button type="button" variant="ghost" size="sm" onClick={() => modules.remove(index)}>
+              <Trash2 className="w-4 h-4 text-red-600" />
+            </Button>
+          </div>
+          <div className="grid md:grid-cols-3 gap-4">
+            <FormField
+              control={control}
+              name={`syllabus.${index}.title`}
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`syllabus.${index}.duration`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Duration</FormLabel>
+                  <FormControl>
+                    <Input placeholder="4 weeks" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={control}
+            name={`syllabus.${index}.description`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Textarea rows={2} {...field} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <ModuleTopicsEditor moduleIndex={index} />
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => modules.append({ title: "", duration: "", description: "", topics: [emptyTopic] })}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Module
+      </Button>
+    </>
+  )
+}
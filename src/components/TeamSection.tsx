@@ -1,63 +1,36 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Award, Users, BookOpen, Shield } from "lucide-react";
+import { teamMembers } from "@/data/teamData";
+import { useTranslation } from "@/hooks/use-translation";
 
 const TeamSection = () => {
-  const teamMembers = [
-    {
-      name: "Michael Rodriguez",
-      position: "Chief Fire Safety Instructor",
-      certifications: ["NFPA Certified", "Fire Inspector", "Emergency Response"],
-      experience: "20+ years",
-      specialties: ["Industrial Fire Safety", "Emergency Response Training"]
-    },
-    {
-      name: "Sarah Chen",
-      position: "HSE Consultant Director",
-      certifications: ["OSHA Certified", "Environmental Safety", "Risk Assessment"],
-      experience: "15+ years",
-      specialties: ["Workplace Safety", "Environmental Compliance"]
-    },
-    {
-      name: "David Thompson",
-      position: "Training Coordinator",
-      certifications: ["CPR/AED Instructor", "Safety Management", "Training Development"],
-      experience: "12+ years",
-      specialties: ["Training Program Development", "Safety Leadership"]
-    },
-    {
-      name: "Jennifer Martinez",
-      position: "Fire Prevention Specialist",
-      certifications: ["Fire Prevention", "Building Codes", "Safety Inspection"],
-      experience: "18+ years",
-      specialties: ["Building Safety", "Fire Prevention Systems"]
-    }
-  ];
+  const { t } = useTranslation();
 
   const stats = [
     {
       icon: Award,
       value: "50+",
-      label: "Certifications",
-      description: "Combined professional certifications across our team"
+      label: t("home.team.stats.certifications"),
+      description: t("home.team.stats.certificationsDescription")
     },
     {
       icon: Users,
       value: "500+",
-      label: "Trainees Graduated",
-      description: "Professionals trained in fire safety and HSE"
+      label: t("home.team.stats.graduates"),
+      description: t("home.team.stats.graduatesDescription")
     },
     {
       icon: BookOpen,
       value: "100+",
-      label: "Training Programs",
-      description: "Comprehensive courses and workshops delivered"
+      label: t("home.team.stats.programs"),
+      description: t("home.team.stats.programsDescription")
     },
     {
       icon: Shield,
       value: "15+",
-      label: "Years Experience",
-      description: "Average years of professional experience per instructor"
+      label: t("home.team.stats.experience"),
+      description: t("home.team.stats.experienceDescription")
     }
   ];
 
@@ -66,11 +39,10 @@ const TeamSection = () => {
       <div className="container mx-auto px-6">
         <div className="text-center mb-16">
           <h2 className="text-4xl md:text-5xl font-bold text-foreground mb-6">
-            Meet Our Expert <span className="text-primary">Team</span>
+            {t("home.team.titleLead")} <span className="text-primary">{t("home.team.titleAccent")}</span>
           </h2>
           <p className="text-xl text-muted-foreground max-w-5xl mx-auto">
-            Our team of certified professionals brings decades of experience in fire safety, 
-            emergency response, and HSE consulting to provide world-class training programs.
+            {t("home.team.subtitle")}
           </p>
         </div>
 
@@ -79,13 +51,13 @@ const TeamSection = () => {
           <div className="relative">
             <img 
               src={"/teamFireTrainingGround.webp"} 
-              alt="Fire Training HSE Department Team"
+              alt={t("home.team.photoAlt")}
               className="w-full max-h-96 object-cover rounded-2xl shadow-float"
             />
             <div className="absolute inset-0 bg-gradient-to-t from-primary/30 to-transparent rounded-"></div>
             <div className="absolute bottom-6 left-6 text-primary-foreground inline-block bg-white/10 backdrop-blur-md px-4 py-2 rounded-lg border border-white/20 text-l tracking-wider text-white mb-2">
-              <h3 className="font-bold"> Dedicated to Safety Excellence</h3>
-              <p className="font-normal text-sm text-primary-foreground/90">Professional fire safety and HSE training experts</p>
+              <h3 className="font-bold">{t("home.team.photoTitle")}</h3>
+              <p className="font-normal text-sm text-primary-foreground/90">{t("home.team.photoSubtitle")}</p>
             </div>
           </div>
         </div>
@@ -123,14 +95,14 @@ const TeamSection = () => {
 
                 <div className="space-y-4">
                   <div>
-                    <p className="text-sm font-semibold text-foreground mb-2">Experience:</p>
+                    <p className="text-sm font-semibold text-foreground mb-2">{t("home.team.experience")}</p>
                     <Badge variant="outline" className="text-accent border-accent">
                       {member.experience}
                     </Badge>
                   </div>
 
                   <div>
-                    <p className="text-sm font-semibold text-foreground mb-2">Certifications:</p>
+                    <p className="text-sm font-semibold text-foreground mb-2">{t("home.team.certifications")}</p>
                     <div className="flex flex-wrap gap-1">
                       {member.certifications.map((cert, i) => (
                         <Badge key={i} variant="secondary" className="text-xs">
@@ -141,7 +113,7 @@ const TeamSection = () => {
                   </div>
 
                   <div>
-                    <p className="text-sm font-semibold text-foreground mb-2">Specialties:</p>
+                    <p className="text-sm font-semibold text-foreground mb-2">{t("home.team.specialties")}</p>
                     <ul className="space-y-1">
                       {member.specialties.map((specialty, i) => (
                         <li key={i} className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -161,12 +133,12 @@ const TeamSection = () => {
         <div className="mt-16 text-center">
           <Card className="bg-primary border-0">
             <CardContent className="p-8 text-primary-foreground">
-              <h3 className="text-3xl font-bold mb-4">Join Our Mission</h3>
+              <h3 className="text-3xl font-bold mb-4">{t("home.team.ctaTitle")}</h3>
               <p className="text-l mb-2 text-primary-foreground/90">
-                We're always looking for qualified fire safety professionals to join our team
+                {t("home.team.ctaText")}
               </p>
               <div className="text-primary-foreground/80">
-                Contact us to learn about career opportunities in fire safety training and HSE consulting
+                {t("home.team.ctaNote")}
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,117 @@
+import { useState } from "react"
+import { format } from "date-fns"
+import { Loader2, Trash2 } from "lucide-react"
+import Swal from "sweetalert2"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Textarea } from "@/components/ui/textarea"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useAddTraineeNote, useDeleteTraineeNote } from "@/hooks/use-trainee-notes"
+import type { Enrollment } from "@/lib/enrollment"
+import type { TraineeNote } from "@/lib/traineeNotes"
+
+type TraineeNotesDialogProps = {
+  enrollment: Enrollment | null
+  notes: TraineeNote[]
+  onOpenChange: (open: boolean) => void
+}
+
+export default function TraineeNotesDialog({ enrollment, notes, onOpenChange }: TraineeNotesDialogProps) {
+  const { user, profile } = useCurrentUser()
+  const addNote = useAddTraineeNote()
+  const deleteNote = useDeleteTraineeNote()
+  const [body, setBody] = useState("")
+
+  const handleAdd = async () => {
+    if (!enrollment || !user || !body.trim()) return
+    try {
+      await addNote.mutateAsync({
+        enrollmentId: enrollment.id,
+        body: body.trim(),
+        authorId: user.id,
+        authorName: profile?.fullName || "Instructor",
+      })
+      setBody("")
+    } catch (error) {
+      console.error("Error adding trainee note:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Note Not Saved",
+        text: "The note could not be saved. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleDelete = async (note: TraineeNote) => {
+    try {
+      await deleteNote.mutateAsync(note.id)
+    } catch (error) {
+      console.error("Error deleting trainee note:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Delete Failed",
+        text: "The note could not be deleted. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <Dialog
+      open={!!enrollment}
+      onOpenChange={(open) => {
+        if (!open) setBody("")
+        onOpenChange(open)
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Notes · {enrollment?.fullName}</DialogTitle>
+          <DialogDescription>Only this cohort's instructors and coordinators can see these notes.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Textarea
+            rows={3}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Performance, conduct or anything the next instructor should know"
+          />
+          <div className="flex justify-end">
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              disabled={!body.trim() || addNote.isPending}
+              onClick={handleAdd}
+            >
+              {addNote.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add Note
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto space-y-3">
+          {notes.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-4">No notes yet.</p>
+          ) : (
+            notes.map((note) => (
+              <div key={note.id} className="rounded-lg border p-3 text-sm">
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500 mb-1">
+                  <span>
+                    {note.authorName} · {format(new Date(note.createdAt), "LLL dd, y HH:mm")}
+                  </span>
+                  {note.authorId === user?.id && (
+                    <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(note)}>
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-gray-800 whitespace-pre-line">{note.body}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,534 @@
+import { Play, Clock, Users, Award, CheckCircle, Star, Calendar, Globe, Download, ClipboardCheck, Target } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Separator } from "@/components/ui/separator"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Fragment, useState } from "react"
+import type { CertificateDetail, SyllabusModule, TrainingProgram } from "@/data/trainingData"
+import { downloadCertificatePdf } from "@/lib/certificatePdf"
+import ProgramReviews from "@/components/ProgramReviews"
+import StarRating from "@/components/StarRating"
+import { useReviewStats } from "@/hooks/use-reviews"
+import { useTranslation } from "@/hooks/use-translation"
+
+type TrainingProgramDetailProps = {
+  training: TrainingProgram
+  /** Opens the enrollment flow. Omitted in the admin preview, which disables the button. */
+  onEnroll?: () => void
+}
+
+// Shared by the public detail page and the admin live preview.
+export default function TrainingProgramDetail({ training, onEnroll }: TrainingProgramDetailProps) {
+  const [selectedModule, setSelectedModule] = useState<SyllabusModule | null>(null)
+  const [selectedCertificate, setSelectedCertificate] = useState<CertificateDetail | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const { data: reviewStats } = useReviewStats(training.id)
+  const { t, formatDate } = useTranslation()
+
+  // Same layout as issued certificates, watermarked and with placeholder details.
+  const downloadSampleCertificate = (certificate: CertificateDetail) =>
+    downloadCertificatePdf(
+      {
+        verificationCode: "SAMPLE000000",
+        certificationName: certificate.name,
+        issuer: certificate.issuer,
+        traineeName: t("detail.sampleTraineeName"),
+        programTitle: training.title,
+        instructorName: training.instructor,
+        issuedOn: new Date().toISOString(),
+        expiresOn: null,
+        status: "valid",
+      },
+      { sample: true }
+    )
+
+  return (
+    <>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid lg:grid-cols-3 gap-8">
+          {/* Main Content */}
+          <div className="lg:col-span-2 space-y-8">
+            {/* Video Section */}
+            <Card>
+              <CardContent className="p-0">
+                <div className="relative aspect-video bg-gray-900 rounded-t-lg overflow-hidden">
+                  {isPlaying ? (
+                    <video
+                      src="/hero-video.mp4" // Pastikan video ini ada di folder public Anda
+                      className="w-full h-full object-cover"
+                      autoPlay
+                      controls
+                    />
+                  ) : (
+                    <>
+                      <img
+                        src={training.image}
+                        className="w-full h-full object-cover"
+                        alt={training.title}
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+                        <Button size="lg" className="rounded-full w-20 h-20 bg-white/20 backdrop-blur-sm hover:bg-white/30" onClick={() => setIsPlaying(true)}>
+                          <Play className="w-8 h-8 ml-1 text-white" />
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+                <div className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h1 className="text-3xl font-bold text-foreground">{training.title}</h1>
+                    {training.featured && (
+                      <Badge variant="secondary" className="bg-red-100 text-red-800">
+                        {t("detail.featuredProgram")}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-lg text-gray-600 mb-4">{training.description}</p>
+                  <div className="flex items-center space-x-6 text-sm text-gray-500">
+                    <div className="flex items-center">
+                      <Clock className="w-4 h-4 mr-1" />
+                      {training.duration}
+                    </div>
+                    <div className="flex items-center">
+                      <Users className="w-4 h-4 mr-1" />
+                      {training.level}
+                    </div>
+                    <div className="flex items-center">
+                      <Award className="w-4 h-4 mr-1" />
+                      {training.certification}
+                    </div>
+                    <div className="flex items-center">
+                      <Star className="w-4 h-4 mr-1 text-yellow-400 fill-current" />
+                      {training.reviews > 0
+                        ? `${training.rating.toFixed(1)} (${t(
+                            training.reviews === 1 ? "reviews.count.one" : "reviews.count.other",
+                            { count: training.reviews }
+                          )})`
+                        : t("reviews.empty")}
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Tabs Section */}
+            <Tabs defaultValue="overview" className="w-full">
+              <TabsList className="grid w-full grid-cols-5">
+                <TabsTrigger value="overview">{t("detail.tab.overview")}</TabsTrigger>
+                <TabsTrigger value="curriculum">{t("detail.tab.curriculum")}</TabsTrigger>
+                <TabsTrigger value="requirements">{t("detail.tab.requirements")}</TabsTrigger>
+                <TabsTrigger value="certification">{t("detail.tab.certification")}</TabsTrigger>
+                <TabsTrigger value="reviews">{t("detail.tab.reviews")}</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="overview" className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t("detail.overviewTitle")}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <p className="text-gray-600">
+                      {t("detail.overviewText")}
+                    </p>
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <div className="space-y-3">
+                        <h4 className="font-semibold text-foreground">{t("detail.whatYouLearn")}</h4>
+                        <ul className="space-y-2">
+                          <li className="flex items-start">
+                            <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm text-gray-600">{t("detail.learn.als")}</span>
+                          </li>
+                          <li className="flex items-start">
+                            <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm text-gray-600">{t("detail.learn.pharmacology")}</span>
+                          </li>
+                          <li className="flex items-start">
+                            <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm text-gray-600">{t("detail.learn.trauma")}</span>
+                          </li>
+                          <li className="flex items-start">
+                            <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm text-gray-600">{t("detail.learn.cardiac")}</span>
+                          </li>
+                        </ul>
+                      </div>
+                      <div className="space-y-3">
+                        <h4 className="font-semibold text-foreground">{t("detail.programFeatures")}</h4>
+                        <ul className="space-y-2">
+                          <li className="flex items-start">
+                            <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm text-gray-600">{t("detail.feature.simulation")}</span>
+                          </li>
+                          <li className="flex items-start">
+                            <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm text-gray-600">{t("detail.feature.rotations")}</span>
+                          </li>
+                          <li className="flex items-start">
+                            <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm text-gray-600">{t("detail.feature.field")}</span>
+                          </li>
+                          <li className="flex items-start">
+                            <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                            <span className="text-sm text-gray-600">{t("detail.feature.online")}</span>
+                          </li>
+                        </ul>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="curriculum" className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t("detail.curriculumTitle")}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {training.syllabus.length === 0 ? (
+                      <p className="text-gray-600">{t("detail.syllabusSoon")}</p>
+                    ) : (
+                      <div className="space-y-6">
+                        {training.syllabus.map((syllabusModule, index) => (
+                          <Fragment key={index}>
+                            {index > 0 && <Separator />}
+                            <div className="space-y-4">
+                              <div className="flex items-center justify-between">
+                                <h4 className="font-semibold">
+                                  {t("detail.moduleTitle", { number: index + 1, title: syllabusModule.title })}
+                                </h4>
+                                <div className="flex items-center space-x-2">
+                                  <Badge className="bg-blue-500">{syllabusModule.duration}</Badge>
+                                  <Button variant="outline" size="sm" onClick={() => setSelectedModule(syllabusModule)}>
+                                    {t("detail.moduleDetail")}
+                                  </Button>
+                                </div>
+                              </div>
+                              <ul className="text-sm text-gray-600 space-y-1 ml-4">
+                                {syllabusModule.topics.map((topic, topicIndex) => (
+                                  <li key={topicIndex}>• {topic.title}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          </Fragment>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="requirements" className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t("detail.requirementsTitle")}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div>
+                      <h4 className="font-semibold mb-3">{t("detail.prerequisites")}</h4>
+                      {training.prerequisites.length === 0 ? (
+                        <p className="text-sm text-gray-600">{t("detail.noPrerequisites")}</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {training.prerequisites.map((prerequisite, index) => (
+                            <li key={index} className="flex items-start">
+                              <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                              <span className="text-sm text-gray-600">{prerequisite}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
+                    <div>
+                      <h4 className="font-semibold mb-3">{t("detail.physicalRequirements")}</h4>
+                      <ul className="space-y-2">
+                        <li className="flex items-start">
+                          <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                          <span className="text-sm text-gray-600">{t("detail.physical.fitness")}</span>
+                        </li>
+                        <li className="flex items-start">
+                          <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                          <span className="text-sm text-gray-600">{t("detail.physical.clearance")}</span>
+                        </li>
+                        <li className="flex items-start">
+                          <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                          <span className="text-sm text-gray-600">{t("detail.physical.screening")}</span>
+                        </li>
+                      </ul>
+                    </div>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="certification" className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t("detail.certificationTitle")}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div>
+                      <h4 className="font-semibold mb-3">{t("detail.certificationsEarned")}</h4>
+                      <div className="grid md:grid-cols-2 gap-4">
+                        {training.certifications_details.map((cert, index) => (
+                          <div 
+                            key={index}
+                            className="p-4 border rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
+                            onClick={() => setSelectedCertificate(cert)}
+                          >
+                            <div className="flex items-center mb-2">
+                              <Award className="w-5 h-5 text-blue-500 mr-2" />
+                              <span className="font-medium">{cert.name}</span>
+                            </div>
+                            <p className="text-sm text-gray-600">{cert.issuer}</p>
+                            {cert.validityMonths && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                {t("detail.validFor", { months: cert.validityMonths })}
+                                {cert.renewalRequirement && ` · ${cert.renewalRequirement}`}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <h4 className="font-semibold mb-3">{t("detail.careerOpportunities")}</h4>
+                      <div className="grid md:grid-cols-2 gap-4 text-sm text-gray-600">
+                        <ul className="space-y-2">
+                          <li>• {t("detail.career.emt")}</li>
+                          <li>• {t("detail.career.paramedic")}</li>
+                          <li>• {t("detail.career.flightMedic")}</li>
+                          <li>• {t("detail.career.erTechnician")}</li>
+                        </ul>
+                        <ul className="space-y-2">
+                          <li>• {t("detail.career.fireMedic")}</li>
+                          <li>• {t("detail.career.criticalCare")}</li>
+                          <li>• {t("detail.career.emsSupervisor")}</li>
+                          <li>• {t("detail.career.trainingInstructor")}</li>
+                        </ul>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="reviews" className="space-y-6">
+                <ProgramReviews training={training} />
+              </TabsContent>
+            </Tabs>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            {/* Instructor Card */}
+            <Card>
+              <CardHeader>
+                <CardTitle>{t("detail.leadInstructor")}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-start space-x-4">
+                  <Avatar className="w-16 h-16">
+                    <AvatarImage src="/placeholder.svg?height=64&width=64" alt={training.instructor} />
+                    <AvatarFallback>
+                      {training.instructor.split(" ").map((part) => part[0]).slice(-2).join("")}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1">
+                    <h4 className="font-semibold text-foreground">{training.instructor}</h4>
+                    <p className="text-sm text-gray-600 mb-2">{t("detail.instructorCredentials")}</p>
+                    {reviewStats?.reviewCount ? (
+                      <div className="flex items-center mb-2">
+                        <StarRating value={reviewStats.averages.instructor} />
+                        <span className="text-sm text-gray-600 ml-2">
+                          {t("detail.instructorRating", {
+                            rating: reviewStats.averages.instructor.toFixed(1),
+                            count: reviewStats.reviewCount,
+                          })}
+                        </span>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500 mb-2">{t("detail.noInstructorRatings")}</p>
+                    )}
+                    <p className="text-xs text-gray-500">{t("detail.instructorExperience")}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Program Details */}
+            <Card>
+              <CardHeader>
+                <CardTitle>{t("detail.programDetails")}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">{t("detail.duration")}</span>
+                  <span className="font-medium">{training.duration}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">{t("detail.format")}</span>
+                  <span className="font-medium">{t("detail.formatHybrid")}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">{t("detail.classSize")}</span>
+                  <span className="font-medium">{t("detail.classSizeValue")}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">{t("detail.nextStartDate")}</span>
+                  <span className="font-medium">
+                    {formatDate(training.startDate)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">{t("detail.language")}</span>
+                  <span className="font-medium">{t("detail.languageEnglish")}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Enrollment */}
+            <Card>
+              <CardContent className="p-6">
+                <div className="space-y-4">
+                  <Button className="w-full bg-red-600 hover:bg-red-700" size="lg" onClick={onEnroll} disabled={!onEnroll}>
+                    {t("detail.enrollNow")}
+                  </Button>
+                  <Button variant="outline" className="w-full bg-transparent" size="lg" asChild>
+                    <a href={`mailto:info@firetraininghse.com?subject=${encodeURIComponent(t("detail.infoSessionSubject", { title: training.title }))}`}>
+                      {t("detail.infoSession")}
+                    </a>
+                  </Button>
+                  <div className="text-center">
+                    <p className="text-sm text-gray-600">{t("detail.callUs")}</p>
+                    <a href="tel:+15551234567" className="font-semibold text-red-600">(555) 123-4567</a>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Additional Features */}
+            <Card>
+              <CardHeader>
+                <CardTitle>{t("detail.additionalFeatures")}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center space-x-3">
+                  <Globe className="w-5 h-5 text-blue-500" />
+                  <span className="text-sm">{t("detail.extra.online")}</span>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Calendar className="w-5 h-5 text-green-500" />
+                  <span className="text-sm">{t("detail.extra.scheduling")}</span>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Users className="w-5 h-5 text-purple-500" />
+                  <span className="text-sm">{t("detail.extra.placement")}</span>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Award className="w-5 h-5 text-orange-500" />
+                  <span className="text-sm">{t("detail.extra.credits")}</span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      {/* Module Detail Modal */}
+      <Dialog open={!!selectedModule} onOpenChange={(isOpen) => !isOpen && setSelectedModule(null)}>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedModule?.title}</DialogTitle>
+          </DialogHeader>
+          {selectedModule && (
+            <div className="space-y-6">
+              <div>
+                <p className="text-gray-600 mb-4">{selectedModule.description}</p>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="secondary">{selectedModule.duration}</Badge>
+                  <Badge variant="secondary">
+                    {t("detail.contactHours", {
+                      hours: selectedModule.topics.reduce((total, topic) => total + topic.contactHours, 0),
+                    })}
+                  </Badge>
+                </div>
+              </div>
+              <div className="space-y-4">
+                {selectedModule.topics.map((topic, index) => (
+                  <div key={index} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <h4 className="font-semibold text-foreground">
+                        {topic.week}: {topic.title}
+                      </h4>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">
+                          <Clock className="w-3 h-3 mr-1" />
+                          {t("compare.hours", { hours: topic.contactHours })}
+                        </Badge>
+                        <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                          <ClipboardCheck className="w-3 h-3 mr-1" />
+                          {topic.assessment}
+                        </Badge>
+                      </div>
+                    </div>
+                    {topic.learningObjectives.length > 0 && (
+                      <div>
+                        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                          {t("detail.learningObjectives")}
+                        </p>
+                        <ul className="space-y-1">
+                          {topic.learningObjectives.map((objective, objectiveIndex) => (
+                            <li key={objectiveIndex} className="flex items-start">
+                              <Target className="w-4 h-4 text-red-600 mr-2 mt-0.5 flex-shrink-0" />
+                              <span className="text-sm text-gray-700">{objective}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <ul className="space-y-1">
+                      {topic.content.map((item, itemIndex) => (
+                        <li key={itemIndex} className="flex items-start">
+                          <CheckCircle className="w-4 h-4 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                          <span className="text-sm text-gray-600">{item}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Certificate Preview Modal */}
+      <Dialog open={!!selectedCertificate} onOpenChange={(isOpen) => !isOpen && setSelectedCertificate(null)}>
+        <DialogContent className="max-w-3xl p-4 md:p-6">
+          <DialogHeader>
+            <DialogTitle className="text-2xl">{selectedCertificate?.name}</DialogTitle>
+            <p className="text-sm text-muted-foreground pt-1">
+              {t("detail.issuedBy", { issuer: selectedCertificate?.issuer })}
+            </p>
+          </DialogHeader>
+          <div className="mt-4 max-h-[60vh] overflow-auto rounded-lg border">
+            <img 
+              src={selectedCertificate?.previewImage} 
+              alt={t("detail.sampleAlt", { name: selectedCertificate?.name })}
+              className="w-full h-auto"
+            />
+          </div>
+          <div className="mt-6 flex justify-end">
+            <Button onClick={() => downloadSampleCertificate(selectedCertificate)}>
+              <Download className="w-4 h-4 mr-2" />
+              {t("detail.downloadSample")}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
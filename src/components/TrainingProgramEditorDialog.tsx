@@ -0,0 +1,708 @@
+import { useEffect, useState } from "react"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { format } from "date-fns"
+import { Calendar as CalendarIcon, Loader2, Plus, Trash2, Upload } from "lucide-react"
+import Swal from "sweetalert2"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import TrainingProgramDetail from "@/components/TrainingProgramDetail"
+import SyllabusEditor from "@/components/SyllabusEditor"
+import {
+  assessmentTypes,
+  trainingIcons,
+  trainingLevels,
+  type AssessmentType,
+  type TrainingIconName,
+  type TrainingProgram,
+} from "@/data/trainingData"
+import { uploadTrainingAsset, type TrainingProgramInput } from "@/lib/trainingAdmin"
+import { compactTranslations } from "@/lib/i18n"
+import { useAdminTrainingPrograms } from "@/hooks/use-training-admin"
+
+// Radix selects cannot hold an empty value, so "renews itself" gets a sentinel.
+const SAME_PROGRAM = "same-program"
+
+const programSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and dashes"),
+  icon: z.string().min(1),
+  title: z.string().trim().min(3, "Title is required"),
+  description: z.string().trim().min(20, "Description must be at least 20 characters"),
+  duration: z.string().trim().min(1, "Duration is required"),
+  level: z.enum(trainingLevels as [TrainingProgram["level"], ...TrainingProgram["level"][]]),
+  certification: z.string().trim().min(1, "Certification is required"),
+  location: z.string().trim().min(1, "Location is required"),
+  price: z.coerce.number().min(0, "Price cannot be negative"),
+  minAttendancePercent: z.coerce.number().int().min(0, "Between 0 and 100").max(100, "Between 0 and 100"),
+  featured: z.boolean(),
+  category: z.string().trim().min(1, "Category is required"),
+  instructor: z.string().trim().min(1, "Instructor is required"),
+  startDate: z.date({ required_error: "Choose a start date" }),
+  image: z.string(),
+  tags: z.string(),
+  prerequisites: z.string(),
+  translations: z.object({
+    id: z.object({ title: z.string(), description: z.string() }),
+  }),
+  certifications_details: z.array(
+    z.object({
+      name: z.string().trim().min(1, "Name is required"),
+      issuer: z.string().trim().min(1, "Issuer is required"),
+      previewImage: z.string(),
+      downloadUrl: z.string(),
+      validityMonths: z.preprocess(
+        (value) => (value === "" || value === null ? undefined : value),
+        z.coerce.number().int().positive("Use a whole number of months").optional()
+      ),
+      renewalRequirement: z.string().optional(),
+      refresherSlug: z.string().optional(),
+    })
+  ),
+  // Topic content and objectives are edited as one item per line.
+  syllabus: z.array(
+    z.object({
+      title: z.string().trim().min(1, "Title is required"),
+      duration: z.string().trim().min(1, "Duration is required"),
+      description: z.string(),
+      topics: z.array(
+        z.object({
+          week: z.string().trim().min(1, "Week is required"),
+          title: z.string().trim().min(1, "Title is required"),
+          contactHours: z.coerce.number().min(0, "Hours cannot be negative"),
+          assessment: z.enum(assessmentTypes as [AssessmentType, ...AssessmentType[]]),
+          content: z.string(),
+          learningObjectives: z.string(),
+        })
+      ),
+    })
+  ),
+})
+
+export type ProgramFormValues = z.infer<typeof programSchema>
+
+const splitLines = (text: string | undefined) =>
+  (text ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+const toFormValues = (program?: TrainingProgram | null): ProgramFormValues => ({
+  slug: program?.slug ?? "",
+  icon: program?.icon ?? "Flame",
+  title: program?.title ?? "",
+  description: program?.description ?? "",
+  duration: program?.duration ?? "",
+  level: program?.level ?? "Entry Level",
+  certification: program?.certification ?? "",
+  location: program?.location ?? "",
+  price: program?.price ?? 0,
+  minAttendancePercent: program?.minAttendancePercent ?? 80,
+  featured: program?.featured ?? false,
+  category: program?.category ?? "",
+  instructor: program?.instructor ?? "",
+  startDate: program ? new Date(program.startDate) : new Date(),
+  image: program?.image === "/placeholder.svg" ? "" : program?.image ?? "",
+  tags: program?.tags.join(", ") ?? "",
+  prerequisites: program?.prerequisites.join("\n") ?? "",
+  translations: {
+    id: {
+      title: program?.translations?.id?.title ?? "",
+      description: program?.translations?.id?.description ?? "",
+    },
+  },
+  certifications_details: program?.certifications_details ?? [],
+  syllabus:
+    program?.syllabus.map((syllabusModule) => ({
+      ...syllabusModule,
+      topics: syllabusModule.topics.map((topic) => ({
+        ...topic,
+        content: topic.content.join("\n"),
+        learningObjectives: topic.learningObjectives.join("\n"),
+      })),
+    })) ?? [],
+})
+
+// zod infers every key as optional without strictNullChecks, hence the assertion.
+const toProgramInput = (values: ProgramFormValues) =>
+  ({
+    ...values,
+    icon: values.icon as TrainingIconName,
+    startDate: values.startDate ? format(values.startDate, "yyyy-MM-dd") : "",
+    tags: (values.tags ?? "")
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    prerequisites: splitLines(values.prerequisites),
+    translations: compactTranslations(values.translations),
+    // Optional rule keys are dropped rather than stored empty.
+    certifications_details: (values.certifications_details ?? []).map(
+      ({ validityMonths, renewalRequirement, refresherSlug, ...detail }) => ({
+        ...detail,
+        ...(validityMonths ? { validityMonths } : {}),
+        ...(renewalRequirement?.trim() ? { renewalRequirement: renewalRequirement.trim() } : {}),
+        ...(refresherSlug ? { refresherSlug } : {}),
+      })
+    ),
+    syllabus: (values.syllabus ?? []).map((syllabusModule) => ({
+      ...syllabusModule,
+      topics: (syllabusModule.topics ?? []).map((topic) => ({
+        ...topic,
+        content: splitLines(topic.content),
+        learningObjectives: splitLines(topic.learningObjectives),
+      })),
+    })),
+  }) as TrainingProgramInput
+
+const slugify = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+
+type TrainingProgramEditorDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  program?: TrainingProgram | null
+  isSaving: boolean
+  onSave: (input: TrainingProgramInput) => Promise<void>
+}
+
+export default function TrainingProgramEditorDialog({
+  open,
+  onOpenChange,
+  program,
+  isSaving,
+  onSave,
+}: TrainingProgramEditorDialogProps) {
+  const [uploadingField, setUploadingField] = useState<string | null>(null)
+  const form = useForm<ProgramFormValues>({
+    resolver: zodResolver(programSchema),
+    defaultValues: toFormValues(),
+  })
+  const certificates = useFieldArray({ control: form.control, name: "certifications_details" })
+  const { data: catalogPrograms = [] } = useAdminTrainingPrograms()
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(program))
+  }, [open, program, form])
+
+  const handleUpload = async (
+    field: Parameters<typeof form.setValue>[0],
+    folder: "images" | "certificates",
+    file: File | undefined,
+  ) => {
+    if (!file) return
+    setUploadingField(field)
+    try {
+      form.setValue(field, await uploadTrainingAsset(file, folder), { shouldDirty: true })
+    } catch (error) {
+      console.error("Error uploading training asset:", error)
+      await Swal.fire({
+        icon: "error",
+        title: "Upload Failed",
+        text: "The file could not be uploaded. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    } finally {
+      setUploadingField(null)
+    }
+  }
+
+  const uploadButton = (field: Parameters<typeof form.setValue>[0], folder: "images" | "certificates", accept: string) => (
+    <Button type="button" variant="outline" disabled={uploadingField !== null} asChild>
+      <label className="cursor-pointer">
+        {uploadingField === field ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+        <input
+          type="file"
+          accept={accept}
+          className="hidden"
+          onChange={(e) => handleUpload(field, folder, e.target.files?.[0])}
+        />
+      </label>
+    </Button>
+  )
+
+  const values = form.watch()
+  const previewProgram: TrainingProgram = {
+    ...toProgramInput(values),
+    id: program?.id ?? "preview",
+    rating: program?.rating ?? 0,
+    reviews: program?.reviews ?? 0,
+    image: values.image || "/placeholder.svg",
+  }
+
+  const textField = (name: "title" | "duration" | "certification" | "location" | "category" | "instructor", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{program ? "Edit Program" : "New Program"}</DialogTitle>
+          <DialogDescription>Changes go live on the catalog as soon as they are saved.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((formValues) => onSave(toProgramInput(formValues)))} className="space-y-6">
+            <Tabs defaultValue="details">
+              <TabsList className="grid w-full grid-cols-4">
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="syllabus">Syllabus</TabsTrigger>
+                <TabsTrigger value="certifications">Certifications</TabsTrigger>
+                <TabsTrigger value="preview">Live Preview</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="details" className="space-y-4 pt-4">
+                <div className="grid md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Title</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            onChange={(e) => {
+                              field.onChange(e)
+                              if (!program) form.setValue("slug", slugify(e.target.value))
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="slug"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Slug</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormDescription>Used in the program URL: /training/{field.value || "..."}</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="rounded-lg border p-4 space-y-4">
+                  <div>
+                    <p className="text-sm font-medium">Bahasa Indonesia</p>
+                    <p className="text-sm text-muted-foreground">
+                      Optional. Shown to visitors browsing in Bahasa Indonesia; empty fields fall back to English.
+                    </p>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="translations.id.title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Title</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder={values.title} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="translations.id.description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Description</FormLabel>
+                        <FormControl>
+                          <Textarea rows={3} {...field} placeholder={values.description} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid md:grid-cols-3 gap-4">
+                  {textField("category", "Category")}
+                  <FormField
+                    control={form.control}
+                    name="level"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Level</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {trainingLevels.map((level) => (
+                              <SelectItem key={level} value={level}>
+                                {level}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="icon"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Icon</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(trainingIcons).map(([name, Icon]) => (
+                              <SelectItem key={name} value={name}>
+                                <span className="flex items-center gap-2">
+                                  <Icon className="w-4 h-4" />
+                                  {name}
+                                </span>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid md:grid-cols-3 gap-4">
+                  {textField("duration", "Duration")}
+                  {textField("certification", "Certification")}
+                  {textField("instructor", "Instructor")}
+                </div>
+
+                <div className="grid md:grid-cols-3 gap-4">
+                  {textField("location", "Location")}
+                  <FormField
+                    control={form.control}
+                    name="price"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Price (USD)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step={50} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="startDate"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Next Start Date</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button variant="outline" className="justify-start text-left font-normal">
+                                <CalendarIcon className="mr-2 h-4 w-4" />
+                                {field.value ? format(field.value, "LLL dd, y") : <span>Pick a date</span>}
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar mode="single" selected={field.value} onSelect={field.onChange} initialFocus />
+                          </PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="image"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cover Image</FormLabel>
+                      <div className="flex gap-2">
+                        <FormControl>
+                          <Input placeholder="https://... or /news1.jpeg" {...field} />
+                        </FormControl>
+                        {uploadButton("image", "images", "image/*")}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Physical Training, Emergency Response" {...field} />
+                      </FormControl>
+                      <FormDescription>Separate tags with commas.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="prerequisites"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Prerequisites</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} placeholder={"Firefighter I or equivalent\nCurrent CPR certification"} {...field} />
+                      </FormControl>
+                      <FormDescription>One prerequisite per line.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="minAttendancePercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum Attendance (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={100} className="w-32" {...field} />
+                      </FormControl>
+                      <FormDescription>Trainees below this share of attended sessions cannot be certified.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="featured"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-3 space-y-0">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Featured program</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </TabsContent>
+
+              <TabsContent value="syllabus" className="space-y-4 pt-4">
+                <SyllabusEditor />
+              </TabsContent>
+
+              <TabsContent value="certifications" className="space-y-4 pt-4">
+                {certificates.fields.length === 0 && (
+                  <p className="text-sm text-gray-600">This program does not list any certifications yet.</p>
+                )}
+                {certificates.fields.map((certificate, index) => (
+                  <div key={certificate.id} className="rounded-lg border p-4 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-semibold">Certification {index + 1}</h4>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => certificates.remove(index)}>
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name={`certifications_details.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`certifications_details.${index}.issuer`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Issuer</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`certifications_details.${index}.previewImage`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Preview Image</FormLabel>
+                            <div className="flex gap-2">
+                              <FormControl>
+                                <Input {...field} />
+                              </FormControl>
+                              {uploadButton(`certifications_details.${index}.previewImage`, "certificates", "image/*")}
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`certifications_details.${index}.downloadUrl`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Sample PDF</FormLabel>
+                            <div className="flex gap-2">
+                              <FormControl>
+                                <Input {...field} />
+                              </FormControl>
+                              {uploadButton(`certifications_details.${index}.downloadUrl`, "certificates", "application/pdf")}
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`certifications_details.${index}.validityMonths`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Valid For (months)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={1} {...field} value={field.value ?? ""} />
+                            </FormControl>
+                            <FormDescription>Leave empty if the certification never expires.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`certifications_details.${index}.renewalRequirement`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Renewal Requirement</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Annual 8-hour refresher" {...field} value={field.value ?? ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`certifications_details.${index}.refresherSlug`}
+                        render={({ field }) => (
+                          <FormItem className="md:col-span-2">
+                            <FormLabel>Refresher Course</FormLabel>
+                            <Select
+                              value={field.value || SAME_PROGRAM}
+                              onValueChange={(value) => field.onChange(value === SAME_PROGRAM ? "" : value)}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value={SAME_PROGRAM}>Retake this program</SelectItem>
+                                {catalogPrograms
+                                  .filter((catalogProgram) => catalogProgram.id !== program?.id)
+                                  .map((catalogProgram) => (
+                                    <SelectItem key={catalogProgram.id} value={catalogProgram.slug}>
+                                      {catalogProgram.title}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>Recommended in expiry reminders.</FormDescription>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => certificates.append({ name: "", issuer: "", previewImage: "", downloadUrl: "" })}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Certification
+                </Button>
+              </TabsContent>
+
+              <TabsContent value="preview" className="pt-4">
+                <div className="rounded-lg border bg-muted">
+                  <TrainingProgramDetail training={previewProgram} />
+                </div>
+              </TabsContent>
+            </Tabs>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || uploadingField !== null} className="bg-red-600 hover:bg-red-700">
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Program
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,123 @@
+import type { ContentTranslations } from "@/lib/i18n";
+
+export interface NewsArticle {
+  id: number;
+  title: string;
+  description: string;
+  content: string;
+  image: string;
+  date: string;
+  category: string;
+  /** Translated text per locale; missing fields fall back to English. */
+  translations?: ContentTranslations<"title" | "description" | "content">;
+}
+
+export const newsCategories = [
+  "All",
+  "Safety",
+  "Environment",
+  "Community",
+  "Technology",
+  "Business",
+  "People",
+];
+
+// Seed and offline fallback for the `news_articles` table. Read news through
+// `@/lib/news` rather than importing this directly.
+export const newsArticles: NewsArticle[] = [
+  {
+    id: 1,
+    title: "PT Badak LNG Achieves New Safety Milestone",
+    description: "Our commitment to safety excellence continues with zero incidents recorded for 365 consecutive days.",
+    content: `PT Badak LNG is proud to announce a significant safety milestone, completing 365 consecutive days without any recordable incidents. This achievement reflects our unwavering commitment to maintaining the highest safety standards in the LNG industry.
+
+Our comprehensive safety program includes regular training sessions, advanced monitoring systems, and strict adherence to international safety protocols. Every employee contributes to this success through their dedication to safety-first practices.
+
+This milestone is particularly meaningful as it demonstrates that safety and productivity can go hand in hand. Our zero-incident record has been achieved while maintaining optimal production levels and meeting all delivery commitments to our customers.
+
+Moving forward, we remain committed to continuous improvement in our safety programs and maintaining this excellent record.`,
+    image: "/news1.jpeg",
+    date: "2024-08-05",
+    category: "Safety",
+  },
+  {
+    id: 2,
+    title: "Sustainable Energy Initiative Launch",
+    description: "Introducing our new renewable energy program to reduce carbon footprint by 30%.",
+    content: `PT Badak LNG launches an ambitious sustainable energy initiative aimed at reducing our carbon footprint by 30% over the next five years. This comprehensive program includes solar panel installations, energy efficiency improvements, and innovative carbon capture technologies.
+
+## Why It Matters
+
+The initiative represents our commitment to environmental stewardship and aligns with global efforts to combat climate change.
+
+> Safety and sustainability are two sides of the same commitment to the people of Bontang.
+
+## Key Components
+
+- Installation of 50MW solar panel systems across our facilities
+- Implementation of advanced energy management systems
+- Adoption of carbon capture and storage technologies
+- Employee training programs on sustainable practices
+
+## Investment
+
+This investment of $200 million demonstrates our long-term commitment to sustainable operations while maintaining our position as a leading LNG producer.`,
+    image: "/news2.jpg",
+    date: "2024-08-03",
+    category: "Environment",
+  },
+  {
+    id: 3,
+    title: "Community Development Program Expansion",
+    description: "Expanding educational support programs for local communities in East Kalimantan.",
+    content: `PT Badak LNG is proud to announce the expansion of its community development programs, focusing on enhancing educational opportunities for local communities in East Kalimantan. This initiative includes new scholarships, school infrastructure improvements, and vocational training programs designed to empower the next generation. Our goal is to foster sustainable growth and create lasting positive impacts in the regions where we operate.`,
+    image: "/news3.jpg",
+    date: "2024-07-28",
+    category: "Community",
+  },
+  {
+    id: 4,
+    title: "Technology Innovation in LNG Production",
+    description: "Implementation of AI-driven monitoring systems to optimize production efficiency.",
+    content: `In a major step towards digital transformation, PT Badak LNG has successfully implemented a new AI-driven monitoring system across its production facilities. This state-of-the-art technology will enhance operational efficiency, improve safety protocols, and allow for predictive maintenance, further solidifying our position as a leader in LNG production technology. The system analyzes real-time data to optimize processes and prevent potential issues before they arise.`,
+    image: "/news4.jpg",
+    date: "2024-07-25",
+    category: "Technology",
+  },
+  {
+    id: 5,
+    title: "International Partnership Agreement",
+    description: "Strategic alliance with global energy partners to enhance LNG distribution network.",
+    content: `PT Badak LNG has signed a strategic partnership agreement with global energy partners to strengthen the reliability and reach of its LNG distribution network. The agreement covers shared shipping capacity, joint planning for regasification terminals, and knowledge exchange on operational best practices, helping us serve customers across the Asia-Pacific region more efficiently.`,
+    image: "/placeholder.svg",
+    date: "2024-07-20",
+    category: "Business",
+  },
+  {
+    id: 6,
+    title: "Employee Excellence Recognition",
+    description: "Celebrating outstanding achievements of our workforce in operational excellence.",
+    content: `This year's Employee Excellence Recognition celebrated teams and individuals whose work raised the bar for operational excellence at PT Badak LNG. Awards were presented across safety leadership, process improvement, and community service, recognizing the people whose dedication keeps our plant running safely and reliably every day.`,
+    image: "/placeholder.svg",
+    date: "2024-07-18",
+    category: "People",
+  },
+  {
+    id: 7,
+    title: "Environmental Conservation Project",
+    description: "New marine conservation initiative to protect coastal ecosystems around Bontang.",
+    content: `PT Badak LNG has started a marine conservation project to protect the coastal ecosystems around Bontang. Working with local fishing communities and environmental researchers, the program focuses on mangrove rehabilitation, coral reef monitoring, and awareness campaigns that help preserve the biodiversity our neighbors depend on.`,
+    image: "/placeholder.svg",
+    date: "2024-07-15",
+    category: "Environment",
+  },
+  {
+    id: 8,
+    title: "Digital Transformation Progress",
+    description: "Advancing digitalization across all operational departments for improved efficiency.",
+    content: `Our digital transformation program continues to advance across every operational department. Paperless work permits, integrated maintenance planning, and real-time production dashboards are now in daily use, reducing administrative workload and giving our teams the information they need to make faster, safer decisions.`,
+    image: "/placeholder.svg",
+    date: "2024-07-10",
+    category: "Technology",
+  },
+];
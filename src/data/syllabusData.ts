@@ -0,0 +1,690 @@
+import type { SyllabusModule } from "@/data/trainingData"
+
+// Seed syllabi for the catalog, keyed by program slug. Like the rest of the
+// seed data this only backs the `training_programs.syllabus` column; read it
+// through `@/lib/trainingCatalog`.
+export const programSyllabi: Record<string, SyllabusModule[]> = {
+  "fire-fighter-training-academy": [
+    {
+      title: "Fire Behavior & Firefighter Safety",
+      duration: "4 weeks",
+      description: "How fire starts, grows and spreads, and the personal protection every firefighter relies on.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "Fire Science Fundamentals",
+          content: ["Fire tetrahedron", "Heat transfer", "Stages of fire development", "Flashover and backdraft indicators"],
+          learningObjectives: [
+            "Explain how fuel, heat, oxygen and chain reaction sustain combustion",
+            "Recognize the warning signs of flashover and backdraft",
+          ],
+          contactHours: 30,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 2",
+          title: "Personal Protective Equipment",
+          content: ["Structural turnout gear", "PPE inspection and care", "Donning and doffing drills", "Heat stress management"],
+          learningObjectives: ["Don full structural PPE within one minute", "Inspect PPE and remove damaged gear from service"],
+          contactHours: 32,
+          assessment: "Skills Checklist",
+        },
+        {
+          week: "Week 3-4",
+          title: "Self-Contained Breathing Apparatus",
+          content: ["SCBA components", "Air management", "Emergency procedures", "Confidence and maze course"],
+          learningObjectives: [
+            "Don and operate SCBA in zero-visibility conditions",
+            "Perform low-air and entanglement emergency procedures",
+          ],
+          contactHours: 64,
+          assessment: "Practical Evaluation",
+        },
+      ],
+    },
+    {
+      title: "Fireground Operations",
+      duration: "5 weeks",
+      description: "Hose, ladder, forcible entry and search operations on the burn tower.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Hose Lines & Water Supply",
+          content: ["Hose loads and advances", "Nozzle types and flow", "Hydrant connections", "Supply line operations"],
+          learningObjectives: ["Advance a charged attack line to an upper floor", "Establish water supply from a hydrant"],
+          contactHours: 64,
+          assessment: "Practical Evaluation",
+        },
+        {
+          week: "Week 3",
+          title: "Ladders & Forcible Entry",
+          content: ["Ground ladder carries and raises", "Door and window forcing", "Through-the-lock techniques"],
+          learningObjectives: ["Raise a 24 ft extension ladder as a two-person team", "Force inward- and outward-swinging doors"],
+          contactHours: 32,
+          assessment: "Skills Checklist",
+        },
+        {
+          week: "Week 4-5",
+          title: "Search, Rescue & Ventilation",
+          content: ["Primary and secondary search", "Victim drags and carries", "Horizontal and vertical ventilation"],
+          learningObjectives: ["Conduct an oriented search of a smoke-filled room", "Coordinate ventilation with fire attack"],
+          contactHours: 64,
+          assessment: "Scenario Simulation",
+        },
+      ],
+    },
+    {
+      title: "Live Fire & Certification Prep",
+      duration: "5 weeks",
+      description: "Live fire evolutions, hazmat awareness and the NFPA 1001 skills and written exams.",
+      topics: [
+        {
+          week: "Week 1-3",
+          title: "Live Fire Evolutions",
+          content: ["Interior fire attack", "Vehicle fires", "Flammable liquid fires", "Rapid intervention"],
+          learningObjectives: ["Extinguish an interior compartment fire as part of a crew", "Perform a firefighter rescue as an RIT member"],
+          contactHours: 96,
+          assessment: "Scenario Simulation",
+        },
+        {
+          week: "Week 4",
+          title: "Hazmat Awareness & Operations",
+          content: ["Hazard recognition", "ERG use", "Isolation and protective actions"],
+          learningObjectives: ["Identify hazardous materials using placards and the ERG", "Establish isolation zones"],
+          contactHours: 24,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 5",
+          title: "NFPA 1001 Examination",
+          content: ["Skills station rotations", "Written exam review", "Certification testing"],
+          learningObjectives: ["Pass the NFPA 1001 Fire Fighter I & II skills and written exams"],
+          contactHours: 40,
+          assessment: "Practical Evaluation",
+        },
+      ],
+    },
+  ],
+  "emergency-medical-services": [
+    {
+      title: "Foundations of Emergency Medicine",
+      duration: "4 weeks",
+      description: "Build a strong foundation in emergency medical principles and practices.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "Human Anatomy & Physiology",
+          content: [
+            "Cardiovascular system overview",
+            "Respiratory system mechanics",
+            "Nervous system fundamentals",
+            "Musculoskeletal system basics",
+          ],
+          learningObjectives: [
+            "Describe the structure and function of the major body systems",
+            "Relate normal physiology to common emergency presentations",
+          ],
+          contactHours: 24,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 2",
+          title: "Medical Terminology",
+          content: ["Root words and prefixes", "Body systems terminology", "Medical abbreviations", "Documentation standards"],
+          learningObjectives: ["Use standard medical terminology in verbal and written reports"],
+          contactHours: 16,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 3",
+          title: "Legal & Ethical Considerations",
+          content: ["Scope of practice guidelines", "Patient consent and confidentiality", "HIPAA compliance", "Professional liability"],
+          learningObjectives: ["Apply consent and confidentiality rules to field scenarios", "Define the paramedic scope of practice"],
+          contactHours: 16,
+          assessment: "Case Study",
+        },
+        {
+          week: "Week 4",
+          title: "EMS System Overview",
+          content: ["EMS history and development", "System components and roles", "Quality improvement processes", "Communication protocols"],
+          learningObjectives: ["Explain the roles within an EMS system", "Use structured radio communication with receiving facilities"],
+          contactHours: 16,
+          assessment: "Written Exam",
+        },
+      ],
+    },
+    {
+      title: "Patient Assessment & Care",
+      duration: "6 weeks",
+      description: "Master comprehensive patient assessment techniques and basic care protocols.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Primary Assessment",
+          content: [
+            "Scene safety evaluation",
+            "Initial patient contact",
+            "Airway assessment",
+            "Breathing evaluation",
+            "Circulation check",
+            "Disability assessment",
+          ],
+          learningObjectives: ["Perform a primary survey and identify life threats within 60 seconds"],
+          contactHours: 48,
+          assessment: "Skills Checklist",
+        },
+        {
+          week: "Week 3-4",
+          title: "Secondary Assessment",
+          content: ["Head-to-toe examination", "Focused assessments", "History taking techniques", "SAMPLE history method"],
+          learningObjectives: ["Complete a head-to-toe examination", "Obtain a SAMPLE and OPQRST history"],
+          contactHours: 48,
+          assessment: "Practical Evaluation",
+        },
+        {
+          week: "Week 5-6",
+          title: "Vital Signs & Documentation",
+          content: [
+            "Blood pressure measurement",
+            "Pulse assessment techniques",
+            "Respiratory rate monitoring",
+            "Temperature measurement",
+            "Patient care reporting",
+            "Electronic documentation",
+          ],
+          learningObjectives: ["Measure and trend a full set of vital signs", "Write a complete patient care report"],
+          contactHours: 40,
+          assessment: "Portfolio",
+        },
+      ],
+    },
+    {
+      title: "Advanced Life Support",
+      duration: "8 weeks",
+      description: "Advanced interventions and life-saving procedures for critical patients.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Advanced Airway Management",
+          content: [
+            "Endotracheal intubation",
+            "Supraglottic airway devices",
+            "Surgical airway procedures",
+            "Mechanical ventilation basics",
+          ],
+          learningObjectives: ["Secure an airway with ETT and supraglottic devices on a manikin", "Confirm tube placement with capnography"],
+          contactHours: 56,
+          assessment: "Skills Checklist",
+        },
+        {
+          week: "Week 3-4",
+          title: "Vascular Access & IV Therapy",
+          content: ["Peripheral IV insertion", "Central line access", "Intraosseous access", "Fluid resuscitation protocols"],
+          learningObjectives: ["Establish peripheral IV and IO access", "Calculate and administer fluid boluses"],
+          contactHours: 48,
+          assessment: "Skills Checklist",
+        },
+        {
+          week: "Week 5-6",
+          title: "Pharmacology & Medication Administration",
+          content: ["Emergency medications", "Dosage calculations", "Administration routes", "Drug interactions and contraindications"],
+          learningObjectives: ["Calculate weight-based drug doses without error", "Select medications according to protocol"],
+          contactHours: 48,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 7-8",
+          title: "Cardiac Monitoring & Defibrillation",
+          content: ["12-lead ECG interpretation", "Cardiac rhythm analysis", "Defibrillation procedures", "Cardioversion techniques"],
+          learningObjectives: ["Interpret 12-lead ECGs for STEMI", "Lead a megacode scenario to ACLS standards"],
+          contactHours: 56,
+          assessment: "Scenario Simulation",
+        },
+      ],
+    },
+  ],
+  "hazardous-materials-response": [
+    {
+      title: "Hazard Recognition & Regulations",
+      duration: "3 weeks",
+      description: "Identifying hazardous materials and the regulatory framework behind HAZWOPER.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "OSHA 1910.120 & Site Safety Plans",
+          content: ["HAZWOPER scope", "Site characterization", "Site safety and health plans"],
+          learningObjectives: ["Explain HAZWOPER training and medical surveillance requirements", "Read and apply a site safety plan"],
+          contactHours: 16,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 2",
+          title: "Chemical Hazards & Toxicology",
+          content: ["Routes of exposure", "Exposure limits (PEL, TLV, IDLH)", "Safety data sheets", "Chemical families"],
+          learningObjectives: ["Interpret SDS sections for emergency response", "Compare exposure readings against IDLH values"],
+          contactHours: 16,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 3",
+          title: "Detection & Monitoring",
+          content: ["Four-gas meters", "PID and colorimetric tubes", "Radiation detection", "Bump testing and calibration"],
+          learningObjectives: ["Bump test and operate a four-gas meter", "Select monitoring equipment for an unknown release"],
+          contactHours: 16,
+          assessment: "Practical Evaluation",
+        },
+      ],
+    },
+    {
+      title: "Protective Equipment & Decontamination",
+      duration: "3 weeks",
+      description: "Choosing chemical protective clothing and running technical and mass decontamination.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Chemical Protective Clothing",
+          content: ["Levels A through D", "Chemical compatibility", "Suit inspection and pressure testing", "Work-rest cycles"],
+          learningObjectives: ["Select a protection level for a given hazard", "Don and work in Level A and Level B ensembles"],
+          contactHours: 32,
+          assessment: "Skills Checklist",
+        },
+        {
+          week: "Week 3",
+          title: "Decontamination",
+          content: ["Decon corridor layout", "Technical decon", "Mass casualty decon", "Waste handling"],
+          learningObjectives: ["Set up and run a technical decontamination line"],
+          contactHours: 16,
+          assessment: "Practical Evaluation",
+        },
+      ],
+    },
+    {
+      title: "Spill Control & Incident Response",
+      duration: "3 weeks",
+      description: "Containment, confinement and command of hazmat incidents at process facilities.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Containment & Confinement",
+          content: ["Diking and damming", "Leak plugging and patching", "Drum overpacking", "Vapor suppression"],
+          learningObjectives: ["Control a simulated leak from a drum and a pipe flange", "Choose confinement tactics for a liquid spill"],
+          contactHours: 32,
+          assessment: "Practical Evaluation",
+        },
+        {
+          week: "Week 3",
+          title: "Hazmat Incident Command",
+          content: ["Hazmat branch structure", "Hot, warm and cold zones", "Final drill and exam"],
+          learningObjectives: ["Fill the hazmat group roles in a full-scale exercise", "Pass the HAZWOPER 40-Hour written exam"],
+          contactHours: 24,
+          assessment: "Scenario Simulation",
+        },
+      ],
+    },
+  ],
+  "technical-rescue-operations": [
+    {
+      title: "Rope Rescue",
+      duration: "6 weeks",
+      description: "Anchors, mechanical advantage and high-angle rescue systems.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Rope, Knots & Anchors",
+          content: ["Life safety rope and hardware", "Rescue knots", "Single-point and load-sharing anchors"],
+          learningObjectives: ["Tie rescue knots to standard", "Build and evaluate multi-point anchors"],
+          contactHours: 48,
+          assessment: "Skills Checklist",
+        },
+        {
+          week: "Week 3-4",
+          title: "Mechanical Advantage Systems",
+          content: ["3:1 and 5:1 haul systems", "Progress capture", "Belay systems"],
+          learningObjectives: ["Rig a 3:1 haul with progress capture and belay"],
+          contactHours: 48,
+          assessment: "Practical Evaluation",
+        },
+        {
+          week: "Week 5-6",
+          title: "High-Angle Operations",
+          content: ["Litter rigging", "Lowering operations", "Pick-offs", "Highline introduction"],
+          learningObjectives: ["Perform a litter lower with an attendant", "Complete a pick-off rescue from the tower"],
+          contactHours: 48,
+          assessment: "Scenario Simulation",
+        },
+      ],
+    },
+    {
+      title: "Confined Space & Trench Rescue",
+      duration: "5 weeks",
+      description: "Permit-required confined space entry and trench shoring.",
+      topics: [
+        {
+          week: "Week 1-3",
+          title: "Confined Space Rescue",
+          content: ["Permit-required spaces", "Atmospheric monitoring", "Supplied air", "Retrieval systems"],
+          learningObjectives: ["Run a permit-required confined space entry", "Extract a victim through a vertical portal"],
+          contactHours: 72,
+          assessment: "Scenario Simulation",
+        },
+        {
+          week: "Week 4-5",
+          title: "Trench Rescue",
+          content: ["Soil classification", "Pneumatic and timber shoring", "Victim packaging"],
+          learningObjectives: ["Shore a trench with pneumatic struts and panels"],
+          contactHours: 48,
+          assessment: "Practical Evaluation",
+        },
+      ],
+    },
+    {
+      title: "Structural Collapse",
+      duration: "5 weeks",
+      description: "Search, shoring and breaching in collapsed structures.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Collapse Search & Marking",
+          content: ["Collapse patterns", "Void search", "FEMA marking system"],
+          learningObjectives: ["Mark structures and victims using the FEMA system"],
+          contactHours: 48,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 3-5",
+          title: "Shoring, Breaching & Lifting",
+          content: ["Vertical and raker shores", "Concrete breaching", "Cribbing and lifting"],
+          learningObjectives: ["Build a vertical shore to plan", "Breach a concrete slab to reach a void"],
+          contactHours: 72,
+          assessment: "Practical Evaluation",
+        },
+      ],
+    },
+  ],
+  "wildland-fire-suppression": [
+    {
+      title: "Fire Behavior & Weather",
+      duration: "2 weeks",
+      description: "The S-190 fire environment: fuels, weather and topography.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "Fuels & Topography",
+          content: ["Fuel types and moisture", "Slope and aspect", "Fire spread models"],
+          learningObjectives: ["Predict fire spread from fuels and slope"],
+          contactHours: 20,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 2",
+          title: "Fire Weather",
+          content: ["Relative humidity and temperature", "Wind and atmospheric stability", "Spot weather forecasts"],
+          learningObjectives: ["Take belt weather readings", "Recognize critical fire weather patterns"],
+          contactHours: 20,
+          assessment: "Written Exam",
+        },
+      ],
+    },
+    {
+      title: "Suppression Tactics",
+      duration: "3 weeks",
+      description: "S-130 line construction, hose lays and firing operations.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Fireline Construction",
+          content: ["Hand tools", "Direct and indirect attack", "Mop-up and holding"],
+          learningObjectives: ["Construct fireline to standard as part of a hand crew"],
+          contactHours: 60,
+          assessment: "Practical Evaluation",
+        },
+        {
+          week: "Week 3",
+          title: "Water Use & Pumps",
+          content: ["Portable pumps", "Progressive hose lays", "Engine operations"],
+          learningObjectives: ["Set up a portable pump and progressive hose lay"],
+          contactHours: 30,
+          assessment: "Skills Checklist",
+        },
+      ],
+    },
+    {
+      title: "Safety & Field Exercise",
+      duration: "2 weeks",
+      description: "LCES, fire shelters and a multi-day field exercise.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "LCES & Fire Shelter Deployment",
+          content: ["Lookouts, communications, escape routes, safety zones", "10 Standard Firefighting Orders", "Shelter deployment"],
+          learningObjectives: ["Deploy a fire shelter in under 25 seconds", "Apply LCES on every assignment"],
+          contactHours: 20,
+          assessment: "Skills Checklist",
+        },
+        {
+          week: "Week 2",
+          title: "Field Exercise",
+          content: ["Crew operations", "After action review", "Pack test"],
+          learningObjectives: ["Pass the arduous work capacity test", "Work as a crew member through a full operational period"],
+          contactHours: 40,
+          assessment: "Scenario Simulation",
+        },
+      ],
+    },
+  ],
+  "fire-investigation-arson": [
+    {
+      title: "Fire Dynamics for Investigators",
+      duration: "4 weeks",
+      description: "Reading fire patterns with the scientific method of NFPA 921.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "NFPA 921 & the Scientific Method",
+          content: ["Hypothesis development and testing", "Expectation bias", "Investigation planning"],
+          learningObjectives: ["Apply the scientific method to origin and cause"],
+          contactHours: 40,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 3-4",
+          title: "Fire Patterns",
+          content: ["Movement and intensity patterns", "Ventilation effects", "Arc mapping"],
+          learningObjectives: ["Interpret fire patterns to establish an area of origin"],
+          contactHours: 40,
+          assessment: "Case Study",
+        },
+      ],
+    },
+    {
+      title: "Scene Examination & Evidence",
+      duration: "4 weeks",
+      description: "Processing a fire scene and preserving evidence for the lab and the courtroom.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Scene Processing",
+          content: ["Scene safety", "Debris layering", "Photography and diagramming"],
+          learningObjectives: ["Document a burn cell scene with photographs and a diagram"],
+          contactHours: 40,
+          assessment: "Practical Evaluation",
+        },
+        {
+          week: "Week 3-4",
+          title: "Evidence Collection",
+          content: ["Ignitable liquid sampling", "Chain of custody", "Electrical evidence"],
+          learningObjectives: ["Collect and package evidence while preserving chain of custody"],
+          contactHours: 40,
+          assessment: "Skills Checklist",
+        },
+      ],
+    },
+    {
+      title: "Cause Determination & Testimony",
+      duration: "3 weeks",
+      description: "Classifying cause, writing the report and testifying as a witness.",
+      topics: [
+        {
+          week: "Week 1-2",
+          title: "Cause Classification & Reporting",
+          content: ["Accidental, natural, incendiary and undetermined", "Report writing", "Interviewing"],
+          learningObjectives: ["Write an origin and cause report that supports its conclusions"],
+          contactHours: 40,
+          assessment: "Portfolio",
+        },
+        {
+          week: "Week 3",
+          title: "Courtroom Testimony",
+          content: ["Rules of evidence", "Expert witness qualification", "Moot court"],
+          learningObjectives: ["Present findings under direct and cross-examination in moot court"],
+          contactHours: 20,
+          assessment: "Scenario Simulation",
+        },
+      ],
+    },
+  ],
+  "leadership-development": [
+    {
+      title: "Incident Command",
+      duration: "2 weeks",
+      description: "ICS structure and command of expanding incidents.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "ICS Structure",
+          content: ["Command and general staff", "Span of control", "Incident action planning"],
+          learningObjectives: ["Build an ICS organization for an expanding incident"],
+          contactHours: 20,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 2",
+          title: "Command Simulations",
+          content: ["Size-up and initial reports", "Resource tracking", "Transfer of command"],
+          learningObjectives: ["Command a simulated structure fire from arrival to transfer"],
+          contactHours: 20,
+          assessment: "Scenario Simulation",
+        },
+      ],
+    },
+    {
+      title: "Personnel Management",
+      duration: "2 weeks",
+      description: "Leading crews day to day, from coaching to conflict resolution.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "Coaching & Performance",
+          content: ["Setting expectations", "Feedback and evaluations", "Crew training plans"],
+          learningObjectives: ["Deliver structured performance feedback"],
+          contactHours: 20,
+          assessment: "Case Study",
+        },
+        {
+          week: "Week 2",
+          title: "Conflict & Wellbeing",
+          content: ["Conflict resolution", "Critical incident stress", "Just culture"],
+          learningObjectives: ["Mediate a crew conflict scenario", "Recognize signs of critical incident stress"],
+          contactHours: 20,
+          assessment: "Case Study",
+        },
+      ],
+    },
+    {
+      title: "Strategic Planning",
+      duration: "2 weeks",
+      description: "Budgets, risk and the long view for fire officers.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "Community Risk Reduction",
+          content: ["Risk assessment", "Standards of cover", "Data-driven deployment"],
+          learningObjectives: ["Draft a community risk assessment for a response area"],
+          contactHours: 20,
+          assessment: "Portfolio",
+        },
+        {
+          week: "Week 2",
+          title: "Budgeting & Capstone",
+          content: ["Capital and operating budgets", "Grant writing", "Capstone presentation"],
+          learningObjectives: ["Present a strategic plan to a review panel"],
+          contactHours: 20,
+          assessment: "Portfolio",
+        },
+      ],
+    },
+  ],
+  "fire-prevention-inspection": [
+    {
+      title: "Codes & Standards",
+      duration: "2 weeks",
+      description: "Navigating the International Fire Code and referenced standards.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "Fire Code Administration",
+          content: ["Code adoption", "Permits", "Occupancy classification"],
+          learningObjectives: ["Classify occupancies under the IFC"],
+          contactHours: 20,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Week 2",
+          title: "Means of Egress & Fire Protection Systems",
+          content: ["Egress components", "Sprinkler and standpipe systems", "Fire alarm systems"],
+          learningObjectives: ["Verify egress capacity and travel distance", "Identify impaired fire protection systems"],
+          contactHours: 20,
+          assessment: "Written Exam",
+        },
+      ],
+    },
+    {
+      title: "Field Inspections",
+      duration: "2 weeks",
+      description: "Running inspections, writing violations and public education.",
+      topics: [
+        {
+          week: "Week 1",
+          title: "Conducting Inspections",
+          content: ["Inspection procedures", "Hazardous materials storage", "Violation notices"],
+          learningObjectives: ["Conduct a complete inspection and issue a notice of violation"],
+          contactHours: 20,
+          assessment: "Practical Evaluation",
+        },
+        {
+          week: "Week 2",
+          title: "Plan Review & Public Education",
+          content: ["Plan review basics", "Public education programs", "ICC exam preparation"],
+          learningObjectives: ["Review a floor plan for fire code compliance", "Pass the ICC Fire Inspector I exam"],
+          contactHours: 20,
+          assessment: "Written Exam",
+        },
+      ],
+    },
+  ],
+  "hazwoper-8-hour-refresher": [
+    {
+      title: "Annual HAZWOPER Refresher",
+      duration: "1 day",
+      description: "The annual 8 hours required by 29 CFR 1910.120(e)(8) to keep a HAZWOPER certificate current.",
+      topics: [
+        {
+          week: "Hours 1-4",
+          title: "Regulatory Update & Lessons Learned",
+          content: ["Regulatory changes", "Recent incident case studies", "Medical surveillance reminders"],
+          learningObjectives: ["Summarize regulatory changes from the past year", "Apply lessons from recent incidents"],
+          contactHours: 4,
+          assessment: "Written Exam",
+        },
+        {
+          week: "Hours 5-8",
+          title: "PPE & Decontamination Drills",
+          content: ["Protective ensemble selection", "Donning and doffing", "Decontamination line drill"],
+          learningObjectives: ["Don and doff Level B protection correctly", "Work a decontamination line"],
+          contactHours: 4,
+          assessment: "Skills Checklist",
+        },
+      ],
+    },
+  ],
+}
@@ -0,0 +1,39 @@
+export interface TeamMember {
+  name: string;
+  position: string;
+  certifications: string[];
+  experience: string;
+  specialties: string[];
+}
+
+// Shown in the home page team section and searchable from the command palette.
+export const teamMembers: TeamMember[] = [
+  {
+    name: "Michael Rodriguez",
+    position: "Chief Fire Safety Instructor",
+    certifications: ["NFPA Certified", "Fire Inspector", "Emergency Response"],
+    experience: "20+ years",
+    specialties: ["Industrial Fire Safety", "Emergency Response Training"],
+  },
+  {
+    name: "Sarah Chen",
+    position: "HSE Consultant Director",
+    certifications: ["OSHA Certified", "Environmental Safety", "Risk Assessment"],
+    experience: "15+ years",
+    specialties: ["Workplace Safety", "Environmental Compliance"],
+  },
+  {
+    name: "David Thompson",
+    position: "Training Coordinator",
+    certifications: ["CPR/AED Instructor", "Safety Management", "Training Development"],
+    experience: "12+ years",
+    specialties: ["Training Program Development", "Safety Leadership"],
+  },
+  {
+    name: "Jennifer Martinez",
+    position: "Fire Prevention Specialist",
+    certifications: ["Fire Prevention", "Building Codes", "Safety Inspection"],
+    experience: "18+ years",
+    specialties: ["Building Safety", "Fire Prevention Systems"],
+  },
+];
@@ -9,11 +9,77 @@ import {
   Search as SearchIcon,
   LucideIcon,
 } from "lucide-react"
+import { programSyllabi } from "@/data/syllabusData"
+import type { ContentTranslations } from "@/lib/i18n"
+
+export interface CertificateDetail {
+  name: string
+  issuer: string
+  previewImage: string
+  downloadUrl: string
+  // Months an issued certificate stays current; omit when it never lapses.
+  validityMonths?: number
+  // What the holder must complete to stay current, e.g. "Annual 8-hour refresher".
+  renewalRequirement?: string
+  // Catalog slug of the course that satisfies the renewal requirement.
+  refresherSlug?: string
+}
+
+export type AssessmentType =
+  | "Written Exam"
+  | "Practical Evaluation"
+  | "Skills Checklist"
+  | "Scenario Simulation"
+  | "Case Study"
+  | "Portfolio"
+
+export const assessmentTypes: AssessmentType[] = [
+  "Written Exam",
+  "Practical Evaluation",
+  "Skills Checklist",
+  "Scenario Simulation",
+  "Case Study",
+  "Portfolio",
+]
+
+// One week (or block of weeks) within a syllabus module.
+export interface ModuleTopic {
+  week: string
+  title: string
+  content: string[]
+  learningObjectives: string[]
+  contactHours: number
+  assessment: AssessmentType
+}
+
+export interface SyllabusModule {
+  title: string
+  duration: string
+  description: string
+  topics: ModuleTopic[]
+}
+
+// Icons are stored by name so programs can round-trip through the database.
+export const trainingIcons = {
+  Flame,
+  Shield,
+  HardHat,
+  Users,
+  Building,
+  Wrench,
+  Mountain,
+  Search: SearchIcon,
+} satisfies Record<string, LucideIcon>
+
+export type TrainingIconName = keyof typeof trainingIcons
+
+export const getTrainingIcon = (name: string): LucideIcon =>
+  trainingIcons[name as TrainingIconName] ?? Flame
 
 export interface TrainingProgram {
   id: string
   slug: string
-  icon: LucideIcon
+  icon: TrainingIconName
   title: string
   description: string
   duration: string
@@ -29,13 +95,33 @@ export interface TrainingProgram {
   startDate: string
   image: string
   tags: string[]
+  certifications_details: CertificateDetail[]
+  syllabus: SyllabusModule[]
+  /** Share of finished sessions a trainee must attend to certify. */
+  minAttendancePercent: number
+  /** What a trainee must already hold or be able to do before enrolling. */
+  prerequisites: string[]
+  /** Translated title and description per locale; missing fields fall back to English. */
+  translations?: ContentTranslations<"title" | "description">
 }
 
+export const trainingLevels: TrainingProgram["level"][] = [
+  "Entry Level",
+  "Intermediate",
+  "Professional",
+  "Advanced",
+  "Leadership",
+  "Specialist",
+  "Technical",
+]
+
+// Seed and offline fallback for the `training_programs` table. Read the catalog
+// through `@/lib/trainingCatalog` rather than importing this directly.
 export const trainingPrograms: TrainingProgram[] = [
   {
-    id: "1",
+    id: "00000000-0000-4000-8000-000000000001",
     slug: "fire-fighter-training-academy",
-    icon: Flame,
+    icon: "Flame",
     title: "Fire Fighter Training Academy",
     description:
       "Comprehensive certification programs for aspiring fire fighters, including physical training, emergency response, and technical skills development.",
@@ -43,8 +129,8 @@ export const trainingPrograms: TrainingProgram[] = [
     level: "Entry Level",
     certification: "NFPA Certified",
     location: "Los Angeles, CA",
-    rating: 4.8,
-    reviews: 245,
+    rating: 0,
+    reviews: 0,
     price: 6500,
     featured: true,
     category: "Fire Safety",
@@ -52,11 +138,43 @@ export const trainingPrograms: TrainingProgram[] = [
     startDate: "2024-03-15",
     image: "/news1.jpeg",
     tags: ["Physical Training", "Emergency Response", "Safety Protocols"],
+    certifications_details: [
+      {
+        name: "NFPA 1001: Fire Fighter I & II",
+        issuer: "National Fire Protection Association",
+        previewImage: "/certs/TranskripNilaiSem6.png",
+        downloadUrl: "/certs/TranskripNilaiSem6.pdf",
+      },
+      {
+        name: "First Responder Operations",
+        issuer: "State Fire Academy",
+        previewImage: "/certs/TranskripNilaiSem6.png",
+        downloadUrl: "/certs/TranskripNilaiSem6.pdf",
+        validityMonths: 12,
+        renewalRequirement: "Annual operations-level refresher",
+        refresherSlug: "fire-fighter-training-academy",
+      },
+    ],
+    syllabus: programSyllabi["fire-fighter-training-academy"],
+    minAttendancePercent: 80,
+    prerequisites: [
+      "18 years or older",
+      "High school diploma or equivalent",
+      "Valid driver's license",
+      "Pass the Candidate Physical Ability Test (CPAT)",
+    ],
+    translations: {
+      id: {
+        title: "Akademi Pelatihan Pemadam Kebakaran",
+        description:
+          "Program sertifikasi lengkap bagi calon pemadam kebakaran, mencakup latihan fisik, tanggap darurat, dan pengembangan keterampilan teknis.",
+      },
+    },
   },
   {
-    id: "2",
+    id: "00000000-0000-4000-8000-000000000002",
     slug: "emergency-medical-services",
-    icon: Shield,
+    icon: "Shield",
     title: "Emergency Medical Services",
     description:
       "Advanced EMS training programs for firefighters and emergency medical personnel, including paramedic certification and continuing education.",
@@ -64,8 +182,8 @@ export const trainingPrograms: TrainingProgram[] = [
     level: "Professional",
     certification: "NREMT Certified",
     location: "New York, NY",
-    rating: 4.9,
-    reviews: 127,
+    rating: 0,
+    reviews: 0,
     price: 8500,
     featured: true,
     category: "Medical Emergency",
@@ -73,11 +191,46 @@ export const trainingPrograms: TrainingProgram[] = [
     startDate: "2024-03-20",
     image: "/news2.jpg",
     tags: ["Paramedic", "Life Support", "Medical Training"],
+    certifications_details: [
+      {
+        name: "NREMT Paramedic",
+        issuer: "National Registry of Emergency Medical Technicians",
+        previewImage: "/certs/nremt-paramedic-sample.jpg",
+        downloadUrl: "/certs/nremt-paramedic-sample.pdf",
+        validityMonths: 24,
+        renewalRequirement: "60 hours of continuing education every 2 years",
+        refresherSlug: "emergency-medical-services",
+      },
+      {
+        name: "State Paramedic License",
+        issuer: "State Department of Health",
+        previewImage: "/certs/state-paramedic-sample.jpg",
+        downloadUrl: "/certs/state-paramedic-sample.pdf",
+        validityMonths: 24,
+        renewalRequirement: "License renewal every 2 years",
+        refresherSlug: "emergency-medical-services",
+      },
+    ],
+    syllabus: programSyllabi["emergency-medical-services"],
+    minAttendancePercent: 80,
+    prerequisites: [
+      "High school diploma or equivalent",
+      "Current CPR/BLS certification",
+      "EMT-Basic certification (preferred)",
+      "Immunization records and background check",
+    ],
+    translations: {
+      id: {
+        title: "Layanan Medis Darurat",
+        description:
+          "Pelatihan EMS tingkat lanjut bagi pemadam kebakaran dan tenaga medis darurat, termasuk sertifikasi paramedis dan pendidikan berkelanjutan.",
+      },
+    },
   },
   {
-    id: "3",
+    id: "00000000-0000-4000-8000-000000000003",
     slug: "hazardous-materials-response",
-    icon: HardHat,
+    icon: "HardHat",
     title: "Hazardous Materials Response",
     description:
       "Specialized training for handling hazardous materials incidents, chemical spills, and environmental emergencies with proper safety protocols.",
@@ -85,8 +238,8 @@ export const trainingPrograms: TrainingProgram[] = [
     level: "Intermediate",
     certification: "HAZMAT Certified",
     location: "Houston, TX",
-    rating: 4.7,
-    reviews: 89,
+    rating: 0,
+    reviews: 0,
     price: 5200,
     featured: false,
     category: "Hazmat",
@@ -94,11 +247,36 @@ export const trainingPrograms: TrainingProgram[] = [
     startDate: "2024-04-01",
     image: "/news3.jpg",
     tags: ["Chemical Safety", "Environmental", "Specialized Equipment"],
+    certifications_details: [
+      {
+        name: "OSHA HAZWOPER 40-Hour",
+        issuer: "Occupational Safety and Health Administration",
+        previewImage: "/certs/hazwoper-sample.jpg",
+        downloadUrl: "/certs/hazwoper-sample.pdf",
+        validityMonths: 12,
+        renewalRequirement: "Annual 8-hour refresher",
+        refresherSlug: "hazwoper-8-hour-refresher",
+      },
+    ],
+    syllabus: programSyllabi["hazardous-materials-response"],
+    minAttendancePercent: 80,
+    prerequisites: [
+      "HAZMAT Awareness certification",
+      "Employed or sponsored by a response agency",
+      "Medical clearance for respirator use",
+    ],
+    translations: {
+      id: {
+        title: "Penanganan Bahan Berbahaya",
+        description:
+          "Pelatihan khusus menangani insiden bahan berbahaya, tumpahan bahan kimia, dan keadaan darurat lingkungan dengan protokol keselamatan yang tepat.",
+      },
+    },
   },
   {
-    id: "4",
+    id: "00000000-0000-4000-8000-000000000004",
     slug: "technical-rescue-operations",
-    icon: Wrench,
+    icon: "Wrench",
     title: "Technical Rescue Operations",
     description:
       "Advanced rescue techniques including rope rescue, confined space, trench rescue, and structural collapse operations for emergency responders.",
@@ -106,8 +284,8 @@ export const trainingPrograms: TrainingProgram[] = [
     level: "Technical",
     certification: "NFPA 1006 Certified",
     location: "Denver, CO",
-    rating: 4.6,
-    reviews: 156,
+    rating: 0,
+    reviews: 0,
     price: 7800,
     featured: false,
     category: "Technical Rescue",
@@ -115,11 +293,26 @@ export const trainingPrograms: TrainingProgram[] = [
     startDate: "2024-04-10",
     image: "/news4.jpg",
     tags: ["Rope Rescue", "Confined Space", "Structural Collapse"],
+    certifications_details: [],
+    syllabus: programSyllabi["technical-rescue-operations"],
+    minAttendancePercent: 80,
+    prerequisites: [
+      "Firefighter I or equivalent",
+      "Current CPR certification",
+      "Able to work at height and in confined spaces",
+    ],
+    translations: {
+      id: {
+        title: "Operasi Penyelamatan Teknis",
+        description:
+          "Teknik penyelamatan tingkat lanjut meliputi penyelamatan tali, ruang terbatas, parit, dan runtuhan bangunan bagi petugas tanggap darurat.",
+      },
+    },
   },
   {
-    id: "5",
+    id: "00000000-0000-4000-8000-000000000005",
     slug: "wildland-fire-suppression",
-    icon: Mountain,
+    icon: "Mountain",
     title: "Wildland Fire Suppression",
     description:
       "Comprehensive wildland firefighting training covering fire behavior, suppression tactics, safety protocols, and equipment operation.",
@@ -127,8 +320,8 @@ export const trainingPrograms: TrainingProgram[] = [
     level: "Intermediate",
     certification: "S-130/S-190 Certified",
     location: "Phoenix, AZ",
-    rating: 4.5,
-    reviews: 203,
+    rating: 0,
+    reviews: 0,
     price: 4800,
     featured: false,
     category: "Wildland Fire",
@@ -136,11 +329,26 @@ export const trainingPrograms: TrainingProgram[] = [
     startDate: "2024-05-01",
     image: "/news1.jpeg",
     tags: ["Fire Behavior", "Suppression Tactics", "Safety Protocols"],
+    certifications_details: [],
+    syllabus: programSyllabi["wildland-fire-suppression"],
+    minAttendancePercent: 80,
+    prerequisites: [
+      "18 years or older",
+      "Pass the arduous Work Capacity Test (pack test)",
+      "Leather boots meeting NFPA 1977",
+    ],
+    translations: {
+      id: {
+        title: "Pemadaman Kebakaran Hutan dan Lahan",
+        description:
+          "Pelatihan pemadaman kebakaran hutan dan lahan yang mencakup perilaku api, taktik pemadaman, protokol keselamatan, dan pengoperasian peralatan.",
+      },
+    },
   },
   {
-    id: "6",
+    id: "00000000-0000-4000-8000-000000000006",
     slug: "fire-investigation-arson",
-    icon: SearchIcon,
+    icon: "Search",
     title: "Fire Investigation & Arson",
     description:
       "Professional training in fire scene investigation, evidence collection, cause determination, and courtroom testimony for fire investigators.",
@@ -148,8 +356,8 @@ export const trainingPrograms: TrainingProgram[] = [
     level: "Professional",
     certification: "IAAI Certified",
     location: "Chicago, IL",
-    rating: 4.8,
-    reviews: 78,
+    rating: 0,
+    reviews: 0,
     price: 6200,
     featured: false,
     category: "Investigation",
@@ -157,11 +365,25 @@ export const trainingPrograms: TrainingProgram[] = [
     startDate: "2024-05-15",
     image: "/news2.jpg",
     tags: ["Evidence Collection", "Cause Determination", "Legal Procedures"],
+    certifications_details: [],
+    syllabus: programSyllabi["fire-investigation-arson"],
+    minAttendancePercent: 80,
+    prerequisites: [
+      "Firefighter II or law-enforcement officer certification",
+      "Two years of fire service or investigative experience",
+    ],
+    translations: {
+      id: {
+        title: "Investigasi Kebakaran & Pembakaran",
+        description:
+          "Pelatihan profesional investigasi lokasi kebakaran, pengumpulan bukti, penentuan penyebab, dan kesaksian di pengadilan bagi investigator kebakaran.",
+      },
+    },
   },
   {
-    id: "7",
+    id: "00000000-0000-4000-8000-000000000007",
     slug: "leadership-development",
-    icon: Users,
+    icon: "Users",
     title: "Leadership Development",
     description:
       "Command and leadership training for fire officers, including incident command, personnel management, and strategic planning.",
@@ -169,8 +391,8 @@ export const trainingPrograms: TrainingProgram[] = [
     level: "Leadership",
     certification: "FESHE Certified",
     location: "Washington, D.C.",
-    rating: 4.9,
-    reviews: 112,
+    rating: 0,
+    reviews: 0,
     price: 7200,
     featured: true,
     category: "Leadership",
@@ -178,19 +400,33 @@ export const trainingPrograms: TrainingProgram[] = [
     startDate: "2024-06-01",
     image: "/news3.jpg",
     tags: ["Incident Command", "Management", "Strategy"],
+    certifications_details: [],
+    syllabus: programSyllabi["leadership-development"],
+    minAttendancePercent: 80,
+    prerequisites: [
+      "Company officer rank or department nomination",
+      "ICS-100 and ICS-200 completed",
+    ],
+    translations: {
+      id: {
+        title: "Pengembangan Kepemimpinan",
+        description:
+          "Pelatihan komando dan kepemimpinan bagi perwira pemadam kebakaran, termasuk komando insiden, manajemen personel, dan perencanaan strategis.",
+      },
+    },
   },
   {
-    id: "8",
+    id: "00000000-0000-4000-8000-000000000008",
     slug: "fire-prevention-inspection",
-    icon: Building,
+    icon: "Building",
     title: "Fire Prevention & Inspection",
     description: "Code enforcement and fire prevention training programs for inspectors and prevention specialists.",
     duration: "3-6 weeks",
     level: "Specialist",
     certification: "ICC Certified",
     location: "Online",
-    rating: 4.7,
-    reviews: 95,
+    rating: 0,
+    reviews: 0,
     price: 3500,
     featured: false,
     category: "Fire Safety",
@@ -198,5 +434,64 @@ export const trainingPrograms: TrainingProgram[] = [
     startDate: "2024-06-10",
     image: "/news4.jpg",
     tags: ["Code Enforcement", "Inspection", "Public Safety"],
+    certifications_details: [],
+    syllabus: programSyllabi["fire-prevention-inspection"],
+    minAttendancePercent: 80,
+    prerequisites: [
+      "Firefighter I or a building trades background",
+      "Able to read construction drawings",
+    ],
+    translations: {
+      id: {
+        title: "Pencegahan & Inspeksi Kebakaran",
+        description:
+          "Program pelatihan penegakan peraturan dan pencegahan kebakaran bagi inspektur dan spesialis pencegahan.",
+      },
+    },
+  },
+  {
+    id: "00000000-0000-4000-8000-000000000009",
+    slug: "hazwoper-8-hour-refresher",
+    icon: "HardHat",
+    title: "HAZWOPER 8-Hour Refresher",
+    description:
+      "One-day annual refresher that keeps OSHA HAZWOPER 40-Hour certificates current, covering regulatory updates, PPE, decontamination and incident lessons learned.",
+    duration: "1 day",
+    level: "Intermediate",
+    certification: "HAZWOPER Refresher",
+    location: "Houston, TX",
+    rating: 0,
+    reviews: 0,
+    price: 450,
+    featured: false,
+    category: "Hazmat",
+    instructor: "Chief David Chen",
+    startDate: "2024-05-06",
+    image: "/news3.jpg",
+    tags: ["Refresher", "Chemical Safety", "Recertification"],
+    certifications_details: [
+      {
+        name: "OSHA HAZWOPER 8-Hour Refresher",
+        issuer: "Occupational Safety and Health Administration",
+        previewImage: "/certs/hazwoper-sample.jpg",
+        downloadUrl: "/certs/hazwoper-sample.pdf",
+        validityMonths: 12,
+        renewalRequirement: "Annual 8-hour refresher",
+        refresherSlug: "hazwoper-8-hour-refresher",
+      },
+    ],
+    syllabus: programSyllabi["hazwoper-8-hour-refresher"],
+    minAttendancePercent: 80,
+    prerequisites: [
+      "Initial 40-hour or 24-hour HAZWOPER training",
+      "Last HAZWOPER certificate dated within 12 months",
+    ],
+    translations: {
+      id: {
+        title: "Penyegaran HAZWOPER 8 Jam",
+        description:
+          "Penyegaran tahunan satu hari untuk menjaga sertifikat OSHA HAZWOPER 40 Jam tetap berlaku, mencakup pembaruan regulasi, APD, dekontaminasi, dan pembelajaran dari insiden.",
+      },
+    },
   },
-]
\ No newline at end of file
+]
@@ -0,0 +1,90 @@
+import { useSyncExternalStore } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  fetchEnrollmentAttendance,
+  fetchInstructorSessions,
+  fetchSessionAttendance,
+  type AttendanceInput,
+  type AttendanceRecord,
+} from "@/lib/attendance"
+import { loadQueue, sendOrQueue, subscribeToQueue } from "@/lib/offline"
+import { certificateKeys } from "@/hooks/use-certificates"
+
+export const attendanceKeys = {
+  all: ["attendance"] as const,
+  instructorSessions: (instructor: string) => ["attendance", "instructor-sessions", instructor] as const,
+  session: (sessionId: string) => ["attendance", "session", sessionId] as const,
+  enrollments: (enrollmentIds: string[]) => ["attendance", "enrollments", enrollmentIds] as const,
+}
+
+export function useInstructorSessions(instructor?: string, enabled = true) {
+  return useQuery({
+    queryKey: attendanceKeys.instructorSessions(instructor ?? ""),
+    queryFn: () => fetchInstructorSessions(instructor),
+    enabled,
+  })
+}
+
+// Marks still waiting in the offline queue are laid over the saved register
+// so the instructor sees what they took.
+export function useSessionAttendance(sessionId: string | undefined, refetchInterval: number | false = false) {
+  const queue = useSyncExternalStore(subscribeToQueue, loadQueue)
+
+  return useQuery({
+    queryKey: attendanceKeys.session(sessionId ?? ""),
+    queryFn: () => fetchSessionAttendance(sessionId as string),
+    enabled: !!sessionId,
+    refetchInterval,
+    select: (records: AttendanceRecord[]) => {
+      const queued = queue
+        .flatMap((mutation) =>
+          mutation.kind === "attendance"
+            ? mutation.payload.map((record) => ({ ...record, recordedAt: record.recordedAt ?? mutation.queuedAt }))
+            : []
+        )
+        .filter((record) => record.sessionId === sessionId)
+      if (queued.length === 0) return records
+
+      // Mirrors keep_latest_attendance: a queued mark only replaces an older one.
+      const recordedAtByEnrollment = new Map(records.map((record) => [record.enrollmentId, record.recordedAt]))
+      const latest = new Map<string, (typeof queued)[number]>()
+      for (const record of queued) {
+        const newest = latest.get(record.enrollmentId)?.recordedAt ?? recordedAtByEnrollment.get(record.enrollmentId)
+        if (!newest || new Date(record.recordedAt) >= new Date(newest)) latest.set(record.enrollmentId, record)
+      }
+      return [
+        ...records.filter((record) => !latest.has(record.enrollmentId)),
+        ...[...latest.values()].map((record) => ({ id: `queued-${record.enrollmentId}`, ...record })),
+      ]
+    },
+  })
+}
+
+export function useEnrollmentAttendance(enrollmentIds: string[]) {
+  return useQuery({
+    queryKey: attendanceKeys.enrollments(enrollmentIds),
+    queryFn: () => fetchEnrollmentAttendance(enrollmentIds),
+    enabled: enrollmentIds.length > 0,
+  })
+}
+
+// Attendance is a certification requirement, so blockers are refreshed too.
+// Marks taken offline are queued instead and refreshed once they sync; they
+// are stamped here so they keep the time the register was taken.
+export function useRecordAttendance() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (records: AttendanceInput[]) => {
+      const recordedAt = new Date().toISOString()
+      return sendOrQueue(
+        "attendance",
+        records.map((record) => ({ ...record, recordedAt: record.recordedAt ?? recordedAt }))
+      )
+    },
+    onSuccess: ({ queued }) => {
+      if (queued) return
+      queryClient.invalidateQueries({ queryKey: attendanceKeys.all })
+      queryClient.invalidateQueries({ queryKey: certificateKeys.all })
+    },
+  })
+}
@@ -0,0 +1,80 @@
+import { useCallback, useMemo } from "react"
+import { useSearchParams } from "react-router-dom"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  deleteCatalogFilterPreset,
+  fetchCatalogFilterPresets,
+  parseCatalogFilters,
+  saveCatalogFilterPreset,
+  toCatalogSearchParams,
+  type CatalogFilters,
+} from "@/lib/catalogFilters"
+
+export const catalogPresetKeys = {
+  all: ["catalog-presets"] as const,
+  mine: (userId: string) => ["catalog-presets", "mine", userId] as const,
+}
+
+// The URL is the only copy of the catalog filters, so links can be shared and
+// the browser's back and forward buttons step through earlier filter choices.
+export function useCatalogFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = useMemo(() => parseCatalogFilters(searchParams), [searchParams])
+
+  // Changing what is shown sends the user back to the first page; paging and
+  // picking programs to compare do not.
+  const updateFilters = useCallback(
+    (changes: Partial<CatalogFilters>, options: { replace?: boolean } = {}) =>
+      setSearchParams(
+        (current) => {
+          const resetsPage = Object.keys(changes).some((key) => key !== "page" && key !== "compare")
+          const next = { ...parseCatalogFilters(current), ...changes }
+          return toCatalogSearchParams(resetsPage ? { ...next, page: 1 } : next)
+        },
+        { replace: options.replace, preventScrollReset: true }
+      ),
+    [setSearchParams]
+  )
+
+  // Keeps the comparison list, which is a selection rather than a filter.
+  const applyQuery = useCallback(
+    (query: string) =>
+      setSearchParams(
+        (current) => {
+          const next = new URLSearchParams(query)
+          const compare = current.get("compare")
+          if (compare) next.set("compare", compare)
+          return next
+        },
+        { preventScrollReset: true }
+      ),
+    [setSearchParams]
+  )
+
+  return { filters, updateFilters, applyQuery }
+}
+
+export function useCatalogFilterPresets(userId: string | undefined) {
+  return useQuery({
+    queryKey: catalogPresetKeys.mine(userId ?? ""),
+    queryFn: () => fetchCatalogFilterPresets(userId as string),
+    enabled: !!userId,
+  })
+}
+
+export function useSaveCatalogFilterPreset() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ userId, name, query }: { userId: string; name: string; query: string }) =>
+      saveCatalogFilterPreset(userId, name, query),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: catalogPresetKeys.all }),
+  })
+}
+
+export function useDeleteCatalogFilterPreset() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => deleteCatalogFilterPreset(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: catalogPresetKeys.all }),
+  })
+}
@@ -0,0 +1,72 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  fetchCertificateBlockers,
+  fetchEnrollmentCertificates,
+  fetchUserCertificates,
+  issueCertificates,
+  revokeCertificate,
+  verifyCertificate,
+} from "@/lib/certificates"
+import { enrollmentKeys } from "@/hooks/use-enrollment"
+import { enrollmentAdminKeys } from "@/hooks/use-enrollment-admin"
+
+export const certificateKeys = {
+  all: ["certificates"] as const,
+  mine: (userId: string) => ["certificates", "mine", userId] as const,
+  enrollments: (enrollmentIds: string[]) => ["certificates", "enrollments", enrollmentIds] as const,
+  verify: (code: string) => ["certificates", "verify", code] as const,
+  blockers: (enrollmentIds: string[]) => ["certificates", "blockers", enrollmentIds] as const,
+}
+
+export function useUserCertificates(userId: string | undefined) {
+  return useQuery({
+    queryKey: certificateKeys.mine(userId ?? ""),
+    queryFn: () => fetchUserCertificates(userId as string),
+    enabled: !!userId,
+  })
+}
+
+export function useEnrollmentCertificates(enrollmentIds: string[]) {
+  return useQuery({
+    queryKey: certificateKeys.enrollments(enrollmentIds),
+    queryFn: () => fetchEnrollmentCertificates(enrollmentIds),
+    enabled: enrollmentIds.length > 0,
+  })
+}
+
+export function useCertificateBlockers(enrollmentIds: string[]) {
+  return useQuery({
+    queryKey: certificateKeys.blockers(enrollmentIds),
+    queryFn: () => fetchCertificateBlockers(enrollmentIds),
+    enabled: enrollmentIds.length > 0,
+  })
+}
+
+export function useVerifyCertificate(code: string | undefined) {
+  return useQuery({
+    queryKey: certificateKeys.verify(code ?? ""),
+    queryFn: () => verifyCertificate(code as string),
+    enabled: !!code,
+  })
+}
+
+export function useIssueCertificates() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (enrollmentId: string) => issueCertificates(enrollmentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: certificateKeys.all })
+      queryClient.invalidateQueries({ queryKey: enrollmentKeys.all })
+      queryClient.invalidateQueries({ queryKey: enrollmentAdminKeys.all })
+    },
+  })
+}
+
+export function useRevokeCertificate() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ certificateId, reason }: { certificateId: string; reason: string }) =>
+      revokeCertificate(certificateId, reason),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: certificateKeys.all }),
+  })
+}
@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  CHECK_IN_ROTATION_MS,
+  checkInToSession,
+  fetchSessionCheckIns,
+  issueCheckInCode,
+  resolveCheckIn,
+  type CheckInResolution,
+} from "@/lib/checkIn"
+import { attendanceKeys } from "@/hooks/use-attendance"
+import { certificateKeys } from "@/hooks/use-certificates"
+
+export const checkInKeys = {
+  all: ["check-in"] as const,
+  code: (sessionId: string) => ["check-in", "code", sessionId] as const,
+  session: (sessionId: string) => ["check-in", "session", sessionId] as const,
+}
+
+// Refetching on the rotation interval is what rotates the code on screen.
+export function useCheckInCode(sessionId: string | undefined, enabled: boolean) {
+  return useQuery({
+    queryKey: checkInKeys.code(sessionId ?? ""),
+    queryFn: () => issueCheckInCode(sessionId as string),
+    enabled: enabled && !!sessionId,
+    refetchInterval: CHECK_IN_ROTATION_MS,
+    refetchIntervalInBackground: true,
+    gcTime: 0,
+  })
+}
+
+export function useSessionCheckIns(sessionId: string | undefined, refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: checkInKeys.session(sessionId ?? ""),
+    queryFn: () => fetchSessionCheckIns(sessionId as string),
+    enabled: !!sessionId,
+    refetchInterval,
+  })
+}
+
+export function useCheckInToSession() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (code: string) => checkInToSession(code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attendanceKeys.all })
+      queryClient.invalidateQueries({ queryKey: certificateKeys.all })
+    },
+  })
+}
+
+export function useResolveCheckIn() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, resolution, resolvedBy }: { id: string; resolution: CheckInResolution; resolvedBy: string }) =>
+      resolveCheckIn(id, resolution, resolvedBy),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: checkInKeys.all }),
+  })
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { useSession } from "@/hooks/use-session";
+import { fetchUserProfile, type UserRole } from "@/lib/profile";
+
+export const currentUserKeys = {
+  profile: (userId: string) => ["current-user", "profile", userId] as const,
+};
+
+export function useCurrentUser() {
+  const { session, isLoading: isSessionLoading } = useSession();
+  const userId = session?.user?.id;
+  const { data: profile = null, isLoading: isProfileLoading } = useQuery({
+    queryKey: currentUserKeys.profile(userId ?? ""),
+    queryFn: () => fetchUserProfile(userId as string),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const role = profile?.role ?? null;
+
+  return {
+    session,
+    user: session?.user ?? null,
+    profile,
+    role,
+    isLoading: isSessionLoading || (!!userId && isProfileLoading),
+    hasRole: (...roles: UserRole[]) => !!role && roles.includes(role),
+  };
+}
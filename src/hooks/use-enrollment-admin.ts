@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  confirmEnrollment,
+  fetchCohortRoster,
+  fetchCohortWaitlist,
+  reorderWaitlist,
+  setMedicalClearance,
+} from "@/lib/enrollmentAdmin"
+import type { MedicalClearance } from "@/lib/enrollment"
+
+export const enrollmentAdminKeys = {
+  all: ["enrollment-admin"] as const,
+  roster: (cohortId: string) => ["enrollment-admin", "roster", cohortId] as const,
+  waitlist: (cohortId: string) => ["enrollment-admin", "waitlist", cohortId] as const,
+}
+
+export function useCohortWaitlist(cohortId: string | undefined) {
+  return useQuery({
+    queryKey: enrollmentAdminKeys.waitlist(cohortId ?? ""),
+    queryFn: () => fetchCohortWaitlist(cohortId as string),
+    enabled: !!cohortId,
+  })
+}
+
+export function useCohortRoster(cohortId: string | undefined) {
+  return useQuery({
+    queryKey: enrollmentAdminKeys.roster(cohortId ?? ""),
+    queryFn: () => fetchCohortRoster(cohortId as string),
+    enabled: !!cohortId,
+  })
+}
+
+export function useConfirmEnrollment() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (enrollmentId: string) => confirmEnrollment(enrollmentId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: enrollmentAdminKeys.all }),
+  })
+}
+
+export function useReorderWaitlist(cohortId: string | undefined) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (enrollmentIds: string[]) => reorderWaitlist(cohortId as string, enrollmentIds),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: enrollmentAdminKeys.waitlist(cohortId ?? "") }),
+  })
+}
+
+export function useSetMedicalClearance() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ enrollmentId, clearance }: { enrollmentId: string; clearance: MedicalClearance }) =>
+      setMedicalClearance(enrollmentId, clearance),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: enrollmentAdminKeys.all }),
+  })
+}
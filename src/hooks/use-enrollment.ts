@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  acceptWaitlistOffer,
+  cancelEnrollment,
+  enrollInCohort,
+  fetchUserEnrollments,
+  type EnrollmentInput,
+} from "@/lib/enrollment"
+import { scheduleKeys } from "@/hooks/use-schedule"
+import { invoiceKeys } from "@/hooks/use-invoices"
+
+export const enrollmentKeys = {
+  all: ["enrollment"] as const,
+  mine: (userId: string) => ["enrollment", "mine", userId] as const,
+}
+
+export function useUserEnrollments(userId: string | undefined) {
+  return useQuery({
+    queryKey: enrollmentKeys.mine(userId ?? ""),
+    queryFn: () => fetchUserEnrollments(userId as string),
+    enabled: !!userId,
+  })
+}
+
+// Any enrollment change moves seat counts and may raise or void an invoice, so
+// cohort and invoice queries are refreshed too.
+function useInvalidateEnrollments() {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: enrollmentKeys.all })
+    queryClient.invalidateQueries({ queryKey: scheduleKeys.all })
+    queryClient.invalidateQueries({ queryKey: invoiceKeys.all })
+  }
+}
+
+export function useEnroll() {
+  const invalidate = useInvalidateEnrollments()
+  return useMutation({
+    mutationFn: (input: EnrollmentInput) => enrollInCohort(input),
+    onSuccess: invalidate,
+  })
+}
+
+export function useCancelEnrollment() {
+  const invalidate = useInvalidateEnrollments()
+  return useMutation({
+    mutationFn: (enrollmentId: string) => cancelEnrollment(enrollmentId),
+    onSuccess: invalidate,
+  })
+}
+
+export function useAcceptWaitlistOffer() {
+  const invalidate = useInvalidateEnrollments()
+  return useMutation({
+    mutationFn: (enrollmentId: string) => acceptWaitlistOffer(enrollmentId),
+    onSuccess: invalidate,
+  })
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query"
+import { fetchUserInvoices } from "@/lib/invoices"
+
+export const invoiceKeys = {
+  all: ["invoices"] as const,
+  mine: (userId: string) => ["invoices", "mine", userId] as const,
+}
+
+export function useUserInvoices(userId: string | undefined) {
+  return useQuery({
+    queryKey: invoiceKeys.mine(userId ?? ""),
+    queryFn: () => fetchUserInvoices(userId as string),
+    enabled: !!userId,
+  })
+}
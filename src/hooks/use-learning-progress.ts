@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { fetchEnrollmentProgress, setTopicCompletion, type TopicCompletionInput } from "@/lib/learningProgress"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useUserEnrollments } from "@/hooks/use-enrollment"
+import { useCohorts } from "@/hooks/use-schedule"
+
+export const LEARNING_STATUSES = ["pending", "confirmed", "completed"]
+
+export const learningProgressKeys = {
+  all: ["learning-progress"] as const,
+  enrollments: (enrollmentIds: string[]) => ["learning-progress", "enrollments", enrollmentIds] as const,
+}
+
+export function useEnrollmentProgress(enrollmentIds: string[]) {
+  return useQuery({
+    queryKey: learningProgressKeys.enrollments(enrollmentIds),
+    queryFn: () => fetchEnrollmentProgress(enrollmentIds),
+    enabled: enrollmentIds.length > 0,
+  })
+}
+
+export function useSetTopicCompletion() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (input: TopicCompletionInput) => setTopicCompletion(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: learningProgressKeys.all }),
+  })
+}
+
+// The signed-in trainee's seat in a program, which course material, progress
+// and quizzes hang off.
+export function useProgramEnrollment(programId: string | undefined) {
+  const { user } = useCurrentUser()
+  const { data: enrollments = [], isLoading } = useUserEnrollments(user?.id)
+  const learningEnrollments = enrollments.filter((enrollment) => LEARNING_STATUSES.includes(enrollment.status))
+  const cohortIds = learningEnrollments.map((enrollment) => enrollment.cohortId)
+  const { data: cohorts = [], isLoading: isCohortsLoading } = useCohorts({ cohortIds }, cohortIds.length > 0)
+
+  // Enrollments come back newest first, so a retake wins over an older seat.
+  const enrollment = learningEnrollments.find((item) =>
+    cohorts.some((cohort) => cohort.id === item.cohortId && cohort.programId === programId)
+  )
+  const cohort = cohorts.find((item) => item.id === enrollment?.cohortId)
+
+  return { enrollment, cohort, isLoading: isLoading || (cohortIds.length > 0 && isCohortsLoading) }
+}
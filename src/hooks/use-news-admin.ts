@@ -0,0 +1,72 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  approveNewsArticle,
+  archiveNewsArticle,
+  createNewsArticle,
+  fetchAdminNewsArticles,
+  rejectNewsArticle,
+  restoreNewsArticle,
+  submitNewsArticle,
+  updateNewsArticle,
+  type AdminNewsArticle,
+  type NewsArticleInput,
+} from "@/lib/newsAdmin";
+import { newsKeys } from "@/hooks/use-news";
+
+export const newsAdminKeys = {
+  articles: ["news-admin", "articles"] as const,
+};
+
+export function useAdminNewsArticles(enabled = true) {
+  return useQuery({
+    queryKey: newsAdminKeys.articles,
+    queryFn: fetchAdminNewsArticles,
+    enabled,
+  });
+}
+
+// Every editorial change can affect what the public pages show.
+function useInvalidateNews() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: newsAdminKeys.articles });
+    queryClient.invalidateQueries({ queryKey: newsKeys.all });
+  };
+}
+
+export function useSaveNewsArticle(authorId: string | undefined) {
+  const invalidate = useInvalidateNews();
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: number; input: NewsArticleInput }) =>
+      id ? updateNewsArticle(id, input) : createNewsArticle(input, authorId as string),
+    onSuccess: invalidate,
+  });
+}
+
+export type NewsWorkflowAction =
+  | { type: "submit"; article: AdminNewsArticle }
+  | { type: "approve"; article: AdminNewsArticle }
+  | { type: "reject"; article: AdminNewsArticle; note: string }
+  | { type: "archive"; article: AdminNewsArticle }
+  | { type: "restore"; article: AdminNewsArticle };
+
+export function useNewsWorkflow(reviewerId: string | undefined) {
+  const invalidate = useInvalidateNews();
+  return useMutation({
+    mutationFn: (action: NewsWorkflowAction) => {
+      switch (action.type) {
+        case "submit":
+          return submitNewsArticle(action.article.id);
+        case "approve":
+          return approveNewsArticle(action.article, reviewerId as string);
+        case "reject":
+          return rejectNewsArticle(action.article.id, reviewerId as string, action.note);
+        case "archive":
+          return archiveNewsArticle(action.article.id);
+        case "restore":
+          return restoreNewsArticle(action.article.id);
+      }
+    },
+    onSuccess: invalidate,
+  });
+}
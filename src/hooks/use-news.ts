@@ -0,0 +1,46 @@
+import { useCallback } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "@/hooks/use-translation";
+import { localizeContent } from "@/lib/i18n";
+import { fetchNewsArticle, fetchNewsList, type NewsListParams, type NewsListResult } from "@/lib/news";
+import type { NewsArticle } from "@/data/newsData";
+
+export const newsKeys = {
+  all: ["news"] as const,
+  list: (params: NewsListParams) => ["news", "list", params] as const,
+  detail: (id: number) => ["news", "detail", id] as const,
+};
+
+export function useNewsList(params: NewsListParams = {}, enabled = true) {
+  const { locale } = useTranslation();
+
+  return useQuery({
+    queryKey: newsKeys.list(params),
+    queryFn: () => fetchNewsList(params),
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+    select: useCallback(
+      (result: NewsListResult) => ({
+        ...result,
+        articles: result.articles.map((article) => localizeContent(article, locale)),
+      }),
+      [locale]
+    ),
+  });
+}
+
+export function useNewsArticle(id: number | undefined) {
+  const { locale } = useTranslation();
+
+  return useQuery({
+    queryKey: newsKeys.detail(id ?? 0),
+    queryFn: () => fetchNewsArticle(id as number),
+    enabled: id !== undefined && !Number.isNaN(id),
+    staleTime: 60 * 1000,
+    select: useCallback(
+      (article: NewsArticle | null) => (article ? localizeContent(article, locale) : null),
+      [locale]
+    ),
+  });
+}
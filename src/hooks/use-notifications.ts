@@ -0,0 +1,25 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { fetchNotifications, markNotificationsRead } from "@/lib/notifications"
+
+export const notificationKeys = {
+  all: ["notifications"] as const,
+  mine: (userId: string) => ["notifications", "mine", userId] as const,
+}
+
+export function useNotifications(userId: string | undefined) {
+  return useQuery({
+    queryKey: notificationKeys.mine(userId ?? ""),
+    queryFn: () => fetchNotifications(userId as string),
+    enabled: !!userId,
+    // Reminders are generated by a daily job, so an occasional poll is plenty.
+    refetchInterval: 5 * 60 * 1000,
+  })
+}
+
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (notificationIds: string[]) => markNotificationsRead(notificationIds),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: notificationKeys.all }),
+  })
+}
@@ -0,0 +1,84 @@
+import { useEffect, useSyncExternalStore } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { loadQueue, subscribeToQueue } from "@/lib/offline"
+import { fetchTrainingProgram, fetchTrainingPrograms } from "@/lib/trainingCatalog"
+import { fetchUserEnrollments } from "@/lib/enrollment"
+import { fetchCohorts } from "@/lib/schedule"
+import { fetchEnrollmentProgress } from "@/lib/learningProgress"
+import { fetchUserCertificates } from "@/lib/certificates"
+import { trainingProgramKeys } from "@/hooks/use-training-programs"
+import { enrollmentKeys } from "@/hooks/use-enrollment"
+import { scheduleKeys } from "@/hooks/use-schedule"
+import { LEARNING_STATUSES, learningProgressKeys } from "@/hooks/use-learning-progress"
+import { certificateKeys } from "@/hooks/use-certificates"
+
+const subscribeToConnection = (listener: () => void) => {
+  window.addEventListener("online", listener)
+  window.addEventListener("offline", listener)
+  return () => {
+    window.removeEventListener("online", listener)
+    window.removeEventListener("offline", listener)
+  }
+}
+
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribeToConnection, () => navigator.onLine)
+}
+
+export function useQueuedMutations(userId: string | undefined) {
+  const queue = useSyncExternalStore(subscribeToQueue, loadQueue)
+  return userId ? queue.filter((mutation) => mutation.userId === userId) : []
+}
+
+/**
+ * Fetches what a trainee needs on the ground (the catalog, the syllabus of each
+ * program they are enrolled in, their progress and their certificates) while
+ * there is a connection. The requests use the same queries the pages do, so
+ * the service worker has a copy of each response to serve offline.
+ */
+export function usePrecacheForOffline(userId: string | undefined) {
+  const queryClient = useQueryClient()
+  const isOnline = useOnlineStatus()
+
+  useEffect(() => {
+    if (!userId || !isOnline) return
+
+    const precache = async () => {
+      await queryClient.prefetchQuery({ queryKey: trainingProgramKeys.all, queryFn: fetchTrainingPrograms })
+      await queryClient.prefetchQuery({
+        queryKey: certificateKeys.mine(userId),
+        queryFn: () => fetchUserCertificates(userId),
+      })
+
+      const enrollments = await queryClient.fetchQuery({
+        queryKey: enrollmentKeys.mine(userId),
+        queryFn: () => fetchUserEnrollments(userId),
+      })
+      const learningEnrollments = enrollments.filter((enrollment) => LEARNING_STATUSES.includes(enrollment.status))
+      if (learningEnrollments.length === 0) return
+
+      const cohortIds = learningEnrollments.map((enrollment) => enrollment.cohortId)
+      const cohorts = await queryClient.fetchQuery({
+        queryKey: scheduleKeys.cohorts({ cohortIds }),
+        queryFn: () => fetchCohorts({ cohortIds }),
+      })
+
+      await Promise.all([
+        ...[...new Set(cohorts.map((cohort) => cohort.programSlug))].map((slug) =>
+          queryClient.prefetchQuery({
+            queryKey: trainingProgramKeys.detail(slug),
+            queryFn: () => fetchTrainingProgram(slug),
+          })
+        ),
+        ...learningEnrollments.map((enrollment) =>
+          queryClient.prefetchQuery({
+            queryKey: learningProgressKeys.enrollments([enrollment.id]),
+            queryFn: () => fetchEnrollmentProgress([enrollment.id]),
+          })
+        ),
+      ])
+    }
+
+    precache().catch((error) => console.error("Error preparing offline data:", error))
+  }, [userId, isOnline, queryClient])
+}
@@ -0,0 +1,92 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  deleteQuiz,
+  fetchProgramQuizzes,
+  fetchQuizAttempts,
+  fetchQuizQuestions,
+  saveQuiz,
+  startQuizAttempt,
+  submitQuizAttempt,
+  type QuizInput,
+  type QuizQuestionInput,
+  type QuizResponse,
+} from "@/lib/quizzes"
+import { certificateKeys } from "@/hooks/use-certificates"
+import { learningProgressKeys } from "@/hooks/use-learning-progress"
+
+export const quizKeys = {
+  all: ["quizzes"] as const,
+  program: (programId: string) => ["quizzes", "program", programId] as const,
+  questions: (quizId: string) => ["quizzes", "questions", quizId] as const,
+  attempts: (enrollmentIds: string[]) => ["quizzes", "attempts", enrollmentIds] as const,
+}
+
+export function useProgramQuizzes(programId: string | undefined) {
+  return useQuery({
+    queryKey: quizKeys.program(programId ?? ""),
+    queryFn: () => fetchProgramQuizzes(programId as string),
+    enabled: !!programId,
+  })
+}
+
+export function useQuizQuestions(quizId: string | undefined) {
+  return useQuery({
+    queryKey: quizKeys.questions(quizId ?? ""),
+    queryFn: () => fetchQuizQuestions(quizId as string),
+    enabled: !!quizId,
+  })
+}
+
+export function useQuizAttempts(enrollmentIds: string[]) {
+  return useQuery({
+    queryKey: quizKeys.attempts(enrollmentIds),
+    queryFn: () => fetchQuizAttempts(enrollmentIds),
+    enabled: enrollmentIds.length > 0,
+  })
+}
+
+export function useStartQuizAttempt() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ quizId, enrollmentId }: { quizId: string; enrollmentId: string }) =>
+      startQuizAttempt(quizId, enrollmentId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: quizKeys.all }),
+  })
+}
+
+export function useSubmitQuizAttempt() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ attemptId, responses }: { attemptId: string; responses: Record<string, QuizResponse> }) =>
+      submitQuizAttempt(attemptId, responses),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: quizKeys.all })
+      // A pass can complete a syllabus topic and clear a certification blocker.
+      queryClient.invalidateQueries({ queryKey: learningProgressKeys.all })
+      queryClient.invalidateQueries({ queryKey: certificateKeys.all })
+    },
+  })
+}
+
+export function useSaveQuiz() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, input, questions }: { id?: string; input: QuizInput; questions: QuizQuestionInput[] }) =>
+      saveQuiz(id, input, questions),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: quizKeys.all })
+      queryClient.invalidateQueries({ queryKey: certificateKeys.all })
+    },
+  })
+}
+
+export function useDeleteQuiz() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => deleteQuiz(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: quizKeys.all })
+      queryClient.invalidateQueries({ queryKey: certificateKeys.all })
+    },
+  })
+}
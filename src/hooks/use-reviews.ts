@@ -0,0 +1,109 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  fetchPublishedReviews,
+  fetchReviewStats,
+  fetchReviewsForModeration,
+  fetchUserReviews,
+  moderateReview,
+  submitReview,
+  type ReviewInput,
+  type ReviewStatus,
+} from "@/lib/reviews"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useUserEnrollments } from "@/hooks/use-enrollment"
+import { useCohorts } from "@/hooks/use-schedule"
+import { trainingProgramKeys } from "@/hooks/use-training-programs"
+
+export const reviewKeys = {
+  all: ["reviews"] as const,
+  published: (programId: string) => ["reviews", "published", programId] as const,
+  stats: (programId: string) => ["reviews", "stats", programId] as const,
+  mine: (userId: string) => ["reviews", "mine", userId] as const,
+  moderation: (programId: string, status: ReviewStatus) => ["reviews", "moderation", programId, status] as const,
+}
+
+export function usePublishedReviews(programId: string | undefined) {
+  return useQuery({
+    queryKey: reviewKeys.published(programId ?? ""),
+    queryFn: () => fetchPublishedReviews(programId as string),
+    enabled: !!programId,
+  })
+}
+
+export function useReviewStats(programId: string | undefined) {
+  return useQuery({
+    queryKey: reviewKeys.stats(programId ?? ""),
+    queryFn: () => fetchReviewStats(programId as string),
+    enabled: !!programId,
+  })
+}
+
+export function useReviewsForModeration(programId: string | undefined, status: ReviewStatus) {
+  return useQuery({
+    queryKey: reviewKeys.moderation(programId ?? "", status),
+    queryFn: () => fetchReviewsForModeration(programId as string, status),
+    enabled: !!programId,
+  })
+}
+
+// The signed-in trainee's completed seat in a program, which is what entitles
+// them to review it, and the review they already wrote for it, if any.
+export function useReviewEligibility(programId: string | undefined) {
+  const { user } = useCurrentUser()
+  const { data: enrollments = [], isLoading } = useUserEnrollments(user?.id)
+  const completed = enrollments.filter((enrollment) => enrollment.status === "completed")
+  const cohortIds = completed.map((enrollment) => enrollment.cohortId)
+  const { data: cohorts = [], isLoading: isCohortsLoading } = useCohorts({ cohortIds }, cohortIds.length > 0)
+  const { data: reviews = [], isLoading: isReviewsLoading } = useQuery({
+    queryKey: reviewKeys.mine(user?.id ?? ""),
+    queryFn: () => fetchUserReviews(user?.id as string),
+    enabled: !!user,
+  })
+
+  const enrollment = completed.find((item) =>
+    cohorts.some((cohort) => cohort.id === item.cohortId && cohort.programId === programId)
+  )
+  const review = reviews.find((item) => item.programId === programId)
+
+  return {
+    enrollment,
+    review,
+    isLoading: isLoading || isReviewsLoading || (cohortIds.length > 0 && isCohortsLoading),
+  }
+}
+
+// Publishing or rejecting a review moves the program's rating, so the catalog
+// is refreshed along with the review lists.
+function useInvalidateReviews() {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: reviewKeys.all })
+    queryClient.invalidateQueries({ queryKey: trainingProgramKeys.all })
+  }
+}
+
+export function useSubmitReview() {
+  const invalidate = useInvalidateReviews()
+  return useMutation({
+    mutationFn: (input: ReviewInput) => submitReview(input),
+    onSuccess: invalidate,
+  })
+}
+
+export function useModerateReview() {
+  const invalidate = useInvalidateReviews()
+  return useMutation({
+    mutationFn: ({
+      id,
+      status,
+      moderationNote,
+      moderatedBy,
+    }: {
+      id: string
+      status: Exclude<ReviewStatus, "pending">
+      moderationNote: string | null
+      moderatedBy: string
+    }) => moderateReview(id, status, moderationNote, moderatedBy),
+    onSuccess: invalidate,
+  })
+}
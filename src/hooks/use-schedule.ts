@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query"
+import { fetchCohort, fetchCohortSessions, fetchCohorts, fetchTrainingSession, type ScheduleFilters } from "@/lib/schedule"
+
+export const scheduleKeys = {
+  all: ["schedule"] as const,
+  cohorts: (filters: ScheduleFilters) => ["schedule", "cohorts", filters] as const,
+  cohort: (cohortId: string) => ["schedule", "cohort", cohortId] as const,
+  sessions: (cohortIds: string[]) => ["schedule", "sessions", cohortIds] as const,
+  session: (sessionId: string) => ["schedule", "session", sessionId] as const,
+}
+
+export function useCohorts(filters: ScheduleFilters = {}, enabled = true) {
+  return useQuery({
+    queryKey: scheduleKeys.cohorts(filters),
+    queryFn: () => fetchCohorts(filters),
+    enabled,
+  })
+}
+
+export function useCohort(cohortId: string | undefined) {
+  return useQuery({
+    queryKey: scheduleKeys.cohort(cohortId ?? ""),
+    queryFn: () => fetchCohort(cohortId as string),
+    enabled: !!cohortId,
+  })
+}
+
+export function useCohortSessions(cohortIds: string[]) {
+  return useQuery({
+    queryKey: scheduleKeys.sessions(cohortIds),
+    queryFn: () => fetchCohortSessions(cohortIds),
+    enabled: cohortIds.length > 0,
+  })
+}
+
+export function useTrainingSession(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: scheduleKeys.session(sessionId ?? ""),
+    queryFn: () => fetchTrainingSession(sessionId as string),
+    enabled: !!sessionId,
+  })
+}
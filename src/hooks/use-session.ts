@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { type Session } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+
+export function useSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setIsLoading(false);
+    });
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+      setIsLoading(false);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return { session, isLoading };
+}
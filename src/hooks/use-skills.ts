@@ -0,0 +1,75 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  deleteSkillSheet,
+  fetchProgramSkillSheets,
+  fetchSkillEvaluations,
+  saveSkillSheet,
+  type SkillEvaluationInput,
+  type SkillSheetInput,
+} from "@/lib/skills"
+import { sendOrQueue } from "@/lib/offline"
+import { certificateKeys } from "@/hooks/use-certificates"
+
+export const skillKeys = {
+  all: ["skills"] as const,
+  sheets: (programId: string) => ["skills", "sheets", programId] as const,
+  evaluations: (enrollmentIds: string[]) => ["skills", "evaluations", enrollmentIds] as const,
+}
+
+export function useProgramSkillSheets(programId: string | undefined) {
+  return useQuery({
+    queryKey: skillKeys.sheets(programId ?? ""),
+    queryFn: () => fetchProgramSkillSheets(programId as string),
+    enabled: !!programId,
+  })
+}
+
+export function useSkillEvaluations(enrollmentIds: string[]) {
+  return useQuery({
+    queryKey: skillKeys.evaluations(enrollmentIds),
+    queryFn: () => fetchSkillEvaluations(enrollmentIds),
+    enabled: enrollmentIds.length > 0,
+  })
+}
+
+// Skill results decide certificate eligibility, so blockers are refreshed too.
+function useInvalidateSkills() {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: skillKeys.all })
+    queryClient.invalidateQueries({ queryKey: certificateKeys.all })
+  }
+}
+
+// Sign-offs made offline are queued; the server scores them once they sync.
+// They are stamped here so a queued or retried sign-off keeps its time and id.
+export function useRecordSkillEvaluation() {
+  const invalidate = useInvalidateSkills()
+  return useMutation({
+    mutationFn: (input: SkillEvaluationInput) =>
+      sendOrQueue("skill-evaluation", {
+        ...input,
+        evaluatedAt: input.evaluatedAt ?? new Date().toISOString(),
+        clientId: input.clientId ?? crypto.randomUUID(),
+      }),
+    onSuccess: ({ queued }) => {
+      if (!queued) invalidate()
+    },
+  })
+}
+
+export function useSaveSkillSheet() {
+  const invalidate = useInvalidateSkills()
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: string; input: SkillSheetInput }) => saveSkillSheet(id, input),
+    onSuccess: invalidate,
+  })
+}
+
+export function useDeleteSkillSheet() {
+  const invalidate = useInvalidateSkills()
+  return useMutation({
+    mutationFn: (id: string) => deleteSkillSheet(id),
+    onSuccess: invalidate,
+  })
+}
@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { addTraineeNote, deleteTraineeNote, fetchTraineeNotes, type TraineeNoteInput } from "@/lib/traineeNotes"
+
+export const traineeNoteKeys = {
+  all: ["trainee-notes"] as const,
+  enrollments: (enrollmentIds: string[]) => ["trainee-notes", enrollmentIds] as const,
+}
+
+export function useTraineeNotes(enrollmentIds: string[]) {
+  return useQuery({
+    queryKey: traineeNoteKeys.enrollments(enrollmentIds),
+    queryFn: () => fetchTraineeNotes(enrollmentIds),
+    enabled: enrollmentIds.length > 0,
+  })
+}
+
+export function useAddTraineeNote() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (input: TraineeNoteInput) => addTraineeNote(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: traineeNoteKeys.all }),
+  })
+}
+
+export function useDeleteTraineeNote() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: string) => deleteTraineeNote(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: traineeNoteKeys.all }),
+  })
+}
@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  createTrainingProgram,
+  fetchAdminTrainingPrograms,
+  updateTrainingProgram,
+  type TrainingProgramInput,
+} from "@/lib/trainingAdmin"
+import { trainingProgramKeys } from "@/hooks/use-training-programs"
+
+export const trainingAdminKeys = {
+  programs: ["training-admin", "programs"] as const,
+}
+
+export function useAdminTrainingPrograms() {
+  return useQuery({
+    queryKey: trainingAdminKeys.programs,
+    queryFn: fetchAdminTrainingPrograms,
+  })
+}
+
+export function useSaveTrainingProgram() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: string; input: TrainingProgramInput }) =>
+      id ? updateTrainingProgram(id, input) : createTrainingProgram(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trainingAdminKeys.programs })
+      // Detail keys share the catalog prefix, so this refreshes every public page.
+      queryClient.invalidateQueries({ queryKey: trainingProgramKeys.all })
+    },
+  })
+}
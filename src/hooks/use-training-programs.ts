@@ -0,0 +1,42 @@
+import { useCallback } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { useTranslation } from "@/hooks/use-translation"
+import { localizeContent } from "@/lib/i18n"
+import { fetchTrainingProgram, fetchTrainingPrograms, resolveTrainingSlug } from "@/lib/trainingCatalog"
+import type { TrainingProgram } from "@/data/trainingData"
+
+export const trainingProgramKeys = {
+  all: ["training-programs"] as const,
+  detail: (slug: string) => ["training-programs", "detail", slug] as const,
+}
+
+// The cache holds the stored programs; each reader sees them in its own language.
+export function useTrainingPrograms() {
+  const { locale } = useTranslation()
+
+  return useQuery({
+    queryKey: trainingProgramKeys.all,
+    queryFn: fetchTrainingPrograms,
+    staleTime: 5 * 60 * 1000,
+    select: useCallback(
+      (programs: TrainingProgram[]) => programs.map((program) => localizeContent(program, locale)),
+      [locale]
+    ),
+  })
+}
+
+export function useTrainingProgram(slug: string | undefined) {
+  const { locale } = useTranslation()
+  const resolvedSlug = slug ? resolveTrainingSlug(slug) : ""
+
+  return useQuery({
+    queryKey: trainingProgramKeys.detail(resolvedSlug),
+    queryFn: () => fetchTrainingProgram(resolvedSlug),
+    enabled: !!slug,
+    staleTime: 5 * 60 * 1000,
+    select: useCallback(
+      (program: TrainingProgram | null) => (program ? localizeContent(program, locale) : null),
+      [locale]
+    ),
+  })
+}
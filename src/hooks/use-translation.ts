@@ -0,0 +1,6 @@
+import { useContext } from "react"
+import { I18nContext } from "@/lib/i18n"
+
+export function useTranslation() {
+  return useContext(I18nContext)
+}
@@ -0,0 +1,112 @@
+import { supabase } from "@/lib/supabaseClient"
+import { toTrainingSession, type TrainingSession, type TrainingSessionRow } from "@/lib/schedule"
+
+export type AttendanceStatus = "present" | "late" | "absent" | "excused"
+
+export const attendanceStatusLabels: Record<AttendanceStatus, string> = {
+  present: "Present",
+  late: "Late",
+  absent: "Absent",
+  excused: "Excused",
+}
+
+export const attendanceStatusStyles: Record<AttendanceStatus, string> = {
+  present: "bg-green-600 hover:bg-green-700 text-white",
+  late: "bg-amber-500 hover:bg-amber-600 text-white",
+  absent: "bg-red-600 hover:bg-red-700 text-white",
+  excused: "bg-gray-600 hover:bg-gray-700 text-white",
+}
+
+export interface AttendanceRecord {
+  id: string
+  sessionId: string
+  enrollmentId: string
+  userId: string
+  status: AttendanceStatus
+  recordedAt: string
+}
+
+export type AttendanceRecordRow = {
+  id: string
+  session_id: string
+  enrollment_id: string
+  user_id: string
+  status: AttendanceStatus
+  recorded_at: string
+}
+
+// Mirrors `enrollment_attendance`: late counts as attended, excused sessions
+// are left out and unrecorded past sessions count as missed.
+export interface EnrollmentAttendance {
+  enrollmentId: string
+  attended: number
+  counted: number
+  percent: number
+}
+
+export const toAttendanceRecord = (row: AttendanceRecordRow): AttendanceRecord => ({
+  id: row.id,
+  sessionId: row.session_id,
+  enrollmentId: row.enrollment_id,
+  userId: row.user_id,
+  status: row.status,
+  recordedAt: row.recorded_at,
+})
+
+// Sessions the signed-in instructor is assigned to, or those of `instructor`
+// when a coordinator is looking on their behalf.
+export const fetchInstructorSessions = async (instructor?: string): Promise<TrainingSession[]> => {
+  const { data, error } = await supabase.rpc("instructor_sessions", { p_instructor: instructor ?? null })
+
+  if (error) throw error
+  return (data as TrainingSessionRow[]).map(toTrainingSession)
+}
+
+export const fetchSessionAttendance = async (sessionId: string): Promise<AttendanceRecord[]> => {
+  const { data, error } = await supabase.from("session_attendance").select("*").eq("session_id", sessionId)
+
+  if (error) throw error
+  return (data as AttendanceRecordRow[]).map(toAttendanceRecord)
+}
+
+export const fetchEnrollmentAttendance = async (enrollmentIds: string[]): Promise<EnrollmentAttendance[]> => {
+  if (enrollmentIds.length === 0) return []
+
+  const { data, error } = await supabase.rpc("enrollment_attendance", { p_enrollment_ids: enrollmentIds })
+
+  if (error) throw error
+  return (data as { enrollment_id: string; attended: number; counted: number; percent: number }[]).map((row) => ({
+    enrollmentId: row.enrollment_id,
+    attended: row.attended,
+    counted: row.counted,
+    percent: row.percent,
+  }))
+}
+
+export type AttendanceInput = {
+  sessionId: string
+  enrollmentId: string
+  userId: string
+  status: AttendanceStatus
+  /** When the instructor marked it; queued marks keep this rather than the sync time. */
+  recordedAt?: string
+}
+
+// Taking the register again for a session corrects the earlier record, unless
+// the earlier record is the newer one (see keep_latest_attendance).
+export const recordAttendance = async (records: AttendanceInput[]) => {
+  if (records.length === 0) return
+
+  const { error } = await supabase.from("session_attendance").upsert(
+    records.map((record) => ({
+      session_id: record.sessionId,
+      enrollment_id: record.enrollmentId,
+      user_id: record.userId,
+      status: record.status,
+      recorded_at: record.recordedAt ?? new Date().toISOString(),
+    })),
+    { onConflict: "session_id,enrollment_id" }
+  )
+
+  if (error) throw error
+}
@@ -0,0 +1,125 @@
+import { supabase } from "@/lib/supabaseClient"
+
+export type CatalogSort = "featured" | "rating" | "price-low" | "price-high" | "duration"
+
+const catalogSorts: CatalogSort[] = ["featured", "rating", "price-low", "price-high", "duration"]
+
+export const MAX_CATALOG_PRICE = 10000
+
+export interface CatalogFilters {
+  search: string
+  category: string
+  level: string
+  certification: string
+  priceRange: [number, number]
+  featuredOnly: boolean
+  sortBy: CatalogSort
+  page: number
+  compare: string[]
+}
+
+export const defaultCatalogFilters: CatalogFilters = {
+  search: "",
+  category: "All",
+  level: "All",
+  certification: "All",
+  priceRange: [0, MAX_CATALOG_PRICE],
+  featuredOnly: false,
+  sortBy: "featured",
+  page: 1,
+  compare: [],
+}
+
+const toNumber = (value: string | null, fallback: number) => {
+  const number = Number(value)
+  return value !== null && Number.isFinite(number) ? number : fallback
+}
+
+// Unknown or malformed parameters fall back to the defaults, so a hand-edited
+// or stale link still opens the catalog.
+export const parseCatalogFilters = (params: URLSearchParams): CatalogFilters => {
+  const sort = params.get("sort") as CatalogSort
+  const minPrice = Math.max(toNumber(params.get("minPrice"), 0), 0)
+  const maxPrice = Math.min(toNumber(params.get("maxPrice"), MAX_CATALOG_PRICE), MAX_CATALOG_PRICE)
+
+  return {
+    search: params.get("q") ?? "",
+    category: params.get("category") ?? "All",
+    level: params.get("level") ?? "All",
+    certification: params.get("cert") ?? "All",
+    priceRange: [Math.min(minPrice, maxPrice), maxPrice],
+    featuredOnly: params.get("featured") === "1",
+    sortBy: catalogSorts.includes(sort) ? sort : "featured",
+    page: Math.max(Math.floor(toNumber(params.get("page"), 1)), 1),
+    compare: (params.get("compare") ?? "").split(",").filter(Boolean),
+  }
+}
+
+// Only values that differ from the defaults are written, which keeps shared
+// links short.
+export const toCatalogSearchParams = (filters: CatalogFilters) => {
+  const params = new URLSearchParams()
+  if (filters.search) params.set("q", filters.search)
+  if (filters.category !== "All") params.set("category", filters.category)
+  if (filters.level !== "All") params.set("level", filters.level)
+  if (filters.certification !== "All") params.set("cert", filters.certification)
+  if (filters.priceRange[0] > 0) params.set("minPrice", String(filters.priceRange[0]))
+  if (filters.priceRange[1] < MAX_CATALOG_PRICE) params.set("maxPrice", String(filters.priceRange[1]))
+  if (filters.featuredOnly) params.set("featured", "1")
+  if (filters.sortBy !== "featured") params.set("sort", filters.sortBy)
+  if (filters.page > 1) params.set("page", String(filters.page))
+  if (filters.compare.length > 0) params.set("compare", filters.compare.join(","))
+  return params
+}
+
+export interface CatalogFilterPreset {
+  id: string
+  name: string
+  /** Catalog query string without the page number or comparison list. */
+  query: string
+  createdAt: string
+}
+
+type CatalogFilterPresetRow = {
+  id: string
+  name: string
+  query: string
+  created_at: string
+}
+
+const toCatalogFilterPreset = (row: CatalogFilterPresetRow): CatalogFilterPreset => ({
+  id: row.id,
+  name: row.name,
+  query: row.query,
+  createdAt: row.created_at,
+})
+
+// Presets capture what to look for, not where the user happened to be.
+export const toPresetQuery = (filters: CatalogFilters) =>
+  toCatalogSearchParams({ ...filters, page: 1, compare: [] }).toString()
+
+export const fetchCatalogFilterPresets = async (userId: string): Promise<CatalogFilterPreset[]> => {
+  const { data, error } = await supabase
+    .from("catalog_filter_presets")
+    .select("id, name, query, created_at")
+    .eq("user_id", userId)
+    .order("name", { ascending: true })
+
+  if (error) throw error
+  return (data as CatalogFilterPresetRow[]).map(toCatalogFilterPreset)
+}
+
+// Saving under an existing name overwrites that preset.
+export const saveCatalogFilterPreset = async (userId: string, name: string, query: string) => {
+  const { error } = await supabase
+    .from("catalog_filter_presets")
+    .upsert({ user_id: userId, name, query }, { onConflict: "user_id,name" })
+
+  if (error) throw error
+}
+
+export const deleteCatalogFilterPreset = async (id: string) => {
+  const { error } = await supabase.from("catalog_filter_presets").delete().eq("id", id)
+
+  if (error) throw error
+}
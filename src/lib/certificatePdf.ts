@@ -0,0 +1,103 @@
+import { format } from "date-fns"
+import { formatVerificationCode, getVerificationUrl, type CertificateVerification } from "@/lib/certificates"
+
+type CertificatePdfOptions = {
+  /** Watermarks the PDF, for the example certificates on program pages. */
+  sample?: boolean
+}
+
+const RED: [number, number, number] = [220, 38, 38]
+const GRAY: [number, number, number] = [75, 85, 99]
+
+// jsPDF and qrcode are only loaded when someone actually downloads a certificate.
+export const createCertificatePdf = async (certificate: CertificateVerification, { sample = false }: CertificatePdfOptions = {}) => {
+  const [{ jsPDF }, QRCode] = await Promise.all([import("jspdf"), import("qrcode")])
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" })
+  const width = doc.internal.pageSize.getWidth()
+  const height = doc.internal.pageSize.getHeight()
+  const center = width / 2
+
+  doc.setDrawColor(...RED)
+  doc.setLineWidth(1.5)
+  doc.rect(8, 8, width - 16, height - 16)
+  doc.setLineWidth(0.4)
+  doc.rect(12, 12, width - 24, height - 24)
+
+  if (sample) {
+    doc.setTextColor(235, 235, 235)
+    doc.setFont("helvetica", "bold")
+    doc.setFontSize(110)
+    doc.text("SAMPLE", center, height / 2 + 30, { align: "center", angle: 20 })
+  }
+
+  doc.setTextColor(...RED)
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(30)
+  doc.text("CERTIFICATE OF COMPLETION", center, 40, { align: "center" })
+
+  doc.setTextColor(...GRAY)
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(13)
+  doc.text("This certifies that", center, 58, { align: "center" })
+
+  doc.setTextColor(17, 24, 39)
+  doc.setFont("times", "bolditalic")
+  doc.setFontSize(34)
+  doc.text(certificate.traineeName, center, 76, { align: "center" })
+
+  doc.setTextColor(...GRAY)
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(13)
+  doc.text("has successfully completed", center, 92, { align: "center" })
+
+  doc.setTextColor(17, 24, 39)
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(20)
+  doc.text(certificate.programTitle, center, 106, { align: "center" })
+
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(12)
+  doc.text(`${certificate.certificationName} · ${certificate.issuer}`, center, 116, { align: "center" })
+
+  // Dates, bottom left.
+  const footerY = height - 48
+  doc.setFontSize(10)
+  doc.setTextColor(...GRAY)
+  doc.text("Issued", 30, footerY)
+  doc.text("Valid until", 30, footerY + 14)
+  doc.setTextColor(17, 24, 39)
+  doc.setFont("helvetica", "bold")
+  doc.text(format(new Date(certificate.issuedOn), "LLL dd, y"), 30, footerY + 6)
+  doc.text(certificate.expiresOn ? format(new Date(certificate.expiresOn), "LLL dd, y") : "No expiry", 30, footerY + 20)
+
+  // Instructor signature, bottom center.
+  doc.setFont("times", "italic")
+  doc.setFontSize(22)
+  doc.text(certificate.instructorName, center, footerY + 8, { align: "center" })
+  doc.setDrawColor(...GRAY)
+  doc.setLineWidth(0.3)
+  doc.line(center - 40, footerY + 11, center + 40, footerY + 11)
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(10)
+  doc.setTextColor(...GRAY)
+  doc.text("Lead Instructor", center, footerY + 17, { align: "center" })
+
+  // Verification QR, bottom right.
+  const verificationUrl = getVerificationUrl(certificate.verificationCode)
+  const qrSize = 32
+  const qrX = width - 30 - qrSize
+  const qrDataUrl = await QRCode.toDataURL(verificationUrl, { margin: 0, width: 256 })
+  doc.addImage(qrDataUrl, "PNG", qrX, footerY - 8, qrSize, qrSize)
+  doc.setFontSize(9)
+  doc.text(formatVerificationCode(certificate.verificationCode), qrX + qrSize / 2, footerY + 29, { align: "center" })
+  doc.setFontSize(7)
+  doc.text(verificationUrl, qrX + qrSize / 2, footerY + 33, { align: "center" })
+
+  return doc
+}
+
+export const downloadCertificatePdf = async (certificate: CertificateVerification, options?: CertificatePdfOptions) => {
+  const doc = await createCertificatePdf(certificate, options)
+  const fileName = `${certificate.certificationName}-${certificate.traineeName}`.replace(/[^a-zA-Z0-9]+/g, "-")
+  doc.save(`${fileName}.pdf`)
+}
@@ -0,0 +1,235 @@
+import { differenceInCalendarDays } from "date-fns"
+import { supabase } from "@/lib/supabaseClient"
+import type { CertificateDetail, TrainingProgram } from "@/data/trainingData"
+import type { MessageKey } from "@/locales/en"
+
+export type CertificateStatus = "valid" | "revoked"
+export type CertificateValidity = "valid" | "expired" | "revoked"
+export type CertificateExpiryState = "expiring_30" | "expiring_60" | "expiring_90"
+
+export interface Certificate {
+  id: string
+  verificationCode: string
+  enrollmentId: string | null
+  userId: string
+  programId: string
+  certificationName: string
+  issuer: string
+  traineeName: string
+  programTitle: string
+  instructorName: string
+  issuedOn: string
+  expiresOn: string | null
+  status: CertificateStatus
+  revokedReason: string | null
+}
+
+export type CertificateRow = {
+  id: string
+  verification_code: string
+  enrollment_id: string | null
+  user_id: string
+  program_id: string
+  certification_name: string
+  issuer: string
+  trainee_name: string
+  program_title: string
+  instructor_name: string
+  issued_on: string
+  expires_on: string | null
+  status: CertificateStatus
+  revoked_reason: string | null
+}
+
+// What `/verify/:code` is allowed to see.
+export type CertificateVerification = Pick<
+  Certificate,
+  | "verificationCode"
+  | "certificationName"
+  | "issuer"
+  | "traineeName"
+  | "programTitle"
+  | "instructorName"
+  | "issuedOn"
+  | "expiresOn"
+  | "status"
+>
+
+export const toCertificate = (row: CertificateRow): Certificate => ({
+  id: row.id,
+  verificationCode: row.verification_code,
+  enrollmentId: row.enrollment_id,
+  userId: row.user_id,
+  programId: row.program_id,
+  certificationName: row.certification_name,
+  issuer: row.issuer,
+  traineeName: row.trainee_name,
+  programTitle: row.program_title,
+  instructorName: row.instructor_name,
+  issuedOn: row.issued_on,
+  expiresOn: row.expires_on,
+  status: row.status,
+  revokedReason: row.revoked_reason,
+})
+
+export const certificateValidityLabels: Record<CertificateValidity, MessageKey> = {
+  valid: "certificates.validity.valid",
+  expired: "certificates.validity.expired",
+  revoked: "certificates.validity.revoked",
+}
+
+export const certificateValidityStyles: Record<CertificateValidity, string> = {
+  valid: "bg-green-100 text-green-800",
+  expired: "bg-amber-100 text-amber-800",
+  revoked: "bg-red-100 text-red-800",
+}
+
+export const getCertificateValidity = (certificate: Pick<Certificate, "status" | "expiresOn">): CertificateValidity => {
+  if (certificate.status === "revoked") return "revoked"
+  if (certificate.expiresOn && new Date(certificate.expiresOn) < new Date()) return "expired"
+  return "valid"
+}
+
+export const certificateExpiryLabels: Record<CertificateExpiryState, MessageKey> = {
+  expiring_30: "certificates.expiry.expiring_30",
+  expiring_60: "certificates.expiry.expiring_60",
+  expiring_90: "certificates.expiry.expiring_90",
+}
+
+export const certificateExpiryStyles: Record<CertificateExpiryState, string> = {
+  expiring_30: "bg-red-50 text-red-700 border-red-200",
+  expiring_60: "bg-orange-50 text-orange-700 border-orange-200",
+  expiring_90: "bg-yellow-50 text-yellow-800 border-yellow-200",
+}
+
+export const getDaysUntilExpiry = (certificate: Pick<Certificate, "expiresOn">) =>
+  certificate.expiresOn ? differenceInCalendarDays(new Date(certificate.expiresOn), new Date()) : null
+
+// Mirrors the reminder thresholds in `generate_certificate_reminders()`.
+export const getCertificateExpiryState = (
+  certificate: Pick<Certificate, "status" | "expiresOn">
+): CertificateExpiryState | null => {
+  const daysLeft = getDaysUntilExpiry(certificate)
+  if (certificate.status === "revoked" || daysLeft === null || daysLeft < 0) return null
+  if (daysLeft <= 30) return "expiring_30"
+  if (daysLeft <= 60) return "expiring_60"
+  if (daysLeft <= 90) return "expiring_90"
+  return null
+}
+
+export const getCertificationRule = (
+  certificate: Pick<Certificate, "programId" | "certificationName">,
+  programs: TrainingProgram[]
+): CertificateDetail | undefined =>
+  programs
+    .find((program) => program.id === certificate.programId)
+    ?.certifications_details.find((detail) => detail.name === certificate.certificationName)
+
+// The catalog course that renews a certificate: the rule's refresher, or the
+// program that issued it when no dedicated refresher exists.
+export const getRefresherProgram = (
+  certificate: Pick<Certificate, "programId" | "certificationName">,
+  programs: TrainingProgram[]
+): TrainingProgram | null => {
+  const refresherSlug = getCertificationRule(certificate, programs)?.refresherSlug
+  return (
+    programs.find((program) => program.slug === refresherSlug) ??
+    programs.find((program) => program.id === certificate.programId) ??
+    null
+  )
+}
+
+// A certificate is renewed once the holder earns a later one from its refresher course.
+export const isCertificateRenewed = (
+  certificate: Certificate,
+  certificates: Certificate[],
+  programs: TrainingProgram[]
+) => {
+  const refresher = getRefresherProgram(certificate, programs)
+  return certificates.some(
+    (other) =>
+      other.programId === refresher?.id &&
+      other.status === "valid" &&
+      other.issuedOn > certificate.issuedOn
+  )
+}
+
+// Codes are stored as 12 plain characters and shown in groups of four.
+export const formatVerificationCode = (code: string) => code.match(/.{1,4}/g)?.join("-") ?? code
+
+export const getVerificationUrl = (code: string) =>
+  `${window.location.origin}/verify/${formatVerificationCode(code)}`
+
+export const fetchUserCertificates = async (userId: string): Promise<Certificate[]> => {
+  const { data, error } = await supabase
+    .from("certificates")
+    .select("*")
+    .eq("user_id", userId)
+    .order("issued_on", { ascending: false })
+
+  if (error) throw error
+  return (data as CertificateRow[]).map(toCertificate)
+}
+
+export const fetchEnrollmentCertificates = async (enrollmentIds: string[]): Promise<Certificate[]> => {
+  if (enrollmentIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from("certificates")
+    .select("*")
+    .in("enrollment_id", enrollmentIds)
+    .order("created_at", { ascending: true })
+
+  if (error) throw error
+  return (data as CertificateRow[]).map(toCertificate)
+}
+
+export const verifyCertificate = async (code: string): Promise<CertificateVerification | null> => {
+  const { data, error } = await supabase.rpc("verify_certificate", { p_code: code })
+
+  if (error) throw error
+  const [row] = (data ?? []) as CertificateRow[]
+  return row
+    ? {
+        verificationCode: row.verification_code,
+        certificationName: row.certification_name,
+        issuer: row.issuer,
+        traineeName: row.trainee_name,
+        programTitle: row.program_title,
+        instructorName: row.instructor_name,
+        issuedOn: row.issued_on,
+        expiresOn: row.expires_on,
+        status: row.status,
+      }
+    : null
+}
+
+// Requirements each enrollment still has to meet before it can be certified,
+// keyed by enrollment id. Enrollments with nothing outstanding are absent.
+export const fetchCertificateBlockers = async (enrollmentIds: string[]): Promise<Record<string, string[]>> => {
+  if (enrollmentIds.length === 0) return {}
+
+  const { data, error } = await supabase.rpc("certificate_blockers", { p_enrollment_ids: enrollmentIds })
+
+  if (error) throw error
+  return ((data ?? []) as { enrollment_id: string; blocker: string }[]).reduce<Record<string, string[]>>(
+    (grouped, row) => ({ ...grouped, [row.enrollment_id]: [...(grouped[row.enrollment_id] ?? []), row.blocker] }),
+    {}
+  )
+}
+
+export const issueCertificates = async (enrollmentId: string): Promise<Certificate[]> => {
+  const { data, error } = await supabase.rpc("issue_certificates", { p_enrollment_id: enrollmentId })
+
+  if (error) throw error
+  return ((data ?? []) as CertificateRow[]).map(toCertificate)
+}
+
+export const revokeCertificate = async (certificateId: string, reason: string) => {
+  const { error } = await supabase
+    .from("certificates")
+    .update({ status: "revoked", revoked_reason: reason })
+    .eq("id", certificateId)
+
+  if (error) throw error
+}
@@ -0,0 +1,91 @@
+import { supabase } from "@/lib/supabaseClient"
+
+export type CheckInFlag = "duplicate" | "out_of_window"
+
+export type CheckInResolution = "accepted" | "dismissed"
+
+export const checkInFlagLabels: Record<CheckInFlag, string> = {
+  duplicate: "Duplicate scan",
+  out_of_window: "Outside check-in window",
+}
+
+// The instructor's display fetches a fresh code this often.
+export const CHECK_IN_ROTATION_MS = 30 * 1000
+
+export interface CheckIn {
+  id: string
+  sessionId: string
+  enrollmentId: string
+  userId: string
+  scannedAt: string
+  /** Attendance the scan recorded; null when it was flagged instead. */
+  attendanceStatus: "present" | "late" | null
+  flag: CheckInFlag | null
+  resolution: CheckInResolution | null
+}
+
+export type CheckInRow = {
+  id: string
+  session_id: string
+  enrollment_id: string
+  user_id: string
+  scanned_at: string
+  attendance_status: "present" | "late" | null
+  flag: CheckInFlag | null
+  resolution: CheckInResolution | null
+}
+
+export interface CheckInCode {
+  code: string
+  expiresAt: string
+}
+
+export const toCheckIn = (row: CheckInRow): CheckIn => ({
+  id: row.id,
+  sessionId: row.session_id,
+  enrollmentId: row.enrollment_id,
+  userId: row.user_id,
+  scannedAt: row.scanned_at,
+  attendanceStatus: row.attendance_status,
+  flag: row.flag,
+  resolution: row.resolution,
+})
+
+export const getCheckInUrl = (code: string) => `${window.location.origin}/check-in/${code}`
+
+export const issueCheckInCode = async (sessionId: string): Promise<CheckInCode> => {
+  const { data, error } = await supabase.rpc("issue_check_in_code", { p_session_id: sessionId })
+
+  if (error) throw error
+  const row = data as { code: string; expires_at: string }
+  return { code: row.code, expiresAt: row.expires_at }
+}
+
+// Expired, unknown and off-roster scans are rejected by the database with a
+// message meant for the trainee.
+export const checkInToSession = async (code: string): Promise<CheckIn> => {
+  const { data, error } = await supabase.rpc("check_in_to_session", { p_code: code })
+
+  if (error) throw error
+  return toCheckIn(data as CheckInRow)
+}
+
+export const fetchSessionCheckIns = async (sessionId: string): Promise<CheckIn[]> => {
+  const { data, error } = await supabase
+    .from("session_check_ins")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("scanned_at", { ascending: false })
+
+  if (error) throw error
+  return (data as CheckInRow[]).map(toCheckIn)
+}
+
+export const resolveCheckIn = async (id: string, resolution: CheckInResolution, resolvedBy: string) => {
+  const { error } = await supabase
+    .from("session_check_ins")
+    .update({ resolution, resolved_by: resolvedBy, resolved_at: new Date().toISOString() })
+    .eq("id", id)
+
+  if (error) throw error
+}
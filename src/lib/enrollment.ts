@@ -0,0 +1,150 @@
+import { supabase } from "@/lib/supabaseClient"
+import type { MessageKey } from "@/locales/en"
+
+export type EnrollmentStatus = "pending" | "confirmed" | "waitlisted" | "offered" | "cancelled" | "completed"
+
+export const enrollmentStatusLabels: Record<EnrollmentStatus, MessageKey> = {
+  pending: "enrollment.status.pending",
+  confirmed: "enrollment.status.confirmed",
+  waitlisted: "enrollment.status.waitlisted",
+  offered: "enrollment.status.offered",
+  cancelled: "enrollment.status.cancelled",
+  completed: "enrollment.status.completed",
+}
+
+export type MedicalClearance = "pending" | "cleared" | "restricted"
+
+export const medicalClearanceLabels: Record<MedicalClearance, string> = {
+  pending: "Awaiting Clearance",
+  cleared: "Cleared",
+  restricted: "Restricted Duties",
+}
+
+export const medicalClearanceStyles: Record<MedicalClearance, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  cleared: "bg-green-100 text-green-800",
+  restricted: "bg-red-100 text-red-800",
+}
+
+export interface Enrollment {
+  id: string
+  cohortId: string
+  userId: string
+  status: EnrollmentStatus
+  fullName: string
+  email: string
+  phone: string
+  employer: string
+  jobTitle: string
+  employeeId: string | null
+  /** Place in the cohort's queue while waitlisted. */
+  waitlistPosition: number | null
+  /** Deadline to accept a seat offered from the waitlist. */
+  offerExpiresAt: string | null
+  /** Conditions or medication the trainee declared when enrolling. */
+  medicalNotes: string | null
+  medicalClearance: MedicalClearance
+  medicalClearedBy: string | null
+  medicalClearedAt: string | null
+  createdAt: string
+}
+
+export type EnrollmentRow = {
+  id: string
+  cohort_id: string
+  user_id: string
+  status: EnrollmentStatus
+  full_name: string
+  email: string
+  phone: string
+  employer: string
+  job_title: string
+  employee_id: string | null
+  waitlist_position: number | null
+  offer_expires_at: string | null
+  medical_notes: string | null
+  medical_clearance: MedicalClearance | null
+  medical_cleared_by: string | null
+  medical_cleared_at: string | null
+  created_at: string
+}
+
+export type EnrollmentInput = {
+  cohortId: string
+  fullName: string
+  email: string
+  phone: string
+  employer: string
+  jobTitle: string
+  employeeId: string
+  prerequisitesAccepted: boolean
+  medicalFitnessDeclared: boolean
+  medicalNotes: string
+}
+
+export const toEnrollment = (row: EnrollmentRow): Enrollment => ({
+  id: row.id,
+  cohortId: row.cohort_id,
+  userId: row.user_id,
+  status: row.status,
+  fullName: row.full_name,
+  email: row.email,
+  phone: row.phone,
+  employer: row.employer,
+  jobTitle: row.job_title,
+  employeeId: row.employee_id,
+  waitlistPosition: row.waitlist_position,
+  offerExpiresAt: row.offer_expires_at,
+  medicalNotes: row.medical_notes,
+  medicalClearance: row.medical_clearance ?? "pending",
+  medicalClearedBy: row.medical_cleared_by,
+  medicalClearedAt: row.medical_cleared_at,
+  createdAt: row.created_at,
+})
+
+export const fetchUserEnrollments = async (userId: string): Promise<Enrollment[]> => {
+  const { data, error } = await supabase
+    .from("enrollments")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+
+  if (error) throw error
+  return (data as EnrollmentRow[]).map(toEnrollment)
+}
+
+// The status (pending or waitlisted) is decided by the database under a lock
+// on the cohort, so the last seat cannot be sold twice and nobody skips the queue.
+export const enrollInCohort = async (input: EnrollmentInput): Promise<Enrollment> => {
+  const { data, error } = await supabase.rpc("enroll_in_cohort", {
+    p_cohort_id: input.cohortId,
+    p_full_name: input.fullName,
+    p_email: input.email,
+    p_phone: input.phone,
+    p_employer: input.employer,
+    p_job_title: input.jobTitle,
+    p_employee_id: input.employeeId,
+    p_prerequisites_accepted: input.prerequisitesAccepted,
+    p_medical_fitness_declared: input.medicalFitnessDeclared,
+    p_medical_notes: input.medicalNotes,
+  })
+
+  if (error) throw error
+  return toEnrollment(data as EnrollmentRow)
+}
+
+export const cancelEnrollment = async (enrollmentId: string) => {
+  const { error } = await supabase
+    .from("enrollments")
+    .update({ status: "cancelled", updated_at: new Date().toISOString() })
+    .eq("id", enrollmentId)
+
+  if (error) throw error
+}
+
+export const acceptWaitlistOffer = async (enrollmentId: string): Promise<Enrollment> => {
+  const { data, error } = await supabase.rpc("accept_waitlist_offer", { p_enrollment_id: enrollmentId })
+
+  if (error) throw error
+  return toEnrollment(data as EnrollmentRow)
+}
@@ -0,0 +1,55 @@
+import { supabase } from "@/lib/supabaseClient"
+import { toEnrollment, type Enrollment, type EnrollmentRow, type MedicalClearance } from "@/lib/enrollment"
+
+// Waitlisted trainees in queue order, followed by anyone holding a seat offer.
+export const fetchCohortWaitlist = async (cohortId: string): Promise<Enrollment[]> => {
+  const { data, error } = await supabase
+    .from("enrollments")
+    .select("*")
+    .eq("cohort_id", cohortId)
+    .in("status", ["waitlisted", "offered"])
+    .order("waitlist_position", { ascending: true, nullsFirst: false })
+    .order("created_at", { ascending: true })
+
+  if (error) throw error
+  return (data as EnrollmentRow[]).map(toEnrollment)
+}
+
+// Trainees holding or having completed a seat, for completion and certification.
+export const fetchCohortRoster = async (cohortId: string): Promise<Enrollment[]> => {
+  const { data, error } = await supabase
+    .from("enrollments")
+    .select("*")
+    .eq("cohort_id", cohortId)
+    .in("status", ["pending", "confirmed", "completed"])
+    .order("full_name", { ascending: true })
+
+  if (error) throw error
+  return (data as EnrollmentRow[]).map(toEnrollment)
+}
+
+export const confirmEnrollment = async (enrollmentId: string) => {
+  const { error } = await supabase.rpc("confirm_enrollment", { p_enrollment_id: enrollmentId })
+
+  if (error) throw error
+}
+
+export const reorderWaitlist = async (cohortId: string, enrollmentIds: string[]) => {
+  const { error } = await supabase.rpc("reorder_waitlist", {
+    p_cohort_id: cohortId,
+    p_enrollment_ids: enrollmentIds,
+  })
+
+  if (error) throw error
+}
+
+// Instructors cannot update enrollments directly; the function stamps who
+// cleared the trainee and when.
+export const setMedicalClearance = async (enrollmentId: string, clearance: MedicalClearance) => {
+  const { error } = await supabase.rpc("set_medical_clearance", {
+    p_enrollment_id: enrollmentId,
+    p_clearance: clearance,
+  })
+
+  if (error) throw error
+}
@@ -0,0 +1,119 @@
+import { createContext } from "react"
+import { format as formatDateFns, formatDistanceToNow as formatDistanceToNowFns } from "date-fns"
+import { enUS, id as idLocale } from "date-fns/locale"
+import { supabase } from "@/lib/supabaseClient"
+import { en, type MessageKey } from "@/locales/en"
+import { id } from "@/locales/id"
+
+export type Locale = "en" | "id"
+
+export const locales: Locale[] = ["en", "id"]
+
+export const localeLabels: Record<Locale, string> = {
+  en: "English",
+  id: "Bahasa Indonesia",
+}
+
+// The public site and every trainee screen are translated. Staff screens (admin
+// and instructor pages and their editors) keep English copy and only pick up
+// shared labels, such as enrollment and certificate statuses, from the catalogs.
+// Issued certificate PDFs stay in English as well.
+const messages: Record<Locale, Record<MessageKey, string>> = { en, id }
+
+const dateLocales = { en: enUS, id: idLocale }
+
+const intlLocales: Record<Locale, string> = { en: "en-US", id: "id-ID" }
+
+export const isLocale = (value: unknown): value is Locale => locales.includes(value as Locale)
+
+export type TranslationVars = Record<string, string | number>
+
+// Missing keys fall back to English so a half-finished catalog never shows raw keys.
+export const translate = (locale: Locale, key: MessageKey, vars: TranslationVars = {}) =>
+  (messages[locale][key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in vars ? String(vars[name]) : match
+  )
+
+// Prices are stored in US dollars; only the presentation follows the locale.
+export const createI18n = (locale: Locale, setLocale: (locale: Locale) => void) => {
+  const numberFormat = new Intl.NumberFormat(intlLocales[locale])
+  const currencyFormat = new Intl.NumberFormat(intlLocales[locale], {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  })
+
+  return {
+    locale,
+    setLocale,
+    /** For components that take a date-fns locale directly, such as the calendar. */
+    dateLocale: dateLocales[locale],
+    t: (key: MessageKey, vars?: TranslationVars) => translate(locale, key, vars),
+    /** Formats with a date-fns pattern in the active locale, e.g. "PPP" or "LLL dd, y". */
+    formatDate: (date: Date | string | number, pattern = "PPP") =>
+      formatDateFns(new Date(date), pattern, { locale: dateLocales[locale] }),
+    /** "3 days", "about 1 hour" and so on, in the active locale; `addSuffix` adds "ago" or "in". */
+    formatDistanceToNow: (date: Date | string | number, options: { addSuffix?: boolean } = {}) =>
+      formatDistanceToNowFns(new Date(date), { ...options, locale: dateLocales[locale] }),
+    formatNumber: (value: number) => numberFormat.format(value),
+    formatCurrency: (value: number) => currencyFormat.format(value),
+  }
+}
+
+export type I18n = ReturnType<typeof createI18n>
+
+export const I18nContext = createContext<I18n>(createI18n("en", () => undefined))
+
+const LOCALE_STORAGE_KEY = "locale"
+
+// Before anyone signs in, the last choice on this device wins, then the browser language.
+export const loadStoredLocale = (): Locale => {
+  const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY)
+  if (isLocale(stored)) return stored
+  return navigator.language.toLowerCase().startsWith("id") ? "id" : "en"
+}
+
+export const storeLocale = (locale: Locale) => window.localStorage.setItem(LOCALE_STORAGE_KEY, locale)
+
+export const saveProfileLocale = async (locale: Locale) => {
+  const { error } = await supabase.rpc("set_profile_locale", { new_locale: locale })
+  if (error) throw error
+}
+
+/**
+ * Per-locale overrides for translatable content fields. English lives in the
+ * regular columns; untranslated fields fall back to it.
+ */
+export type ContentTranslations<Field extends string> = Partial<Record<Locale, Partial<Record<Field, string>>>>
+
+export const localizeContent = <Item extends { translations?: ContentTranslations<string> }>(
+  item: Item,
+  locale: Locale
+): Item => {
+  const overrides = item.translations?.[locale]
+  if (!overrides) return item
+
+  const localized = { ...item }
+  Object.entries(overrides).forEach(([field, value]) => {
+    if (typeof value === "string" && value.trim()) (localized as Record<string, unknown>)[field] = value
+  })
+  return localized
+}
+
+// Editors submit every field; blank ones are dropped so they keep falling back to English.
+export const compactTranslations = <Field extends string>(
+  translations: ContentTranslations<Field> | undefined
+): ContentTranslations<Field> => {
+  const compacted: ContentTranslations<Field> = {}
+  Object.entries(translations ?? {}).forEach(([locale, fields]) => {
+    const filled = Object.entries(fields ?? {}).filter(
+      ([, value]) => typeof value === "string" && value.trim()
+    )
+    if (filled.length > 0) {
+      compacted[locale as Locale] = Object.fromEntries(
+        filled.map(([field, value]) => [field, (value as string).trim()])
+      ) as Partial<Record<Field, string>>
+    }
+  })
+  return compacted
+}
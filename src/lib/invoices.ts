@@ -0,0 +1,45 @@
+import { supabase } from "@/lib/supabaseClient"
+
+export type InvoiceStatus = "unpaid" | "paid" | "void"
+
+export interface EnrollmentInvoice {
+  id: string
+  invoiceNumber: string
+  enrollmentId: string
+  amount: number
+  dueOn: string
+  status: InvoiceStatus
+  paidAt: string | null
+}
+
+export type EnrollmentInvoiceRow = {
+  id: string
+  invoice_number: string
+  enrollment_id: string
+  amount: number | string
+  due_on: string
+  status: InvoiceStatus
+  paid_at: string | null
+}
+
+export const toEnrollmentInvoice = (row: EnrollmentInvoiceRow): EnrollmentInvoice => ({
+  id: row.id,
+  invoiceNumber: row.invoice_number,
+  enrollmentId: row.enrollment_id,
+  // numeric columns arrive as strings from PostgREST
+  amount: Number(row.amount),
+  dueOn: row.due_on,
+  status: row.status,
+  paidAt: row.paid_at,
+})
+
+export const fetchUserInvoices = async (userId: string): Promise<EnrollmentInvoice[]> => {
+  const { data, error } = await supabase
+    .from("enrollment_invoices")
+    .select("id, invoice_number, enrollment_id, amount, due_on, status, paid_at")
+    .eq("user_id", userId)
+    .order("due_on", { ascending: true })
+
+  if (error) throw error
+  return (data as EnrollmentInvoiceRow[]).map(toEnrollmentInvoice)
+}
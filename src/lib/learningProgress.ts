@@ -0,0 +1,112 @@
+import { supabase } from "@/lib/supabaseClient"
+import type { SyllabusModule } from "@/data/trainingData"
+
+// Topics are addressed by position within the program's syllabus.
+export interface TopicRef {
+  moduleIndex: number
+  topicIndex: number
+}
+
+export interface TopicProgress extends TopicRef {
+  id: string
+  enrollmentId: string
+  userId: string
+  completedAt: string
+  completedBy: string | null
+}
+
+export type TopicProgressRow = {
+  id: string
+  enrollment_id: string
+  user_id: string
+  module_index: number
+  topic_index: number
+  completed_at: string
+  completed_by: string | null
+}
+
+export interface ModuleProgressSummary {
+  title: string
+  completed: number
+  total: number
+  percent: number
+}
+
+export interface SyllabusProgress {
+  modules: ModuleProgressSummary[]
+  completed: number
+  total: number
+  percent: number
+  /** First topic not yet completed, in syllabus order; null when everything is done. */
+  resumeAt: TopicRef | null
+}
+
+export const toTopicProgress = (row: TopicProgressRow): TopicProgress => ({
+  id: row.id,
+  enrollmentId: row.enrollment_id,
+  userId: row.user_id,
+  moduleIndex: row.module_index,
+  topicIndex: row.topic_index,
+  completedAt: row.completed_at,
+  completedBy: row.completed_by,
+})
+
+export const getTopicKey = ({ moduleIndex, topicIndex }: TopicRef) => `${moduleIndex}-${topicIndex}`
+
+// Used as the element id on /learn so "resume" links can jump straight to a topic.
+export const getTopicAnchor = (topic: TopicRef) => `topic-${getTopicKey(topic)}`
+
+const toPercent = (completed: number, total: number) => (total > 0 ? Math.round((completed / total) * 100) : 0)
+
+export const getSyllabusProgress = (syllabus: SyllabusModule[], progress: TopicProgress[]): SyllabusProgress => {
+  const completedKeys = new Set(progress.map(getTopicKey))
+  let resumeAt: TopicRef | null = null
+
+  const modules = syllabus.map((syllabusModule, moduleIndex) => {
+    const completed = syllabusModule.topics.filter((_, topicIndex) => {
+      const isComplete = completedKeys.has(getTopicKey({ moduleIndex, topicIndex }))
+      if (!isComplete && !resumeAt) resumeAt = { moduleIndex, topicIndex }
+      return isComplete
+    }).length
+    const total = syllabusModule.topics.length
+    return { title: syllabusModule.title, completed, total, percent: toPercent(completed, total) }
+  })
+
+  const completed = modules.reduce((sum, entry) => sum + entry.completed, 0)
+  const total = modules.reduce((sum, entry) => sum + entry.total, 0)
+  return { modules, completed, total, percent: toPercent(completed, total), resumeAt }
+}
+
+export const fetchEnrollmentProgress = async (enrollmentIds: string[]): Promise<TopicProgress[]> => {
+  if (enrollmentIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from("topic_progress")
+    .select("*")
+    .in("enrollment_id", enrollmentIds)
+
+  if (error) throw error
+  return (data as TopicProgressRow[]).map(toTopicProgress)
+}
+
+export type TopicCompletionInput = TopicRef & {
+  enrollmentId: string
+  userId: string
+  complete: boolean
+}
+
+export const setTopicCompletion = async ({ enrollmentId, userId, moduleIndex, topicIndex, complete }: TopicCompletionInput) => {
+  const { error } = complete
+    ? await supabase.from("topic_progress").upsert(
+        { enrollment_id: enrollmentId, user_id: userId, module_index: moduleIndex, topic_index: topicIndex },
+        { onConflict: "enrollment_id,module_index,topic_index", ignoreDuplicates: true }
+      )
+    : await supabase
+        .from("topic_progress")
+        .delete()
+        .eq("enrollment_id", enrollmentId)
+        .eq("module_index", moduleIndex)
+        .eq("topic_index", topicIndex)
+
+  if (error) throw error
+}
@@ -0,0 +1,64 @@
+import GithubSlugger from "github-slugger"
+
+export interface TocEntry {
+  id: string
+  text: string
+  level: 2 | 3
+}
+
+const WORDS_PER_MINUTE = 200
+
+// Removes Markdown syntax so only readable words are left.
+const toPlainText = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*_`|~-]/g, " ")
+
+export const getReadingTime = (markdown: string) => {
+  const words = toPlainText(markdown).split(/\s+/).filter(Boolean).length
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE))
+}
+
+// Heading ids are generated the same way rehype-slug generates them, so the
+// entries link to the rendered headings.
+export const getTableOfContents = (markdown: string): TocEntry[] => {
+  const slugger = new GithubSlugger()
+  const entries: TocEntry[] = []
+  let inCodeBlock = false
+
+  for (const line of markdown.split("\n")) {
+    if (line.trim().startsWith("```")) {
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+    const match = !inCodeBlock && /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line)
+    if (!match) continue
+
+    const text = match[2].replace(/\[([^\]]*)\]\([^)]*\)/g, "$1").replace(/[*_`]/g, "")
+    const id = slugger.slug(text)
+    const level = match[1].length
+    if (level === 2 || level === 3) {
+      entries.push({ id, text, level })
+    }
+  }
+
+  return entries
+}
+
+const youtubePattern = /^https:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/)([\w-]{11})/
+const vimeoPattern = /^https:\/\/(?:www\.)?vimeo\.com\/(\d+)/
+
+// Only these hosts may be embedded; anything else renders as a plain image.
+export const getVideoEmbed = (src: string): { type: "iframe" | "video"; src: string } | null => {
+  const youtube = youtubePattern.exec(src)
+  if (youtube) return { type: "iframe", src: `https://www.youtube-nocookie.com/embed/${youtube[1]}` }
+
+  const vimeo = vimeoPattern.exec(src)
+  if (vimeo) return { type: "iframe", src: `https://player.vimeo.com/video/${vimeo[1]}` }
+
+  if (/\.(mp4|webm)(\?.*)?$/i.test(src)) return { type: "video", src }
+
+  return null
+}
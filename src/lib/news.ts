@@ -0,0 +1,136 @@
+import { supabase } from "@/lib/supabaseClient";
+import { newsArticles as seedArticles, type NewsArticle } from "@/data/newsData";
+
+export interface NewsArticleRow {
+  id: number;
+  title: string;
+  description: string;
+  content: string;
+  image: string | null;
+  category: string;
+  status: string;
+  published_at: string;
+  translations: NewsArticle["translations"] | null;
+}
+
+export interface NewsListParams {
+  category?: string;
+  dateRange?: { from?: Date; to?: Date };
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface NewsListResult {
+  articles: NewsArticle[];
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+export const DEFAULT_NEWS_PAGE_SIZE = 6;
+
+// Scheduled articles are approved and go live once their publish date passes.
+const LIVE_NEWS_STATUSES = ["published", "scheduled"];
+
+export const toNewsArticle = (row: NewsArticleRow): NewsArticle => ({
+  id: row.id,
+  title: row.title,
+  description: row.description,
+  content: row.content,
+  image: row.image ?? "/placeholder.svg",
+  date: row.published_at,
+  category: row.category,
+  translations: row.translations ?? {},
+});
+
+// The "to" bound of a date range covers the whole selected day.
+const endOfDay = (date: Date) => {
+  const end = new Date(date.getTime());
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+// Characters that would break out of a PostgREST `or` filter expression.
+const sanitizeSearch = (search: string) => search.replace(/[%,()]/g, " ").trim();
+
+const filterSeedArticles = ({ category, dateRange, search }: NewsListParams) => {
+  const term = search?.trim().toLowerCase() ?? "";
+
+  return seedArticles.filter((article) => {
+    const articleDate = new Date(article.date);
+    const matchesSearch =
+      !term ||
+      article.title.toLowerCase().includes(term) ||
+      article.description.toLowerCase().includes(term);
+    const matchesCategory = !category || category === "All" || article.category === category;
+    const matchesFrom = !dateRange?.from || articleDate >= dateRange.from;
+    const matchesTo = !dateRange?.to || articleDate <= endOfDay(dateRange.to);
+    return matchesSearch && matchesCategory && matchesFrom && matchesTo;
+  });
+};
+
+export const fetchNewsList = async (params: NewsListParams = {}): Promise<NewsListResult> => {
+  const { category, dateRange, search, page = 1, pageSize = DEFAULT_NEWS_PAGE_SIZE } = params;
+  const from = (page - 1) * pageSize;
+
+  let query = supabase
+    .from("news_articles")
+    .select("id, title, description, content, image, category, status, published_at, translations", { count: "exact" })
+    .in("status", LIVE_NEWS_STATUSES)
+    .lte("published_at", new Date().toISOString());
+
+  if (category && category !== "All") {
+    query = query.eq("category", category);
+  }
+  if (dateRange?.from) {
+    query = query.gte("published_at", dateRange.from.toISOString());
+  }
+  if (dateRange?.to) {
+    query = query.lte("published_at", endOfDay(dateRange.to).toISOString());
+  }
+  const term = search ? sanitizeSearch(search) : "";
+  if (term) {
+    query = query.or(`title.ilike.%${term}%,description.ilike.%${term}%`);
+  }
+
+  const { data, error, count } = await query
+    .order("published_at", { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    console.error("Error loading news, using offline articles:", error);
+    const filtered = filterSeedArticles(params);
+    return {
+      articles: filtered.slice(from, from + pageSize),
+      total: filtered.length,
+      page,
+      pageCount: Math.ceil(filtered.length / pageSize),
+    };
+  }
+
+  const total = count ?? 0;
+  return {
+    articles: (data as NewsArticleRow[]).map(toNewsArticle),
+    total,
+    page,
+    pageCount: Math.ceil(total / pageSize),
+  };
+};
+
+export const fetchNewsArticle = async (id: number): Promise<NewsArticle | null> => {
+  const { data, error } = await supabase
+    .from("news_articles")
+    .select("id, title, description, content, image, category, status, published_at, translations")
+    .eq("id", id)
+    .in("status", LIVE_NEWS_STATUSES)
+    .lte("published_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading news article, using offline articles:", error);
+    return seedArticles.find((article) => article.id === id) ?? null;
+  }
+
+  return data ? toNewsArticle(data as NewsArticleRow) : null;
+};
@@ -0,0 +1,132 @@
+import { supabase } from "@/lib/supabaseClient";
+import { toNewsArticle, type NewsArticleRow } from "@/lib/news";
+import type { NewsArticle } from "@/data/newsData";
+
+export type NewsStatus = "draft" | "in_review" | "scheduled" | "published" | "archived";
+export type NewsRole = "editor" | "approver";
+
+export const newsStatusLabels: Record<NewsStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  scheduled: "Scheduled",
+  published: "Published",
+  archived: "Archived",
+};
+
+export interface AdminNewsArticle extends NewsArticle {
+  status: NewsStatus;
+  authorId: string | null;
+  reviewNote: string | null;
+  updatedAt: string;
+}
+
+export interface NewsArticleInput {
+  title: string;
+  description: string;
+  content: string;
+  category: string;
+  image: string;
+  publishedAt: Date;
+  translations: NonNullable<NewsArticle["translations"]>;
+}
+
+interface AdminNewsArticleRow extends NewsArticleRow {
+  author_id: string | null;
+  review_note: string | null;
+  updated_at: string;
+}
+
+const adminColumns =
+  "id, title, description, content, image, category, status, published_at, translations, author_id, review_note, updated_at";
+
+const toAdminNewsArticle = (row: AdminNewsArticleRow): AdminNewsArticle => ({
+  ...toNewsArticle(row),
+  status: row.status as NewsStatus,
+  authorId: row.author_id,
+  reviewNote: row.review_note,
+  updatedAt: row.updated_at,
+});
+
+const toRowInput = (input: NewsArticleInput) => ({
+  title: input.title,
+  description: input.description,
+  content: input.content,
+  category: input.category,
+  image: input.image || null,
+  published_at: input.publishedAt.toISOString(),
+  translations: input.translations,
+});
+
+// Approved articles go live on their publish date, so a scheduled article
+// becomes published without a background job.
+export const getEffectiveNewsStatus = (article: Pick<AdminNewsArticle, "status" | "date">): NewsStatus =>
+  article.status === "scheduled" && new Date(article.date) <= new Date() ? "published" : article.status;
+
+export const fetchAdminNewsArticles = async (): Promise<AdminNewsArticle[]> => {
+  const { data, error } = await supabase
+    .from("news_articles")
+    .select(adminColumns)
+    .order("updated_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as AdminNewsArticleRow[]).map(toAdminNewsArticle);
+};
+
+export const createNewsArticle = async (input: NewsArticleInput, authorId: string) => {
+  const { data, error } = await supabase
+    .from("news_articles")
+    .insert({ ...toRowInput(input), status: "draft", author_id: authorId })
+    .select(adminColumns)
+    .single();
+
+  if (error) throw error;
+  return toAdminNewsArticle(data as AdminNewsArticleRow);
+};
+
+export const updateNewsArticle = async (id: number, input: NewsArticleInput) => {
+  const { data, error } = await supabase
+    .from("news_articles")
+    .update({ ...toRowInput(input), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select(adminColumns)
+    .single();
+
+  if (error) throw error;
+  return toAdminNewsArticle(data as AdminNewsArticleRow);
+};
+
+const setNewsStatus = async (id: number, status: NewsStatus, changes: Record<string, unknown> = {}) => {
+  const { data, error } = await supabase
+    .from("news_articles")
+    .update({ ...changes, status, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select(adminColumns)
+    .single();
+
+  if (error) throw error;
+  return toAdminNewsArticle(data as AdminNewsArticleRow);
+};
+
+export const submitNewsArticle = (id: number) =>
+  setNewsStatus(id, "in_review", { submitted_at: new Date().toISOString(), review_note: null });
+
+export const approveNewsArticle = (article: AdminNewsArticle, reviewerId: string) =>
+  setNewsStatus(article.id, new Date(article.date) > new Date() ? "scheduled" : "published", {
+    reviewer_id: reviewerId,
+    approved_at: new Date().toISOString(),
+  });
+
+export const rejectNewsArticle = (id: number, reviewerId: string, note: string) =>
+  setNewsStatus(id, "draft", { reviewer_id: reviewerId, review_note: note });
+
+export const archiveNewsArticle = (id: number) => setNewsStatus(id, "archived");
+
+export const restoreNewsArticle = (id: number) => setNewsStatus(id, "draft");
+
+export const uploadNewsCover = async (file: File) => {
+  const path = `${Date.now()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, "-")}`;
+  const { error } = await supabase.storage.from("news-covers").upload(path, file);
+
+  if (error) throw error;
+  return supabase.storage.from("news-covers").getPublicUrl(path).data.publicUrl;
+};
@@ -0,0 +1,57 @@
+import { supabase } from "@/lib/supabaseClient"
+
+export type NotificationKind = "certificate_expiry"
+
+export interface AppNotification {
+  id: string
+  kind: NotificationKind
+  title: string
+  body: string
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+export type NotificationRow = {
+  id: string
+  kind: NotificationKind
+  title: string
+  body: string
+  link: string | null
+  read_at: string | null
+  created_at: string
+}
+
+export const toNotification = (row: NotificationRow): AppNotification => ({
+  id: row.id,
+  kind: row.kind,
+  title: row.title,
+  body: row.body,
+  link: row.link,
+  readAt: row.read_at,
+  createdAt: row.created_at,
+})
+
+export const fetchNotifications = async (userId: string): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("id, kind, title, body, link, read_at, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(20)
+
+  if (error) throw error
+  return (data as NotificationRow[]).map(toNotification)
+}
+
+export const markNotificationsRead = async (notificationIds: string[]) => {
+  if (notificationIds.length === 0) return
+
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", notificationIds)
+    .is("read_at", null)
+
+  if (error) throw error
+}
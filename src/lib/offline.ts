@@ -0,0 +1,195 @@
+import { supabase } from "@/lib/supabaseClient"
+import { recordAttendance, type AttendanceInput } from "@/lib/attendance"
+import { recordSkillEvaluation, type SkillEvaluationInput } from "@/lib/skills"
+
+// Must match the cache and sync tag names in public/sw.js.
+const DATA_CACHE = "supabase-data-v2"
+export const SYNC_TAG = "sync-offline-queue"
+
+const QUEUE_STORAGE_KEY = "offline-queue"
+const QUEUE_CHANGE_EVENT = "offline-queue-change"
+
+// Only writes an instructor makes out on the ground are queued; everything
+// else still needs a connection.
+const handlers = {
+  attendance: (payload: AttendanceInput[]) => recordAttendance(payload),
+  "skill-evaluation": (payload: SkillEvaluationInput) => recordSkillEvaluation(payload),
+}
+
+type Handlers = typeof handlers
+
+export type QueuedMutationKind = keyof Handlers
+
+export type QueuedMutation = {
+  [Kind in QueuedMutationKind]: {
+    id: string
+    kind: Kind
+    payload: Parameters<Handlers[Kind]>[0]
+    /** Whose session recorded it; only that user's session replays it. */
+    userId: string
+    queuedAt: string
+  }
+}[QueuedMutationKind]
+
+export const queuedMutationLabels: Record<QueuedMutationKind, string> = {
+  attendance: "Attendance",
+  "skill-evaluation": "Skill sign-off",
+}
+
+/** `result` is only there when the write went through straight away. */
+export type SendResult<Result> = { queued: boolean; result?: Result }
+
+export interface FlushResult {
+  synced: QueuedMutation[]
+  failed: { mutation: QueuedMutation; message: string }[]
+}
+
+// Parsed once per change so `useSyncExternalStore` gets a stable snapshot.
+let queueSnapshot: QueuedMutation[] | null = null
+
+export const loadQueue = (): QueuedMutation[] => {
+  if (queueSnapshot) return queueSnapshot
+  try {
+    queueSnapshot = JSON.parse(window.localStorage.getItem(QUEUE_STORAGE_KEY) ?? "[]") as QueuedMutation[]
+  } catch {
+    queueSnapshot = []
+  }
+  return queueSnapshot
+}
+
+const saveQueue = (queue: QueuedMutation[]) => {
+  window.localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue))
+  queueSnapshot = queue
+  window.dispatchEvent(new Event(QUEUE_CHANGE_EVENT))
+}
+
+export const subscribeToQueue = (listener: () => void) => {
+  // Other tabs write the same storage key.
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== QUEUE_STORAGE_KEY) return
+    queueSnapshot = null
+    listener()
+  }
+  window.addEventListener(QUEUE_CHANGE_EVENT, listener)
+  window.addEventListener("storage", handleStorage)
+  return () => {
+    window.removeEventListener(QUEUE_CHANGE_EVENT, listener)
+    window.removeEventListener("storage", handleStorage)
+  }
+}
+
+// A dropped connection surfaces as a failed fetch rather than a database error.
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine ||
+  /failed to fetch|networkerror|load failed|network request failed/i.test(
+    (error as { message?: string } | null)?.message ?? ""
+  )
+
+// Chromium wakes the worker once the connection is back even if the tab was
+// in the background; elsewhere the app's own `online` listener does the job.
+const requestBackgroundSync = async () => {
+  if (!("serviceWorker" in navigator)) return
+  try {
+    const registration = (await navigator.serviceWorker.ready) as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> }
+    }
+    await registration.sync?.register(SYNC_TAG)
+  } catch (error) {
+    console.error("Error registering background sync:", error)
+  }
+}
+
+const enqueue = async <Kind extends QueuedMutationKind>(kind: Kind, payload: Parameters<Handlers[Kind]>[0]) => {
+  // The session is read from storage, so this works without a connection.
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) throw new Error("Sign in to record changes offline")
+
+  saveQueue([
+    ...loadQueue(),
+    {
+      id: crypto.randomUUID(),
+      kind,
+      payload,
+      userId: session.user.id,
+      queuedAt: new Date().toISOString(),
+    } as QueuedMutation,
+  ])
+  void requestBackgroundSync()
+}
+
+/**
+ * Sends the write straight away when possible and queues it for background
+ * sync when the device is offline or the request never reached the server.
+ */
+export const sendOrQueue = async <Kind extends QueuedMutationKind>(
+  kind: Kind,
+  payload: Parameters<Handlers[Kind]>[0]
+): Promise<SendResult<Awaited<ReturnType<Handlers[Kind]>>>> => {
+  if (navigator.onLine) {
+    try {
+      const handler = handlers[kind] as (input: typeof payload) => ReturnType<Handlers[Kind]>
+      return { queued: false, result: await handler(payload) }
+    } catch (error) {
+      if (!isNetworkError(error)) throw error
+    }
+  }
+
+  await enqueue(kind, payload)
+  return { queued: true }
+}
+
+let activeFlush: Promise<FlushResult> | null = null
+
+/**
+ * Replays the signed-in user's queued writes oldest first. Stops at the first
+ * network failure so the rest keep their order; writes the server rejects are
+ * dropped and reported back. Payloads carry the time they were recorded and,
+ * for sign-offs, a client id, so a write that reached the server before the
+ * connection dropped is not stored twice.
+ */
+export const flushQueue = (userId: string): Promise<FlushResult> => {
+  if (activeFlush) return activeFlush
+
+  activeFlush = (async () => {
+    const result: FlushResult = { synced: [], failed: [] }
+
+    for (const mutation of loadQueue().filter((item) => item.userId === userId)) {
+      try {
+        const handler = handlers[mutation.kind] as (payload: QueuedMutation["payload"]) => Promise<unknown>
+        await handler(mutation.payload)
+        result.synced.push(mutation)
+      } catch (error) {
+        if (isNetworkError(error)) break
+        result.failed.push({
+          mutation,
+          message: (error as { message?: string })?.message ?? "The server rejected this change.",
+        })
+      }
+      saveQueue(loadQueue().filter((item) => item.id !== mutation.id))
+    }
+
+    return result
+  })().finally(() => {
+    activeFlush = null
+  })
+
+  return activeFlush
+}
+
+// Cached reads carry the previous user's data, so they go on sign-out.
+export const clearOfflineData = async () => {
+  if ("caches" in window) await caches.delete(DATA_CACHE)
+}
+
+// Only production builds get a worker; in development it would serve stale modules.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) => console.error("Error registering service worker:", error))
+  })
+}
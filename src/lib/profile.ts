@@ -0,0 +1,61 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { NewsRole } from "@/lib/newsAdmin";
+import type { Locale } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+
+export type UserRole = "trainee" | "instructor" | "coordinator" | "hse_officer" | "admin";
+
+export const userRoleLabels: Record<UserRole, MessageKey> = {
+  trainee: "roles.trainee",
+  instructor: "roles.instructor",
+  coordinator: "roles.coordinator",
+  hse_officer: "roles.hse_officer",
+  admin: "roles.admin",
+};
+
+export interface UserProfile {
+  id: string;
+  fullName: string;
+  email: string;
+  phone: string | null;
+  role: UserRole;
+  newsRole: NewsRole | null;
+  /** Interface language; null until the user picks one. */
+  locale: Locale | null;
+}
+
+export type UserProfileRow = {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  role: UserRole | null;
+  news_role: NewsRole | null;
+  locale: Locale | null;
+};
+
+export const toUserProfile = (row: UserProfileRow): UserProfile => ({
+  id: row.id,
+  fullName: row.full_name ?? "",
+  email: row.email ?? "",
+  phone: row.phone,
+  role: row.role ?? "trainee",
+  // Mirrors `current_news_role()`: administrators can always approve news.
+  newsRole: row.role === "admin" ? "approver" : row.news_role,
+  locale: row.locale,
+});
+
+export const fetchUserProfile = async (userId: string): Promise<UserProfile | null> => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, full_name, email, phone, role, news_role, locale")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toUserProfile(data as UserProfileRow) : null;
+};
+
+// Only same-origin paths are accepted so `?redirect=` cannot send users off-site.
+export const getSafeRedirect = (redirect: string | null, fallback = "/") =>
+  redirect && redirect.startsWith("/") && !redirect.startsWith("//") ? redirect : fallback;
@@ -0,0 +1,197 @@
+import { format } from "date-fns"
+import type { TrainingProgram } from "@/data/trainingData"
+import type { I18n } from "@/lib/i18n"
+import type { TrainingCohort } from "@/lib/schedule"
+
+export const MAX_COMPARED_PROGRAMS = 4
+
+export interface ComparisonRow {
+  key: string
+  label: string
+  /** One display value per compared program, in column order. */
+  values: string[]
+  /** Whether the programs disagree on this row. */
+  differs: boolean
+}
+
+export const getContactHours = (program: TrainingProgram) =>
+  program.syllabus.reduce(
+    (total, syllabusModule) =>
+      total + syllabusModule.topics.reduce((moduleTotal, topic) => moduleTotal + topic.contactHours, 0),
+    0
+  )
+
+const getCertificationBodies = (program: TrainingProgram) => {
+  const issuers = Array.from(new Set(program.certifications_details.map((detail) => detail.issuer)))
+  return issuers.length > 0 ? issuers.join("\n") : program.certification
+}
+
+const formatNextSession = (cohort: TrainingCohort | undefined, { t, formatDate }: I18n) =>
+  cohort ? `${formatDate(cohort.startDate, "LLL dd, y")} · ${cohort.location}` : t("compare.noneScheduled")
+
+const formatSeatsLeft = (cohort: TrainingCohort | undefined, { t }: I18n) => {
+  if (!cohort) return "–"
+  if (cohort.seatsRemaining === 0) return t("compare.full")
+  return t("compare.seatsOf", { remaining: cohort.seatsRemaining, capacity: cohort.capacity })
+}
+
+// The table, CSV and PDF all render these rows, so the exports always match
+// what procurement saw on screen, in the reader's language. Multi-value cells
+// are separated by newlines.
+export const buildComparisonRows = (
+  programs: TrainingProgram[],
+  nextCohorts: Record<string, TrainingCohort | undefined>,
+  i18n: I18n
+): ComparisonRow[] => {
+  const { t, formatCurrency, formatNumber } = i18n
+  const rows: Omit<ComparisonRow, "differs">[] = [
+    { key: "price", label: t("compare.row.price"), values: programs.map((program) => formatCurrency(program.price)) },
+    { key: "duration", label: t("compare.row.duration"), values: programs.map((program) => program.duration) },
+    {
+      key: "hours",
+      label: t("compare.row.hours"),
+      values: programs.map((program) => {
+        const hours = getContactHours(program)
+        return hours > 0 ? t("compare.hours", { hours: formatNumber(hours) }) : t("compare.notPublished")
+      }),
+    },
+    { key: "level", label: t("compare.row.level"), values: programs.map((program) => program.level) },
+    {
+      key: "certification",
+      label: t("compare.row.certification"),
+      values: programs.map((program) => program.certification),
+    },
+    { key: "body", label: t("compare.row.body"), values: programs.map(getCertificationBodies) },
+    {
+      key: "prerequisites",
+      label: t("compare.row.prerequisites"),
+      values: programs.map((program) =>
+        program.prerequisites.length > 0 ? program.prerequisites.join("\n") : t("compare.none")
+      ),
+    },
+    {
+      key: "next-session",
+      label: t("compare.row.nextSession"),
+      values: programs.map((program) => formatNextSession(nextCohorts[program.id], i18n)),
+    },
+    {
+      key: "seats",
+      label: t("compare.row.seats"),
+      values: programs.map((program) => formatSeatsLeft(nextCohorts[program.id], i18n)),
+    },
+    { key: "location", label: t("compare.row.location"), values: programs.map((program) => program.location) },
+    { key: "instructor", label: t("compare.row.instructor"), values: programs.map((program) => program.instructor) },
+    {
+      key: "rating",
+      label: t("compare.row.rating"),
+      values: programs.map((program) =>
+        program.reviews > 0
+          ? t("compare.rating", { rating: program.rating.toFixed(1), count: program.reviews })
+          : t("compare.noReviews")
+      ),
+    },
+  ]
+
+  return rows.map((row) => ({ ...row, differs: new Set(row.values).size > 1 }))
+}
+
+// Program titles, instructors and locations are free text, so a cell that
+// would start a spreadsheet formula is prefixed with an apostrophe.
+const escapeCsvValue = (value: string) => {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toComparisonCsv = (programs: TrainingProgram[], rows: ComparisonRow[], { t }: I18n) =>
+  [[t("compare.attribute"), ...programs.map((program) => program.title)], ...rows.map((row) => [row.label, ...row.values])]
+    .map((line) => line.map(escapeCsvValue).join(","))
+    .join("\r\n")
+
+const comparisonFileName = (extension: string) => `training-comparison-${format(new Date(), "yyyy-MM-dd")}.${extension}`
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoking straight away can cancel the download before it starts.
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+// The byte order mark makes Excel read the file as UTF-8.
+export const downloadComparisonCsv = (programs: TrainingProgram[], rows: ComparisonRow[], i18n: I18n) =>
+  downloadBlob(
+    new Blob(["\uFEFF", toComparisonCsv(programs, rows, i18n)], { type: "text/csv;charset=utf-8" }),
+    comparisonFileName("csv")
+  )
+
+const RED: [number, number, number] = [220, 38, 38]
+const AMBER: [number, number, number] = [254, 243, 199]
+
+// jsPDF is only loaded when someone actually exports.
+export const downloadComparisonPdf = async (
+  programs: TrainingProgram[],
+  rows: ComparisonRow[],
+  { t, formatDate }: I18n
+) => {
+  const { jsPDF } = await import("jspdf")
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" })
+  const width = doc.internal.pageSize.getWidth()
+  const height = doc.internal.pageSize.getHeight()
+  const margin = 14
+  const labelWidth = 42
+  const columnWidth = (width - margin * 2 - labelWidth) / programs.length
+  const lineHeight = 4.2
+  const padding = 2.5
+  let y = margin
+
+  const drawRow = (cells: string[], options: { header?: boolean; highlight?: boolean } = {}) => {
+    doc.setFont("helvetica", options.header ? "bold" : "normal")
+    doc.setFontSize(options.header ? 10 : 9)
+    const lines = cells.map((cell, index) =>
+      doc.splitTextToSize(cell, (index === 0 ? labelWidth : columnWidth) - padding * 2) as string[]
+    )
+    const rowHeight = Math.max(...lines.map((cellLines) => cellLines.length)) * lineHeight + padding * 2
+
+    if (y + rowHeight > height - margin) {
+      doc.addPage()
+      y = margin
+      if (!options.header) drawRow(["", ...programs.map((program) => program.title)], { header: true })
+      doc.setFont("helvetica", "normal")
+      doc.setFontSize(9)
+    }
+
+    if (options.header || options.highlight) {
+      doc.setFillColor(...(options.header ? RED : AMBER))
+      doc.rect(margin, y, width - margin * 2, rowHeight, "F")
+    }
+    doc.setDrawColor(209, 213, 219)
+    doc.line(margin, y + rowHeight, width - margin, y + rowHeight)
+
+    if (options.header) doc.setTextColor(255, 255, 255)
+    else doc.setTextColor(17, 24, 39)
+    lines.forEach((cellLines, index) => {
+      const x = margin + (index === 0 ? 0 : labelWidth + (index - 1) * columnWidth) + padding
+      if (index === 0 && !options.header) doc.setFont("helvetica", "bold")
+      doc.text(cellLines, x, y + padding + lineHeight - 1)
+      if (index === 0 && !options.header) doc.setFont("helvetica", "normal")
+    })
+    y += rowHeight
+  }
+
+  doc.setTextColor(...RED)
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(18)
+  doc.text(t("compare.pdfTitle"), margin, y + 6)
+  doc.setTextColor(75, 85, 99)
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(9)
+  doc.text(t("compare.pdfGenerated", { date: formatDate(new Date(), "LLL dd, y HH:mm") }), margin, y + 12)
+  y += 18
+
+  drawRow(["", ...programs.map((program) => program.title)], { header: true })
+  rows.forEach((row) => drawRow([row.label, ...row.values], { highlight: row.differs }))
+
+  doc.save(comparisonFileName("pdf"))
+}
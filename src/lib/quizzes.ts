@@ -0,0 +1,341 @@
+import { supabase } from "@/lib/supabaseClient"
+import type { MessageKey } from "@/locales/en"
+
+export type QuizKind = "knowledge_check" | "final_exam"
+
+export const quizKindLabels: Record<QuizKind, MessageKey> = {
+  knowledge_check: "quizzes.kind.knowledge_check",
+  final_exam: "quizzes.kind.final_exam",
+}
+
+export type QuestionType = "single_choice" | "multiple_choice" | "true_false" | "hotspot" | "ordering"
+
+export const questionTypeLabels: Record<QuestionType, MessageKey> = {
+  single_choice: "quizzes.type.single_choice",
+  multiple_choice: "quizzes.type.multiple_choice",
+  true_false: "quizzes.type.true_false",
+  hotspot: "quizzes.type.hotspot",
+  ordering: "quizzes.type.ordering",
+}
+
+export interface QuizOption {
+  id: string
+  label: string
+}
+
+// Percentages of the image size, so regions survive responsive scaling.
+export interface HotspotRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface HotspotPoint {
+  x: number
+  y: number
+}
+
+// Chosen option ids (in order, for ordering questions) or a hotspot click.
+export type QuizResponse = string[] | HotspotPoint
+
+export interface Quiz {
+  id: string
+  programId: string
+  title: string
+  description: string
+  kind: QuizKind
+  moduleIndex: number | null
+  topicIndex: number | null
+  timeLimitMinutes: number | null
+  questionCount: number | null
+  passingScore: number
+  maxAttempts: number | null
+  published: boolean
+  sortOrder: number
+}
+
+export type QuizRow = {
+  id: string
+  program_id: string
+  title: string
+  description: string
+  kind: QuizKind
+  module_index: number | null
+  topic_index: number | null
+  time_limit_minutes: number | null
+  question_count: number | null
+  passing_score: number
+  max_attempts: number | null
+  published: boolean
+  sort_order: number
+}
+
+export interface QuizQuestion {
+  id: string
+  type: QuestionType
+  prompt: string
+  imageUrl: string | null
+  options: QuizOption[]
+  answer: string[] | HotspotRegion
+  points: number
+}
+
+export type QuizQuestionRow = {
+  id: string
+  quiz_id: string
+  type: QuestionType
+  prompt: string
+  image_url: string | null
+  options: QuizOption[]
+  answer: string[] | HotspotRegion
+  points: number
+  sort_order: number
+}
+
+// A question as served to a trainee: the answer key stays on the server.
+export type AttemptQuestion = Omit<QuizQuestion, "answer">
+
+export interface QuizSession {
+  attemptId: string
+  startedAt: string
+  expiresAt: string | null
+  responses: Record<string, QuizResponse>
+  questions: AttemptQuestion[]
+}
+
+type QuizSessionRow = {
+  attempt_id: string
+  started_at: string
+  expires_at: string | null
+  responses: Record<string, QuizResponse>
+  questions: Omit<QuizQuestionRow, "quiz_id" | "answer" | "sort_order">[]
+}
+
+export type QuizAttemptStatus = "in_progress" | "submitted" | "expired"
+
+export interface QuizAttempt {
+  id: string
+  quizId: string
+  enrollmentId: string
+  userId: string
+  status: QuizAttemptStatus
+  startedAt: string
+  expiresAt: string | null
+  submittedAt: string | null
+  earnedPoints: number | null
+  totalPoints: number | null
+  score: number | null
+  passed: boolean
+}
+
+export type QuizAttemptRow = {
+  id: string
+  quiz_id: string
+  enrollment_id: string
+  user_id: string
+  status: QuizAttemptStatus
+  started_at: string
+  expires_at: string | null
+  submitted_at: string | null
+  earned_points: number | null
+  total_points: number | null
+  score: number | null
+  passed: boolean
+}
+
+export interface QuizStanding {
+  attemptsUsed: number
+  attemptsLeft: number | null
+  bestScore: number | null
+  passed: boolean
+  inProgress: boolean
+}
+
+export const toQuiz = (row: QuizRow): Quiz => ({
+  id: row.id,
+  programId: row.program_id,
+  title: row.title,
+  description: row.description,
+  kind: row.kind,
+  moduleIndex: row.module_index,
+  topicIndex: row.topic_index,
+  timeLimitMinutes: row.time_limit_minutes,
+  questionCount: row.question_count,
+  passingScore: row.passing_score,
+  maxAttempts: row.max_attempts,
+  published: row.published,
+  sortOrder: row.sort_order,
+})
+
+export const toQuizQuestion = (row: Omit<QuizQuestionRow, "quiz_id" | "sort_order">): QuizQuestion => ({
+  id: row.id,
+  type: row.type,
+  prompt: row.prompt,
+  imageUrl: row.image_url,
+  options: row.options ?? [],
+  answer: row.answer,
+  points: row.points,
+})
+
+export const toQuizAttempt = (row: QuizAttemptRow): QuizAttempt => ({
+  id: row.id,
+  quizId: row.quiz_id,
+  enrollmentId: row.enrollment_id,
+  userId: row.user_id,
+  status: row.status,
+  startedAt: row.started_at,
+  expiresAt: row.expires_at,
+  submittedAt: row.submitted_at,
+  earnedPoints: row.earned_points,
+  totalPoints: row.total_points,
+  score: row.score,
+  passed: row.passed,
+})
+
+export const getQuizStanding = (quiz: Quiz, attempts: QuizAttempt[]): QuizStanding => {
+  const own = attempts.filter((attempt) => attempt.quizId === quiz.id)
+  const scores = own.filter((attempt) => attempt.score !== null).map((attempt) => attempt.score)
+  return {
+    attemptsUsed: own.length,
+    attemptsLeft: quiz.maxAttempts === null ? null : Math.max(quiz.maxAttempts - own.length, 0),
+    bestScore: scores.length > 0 ? Math.max(...scores) : null,
+    passed: own.some((attempt) => attempt.passed),
+    inProgress: own.some((attempt) => attempt.status === "in_progress"),
+  }
+}
+
+export const isResponseComplete = (question: AttemptQuestion, response: QuizResponse | undefined) =>
+  question.type === "hotspot" ? !!response && !Array.isArray(response) : Array.isArray(response) && response.length > 0
+
+export const fetchProgramQuizzes = async (programId: string): Promise<Quiz[]> => {
+  const { data, error } = await supabase
+    .from("quizzes")
+    .select("*")
+    .eq("program_id", programId)
+    .order("kind", { ascending: false })
+    .order("module_index", { ascending: true })
+    .order("topic_index", { ascending: true })
+    .order("sort_order", { ascending: true })
+
+  if (error) throw error
+  return (data as QuizRow[]).map(toQuiz)
+}
+
+export const fetchQuizQuestions = async (quizId: string): Promise<QuizQuestion[]> => {
+  const { data, error } = await supabase
+    .from("quiz_questions")
+    .select("*")
+    .eq("quiz_id", quizId)
+    .order("sort_order", { ascending: true })
+
+  if (error) throw error
+  return (data as QuizQuestionRow[]).map(toQuizQuestion)
+}
+
+export const fetchQuizAttempts = async (enrollmentIds: string[]): Promise<QuizAttempt[]> => {
+  if (enrollmentIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from("quiz_attempts")
+    .select("*")
+    .in("enrollment_id", enrollmentIds)
+    .order("started_at", { ascending: false })
+
+  if (error) throw error
+  return (data as QuizAttemptRow[]).map(toQuizAttempt)
+}
+
+export const startQuizAttempt = async (quizId: string, enrollmentId: string): Promise<QuizSession> => {
+  const { data, error } = await supabase.rpc("start_quiz_attempt", {
+    p_quiz_id: quizId,
+    p_enrollment_id: enrollmentId,
+  })
+
+  if (error) throw error
+  const row = data as QuizSessionRow
+  return {
+    attemptId: row.attempt_id,
+    startedAt: row.started_at,
+    expiresAt: row.expires_at,
+    responses: row.responses ?? {},
+    questions: row.questions.map(toQuizQuestion),
+  }
+}
+
+export const submitQuizAttempt = async (
+  attemptId: string,
+  responses: Record<string, QuizResponse>
+): Promise<QuizAttempt> => {
+  const { data, error } = await supabase.rpc("submit_quiz_attempt", {
+    p_attempt_id: attemptId,
+    p_responses: responses,
+  })
+
+  if (error) throw error
+  return toQuizAttempt(data as QuizAttemptRow)
+}
+
+export type QuizInput = Omit<Quiz, "id">
+
+export type QuizQuestionInput = QuizQuestion & { sortOrder: number }
+
+const toQuizRowInput = (input: QuizInput) => ({
+  program_id: input.programId,
+  title: input.title,
+  description: input.description,
+  kind: input.kind,
+  module_index: input.moduleIndex,
+  topic_index: input.topicIndex,
+  time_limit_minutes: input.timeLimitMinutes,
+  question_count: input.questionCount,
+  passing_score: input.passingScore,
+  max_attempts: input.maxAttempts,
+  published: input.published,
+  sort_order: input.sortOrder,
+  updated_at: new Date().toISOString(),
+})
+
+// Questions keep their ids across edits so attempts in progress can still be
+// scored; anything removed from the pool is deleted.
+export const saveQuiz = async (id: string | undefined, input: QuizInput, questions: QuizQuestionInput[]) => {
+  const { data, error } = id
+    ? await supabase.from("quizzes").update(toQuizRowInput(input)).eq("id", id).select("*").single()
+    : await supabase.from("quizzes").insert(toQuizRowInput(input)).select("*").single()
+
+  if (error) throw error
+  const quiz = toQuiz(data as QuizRow)
+
+  const keptIds = questions.map((question) => question.id)
+  let removal = supabase.from("quiz_questions").delete().eq("quiz_id", quiz.id)
+  if (keptIds.length > 0) removal = removal.not("id", "in", `(${keptIds.join(",")})`)
+  const { error: deleteError } = await removal
+
+  if (deleteError) throw deleteError
+
+  if (questions.length > 0) {
+    const { error: upsertError } = await supabase.from("quiz_questions").upsert(
+      questions.map((question) => ({
+        id: question.id,
+        quiz_id: quiz.id,
+        type: question.type,
+        prompt: question.prompt,
+        image_url: question.imageUrl || null,
+        options: question.options,
+        answer: question.answer,
+        points: question.points,
+        sort_order: question.sortOrder,
+      }))
+    )
+
+    if (upsertError) throw upsertError
+  }
+
+  return quiz
+}
+
+export const deleteQuiz = async (id: string) => {
+  const { error } = await supabase.from("quizzes").delete().eq("id", id)
+
+  if (error) throw error
+}
@@ -0,0 +1,204 @@
+import { supabase } from "@/lib/supabaseClient"
+import type { MessageKey } from "@/locales/en"
+
+export type ReviewStatus = "pending" | "published" | "rejected"
+
+export const reviewStatusLabels: Record<ReviewStatus, MessageKey> = {
+  pending: "reviews.status.pending",
+  published: "reviews.status.published",
+  rejected: "reviews.status.rejected",
+}
+
+export const reviewStatusStyles: Record<ReviewStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  published: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+}
+
+export type ReviewDimension = "instructor" | "facilities" | "content"
+
+export const reviewDimensionLabels: Record<ReviewDimension, MessageKey> = {
+  instructor: "reviews.dimension.instructor",
+  facilities: "reviews.dimension.facilities",
+  content: "reviews.dimension.content",
+}
+
+export const reviewDimensions = Object.keys(reviewDimensionLabels) as ReviewDimension[]
+
+export interface ProgramReview {
+  id: string
+  programId: string
+  enrollmentId: string
+  userId: string
+  /** First name and last initial, captured when the review is written. */
+  reviewerName: string
+  ratings: Record<ReviewDimension, number>
+  /** Average of the three dimensions, to one decimal place. */
+  rating: number
+  comment: string
+  status: ReviewStatus
+  moderationNote: string | null
+  moderatedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type ProgramReviewRow = {
+  id: string
+  program_id: string
+  enrollment_id: string
+  user_id: string
+  reviewer_name: string
+  instructor_rating: number
+  facilities_rating: number
+  content_rating: number
+  rating: number
+  comment: string
+  status: ReviewStatus
+  moderation_note: string | null
+  moderated_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReviewStats {
+  reviewCount: number
+  averageRating: number
+  averages: Record<ReviewDimension, number>
+  /** Published reviews per rounded star, index 0 holding one-star reviews. */
+  distribution: number[]
+}
+
+type ReviewStatsRow = {
+  review_count: number
+  average_rating: number
+  average_instructor: number
+  average_facilities: number
+  average_content: number
+  distribution: number[]
+}
+
+export const emptyReviewStats: ReviewStats = {
+  reviewCount: 0,
+  averageRating: 0,
+  averages: { instructor: 0, facilities: 0, content: 0 },
+  distribution: [0, 0, 0, 0, 0],
+}
+
+export interface ReviewInput {
+  enrollmentId: string
+  ratings: Record<ReviewDimension, number>
+  comment: string
+}
+
+export const toProgramReview = (row: ProgramReviewRow): ProgramReview => ({
+  id: row.id,
+  programId: row.program_id,
+  enrollmentId: row.enrollment_id,
+  userId: row.user_id,
+  reviewerName: row.reviewer_name,
+  ratings: {
+    instructor: row.instructor_rating,
+    facilities: row.facilities_rating,
+    content: row.content_rating,
+  },
+  rating: Number(row.rating),
+  comment: row.comment,
+  status: row.status,
+  moderationNote: row.moderation_note,
+  moderatedAt: row.moderated_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+export const fetchPublishedReviews = async (programId: string): Promise<ProgramReview[]> => {
+  const { data, error } = await supabase
+    .from("program_reviews")
+    .select("*")
+    .eq("program_id", programId)
+    .eq("status", "published")
+    .order("created_at", { ascending: false })
+
+  if (error) throw error
+  return (data as ProgramReviewRow[]).map(toProgramReview)
+}
+
+export const fetchReviewStats = async (programId: string): Promise<ReviewStats> => {
+  const { data, error } = await supabase
+    .from("program_review_stats")
+    .select("*")
+    .eq("program_id", programId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return emptyReviewStats
+
+  const row = data as ReviewStatsRow
+  return {
+    reviewCount: row.review_count,
+    averageRating: Number(row.average_rating),
+    averages: {
+      instructor: Number(row.average_instructor),
+      facilities: Number(row.average_facilities),
+      content: Number(row.average_content),
+    },
+    distribution: row.distribution,
+  }
+}
+
+// Row-level security limits a trainee to their own reviews, whatever their status.
+export const fetchUserReviews = async (userId: string): Promise<ProgramReview[]> => {
+  const { data, error } = await supabase
+    .from("program_reviews")
+    .select("*")
+    .eq("user_id", userId)
+
+  if (error) throw error
+  return (data as ProgramReviewRow[]).map(toProgramReview)
+}
+
+export const fetchReviewsForModeration = async (programId: string, status: ReviewStatus): Promise<ProgramReview[]> => {
+  const { data, error } = await supabase
+    .from("program_reviews")
+    .select("*")
+    .eq("program_id", programId)
+    .eq("status", status)
+    .order("updated_at", { ascending: true })
+
+  if (error) throw error
+  return (data as ProgramReviewRow[]).map(toProgramReview)
+}
+
+// The database checks the enrollment is the caller's and completed; editing a
+// review sends it back for moderation.
+export const submitReview = async (input: ReviewInput): Promise<ProgramReview> => {
+  const { data, error } = await supabase.rpc("submit_program_review", {
+    p_enrollment_id: input.enrollmentId,
+    p_instructor_rating: input.ratings.instructor,
+    p_facilities_rating: input.ratings.facilities,
+    p_content_rating: input.ratings.content,
+    p_comment: input.comment,
+  })
+
+  if (error) throw error
+  return toProgramReview(data as ProgramReviewRow)
+}
+
+export const moderateReview = async (
+  id: string,
+  status: Exclude<ReviewStatus, "pending">,
+  moderationNote: string | null,
+  moderatedBy: string
+) => {
+  const { error } = await supabase
+    .from("program_reviews")
+    .update({
+      status,
+      moderation_note: moderationNote,
+      moderated_by: moderatedBy,
+      moderated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+
+  if (error) throw error
+}
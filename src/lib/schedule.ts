@@ -0,0 +1,157 @@
+import { supabase } from "@/lib/supabaseClient"
+
+export type CohortStatus = "open" | "closed" | "cancelled"
+
+export interface TrainingCohort {
+  id: string
+  programId: string
+  programTitle: string
+  programSlug: string
+  programCategory: string
+  code: string
+  startDate: string
+  endDate: string
+  location: string
+  venue: string
+  instructors: string[]
+  capacity: number
+  status: CohortStatus
+  seatsTaken: number
+  seatsRemaining: number
+  waitlistCount: number
+}
+
+export type TrainingCohortRow = {
+  id: string
+  program_id: string
+  program_title: string
+  program_slug: string
+  program_category: string
+  code: string
+  start_date: string
+  end_date: string
+  location: string
+  venue: string
+  instructors: string[] | null
+  capacity: number
+  status: CohortStatus
+  seats_taken: number
+  seats_remaining: number
+  waitlist_count: number
+}
+
+export interface TrainingSession {
+  id: string
+  cohortId: string
+  title: string
+  startsAt: string
+  endsAt: string
+  venue: string
+  instructor: string | null
+}
+
+export type TrainingSessionRow = {
+  id: string
+  cohort_id: string
+  title: string
+  starts_at: string
+  ends_at: string
+  venue: string
+  instructor: string | null
+}
+
+export type ScheduleFilters = {
+  programId?: string
+  /** Include cohorts that have already started, e.g. for completion and certification. */
+  includePast?: boolean
+  /** Fetch exactly these cohorts, whatever their dates or status. */
+  cohortIds?: string[]
+}
+
+export const toTrainingCohort = (row: TrainingCohortRow): TrainingCohort => ({
+  id: row.id,
+  programId: row.program_id,
+  programTitle: row.program_title,
+  programSlug: row.program_slug,
+  programCategory: row.program_category,
+  code: row.code,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  location: row.location,
+  venue: row.venue,
+  instructors: row.instructors ?? [],
+  capacity: row.capacity,
+  status: row.status,
+  seatsTaken: row.seats_taken,
+  seatsRemaining: row.seats_remaining,
+  waitlistCount: row.waitlist_count,
+})
+
+export const toTrainingSession = (row: TrainingSessionRow): TrainingSession => ({
+  id: row.id,
+  cohortId: row.cohort_id,
+  title: row.title,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  venue: row.venue,
+  instructor: row.instructor,
+})
+
+// New enrollments queue behind anyone already waiting, even if a seat is free.
+export const isCohortWaitlisted = (cohort: TrainingCohort) => cohort.seatsRemaining === 0 || cohort.waitlistCount > 0
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+// Upcoming open cohorts by default, soonest first. Seat counts come from the
+// `training_cohort_availability` view, which sees every enrollment regardless
+// of who is asking.
+export const fetchCohorts = async ({
+  programId,
+  includePast,
+  cohortIds,
+}: ScheduleFilters = {}): Promise<TrainingCohort[]> => {
+  let query = supabase
+    .from("training_cohort_availability")
+    .select("*")
+    .order("start_date", { ascending: !includePast })
+
+  if (cohortIds) query = query.in("id", cohortIds)
+  else if (!includePast) query = query.eq("status", "open").gt("start_date", today())
+  if (programId) query = query.eq("program_id", programId)
+
+  const { data, error } = await query
+
+  if (error) throw error
+  return (data as TrainingCohortRow[]).map(toTrainingCohort)
+}
+
+export const fetchCohort = async (cohortId: string): Promise<TrainingCohort | null> => {
+  const { data, error } = await supabase
+    .from("training_cohort_availability")
+    .select("*")
+    .eq("id", cohortId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toTrainingCohort(data as TrainingCohortRow) : null
+}
+
+export const fetchCohortSessions = async (cohortIds: string[]): Promise<TrainingSession[]> => {
+  if (cohortIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from("training_sessions")
+    .select("*")
+    .in("cohort_id", cohortIds)
+    .order("starts_at", { ascending: true })
+
+  if (error) throw error
+  return (data as TrainingSessionRow[]).map(toTrainingSession)
+}
+
+export const fetchTrainingSession = async (sessionId: string): Promise<TrainingSession | null> => {
+  const { data, error } = await supabase.from("training_sessions").select("*").eq("id", sessionId).maybeSingle()
+
+  if (error) throw error
+  return data ? toTrainingSession(data as TrainingSessionRow) : null
+}
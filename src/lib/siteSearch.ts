@@ -0,0 +1,152 @@
+import type { NewsArticle } from "@/data/newsData"
+import type { TeamMember } from "@/data/teamData"
+import type { TrainingProgram } from "@/data/trainingData"
+import type { I18n } from "@/lib/i18n"
+import type { MessageKey } from "@/locales/en"
+
+export type SearchGroup = "programs" | "certifications" | "news" | "team" | "pages"
+
+export const searchGroupLabels: Record<SearchGroup, MessageKey> = {
+  programs: "search.group.programs",
+  certifications: "search.group.certifications",
+  news: "search.group.news",
+  team: "search.group.team",
+  pages: "search.group.pages",
+}
+
+export interface SearchResult {
+  /** Unique across every group; also the cmdk item value. */
+  id: string
+  group: SearchGroup
+  label: string
+  description: string
+  to: string
+  /** Extra text that should match but is not displayed. */
+  keywords: string[]
+}
+
+// Public pages and home page sections. Account pages are added per user from
+// the header's role-aware links.
+const siteSections: { id: string; label: MessageKey; description: MessageKey; to: string; keywords: string[] }[] = [
+  { id: "page:home", label: "search.page.home", description: "search.page.homeDescription", to: "/", keywords: [] },
+  { id: "page:about", label: "search.page.about", description: "search.page.aboutDescription", to: "/#about", keywords: ["history", "mission"] },
+  { id: "page:services", label: "search.page.services", description: "search.page.servicesDescription", to: "/#services", keywords: [] },
+  { id: "page:team", label: "search.page.team", description: "search.page.teamDescription", to: "/#team", keywords: ["instructors", "staff"] },
+  { id: "page:contact", label: "search.page.contact", description: "search.page.contactDescription", to: "/#contact", keywords: ["address", "email", "phone"] },
+  { id: "page:training", label: "search.page.training", description: "search.page.trainingDescription", to: "/training", keywords: ["courses", "catalog"] },
+  { id: "page:compare", label: "search.page.compare", description: "search.page.compareDescription", to: "/training/compare", keywords: ["procurement"] },
+  { id: "page:schedule", label: "search.page.schedule", description: "search.page.scheduleDescription", to: "/schedule", keywords: ["calendar", "dates", "cohorts"] },
+  { id: "page:news", label: "search.page.news", description: "search.page.newsDescription", to: "/news", keywords: ["articles"] },
+  { id: "page:verify", label: "search.page.verify", description: "search.page.verifyDescription", to: "/verify", keywords: ["validate", "qr"] },
+]
+
+export const toSiteSectionResults = (t: I18n["t"]): SearchResult[] =>
+  siteSections.map((section) => ({
+    ...section,
+    group: "pages",
+    label: t(section.label),
+    description: t(section.description),
+  }))
+
+export const toProgramResults = (programs: TrainingProgram[]): SearchResult[] =>
+  programs.map((program) => ({
+    id: `program:${program.id}`,
+    group: "programs",
+    label: program.title,
+    description: `${program.level} · ${program.duration}`,
+    to: `/training/${program.slug}`,
+    keywords: [program.category, program.certification, ...program.tags],
+  }))
+
+export const toCertificationResults = (programs: TrainingProgram[]): SearchResult[] =>
+  programs.flatMap((program) =>
+    program.certifications_details.map((certificate, index) => ({
+      id: `certification:${program.id}:${index}`,
+      group: "certifications" as const,
+      label: certificate.name,
+      description: `${certificate.issuer} · ${program.title}`,
+      to: `/training/${program.slug}`,
+      keywords: [certificate.issuer],
+    }))
+  )
+
+export const toNewsResults = (articles: NewsArticle[]): SearchResult[] =>
+  articles.map((article) => ({
+    id: `news:${article.id}`,
+    group: "news",
+    label: article.title,
+    description: article.category,
+    to: `/news/${article.id}`,
+    keywords: [article.description],
+  }))
+
+export const toTeamResults = (members: TeamMember[]): SearchResult[] =>
+  members.map((member) => ({
+    id: `team:${member.name}`,
+    group: "team",
+    label: member.name,
+    description: member.position,
+    to: "/#team",
+    keywords: [...member.specialties, ...member.certifications],
+  }))
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-/&(]/.test(text[index - 1])
+const NON_SUBSTRING_MAX = 0.85
+
+// 1 for a match at a word start, a little less mid-word, and for characters
+// that only appear in order ("fir inv" → "Fire Investigation") a score that
+// rewards consecutive runs and word starts. 0 means no match.
+export const fuzzyScore = (text: string, query: string) => {
+  const haystack = text.toLowerCase()
+  const needle = query.trim().toLowerCase()
+  if (!needle) return 1
+
+  const index = haystack.indexOf(needle)
+  if (index !== -1) return isWordStart(haystack, index) ? 1 : 0.9
+
+  const characters = needle.replace(/\s+/g, "")
+  let score = 0
+  let position = 0
+  let previous = -2
+  for (const character of characters) {
+    const found = haystack.indexOf(character, position)
+    if (found === -1) return 0
+    score += found === previous + 1 ? 1 : isWordStart(haystack, found) ? 0.8 : 0.3
+    previous = found
+    position = found + 1
+  }
+  return (NON_SUBSTRING_MAX * score) / characters.length
+}
+
+// Matches on hidden keywords rank below matches on the visible label.
+export const scoreSearchResult = (label: string, keywords: string[], query: string) =>
+  Math.max(fuzzyScore(label, query), ...keywords.map((keyword) => fuzzyScore(keyword, query) * 0.7))
+
+const RECENT_SEARCHES_KEY = "site-search:recent"
+const MAX_RECENT_SEARCHES = 5
+
+export type RecentSearch = Pick<SearchResult, "id" | "group" | "label" | "description" | "to">
+
+export const loadRecentSearches = (): RecentSearch[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(RECENT_SEARCHES_KEY) ?? "[]")
+    return Array.isArray(stored) ? stored.slice(0, MAX_RECENT_SEARCHES) : []
+  } catch {
+    return []
+  }
+}
+
+export const saveRecentSearch = (result: SearchResult): RecentSearch[] => {
+  const recent: RecentSearch = {
+    id: result.id,
+    group: result.group,
+    label: result.label,
+    description: result.description,
+    to: result.to,
+  }
+  const next = [recent, ...loadRecentSearches().filter((item) => item.id !== result.id)].slice(0, MAX_RECENT_SEARCHES)
+  window.localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(next))
+  return next
+}
+
+export const clearRecentSearches = () => window.localStorage.removeItem(RECENT_SEARCHES_KEY)
@@ -0,0 +1,224 @@
+import { supabase } from "@/lib/supabaseClient"
+import type { MessageKey } from "@/locales/en"
+
+export interface SkillStep {
+  id: string
+  description: string
+  points: number
+  // Failing a critical step fails the whole skill regardless of score.
+  critical: boolean
+}
+
+export interface SkillSheet {
+  id: string
+  programId: string
+  title: string
+  description: string
+  steps: SkillStep[]
+  timeLimitSeconds: number | null
+  passingScore: number
+  required: boolean
+  sortOrder: number
+}
+
+export type SkillSheetRow = {
+  id: string
+  program_id: string
+  title: string
+  description: string
+  steps: SkillStep[]
+  time_limit_seconds: number | null
+  passing_score: number
+  required: boolean
+  sort_order: number
+}
+
+export interface SkillEvaluation {
+  id: string
+  sheetId: string
+  enrollmentId: string
+  userId: string
+  stepResults: Record<string, boolean>
+  timeSeconds: number | null
+  earnedPoints: number
+  totalPoints: number
+  score: number
+  criticalFailures: string[]
+  passed: boolean
+  notes: string
+  evaluatorName: string
+  signedOffAt: string
+}
+
+export type SkillEvaluationRow = {
+  id: string
+  sheet_id: string
+  enrollment_id: string
+  user_id: string
+  step_results: Record<string, boolean>
+  time_seconds: number | null
+  earned_points: number
+  total_points: number
+  score: number
+  critical_failures: string[]
+  passed: boolean
+  notes: string
+  evaluator_name: string
+  signed_off_at: string
+}
+
+export type SkillStanding = "passed" | "failed" | "not_evaluated"
+
+export const skillStandingLabels: Record<SkillStanding, MessageKey> = {
+  passed: "skills.standing.passed",
+  failed: "skills.standing.failed",
+  not_evaluated: "skills.standing.not_evaluated",
+}
+
+export const skillStandingStyles: Record<SkillStanding, string> = {
+  passed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  not_evaluated: "bg-gray-100 text-gray-800",
+}
+
+export const toSkillSheet = (row: SkillSheetRow): SkillSheet => ({
+  id: row.id,
+  programId: row.program_id,
+  title: row.title,
+  description: row.description,
+  steps: row.steps ?? [],
+  timeLimitSeconds: row.time_limit_seconds,
+  passingScore: row.passing_score,
+  required: row.required,
+  sortOrder: row.sort_order,
+})
+
+export const toSkillEvaluation = (row: SkillEvaluationRow): SkillEvaluation => ({
+  id: row.id,
+  sheetId: row.sheet_id,
+  enrollmentId: row.enrollment_id,
+  userId: row.user_id,
+  stepResults: row.step_results ?? {},
+  timeSeconds: row.time_seconds === null ? null : Number(row.time_seconds),
+  earnedPoints: row.earned_points,
+  totalPoints: row.total_points,
+  score: row.score,
+  criticalFailures: row.critical_failures ?? [],
+  passed: row.passed,
+  notes: row.notes,
+  evaluatorName: row.evaluator_name,
+  signedOffAt: row.signed_off_at,
+})
+
+// Mirrors `record_skill_evaluation` so instructors see the outcome before
+// signing off; the server's result is the one that counts.
+export const scoreSkillEvaluation = (
+  sheet: SkillSheet,
+  stepResults: Record<string, boolean>,
+  timeSeconds: number | null
+) => {
+  const total = sheet.steps.reduce((sum, step) => sum + step.points, 0)
+  const earned = sheet.steps.filter((step) => stepResults[step.id]).reduce((sum, step) => sum + step.points, 0)
+  const score = total > 0 ? Math.round((earned / total) * 100) : 0
+  const criticalFailures = sheet.steps.filter((step) => step.critical && !stepResults[step.id])
+  const isOverTime = sheet.timeLimitSeconds !== null && (timeSeconds === null || timeSeconds > sheet.timeLimitSeconds)
+  return {
+    score,
+    criticalFailures,
+    isOverTime,
+    passed: score >= sheet.passingScore && criticalFailures.length === 0 && !isOverTime,
+  }
+}
+
+// Evaluations arrive newest first, so the first match is the latest.
+export const getSkillStanding = (sheet: SkillSheet, enrollmentId: string, evaluations: SkillEvaluation[]) => {
+  const own = evaluations.filter(
+    (evaluation) => evaluation.sheetId === sheet.id && evaluation.enrollmentId === enrollmentId
+  )
+  const passedEvaluation = own.find((evaluation) => evaluation.passed)
+  const standing: SkillStanding = passedEvaluation ? "passed" : own.length > 0 ? "failed" : "not_evaluated"
+  return { standing, latest: passedEvaluation ?? own[0], evaluations: own }
+}
+
+export const formatSeconds = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${(seconds % 60).toFixed(0)}s` : `${seconds.toFixed(1)}s`
+
+export const fetchProgramSkillSheets = async (programId: string): Promise<SkillSheet[]> => {
+  const { data, error } = await supabase
+    .from("skill_sheets")
+    .select("*")
+    .eq("program_id", programId)
+    .order("sort_order", { ascending: true })
+
+  if (error) throw error
+  return (data as SkillSheetRow[]).map(toSkillSheet)
+}
+
+export const fetchSkillEvaluations = async (enrollmentIds: string[]): Promise<SkillEvaluation[]> => {
+  if (enrollmentIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from("skill_evaluations")
+    .select("*")
+    .in("enrollment_id", enrollmentIds)
+    .order("signed_off_at", { ascending: false })
+
+  if (error) throw error
+  return (data as SkillEvaluationRow[]).map(toSkillEvaluation)
+}
+
+export type SkillEvaluationInput = {
+  sheetId: string
+  enrollmentId: string
+  stepResults: Record<string, boolean>
+  timeSeconds: number | null
+  notes: string
+  /** When the instructor signed it off; queued sign-offs keep this rather than the sync time. */
+  evaluatedAt?: string
+  /** Lets the server store a sign-off that is sent again, e.g. replayed from the queue, only once. */
+  clientId?: string
+}
+
+export const recordSkillEvaluation = async (input: SkillEvaluationInput): Promise<SkillEvaluation> => {
+  const { data, error } = await supabase.rpc("record_skill_evaluation", {
+    p_sheet_id: input.sheetId,
+    p_enrollment_id: input.enrollmentId,
+    p_step_results: input.stepResults,
+    p_time_seconds: input.timeSeconds,
+    p_notes: input.notes,
+    p_evaluated_at: input.evaluatedAt ?? null,
+    p_client_id: input.clientId ?? null,
+  })
+
+  if (error) throw error
+  return toSkillEvaluation(data as SkillEvaluationRow)
+}
+
+export type SkillSheetInput = Omit<SkillSheet, "id">
+
+const toSkillSheetRowInput = (input: SkillSheetInput) => ({
+  program_id: input.programId,
+  title: input.title,
+  description: input.description,
+  steps: input.steps,
+  time_limit_seconds: input.timeLimitSeconds,
+  passing_score: input.passingScore,
+  required: input.required,
+  sort_order: input.sortOrder,
+  updated_at: new Date().toISOString(),
+})
+
+export const saveSkillSheet = async (id: string | undefined, input: SkillSheetInput) => {
+  const { data, error } = id
+    ? await supabase.from("skill_sheets").update(toSkillSheetRowInput(input)).eq("id", id).select("*").single()
+    : await supabase.from("skill_sheets").insert(toSkillSheetRowInput(input)).select("*").single()
+
+  if (error) throw error
+  return toSkillSheet(data as SkillSheetRow)
+}
+
+export const deleteSkillSheet = async (id: string) => {
+  const { error } = await supabase.from("skill_sheets").delete().eq("id", id)
+
+  if (error) throw error
+}
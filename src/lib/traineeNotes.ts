@@ -0,0 +1,71 @@
+import { supabase } from "@/lib/supabaseClient"
+
+// Instructor notes about a trainee's seat. Staff-only: trainees never see them.
+export interface TraineeNote {
+  id: string
+  enrollmentId: string
+  body: string
+  authorId: string | null
+  authorName: string
+  createdAt: string
+}
+
+export type TraineeNoteRow = {
+  id: string
+  enrollment_id: string
+  body: string
+  author_id: string | null
+  author_name: string
+  created_at: string
+}
+
+export const toTraineeNote = (row: TraineeNoteRow): TraineeNote => ({
+  id: row.id,
+  enrollmentId: row.enrollment_id,
+  body: row.body,
+  authorId: row.author_id,
+  authorName: row.author_name,
+  createdAt: row.created_at,
+})
+
+export const fetchTraineeNotes = async (enrollmentIds: string[]): Promise<TraineeNote[]> => {
+  if (enrollmentIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from("trainee_notes")
+    .select("*")
+    .in("enrollment_id", enrollmentIds)
+    .order("created_at", { ascending: false })
+
+  if (error) throw error
+  return (data as TraineeNoteRow[]).map(toTraineeNote)
+}
+
+export type TraineeNoteInput = {
+  enrollmentId: string
+  body: string
+  authorId: string
+  authorName: string
+}
+
+export const addTraineeNote = async (input: TraineeNoteInput): Promise<TraineeNote> => {
+  const { data, error } = await supabase
+    .from("trainee_notes")
+    .insert({
+      enrollment_id: input.enrollmentId,
+      body: input.body,
+      author_id: input.authorId,
+      author_name: input.authorName,
+    })
+    .select("*")
+    .single()
+
+  if (error) throw error
+  return toTraineeNote(data as TraineeNoteRow)
+}
+
+export const deleteTraineeNote = async (id: string) => {
+  const { error } = await supabase.from("trainee_notes").delete().eq("id", id)
+
+  if (error) throw error
+}
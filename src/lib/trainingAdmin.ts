@@ -0,0 +1,71 @@
+import { supabase } from "@/lib/supabaseClient"
+import { toTrainingProgram, type TrainingProgramRow } from "@/lib/trainingCatalog"
+import type { TrainingProgram } from "@/data/trainingData"
+
+// Rating and review counts are derived from trainee feedback, not edited here.
+export type TrainingProgramInput = Omit<TrainingProgram, "id" | "rating" | "reviews">
+
+const toRowInput = (input: TrainingProgramInput) => ({
+  slug: input.slug,
+  icon: input.icon,
+  title: input.title,
+  description: input.description,
+  duration: input.duration,
+  level: input.level,
+  certification: input.certification,
+  location: input.location,
+  price: input.price,
+  featured: input.featured,
+  category: input.category,
+  instructor: input.instructor,
+  start_date: input.startDate,
+  image: input.image || null,
+  tags: input.tags,
+  certifications_details: input.certifications_details,
+  syllabus: input.syllabus,
+  min_attendance_percent: input.minAttendancePercent,
+  prerequisites: input.prerequisites,
+  translations: input.translations ?? {},
+  updated_at: new Date().toISOString(),
+})
+
+export const fetchAdminTrainingPrograms = async (): Promise<TrainingProgram[]> => {
+  const { data, error } = await supabase
+    .from("training_programs")
+    .select("*")
+    .order("sort_order", { ascending: true })
+
+  if (error) throw error
+  return (data as TrainingProgramRow[]).map(toTrainingProgram)
+}
+
+export const createTrainingProgram = async (input: TrainingProgramInput) => {
+  const { data, error } = await supabase
+    .from("training_programs")
+    .insert(toRowInput(input))
+    .select("*")
+    .single()
+
+  if (error) throw error
+  return toTrainingProgram(data as TrainingProgramRow)
+}
+
+export const updateTrainingProgram = async (id: string, input: TrainingProgramInput) => {
+  const { data, error } = await supabase
+    .from("training_programs")
+    .update(toRowInput(input))
+    .eq("id", id)
+    .select("*")
+    .single()
+
+  if (error) throw error
+  return toTrainingProgram(data as TrainingProgramRow)
+}
+
+export const uploadTrainingAsset = async (file: File, folder: "images" | "certificates" | "quizzes") => {
+  const path = `${folder}/${Date.now()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, "-")}`
+  const { error } = await supabase.storage.from("training-assets").upload(path, file)
+
+  if (error) throw error
+  return supabase.storage.from("training-assets").getPublicUrl(path).data.publicUrl
+}
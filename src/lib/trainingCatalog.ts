@@ -0,0 +1,98 @@
+import { supabase } from "@/lib/supabaseClient"
+import {
+  trainingPrograms as seedPrograms,
+  type CertificateDetail,
+  type SyllabusModule,
+  type TrainingIconName,
+  type TrainingProgram,
+} from "@/data/trainingData"
+
+export interface TrainingProgramRow {
+  id: string
+  slug: string
+  icon: string
+  title: string
+  description: string
+  duration: string
+  level: TrainingProgram["level"]
+  certification: string
+  location: string
+  rating: number
+  reviews: number
+  price: number
+  featured: boolean
+  category: string
+  instructor: string
+  start_date: string
+  image: string | null
+  tags: string[] | null
+  certifications_details: CertificateDetail[] | null
+  syllabus: SyllabusModule[] | null
+  min_attendance_percent: number | null
+  prerequisites: string[] | null
+  translations: TrainingProgram["translations"] | null
+  sort_order: number
+}
+
+// Slugs that were used by older pages before the catalog was merged.
+const legacySlugs: Record<string, string> = {
+  "hazmat-operations": "hazardous-materials-response",
+}
+
+export const resolveTrainingSlug = (slug: string) => legacySlugs[slug] ?? slug
+
+export const toTrainingProgram = (row: TrainingProgramRow): TrainingProgram => ({
+  id: String(row.id),
+  slug: row.slug,
+  icon: row.icon as TrainingIconName,
+  title: row.title,
+  description: row.description,
+  duration: row.duration,
+  level: row.level,
+  certification: row.certification,
+  location: row.location,
+  rating: Number(row.rating),
+  reviews: row.reviews,
+  price: Number(row.price),
+  featured: row.featured,
+  category: row.category,
+  instructor: row.instructor,
+  startDate: row.start_date,
+  image: row.image ?? "/placeholder.svg",
+  tags: row.tags ?? [],
+  certifications_details: row.certifications_details ?? [],
+  syllabus: row.syllabus ?? [],
+  minAttendancePercent: row.min_attendance_percent ?? 80,
+  prerequisites: row.prerequisites ?? [],
+  translations: row.translations ?? {},
+})
+
+export const fetchTrainingPrograms = async (): Promise<TrainingProgram[]> => {
+  const { data, error } = await supabase
+    .from("training_programs")
+    .select("*")
+    .order("sort_order", { ascending: true })
+
+  if (error) {
+    console.error("Error loading training programs, using offline catalog:", error)
+    return seedPrograms
+  }
+
+  return (data as TrainingProgramRow[]).map(toTrainingProgram)
+}
+
+export const fetchTrainingProgram = async (slug: string): Promise<TrainingProgram | null> => {
+  const resolvedSlug = resolveTrainingSlug(slug)
+  const { data, error } = await supabase
+    .from("training_programs")
+    .select("*")
+    .eq("slug", resolvedSlug)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error loading training program, using offline catalog:", error)
+    return seedPrograms.find((program) => program.slug === resolvedSlug) ?? null
+  }
+
+  return data ? toTrainingProgram(data as TrainingProgramRow) : null
+}
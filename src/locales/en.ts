@@ -0,0 +1,914 @@
+// English is the source catalog: every other locale must translate each key.
+// Placeholders in braces are filled by `t(key, { name: value })`.
+export const en = {
+  "common.back": "Back",
+  "common.previous": "Previous",
+  "common.next": "Next",
+  "common.reset": "Reset",
+  "common.all": "All",
+  "common.featured": "Featured",
+  "common.pageOf": "Page {page} of {total}",
+  "common.search": "Search",
+  "common.cancel": "Cancel",
+
+  "header.language": "Language",
+  "header.theme": "Theme",
+  "header.themeLight": "Light",
+  "header.themeDark": "Dark",
+  "header.themeSystem": "System",
+  "header.trainingPrograms": "Training Programs",
+  "header.fireSafetyTraining": "Fire Safety Training",
+  "header.fireSafetyTrainingDescription": "Comprehensive fire safety and emergency response training programs.",
+  "header.hseCertification": "HSE Certification",
+  "header.hseCertificationDescription": "Health, safety, and environmental certification programs.",
+  "header.emergencyResponse": "Emergency Response",
+  "header.emergencyResponseDescription": "Advanced emergency response and crisis management.",
+  "header.services": "Services",
+  "header.consultation": "Consultation",
+  "header.consultationDescription": "Professional safety consultation and assessment services.",
+  "header.documentation": "Documentation",
+  "header.documentationDescription": "Safety documentation and compliance management.",
+  "header.certification": "Certification",
+  "header.certificationDescription": "Professional certification and accreditation programs.",
+  "header.riskAssessment": "Risk Assessment",
+  "header.riskAssessmentDescription": "Comprehensive workplace risk assessment and mitigation.",
+  "header.schedule": "Schedule",
+  "header.news": "News",
+  "header.contact": "Contact",
+  "header.joinUs": "Join Us",
+  "header.logout": "Logout",
+  "header.myDashboard": "My Dashboard",
+  "header.myCertificates": "My Certificates",
+  "header.myClasses": "My Classes",
+  "header.cohortProgress": "Cohort Progress",
+  "header.skillSignOff": "Skill Sign-Off",
+  "header.manageTraining": "Manage Training",
+  "header.waitlists": "Waitlists",
+  "header.quizzes": "Quizzes & Exams",
+  "header.skillSheets": "Skill Sheets",
+  "header.reviewModeration": "Review Moderation",
+  "header.issueCertificates": "Issue Certificates",
+  "header.newsroom": "Newsroom",
+
+  "offline.online": "Online",
+  "offline.offline": "Offline",
+  "offline.offlineNotice": "You're offline. Showing saved data.",
+  "offline.backOnline": "Back online",
+  "offline.pending.one": "{count} change waiting to sync",
+  "offline.pending.other": "{count} changes waiting to sync",
+  "offline.syncing": "Syncing offline changes...",
+  "offline.syncNow": "Sync now",
+  "offline.rejectedTitle": "Some Offline Changes Were Rejected",
+  "offline.rejectedText": "These changes were recorded offline but the server did not accept them:",
+
+  "search.placeholder": "Search programs, certifications, news, people...",
+  "search.noResults": "No results for \"{search}\".",
+  "search.recent": "Recent Searches",
+  "search.clearRecent": "Clear recent searches",
+  "search.yourAccount": "Your account",
+  "search.title": "Search",
+  "search.description": "Search training programs, certifications, news, our team and site pages.",
+  "search.group.programs": "Training Programs",
+  "search.group.certifications": "Certifications",
+  "search.group.news": "News",
+  "search.group.team": "Our Team",
+  "search.group.pages": "Pages",
+  "search.page.home": "Home",
+  "search.page.homeDescription": "Fire Training Ground home page",
+  "search.page.about": "About Us",
+  "search.page.aboutDescription": "Who we are",
+  "search.page.services": "Services",
+  "search.page.servicesDescription": "Consultation, documentation and risk assessment",
+  "search.page.team": "Our Team",
+  "search.page.teamDescription": "Instructors and consultants",
+  "search.page.contact": "Contact",
+  "search.page.contactDescription": "Phone, email and location",
+  "search.page.training": "Training Programs",
+  "search.page.trainingDescription": "Browse the full catalog",
+  "search.page.compare": "Compare Programs",
+  "search.page.compareDescription": "Side-by-side comparison and export",
+  "search.page.schedule": "Schedule",
+  "search.page.scheduleDescription": "Upcoming cohorts and sessions",
+  "search.page.news": "News",
+  "search.page.newsDescription": "Latest news and announcements",
+  "search.page.verify": "Verify a Certificate",
+  "search.page.verifyDescription": "Check a certificate's verification code",
+
+  "auth.welcomeBack": "Welcome Back",
+  "auth.createAccount": "Create Account",
+  "auth.signInSubtitle": "Sign in to access your HSE training dashboard",
+  "auth.registerSubtitle": "Join our HSE training community",
+  "auth.continueWithGoogle": "Continue with Google",
+  "auth.continueWithFacebook": "Continue with Facebook",
+  "auth.connectingTo": "Connecting to {provider}...",
+  "auth.orContinueWithEmail": "or continue with email",
+  "auth.login": "Login",
+  "auth.register": "Register",
+  "auth.fullName": "Full Name",
+  "auth.fullNamePlaceholder": "Enter your full name",
+  "auth.phone": "Phone Number",
+  "auth.phonePlaceholder": "Enter your phone number",
+  "auth.email": "Email Address",
+  "auth.emailPlaceholder": "Enter your email",
+  "auth.password": "Password",
+  "auth.passwordPlaceholder": "Enter your password",
+  "auth.confirmPassword": "Confirm Password",
+  "auth.confirmPasswordPlaceholder": "Confirm your password",
+  "auth.passwordStrength": "Password Strength",
+  "auth.strength.veryWeak": "Very Weak",
+  "auth.strength.weak": "Weak",
+  "auth.strength.fair": "Fair",
+  "auth.strength.good": "Good",
+  "auth.strength.strong": "Strong",
+  "auth.requirements": "Requirements:",
+  "auth.requirement.length": "At least 8 characters",
+  "auth.requirement.uppercase": "One uppercase letter",
+  "auth.requirement.lowercase": "One lowercase letter",
+  "auth.requirement.number": "One number",
+  "auth.requirement.special": "One special character",
+  "auth.rememberMe": "Remember me",
+  "auth.agreeTo": "I agree to the",
+  "auth.terms": "Terms & Conditions",
+  "auth.forgotPassword": "Forgot password?",
+  "auth.signingIn": "Signing In...",
+  "auth.creatingAccount": "Creating Account...",
+  "auth.signIn": "Sign In",
+  "auth.noAccount": "Don't have an account?",
+  "auth.haveAccount": "Already have an account?",
+  "auth.signUpLink": "Sign up",
+  "auth.signInLink": "Sign in",
+
+  "auth.validation.emailFormat": "Please enter a valid email format",
+  "auth.validation.emailCheckError": "Error checking email. Please try again.",
+  "auth.validation.emailTaken": "This email is already registered",
+  "auth.validation.emailAvailable": "Email is available",
+  "auth.validation.phoneInvalid": "Please enter a valid phone number",
+  "auth.validation.phoneCheckError": "Error checking phone. Please try again.",
+  "auth.validation.phoneTaken": "This phone number is already registered",
+  "auth.validation.phoneAvailable": "Phone number is available",
+  "auth.validation.checking": "Checking availability...",
+  "auth.validation.emailAvailabilityError": "Error checking email availability",
+  "auth.validation.phoneAvailabilityError": "Error checking phone availability",
+  "auth.validation.emailRequired": "Email is required",
+  "auth.validation.emailInvalid": "Please enter a valid email address",
+  "auth.validation.passwordRequired": "Password is required",
+  "auth.validation.passwordRequirements": "Password must meet all requirements",
+  "auth.validation.fullNameRequired": "Full name is required",
+  "auth.validation.fullNameShort": "Full name must be at least 2 characters",
+  "auth.validation.confirmRequired": "Please confirm your password",
+  "auth.validation.passwordMismatch": "Passwords do not match",
+  "auth.validation.emailChecking": "Please wait while we check email availability",
+  "auth.validation.phoneChecking": "Please wait while we check phone availability",
+
+  "auth.alert.verifiedTitle": "Account verified",
+  "auth.alert.verifiedText": "Please sign in with your registered account.",
+  "auth.alert.loginSuccessTitle": "Signed in successfully!",
+  "auth.alert.loginSuccessText": "You will be redirected in 2 seconds.",
+  "auth.alert.socialFailedTitle": "{provider} Authentication Failed",
+  "auth.alert.socialFailedText": "There was an error connecting to your account. Please try again.",
+  "auth.alert.validationTitle": "Validation Error",
+  "auth.alert.validationText": "Please fix the errors in the form",
+  "auth.alert.notConfirmedTitle": "Email Not Confirmed",
+  "auth.alert.notConfirmedText": "Your account exists but you need to verify your email address before logging in.",
+  "auth.alert.resendButton": "Resend Verification Email",
+  "auth.alert.ok": "OK",
+  "auth.alert.resendFailedTitle": "Resend Failed",
+  "auth.alert.resendSentTitle": "Verification Email Sent!",
+  "auth.alert.resendSentText": "A new verification link has been sent to your email address. Please check your inbox.",
+  "auth.alert.loginFailedTitle": "Login Failed",
+  "auth.alert.loginFailedText": "Invalid email or password. Please try again.",
+  "auth.alert.registrationFailedTitle": "Registration Failed",
+  "auth.alert.registrationSuccessTitle": "Registration Successful!",
+  "auth.alert.registrationSuccessText": "Please check your email to verify your account.",
+
+  "catalog.title": "Training Programs",
+  "catalog.subtitle":
+    "Discover comprehensive emergency response training programs designed to prepare you for real-world challenges",
+  "catalog.searchPlaceholder": "Search programs, skills, or certifications...",
+  "catalog.filters": "Filters",
+  "catalog.sortBy": "Sort by",
+  "catalog.sort.featured": "Featured First",
+  "catalog.sort.rating": "Highest Rated",
+  "catalog.sort.priceLow": "Price: Low to High",
+  "catalog.sort.priceHigh": "Price: High to Low",
+  "catalog.sort.duration": "Duration",
+  "catalog.category": "Category",
+  "catalog.level": "Level",
+  "catalog.certification": "Certification",
+  "catalog.priceRange": "Price Range: {min} - {max}",
+  "catalog.featuredOnly": "Show featured programs only",
+  "catalog.new": "New",
+  "catalog.moreTags": "+{count} more",
+  "catalog.reviewCount.one": "{count} review",
+  "catalog.reviewCount.other": "{count} reviews",
+  "catalog.noReviews": "No reviews yet",
+  "catalog.remove": "Remove",
+  "catalog.compare": "Compare",
+  "catalog.learnMore": "Learn More",
+  "catalog.emptyTitle": "No programs found",
+  "catalog.emptyText": "Try adjusting your search criteria or filters to find more programs.",
+  "catalog.clearFilters": "Clear All Filters",
+  "catalog.showing": "Showing {from} to {to} of {total} programs",
+  "catalog.resultsFor": "Results for \"{search}\"",
+  "catalog.compareCount": "Compare ({count})",
+  "catalog.comparisonTitle": "Program Comparison",
+  "catalog.price": "Price",
+  "catalog.duration": "Duration",
+  "catalog.location": "Location",
+  "catalog.rating": "Rating",
+  "catalog.startDate": "Start Date",
+  "catalog.instructor": "Instructor",
+  "catalog.keySkills": "Key Skills",
+  "catalog.viewDetails": "View Details",
+  "catalog.compareTipLabel": "Tip:",
+  "catalog.compareTip":
+    "You can compare up to {max} programs. Add more programs from the list above to get a better comparison.",
+  "catalog.openComparison": "Open Full Comparison & Export",
+  "catalog.clearComparisons": "Clear All Comparisons",
+
+  "news.sectionTitle": "Latest News & Updates",
+  "news.title": "News & Updates",
+  "news.subtitle": "Stay informed about our latest developments, achievements, and initiatives",
+  "news.searchPlaceholder": "Search news...",
+  "news.filterByDate": "Filter by date",
+  "news.empty": "No news articles found matching your criteria.",
+  "news.readMore": "Read More",
+  "news.viewAll": "View All News",
+  "news.minRead": "{minutes} min read",
+  "news.tableOfContents": "In this article",
+  "news.notFound": "News article not found",
+  "news.returnHome": "Return Home",
+  "news.backToNews": "Back to News",
+
+  "home.hero.titleLead": "FIGHTING FOR THOSE ON",
+  "home.hero.titleAccent": "THE FRONTLINES",
+  "home.hero.subtitle":
+    "The Fire Training HSE Association represents one of the largest and most influential fire safety training organizations, advancing the rights and safety of firefighters across North America.",
+  "home.hero.whoWeAre": "WHO WE ARE",
+  "home.hero.joinUs": "JOIN US",
+  "home.hero.members": "Professional Members",
+  "home.hero.affiliates": "Affiliate Organizations",
+  "home.hero.populationProtected": "Population Protected",
+
+  "home.services.eyebrow": "PROFESSIONAL DEVELOPMENT",
+  "home.services.titleLead": "Training",
+  "home.services.titleAccent": "Programs",
+  "home.services.subtitle":
+    "Comprehensive training and certification programs designed to advance fire fighter skills, safety knowledge, and professional development at every career level.",
+  "home.services.duration": "Duration: {duration}",
+  "home.services.enrollNow": "Enroll Now",
+  "home.services.ctaTitle": "Ready to Advance Your Career?",
+  "home.services.ctaText":
+    "Join thousands of fire fighters who have advanced their careers through our professional training programs. Contact us today to discuss enrollment and certification pathways.",
+  "home.services.viewAll": "View All Programs",
+  "home.services.getInformation": "Get Information",
+
+  "home.about.eyebrow": "OUR PRIORITIES",
+  "home.about.titleLead": "What Matters Most to",
+  "home.about.titleAccent": "Fire Fighters",
+  "home.about.subtitle":
+    "Our commitment to fire fighter safety, health, and professional advancement drives everything we do. These are the core areas where we focus our advocacy, training, and support efforts.",
+  "home.about.safety.title": "Safety & Protection",
+  "home.about.safety.description":
+    "Fire fighters have a dangerous job. We work to make it safer. Learn what tools, resources, and support are available to protect you and your family.",
+  "home.about.health.title": "Presumptive Health",
+  "home.about.health.description":
+    "Fire fighters are at a greater risk for cancer, heart and lung disease, and behavioral health conditions. Find out what presumptive coverage is available.",
+  "home.about.cancer.title": "Cancer Awareness",
+  "home.about.cancer.description":
+    "Job-related cancer is the leading cause of line-of-duty deaths in the fire service. Learn what we are doing to combat this deadly disease.",
+  "home.about.bargaining.title": "Collective Bargaining",
+  "home.about.bargaining.description":
+    "Every worker deserves a voice at the table. Learn what the union is doing to secure local, state, and federal collective bargaining.",
+  "home.about.pay.title": "Pay & Benefits",
+  "home.about.pay.description":
+    "Navigating pension systems and choosing benefits can be daunting. Our union is here to help, offering assistance for members and affiliate leaders.",
+  "home.about.training.title": "Training Excellence",
+  "home.about.training.description":
+    "Professional development and training programs that meet the highest industry standards for fire safety and emergency response education.",
+  "home.about.missionTitle": "Our Mission",
+  "home.about.missionText":
+    "To advance the rights, safety, and future of fire fighters, emergency medical workers, and rescue workers through comprehensive training, advocacy, and professional development programs that serve communities across the United States and Canada.",
+
+  "home.team.titleLead": "Meet Our Expert",
+  "home.team.titleAccent": "Team",
+  "home.team.subtitle":
+    "Our team of certified professionals brings decades of experience in fire safety, emergency response, and HSE consulting to provide world-class training programs.",
+  "home.team.photoAlt": "Fire Training HSE Department Team",
+  "home.team.photoTitle": "Dedicated to Safety Excellence",
+  "home.team.photoSubtitle": "Professional fire safety and HSE training experts",
+  "home.team.stats.certifications": "Certifications",
+  "home.team.stats.certificationsDescription": "Combined professional certifications across our team",
+  "home.team.stats.graduates": "Trainees Graduated",
+  "home.team.stats.graduatesDescription": "Professionals trained in fire safety and HSE",
+  "home.team.stats.programs": "Training Programs",
+  "home.team.stats.programsDescription": "Comprehensive courses and workshops delivered",
+  "home.team.stats.experience": "Years Experience",
+  "home.team.stats.experienceDescription": "Average years of professional experience per instructor",
+  "home.team.experience": "Experience:",
+  "home.team.certifications": "Certifications:",
+  "home.team.specialties": "Specialties:",
+  "home.team.ctaTitle": "Join Our Mission",
+  "home.team.ctaText": "We're always looking for qualified fire safety professionals to join our team",
+  "home.team.ctaNote": "Contact us to learn about career opportunities in fire safety training and HSE consulting",
+
+  "footer.tagline": "Fire Training Ground",
+  "footer.about":
+    "Leading provider of fire safety training and HSE consulting services. Building safer communities through expert education and professional development.",
+  "footer.quickLinks": "Quick Links",
+  "footer.home": "Home",
+  "footer.aboutLink": "About",
+  "footer.ourTeam": "Our Team",
+  "footer.ourServices": "Our Services",
+  "footer.service.fireSafety": "Fire Safety Training",
+  "footer.service.hseConsulting": "HSE Consulting",
+  "footer.service.industrialSafety": "Industrial Safety",
+  "footer.service.emergencyResponse": "Emergency Response",
+  "footer.service.buildingSafety": "Building Safety",
+  "footer.service.equipmentTraining": "Equipment Training",
+  "footer.contactInfo": "Contact Info",
+  "footer.emergency": "24/7 Emergency",
+  "footer.quickResponse": "Quick Response",
+  "footer.copyright": "© {year} Fire Training Ground - Badak LNG. All rights reserved.",
+  "footer.privacy": "Privacy Policy",
+  "footer.terms": "Terms of Service",
+  "footer.safetyGuidelines": "Safety Guidelines",
+
+  "enrollment.status.pending": "Pending Review",
+  "enrollment.status.confirmed": "Confirmed",
+  "enrollment.status.waitlisted": "Waitlisted",
+  "enrollment.status.offered": "Seat Offered",
+  "enrollment.status.cancelled": "Cancelled",
+  "enrollment.status.completed": "Completed",
+  "enrollment.card.title": "Your Enrollment",
+  "enrollment.card.starts": "Starts {date} · {venue}",
+  "enrollment.card.waitlistPosition": "Waitlist #{position}",
+  "enrollment.card.offerNotice": "A seat opened up for you. Accept it within {time} or it passes to the next person.",
+  "enrollment.card.openCourse": "Open Course",
+  "enrollment.card.acceptSeat": "Accept Seat",
+  "enrollment.card.decline": "Decline",
+  "enrollment.card.leaveWaitlist": "Leave Waitlist",
+  "enrollment.card.cancel": "Cancel",
+  "enrollment.card.seatConfirmedTitle": "Seat Confirmed",
+  "enrollment.card.seatConfirmedText": "Your seat is confirmed. See you at the first session!",
+  "enrollment.card.offerUnavailableTitle": "Offer Unavailable",
+  "enrollment.card.offerUnavailableText":
+    "This seat offer has expired and has passed to the next person on the waitlist.",
+  "enrollment.card.declineTitle": "Decline this seat?",
+  "enrollment.card.cancelTitle": "Cancel enrollment?",
+  "enrollment.card.leaveWaitlistText": "You will lose your place in the queue.",
+  "enrollment.card.releaseSeatText": "Your seat will be offered to the next person on the waitlist.",
+  "enrollment.card.declineSeat": "Decline Seat",
+  "enrollment.card.cancelEnrollment": "Cancel Enrollment",
+  "enrollment.card.keep": "Keep",
+  "enrollment.card.cancelFailedTitle": "Cancellation Failed",
+  "enrollment.card.cancelFailedText": "Your enrollment could not be cancelled. Please try again.",
+
+  "certificates.validity.valid": "Valid",
+  "certificates.validity.expired": "Expired",
+  "certificates.validity.revoked": "Revoked",
+  "certificates.expiry.expiring_30": "Expiring in 30 days",
+  "certificates.expiry.expiring_60": "Expiring in 60 days",
+  "certificates.expiry.expiring_90": "Expiring in 90 days",
+  "certificates.card.issued": "Issued",
+  "certificates.card.validUntil": "Valid until",
+  "certificates.card.noExpiry": "No expiry",
+  "certificates.card.renewed": "Renewed by a later refresher",
+  "certificates.card.recertificationRequired": "Recertification required",
+  "certificates.card.book": "Book {program}",
+  "certificates.card.share": "Share verification link",
+  "certificates.card.verify": "Verify",
+  "certificates.card.downloadFailedTitle": "Download Failed",
+  "certificates.card.downloadFailedText": "The certificate could not be generated. Please try again.",
+  "certificates.card.linkCopiedTitle": "Link Copied",
+  "certificates.card.linkCopiedText": "Anyone with this link can verify the certificate.",
+
+  "dashboard.welcome": "Welcome back, {name}",
+  "dashboard.subtitle": "Your enrollments, sessions, certificates and payments in one place.",
+  "dashboard.browsePrograms": "Browse Programs",
+  "dashboard.stats.activeEnrollments": "Active Enrollments",
+  "dashboard.stats.upcomingSessions": "Upcoming Sessions",
+  "dashboard.stats.certificatesEarned": "Certificates Earned",
+  "dashboard.stats.outstandingBalance": "Outstanding Balance",
+  "dashboard.currentEnrollments": "Current & Upcoming Enrollments",
+  "dashboard.noEnrollmentsTitle": "No active enrollments",
+  "dashboard.noEnrollmentsText": "Pick an upcoming cohort to start your next certification.",
+  "dashboard.viewSchedule": "View Schedule",
+  "dashboard.trainingProgress": "Training Progress",
+  "dashboard.noSyllabus": "No syllabus yet",
+  "dashboard.topicsCompleted": "{completed}/{total} topics",
+  "dashboard.resume": "Resume where you left off",
+  "dashboard.reviewCourse": "Review course",
+  "dashboard.certificates": "Certificates",
+  "dashboard.viewAll": "View all",
+  "dashboard.noCertificates": "Certificates appear here once you complete a training program.",
+  "dashboard.upcomingSessions": "Upcoming Sessions",
+  "dashboard.noSessions": "No sessions scheduled.",
+  "dashboard.fullSchedule": "Full Schedule",
+  "dashboard.outstandingPayments": "Outstanding Payments",
+  "dashboard.nothingOutstanding": "Nothing outstanding.",
+  "dashboard.overdueSince": "Overdue since {date}",
+  "dashboard.due": "Due {date}",
+  "dashboard.invoiceQuestions": "Questions about an invoice? Email",
+  "dashboard.recertificationDeadlines": "Recertification Deadlines",
+  "dashboard.noExpiringCertificates": "None of your certificates expire.",
+  "dashboard.expired": "Expired {date}",
+  "dashboard.expires": "Expires {date}",
+
+  "schedule.title": "Training Schedule",
+  "schedule.subtitle": "Upcoming cohorts across every program, with live seat availability.",
+  "schedule.category": "Category",
+  "schedule.allCategories": "All categories",
+  "schedule.location": "Location",
+  "schedule.allLocations": "All locations",
+  "schedule.empty": "No upcoming sessions are scheduled yet.",
+  "schedule.upcomingSessions": "Upcoming Sessions",
+  "schedule.calendar": "Calendar",
+  "schedule.program": "Program",
+  "schedule.cohort": "Cohort",
+  "schedule.dates": "Dates",
+  "schedule.venue": "Venue",
+  "schedule.instructors": "Instructors",
+  "schedule.seats": "Seats",
+  "schedule.enroll": "Enroll",
+  "schedule.toBeAnnounced": "To be announced",
+  "schedule.seatsLeft": "{remaining} of {capacity} left",
+  "schedule.full": "Full",
+  "schedule.waiting": "{count} waiting",
+  "schedule.joinWaitlist": "Join Waitlist",
+  "schedule.selectDay": "Select a day",
+  "schedule.noSessionsOnDay": "No sessions scheduled on this day.",
+
+  "certificates.title": "My Certificates",
+  "certificates.subtitle": "Download your certificates or share their verification links with employers.",
+  "certificates.dueTitle": "Recertification due",
+  "certificates.due.one":
+    "1 certificate has expired or will expire within 90 days. Book the recommended refresher to stay current.",
+  "certificates.due.other":
+    "{count} certificates have expired or will expire within 90 days. Book the recommended refresher to stay current.",
+  "certificates.emptyTitle": "No certificates yet",
+
+  "verify.title": "Verify a Certificate",
+  "verify.subtitle": "Enter the code printed under the QR code on the certificate.",
+  "verify.submit": "Verify",
+  "verify.unavailable": "Verification is unavailable right now. Please try again shortly.",
+  "verify.notFoundTitle": "No certificate found",
+  "verify.notFoundText": "No certificate matches {code}. It may have been mistyped, or the certificate is not genuine.",
+  "verify.verdict.valid": "Authentic and valid",
+  "verify.verdict.expired": "Authentic but expired",
+  "verify.verdict.revoked": "Revoked",
+  "verify.holder": "Holder",
+  "verify.certification": "Certification",
+  "verify.program": "Program",
+  "verify.issuer": "Issuer",
+  "verify.leadInstructor": "Lead instructor",
+  "verify.code": "Code",
+
+  "quizzes.kind.knowledge_check": "Knowledge Check",
+  "quizzes.kind.final_exam": "Final Written Exam",
+  "skills.standing.passed": "Signed Off",
+  "skills.standing.failed": "Retest Needed",
+  "skills.standing.not_evaluated": "Not Evaluated",
+
+  "learning.updateFailedTitle": "Update Failed",
+  "learning.updateFailedText": "Your progress could not be saved. Please try again.",
+  "learning.noAccessTitle": "No course access",
+  "learning.noAccessText": "Enroll in a cohort of this program to track your progress here.",
+  "learning.viewProgram": "View Program",
+  "learning.startLearning": "Start Learning",
+  "learning.resume": "Resume Where You Left Off",
+  "learning.allComplete": "All topics complete",
+  "learning.programProgress": "Program progress",
+  "learning.topicsProgress": "{completed}/{total} topics · {percent}%",
+  "learning.attendance": "Attendance {percent}% ({attended} of {counted} sessions) · {required}% required to certify",
+  "learning.assessments": "Assessments",
+  "learning.assessmentsText": "Pass every assessment to become eligible for certification.",
+  "learning.module": "Module {number}",
+  "learning.bestScore": "Best score {score}%",
+  "learning.passed": "Passed",
+  "learning.resumeQuiz": "Resume",
+  "learning.retake": "Retake",
+  "learning.takeQuiz": "Take Quiz",
+  "learning.practicalSkills": "Practical Skills",
+  "learning.practicalSkillsText":
+    "Instructors evaluate these at the training ground. Required skills must be signed off before certification.",
+  "learning.steps": "{count} steps",
+  "learning.within": "within {time}",
+  "learning.optional": "Optional",
+  "learning.inTime": "in {time}",
+  "learning.signedBy": "signed by {name} on {date}",
+  "learning.criticalFail": "Critical fail: {failures}",
+  "learning.noSyllabus": "The syllabus for this program has not been published yet.",
+  "learning.moduleTitle": "Module {number}: {title}",
+  "learning.markComplete": "Mark {topic} complete",
+  "learning.hours": "{hours} hrs",
+  "learning.takeKnowledgeCheck": "Take the knowledge check",
+  "learning.completedOn": "Completed {date}",
+  "learning.markedByInstructor": "marked by instructor",
+
+  "quiz.couldNotStartTitle": "Could Not Start",
+  "quiz.couldNotStartText": "The quiz could not be started. Please try again.",
+  "quiz.unansweredTitle": "Submit with unanswered questions?",
+  "quiz.unansweredText": "{count} question(s) have no answer and will be marked wrong.",
+  "quiz.submit": "Submit",
+  "quiz.submitFailedTitle": "Submit Failed",
+  "quiz.submitFailedText": "Your answers could not be submitted. Check your connection and try again.",
+  "quiz.backToCourse": "Back to course",
+  "quiz.unavailableTitle": "Quiz unavailable",
+  "quiz.unavailableText": "This quiz does not exist or you are not enrolled in its program.",
+  "quiz.answered": "{answered}/{total} answered",
+  "quiz.submitAnswers": "Submit Answers",
+  "quiz.timeRanOut": "Time ran out",
+  "quiz.notPassedYet": "Not passed yet",
+  "quiz.points": "{earned}/{total} points · {passing}% needed to pass",
+  "quiz.topic": "Module {number} · {week}: {title}",
+  "quiz.allQuestions": "All",
+  "quiz.questions": "Questions",
+  "quiz.minutes": "{minutes} min",
+  "quiz.untimed": "Untimed",
+  "quiz.timeLimit": "Time limit",
+  "quiz.toPass": "To pass",
+  "quiz.attemptsLeft": "Attempts left",
+  "quiz.passedWithScore": "You passed this quiz with a best score of {score}%.",
+  "quiz.noAttemptsLeft": "You have used every attempt. Contact your instructor to arrange a retake.",
+  "quiz.resumeAttempt": "Resume Attempt",
+  "quiz.retakeQuiz": "Retake Quiz",
+  "quiz.startQuiz": "Start Quiz",
+  "quiz.timerNotice":
+    "The timer starts as soon as you begin and keeps running if you leave the page. Answers are submitted automatically when time is up.",
+  "quiz.previousAttempts": "Previous Attempts",
+  "quiz.timedOut": "Timed out",
+  "quiz.notPassed": "Not passed",
+
+  "quizzes.type.single_choice": "Single Choice",
+  "quizzes.type.multiple_choice": "Multiple Choice",
+  "quizzes.type.true_false": "True / False",
+  "quizzes.type.hotspot": "Image Hotspot",
+  "quizzes.type.ordering": "Ordering",
+
+  "quiz.instructions.multipleChoice": "Select every correct answer.",
+  "quiz.instructions.hotspot": "Click the correct spot on the image.",
+  "quiz.instructions.ordering": "Arrange the steps in the correct order.",
+  "quiz.moveUp": "Move up",
+  "quiz.moveDown": "Move down",
+
+  "compare.backToPrograms": "Back to Training Programs",
+  "compare.title": "Compare Programs",
+  "compare.subtitle": "Compare up to {max} programs side by side and export the comparison for purchase requests.",
+  "compare.exportCsv": "Export CSV",
+  "compare.exportPdf": "Export PDF",
+  "compare.exportFailedTitle": "Export Failed",
+  "compare.exportFailedText": "The PDF could not be generated. Please try again.",
+  "compare.differencesOnly": "Show differences only",
+  "compare.rowsDiffer": "{count} of {total} rows differ",
+  "compare.addProgram": "Add a program",
+  "compare.emptyBefore": "Add programs to compare, or pick them from the",
+  "compare.emptyLink": "training catalog",
+  "compare.remove": "Remove {title}",
+  "compare.allMatch": "These programs match on every compared attribute.",
+
+  "compare.row.price": "Price",
+  "compare.row.duration": "Duration",
+  "compare.row.hours": "Contact Hours",
+  "compare.row.level": "Level",
+  "compare.row.certification": "Certification",
+  "compare.row.body": "Certification Body",
+  "compare.row.prerequisites": "Prerequisites",
+  "compare.row.nextSession": "Next Session",
+  "compare.row.seats": "Seats Left",
+  "compare.row.location": "Location",
+  "compare.row.instructor": "Lead Instructor",
+  "compare.row.rating": "Trainee Rating",
+  "compare.hours": "{hours} hrs",
+  "compare.notPublished": "Not published",
+  "compare.none": "None",
+  "compare.noneScheduled": "None scheduled",
+  "compare.full": "Full (waitlist open)",
+  "compare.seatsOf": "{remaining} of {capacity}",
+  "compare.rating": "{rating} / 5 ({count} reviews)",
+  "compare.noReviews": "No reviews yet",
+  "compare.attribute": "Attribute",
+  "compare.pdfTitle": "Training Program Comparison",
+  "compare.pdfGenerated": "Generated {date} · Highlighted rows differ between programs",
+
+  "detail.backToPrograms": "Back to Programs",
+  "detail.share": "Share",
+  "detail.downloadBrochure": "Download Brochure",
+  "detail.scheduleTitle": "Schedule & Availability",
+
+  "notFound.title": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+
+  "notifications.title": "Notifications",
+  "notifications.empty": "You're all caught up.",
+
+  "checkIn.failedTitle": "Check-in failed",
+  "checkIn.scanAgain": "Please scan the code again.",
+  "checkIn.checkingIn": "Checking you in...",
+  "checkIn.reviewTitle": "Sent for review",
+  "checkIn.flag.duplicate":
+    "You were already on today's register. Your instructor has been notified of the repeat scan.",
+  "checkIn.flag.out_of_window":
+    "Check-in is not open for this session right now. The scan was recorded for your instructor to review.",
+  "checkIn.late": "Checked in late",
+  "checkIn.done": "You're checked in",
+  "checkIn.dashboard": "Go to My Dashboard",
+
+  "reviews.status.pending": "Awaiting Moderation",
+  "reviews.status.published": "Published",
+  "reviews.status.rejected": "Rejected",
+  "reviews.dimension.instructor": "Instructor",
+  "reviews.dimension.facilities": "Facilities",
+  "reviews.dimension.content": "Course Content",
+  "reviews.unavailable": "Reviews are unavailable right now.",
+  "reviews.title": "Trainee Reviews",
+  "reviews.count.one": "{count} review",
+  "reviews.count.other": "{count} reviews",
+  "reviews.yourReview": "Your review",
+  "reviews.prompt": "You completed this program. How was it?",
+  "reviews.edit": "Edit Review",
+  "reviews.write": "Write a Review",
+  "reviews.onlyCompleted": "Reviews can only be written by trainees who completed this program.",
+  "reviews.empty": "No reviews yet.",
+  "reviews.dialog.editTitle": "Edit Your Review",
+  "reviews.dialog.experience": "Your Experience",
+  "reviews.dialog.placeholder": "What went well, and what could be better?",
+  "reviews.dialog.moderation":
+    "Reviews are checked before they are published. Editing a review sends it for checking again.",
+  "reviews.dialog.submit": "Submit Review",
+  "reviews.dialog.chooseRating": "Choose a rating",
+  "reviews.dialog.commentTooShort": "Tell other trainees a little more (at least 20 characters)",
+  "reviews.dialog.thanksTitle": "Thanks for your review",
+  "reviews.dialog.thanksText": "It will appear on the program page once our team has checked it.",
+  "reviews.dialog.failedTitle": "Review Not Saved",
+  "reviews.dialog.failedText": "Your review could not be saved. Please try again.",
+
+  "enrollDialog.validation.cohort": "Choose a cohort",
+  "enrollDialog.validation.fullName": "Full name is required",
+  "enrollDialog.validation.email": "Enter a valid email address",
+  "enrollDialog.validation.phone": "Enter a valid phone number",
+  "enrollDialog.validation.employer": "Employer is required",
+  "enrollDialog.validation.jobTitle": "Job title is required",
+  "enrollDialog.validation.prerequisites": "You must meet the prerequisites to enroll",
+  "enrollDialog.validation.medical": "The medical fitness declaration is required",
+  "enrollDialog.step.cohort": "Cohort",
+  "enrollDialog.step.details": "Your Details",
+  "enrollDialog.step.declarations": "Declarations",
+  "enrollDialog.failedTitle": "Enrollment Failed",
+  "enrollDialog.failedText": "We could not complete your enrollment. Please try again.",
+  "enrollDialog.waitlistedTitle": "You're on the waitlist",
+  "enrollDialog.receivedTitle": "Enrollment received",
+  "enrollDialog.waitlistedText":
+    "You are number {position} in the queue. When a seat opens up it will be offered to you, and you will have 48 hours to accept it.",
+  "enrollDialog.receivedText": "Our training coordinators will review your enrollment and confirm your seat by email.",
+  "enrollDialog.seatsRemaining": "Seats remaining",
+  "enrollDialog.seatsOf": "{remaining} of {capacity}",
+  "enrollDialog.status": "Status",
+  "enrollDialog.done": "Done",
+  "enrollDialog.title": "Enroll in {title}",
+  "enrollDialog.stepOf": "Step {step} of {total}: {title}",
+  "enrollDialog.noCohorts": "There are no upcoming cohorts for this program yet. Please check back soon.",
+  "enrollDialog.alreadyEnrolled": "Already enrolled",
+  "enrollDialog.fullWaiting": "Full · {count} waiting",
+  "enrollDialog.fullJoinWaitlist": "Full · Join waitlist",
+  "enrollDialog.seatsLeft": "{count} seats left",
+  "enrollDialog.seatsTaken": "{taken} of {capacity} seats taken",
+  "enrollDialog.fullName": "Full Name",
+  "enrollDialog.email": "Email",
+  "enrollDialog.phone": "Phone",
+  "enrollDialog.employeeId": "Employee ID (optional)",
+  "enrollDialog.employer": "Employer",
+  "enrollDialog.jobTitle": "Job Title",
+  "enrollDialog.invoiceNote": "Your employer is invoiced for the program fee of {price}.",
+  "enrollDialog.prerequisitesLabel": "I meet the prerequisites for this program",
+  "enrollDialog.prerequisitesHint":
+    "Including the educational and physical requirements listed on the Requirements tab.",
+  "enrollDialog.medicalLabel": "Medical fitness declaration",
+  "enrollDialog.medicalHint":
+    "I declare that I am medically fit for physically demanding training and will bring a physician's clearance to the first session.",
+  "enrollDialog.medicalNotes": "Medical notes (optional)",
+  "enrollDialog.medicalNotesPlaceholder": "Allergies, conditions or medication instructors should know about",
+  "enrollDialog.enrollingIn": "You are enrolling in {code}, {dates}.",
+  "enrollDialog.joiningWaitlist": "{code} is full, so you will join the back of its waitlist.",
+  "enrollDialog.submit": "Submit Enrollment",
+  "enrollDialog.continue": "Continue",
+
+  "detail.featuredProgram": "Featured Program",
+  "detail.tab.overview": "Overview",
+  "detail.tab.curriculum": "Curriculum",
+  "detail.tab.requirements": "Requirements",
+  "detail.tab.certification": "Certification",
+  "detail.tab.reviews": "Reviews",
+  "detail.overviewTitle": "Program Overview",
+  "detail.whatYouLearn": "What You'll Learn:",
+  "detail.learn.als": "Advanced life support techniques",
+  "detail.learn.pharmacology": "Emergency pharmacology",
+  "detail.learn.trauma": "Trauma assessment and management",
+  "detail.learn.cardiac": "Cardiac emergency protocols",
+  "detail.programFeatures": "Program Features:",
+  "detail.feature.simulation": "State-of-the-art simulation lab",
+  "detail.feature.rotations": "Clinical rotations in hospitals",
+  "detail.feature.field": "Field experience with EMS units",
+  "detail.feature.online": "24/7 online learning platform",
+  "detail.curriculumTitle": "Course Curriculum",
+  "detail.syllabusSoon": "The detailed syllabus for this program will be published soon.",
+  "detail.moduleDetail": "Detail Module",
+  "detail.requirementsTitle": "Prerequisites & Requirements",
+  "detail.prerequisites": "Prerequisites:",
+  "detail.noPrerequisites": "This program has no prerequisites.",
+  "detail.physicalRequirements": "Physical Requirements:",
+  "detail.physical.fitness": "Physical fitness assessment",
+  "detail.physical.clearance": "Medical clearance from physician",
+  "detail.physical.screening": "Drug screening and background check",
+  "detail.certificationTitle": "Certification & Career Outcomes",
+  "detail.certificationsEarned": "Certifications Earned:",
+  "detail.careerOpportunities": "Career Opportunities:",
+  "detail.leadInstructor": "Lead Instructor",
+  "detail.instructorCredentials": "Paramedic, MD Emergency Medicine",
+  "detail.noInstructorRatings": "No trainee ratings yet",
+  "detail.instructorExperience": "15+ years experience in emergency medicine and EMS training",
+  "detail.programDetails": "Program Details",
+  "detail.duration": "Duration",
+  "detail.format": "Format",
+  "detail.formatHybrid": "Hybrid",
+  "detail.classSize": "Class Size",
+  "detail.classSizeValue": "Max 24 students",
+  "detail.nextStartDate": "Next Start Date",
+  "detail.language": "Language",
+  "detail.languageEnglish": "English",
+  "detail.enrollNow": "Enroll Now",
+  "detail.infoSession": "Schedule Info Session",
+  "detail.callUs": "Questions? Call us at",
+  "detail.additionalFeatures": "Additional Features",
+  "detail.extra.online": "Online learning platform",
+  "detail.extra.scheduling": "Flexible scheduling",
+  "detail.extra.placement": "Career placement assistance",
+  "detail.extra.credits": "Continuing education credits",
+  "detail.learningObjectives": "Learning Objectives",
+  "detail.downloadSample": "Download Sample PDF",
+  "detail.career.emt": "Emergency Medical Technician",
+  "detail.career.paramedic": "Paramedic",
+  "detail.career.flightMedic": "Flight Medic",
+  "detail.career.erTechnician": "Emergency Room Technician",
+  "detail.career.fireMedic": "Fire Department Medic",
+  "detail.career.criticalCare": "Critical Care Transport",
+  "detail.career.emsSupervisor": "EMS Supervisor",
+  "detail.career.trainingInstructor": "Training Instructor",
+  "detail.overviewText":
+    "Our Emergency Medical Services training program is designed to provide comprehensive education and hands-on experience for aspiring and current emergency medical professionals. This intensive program combines theoretical knowledge with practical skills to prepare students for real-world emergency situations.",
+  "detail.moduleTitle": "Module {number}: {title}",
+  "detail.validFor": "Valid for {months} months",
+  "detail.instructorRating": "{rating} instructor rating ({count})",
+  "detail.infoSessionSubject": "Info session: {title}",
+  "detail.contactHours": "{hours} contact hours",
+  "detail.issuedBy": "Issued by: {issuer}",
+  "detail.sampleAlt": "Sample of {name}",
+  "detail.sampleTraineeName": "Your Name",
+
+  "home.contact.phone": "Phone",
+  "home.contact.email": "Email",
+  "home.contact.location": "Location",
+  "home.contact.hours": "Business Hours",
+  "home.contact.phoneSubtitle": "24/7 Emergency Line Available",
+  "home.contact.emailSubtitle": "Quick Response Guaranteed",
+  "home.contact.locationSubtitle": "PT Badak LNG Facility",
+  "home.contact.hoursSubtitle": "Emergency Services 24/7",
+  "home.contact.weekdayHours": "Mon-Fri: 8:00 AM - 6:00 PM",
+  "home.contact.saturdayHours": "Sat: 9:00 AM - 4:00 PM",
+  "home.contact.titleLead": "Get In",
+  "home.contact.titleAccent": "Touch",
+  "home.contact.subtitle":
+    "Ready to enhance your fire safety knowledge or need HSE consulting? Contact us today to discuss your training needs and safety requirements.",
+  "home.contact.formTitle": "Send Us a Message",
+  "home.contact.firstName": "First Name *",
+  "home.contact.lastName": "Last Name *",
+  "home.contact.emailAddress": "Email Address *",
+  "home.contact.phoneNumber": "Phone Number",
+  "home.contact.organization": "Organization/Company",
+  "home.contact.trainingInterest": "Training Interest",
+  "home.contact.message": "Message *",
+  "home.contact.send": "Send Message",
+  "home.contact.requiredNote": "* Required fields. We'll respond within 24 hours.",
+  "home.contact.callEmergency": "Call Emergency Line",
+  "home.contact.firstNamePlaceholder": "Your first name",
+  "home.contact.lastNamePlaceholder": "Your last name",
+  "home.contact.organizationPlaceholder": "Your organization name",
+  "home.contact.messagePlaceholder":
+    "Tell us about your training needs, number of participants, preferred dates, or any specific requirements...",
+  "home.contact.interest.placeholder": "Select training program",
+  "home.contact.interest.fire_safety": "Fire Safety Training",
+  "home.contact.interest.hse_consulting": "HSE Consulting",
+  "home.contact.interest.industrial_safety": "Industrial Safety",
+  "home.contact.interest.team_leadership": "Team Leadership",
+  "home.contact.interest.building_safety": "Building Safety",
+  "home.contact.interest.equipment_training": "Equipment Training",
+  "home.contact.interest.custom": "Custom Training Solution",
+  "home.contact.emergencyTitle": "Emergency Contact",
+  "home.contact.emergencyText":
+    "For immediate fire safety emergencies or urgent consulting needs, our emergency response team is available 24/7.",
+
+  "home.map.facility": "Natural Gas Processing Facility",
+  "home.map.directions": "Get Directions",
+  "home.map.title": "Interactive Map",
+  "home.map.tokenPrompt": "Enter your Mapbox access token to view PT Badak LNG location in Bontang, Kalimantan Timur",
+  "home.map.load": "Load Map",
+  "home.map.tokenPlaceholder": "Enter Mapbox access token...",
+  "home.map.freeToken": "Get your free token at",
+
+  "home.priority.safetyProtection.description":
+    "Fire fighters face numerous hazards daily, from structural collapses to chemical exposures. Our comprehensive safety program ensures every fire fighter has access to the latest protective equipment, safety protocols, and emergency response procedures.",
+  "home.priority.safetyProtection.benefit1": "State-of-the-art protective equipment",
+  "home.priority.safetyProtection.benefit2": "Regular safety training updates",
+  "home.priority.safetyProtection.benefit3": "24/7 emergency support system",
+  "home.priority.safetyProtection.benefit4": "Family safety education programs",
+  "home.priority.safetyProtection.stat.injuryReduction": "Injury Reduction",
+  "home.priority.safetyProtection.stat.equipmentUpgrades": "Equipment Upgrades",
+  "home.priority.safetyProtection.stat.safetyProtocols": "Safety Protocols",
+  "home.priority.presumptiveHealth.description":
+    "Fire fighters have significantly higher rates of cancer, heart disease, and other serious health conditions due to occupational exposures. Our presumptive health coverage ensures you receive the medical care and support you deserve.",
+  "home.priority.presumptiveHealth.benefit1": "Comprehensive health screenings",
+  "home.priority.presumptiveHealth.benefit2": "Presumptive disease coverage",
+  "home.priority.presumptiveHealth.benefit3": "Mental health support services",
+  "home.priority.presumptiveHealth.benefit4": "Early detection programs",
+  "home.priority.presumptiveHealth.stat.healthScreenings": "Health Screenings",
+  "home.priority.presumptiveHealth.stat.coverageClaims": "Coverage Claims",
+  "home.priority.presumptiveHealth.stat.earlyDetection": "Early Detection",
+  "home.priority.cancerAwareness.description":
+    "Job-related cancer is the leading cause of line-of-duty deaths among fire fighters. We're committed to education, prevention, and supporting those affected through comprehensive awareness and treatment programs.",
+  "home.priority.cancerAwareness.benefit1": "Cancer prevention education",
+  "home.priority.cancerAwareness.benefit2": "Early screening programs",
+  "home.priority.cancerAwareness.benefit3": "Treatment support services",
+  "home.priority.cancerAwareness.benefit4": "Research funding initiatives",
+  "home.priority.cancerAwareness.stat.livesSaved": "Lives Saved",
+  "home.priority.cancerAwareness.stat.awarenessPrograms": "Awareness Programs",
+  "home.priority.cancerAwareness.stat.researchFunding": "Research Funding",
+  "home.priority.collectiveBargaining.description":
+    "Every fire fighter deserves fair representation and a voice in their workplace conditions. Our collective bargaining efforts focus on securing better working conditions, fair compensation, and comprehensive benefits.",
+  "home.priority.collectiveBargaining.benefit1": "Fair wage negotiations",
+  "home.priority.collectiveBargaining.benefit2": "Improved working conditions",
+  "home.priority.collectiveBargaining.benefit3": "Comprehensive benefits packages",
+  "home.priority.collectiveBargaining.benefit4": "Workplace rights protection",
+  "home.priority.collectiveBargaining.stat.contractsNegotiated": "Contracts Negotiated",
+  "home.priority.collectiveBargaining.stat.wageIncreases": "Wage Increases",
+  "home.priority.collectiveBargaining.stat.membersServed": "Members Served",
+  "home.priority.payBenefits.description":
+    "Navigating complex pension systems and benefit structures can be overwhelming. Our dedicated team provides guidance and advocacy to ensure you receive the full compensation and benefits you've earned.",
+  "home.priority.payBenefits.benefit1": "Pension planning assistance",
+  "home.priority.payBenefits.benefit2": "Benefits optimization guidance",
+  "home.priority.payBenefits.benefit3": "Retirement planning services",
+  "home.priority.payBenefits.benefit4": "Financial education programs",
+  "home.priority.payBenefits.stat.pensionClaims": "Pension Claims",
+  "home.priority.payBenefits.stat.benefitIncreases": "Benefit Increases",
+  "home.priority.payBenefits.stat.membersAssisted": "Members Assisted",
+  "home.priority.trainingExcellence.description":
+    "Professional development is crucial for career advancement and public safety. Our training programs meet the highest industry standards and prepare fire fighters for the challenges of modern emergency response.",
+  "home.priority.trainingExcellence.benefit1": "Advanced certification programs",
+  "home.priority.trainingExcellence.benefit2": "Leadership development courses",
+  "home.priority.trainingExcellence.benefit3": "Technical skills training",
+  "home.priority.trainingExcellence.benefit4": "Career advancement support",
+  "home.priority.trainingExcellence.stat.trainingHours": "Training Hours",
+  "home.priority.trainingExcellence.stat.certifications": "Certifications",
+  "home.priority.trainingExcellence.stat.successRate": "Success Rate",
+  "home.priority.focusArea": "Priority Focus Area",
+  "home.priority.getInvolved": "Get Involved",
+  "home.priority.getInvolvedText": "Learn more about how this program can benefit you and your family.",
+  "home.priority.close": "Close",
+  "home.priority.contactUs": "Contact Us",
+  "home.priority.overview": "Overview",
+  "home.priority.impact": "Impact & Results",
+  "home.priority.benefits": "Key Benefits",
+
+  "catalog.presets.linkCopiedTitle": "Link Copied",
+  "catalog.presets.linkCopiedText": "Anyone with the link sees the catalog with these filters.",
+  "catalog.presets.copyFailedTitle": "Copy Failed",
+  "catalog.presets.copyFailedText": "Copy the address from your browser's address bar instead.",
+  "catalog.presets.saveTitle": "Save Filters",
+  "catalog.presets.presetName": "Preset name",
+  "catalog.presets.presetPlaceholder": "e.g. Entry level under $5,000",
+  "catalog.presets.presetRequired": "Please name the preset",
+  "catalog.presets.save": "Save",
+  "catalog.presets.savedTitle": "Preset Saved",
+  "catalog.presets.saveFailedTitle": "Save Failed",
+  "catalog.presets.saveFailedText": "The preset could not be saved. Please try again.",
+  "catalog.presets.deleteFailedTitle": "Delete Failed",
+  "catalog.presets.deleteFailedText": "The preset could not be deleted. Please try again.",
+  "catalog.presets.menu": "Presets",
+  "catalog.presets.saveCurrent": "Save Current",
+  "catalog.presets.copyLink": "Copy Link",
+  "catalog.presets.savedFilters": "Saved Filters",
+  "catalog.presets.signIn": "Sign in to save filter presets.",
+  "catalog.presets.empty": "No saved presets yet.",
+  "catalog.presets.delete": "Delete {name}",
+
+  "roles.trainee": "Trainee",
+  "roles.instructor": "Instructor",
+  "roles.coordinator": "Training Coordinator",
+  "roles.hse_officer": "HSE Officer",
+  "roles.admin": "Administrator",
+
+  "access.restrictedTitle": "Access restricted",
+  "access.restrictedText": "This page is available to {roles} accounts.",
+  "access.backHome": "Back to Home",
+}
+
+export type MessageKey = keyof typeof en
@@ -0,0 +1,919 @@
+import type { MessageKey } from "@/locales/en"
+
+export const id: Record<MessageKey, string> = {
+  "common.back": "Kembali",
+  "common.previous": "Sebelumnya",
+  "common.next": "Berikutnya",
+  "common.reset": "Atur Ulang",
+  "common.all": "Semua",
+  "common.featured": "Unggulan",
+  "common.pageOf": "Halaman {page} dari {total}",
+  "common.search": "Cari",
+  "common.cancel": "Batal",
+
+  "header.language": "Bahasa",
+  "header.theme": "Tema",
+  "header.themeLight": "Terang",
+  "header.themeDark": "Gelap",
+  "header.themeSystem": "Sistem",
+  "header.trainingPrograms": "Program Pelatihan",
+  "header.fireSafetyTraining": "Pelatihan Keselamatan Kebakaran",
+  "header.fireSafetyTrainingDescription": "Program pelatihan keselamatan kebakaran dan tanggap darurat yang menyeluruh.",
+  "header.hseCertification": "Sertifikasi HSE",
+  "header.hseCertificationDescription": "Program sertifikasi kesehatan, keselamatan, dan lingkungan.",
+  "header.emergencyResponse": "Tanggap Darurat",
+  "header.emergencyResponseDescription": "Tanggap darurat tingkat lanjut dan manajemen krisis.",
+  "header.services": "Layanan",
+  "header.consultation": "Konsultasi",
+  "header.consultationDescription": "Layanan konsultasi dan penilaian keselamatan profesional.",
+  "header.documentation": "Dokumentasi",
+  "header.documentationDescription": "Dokumentasi keselamatan dan manajemen kepatuhan.",
+  "header.certification": "Sertifikasi",
+  "header.certificationDescription": "Program sertifikasi dan akreditasi profesional.",
+  "header.riskAssessment": "Penilaian Risiko",
+  "header.riskAssessmentDescription": "Penilaian dan mitigasi risiko tempat kerja yang menyeluruh.",
+  "header.schedule": "Jadwal",
+  "header.news": "Berita",
+  "header.contact": "Kontak",
+  "header.joinUs": "Bergabung",
+  "header.logout": "Keluar",
+  "header.myDashboard": "Dasbor Saya",
+  "header.myCertificates": "Sertifikat Saya",
+  "header.myClasses": "Kelas Saya",
+  "header.cohortProgress": "Progres Angkatan",
+  "header.skillSignOff": "Pengesahan Keterampilan",
+  "header.manageTraining": "Kelola Pelatihan",
+  "header.waitlists": "Daftar Tunggu",
+  "header.quizzes": "Kuis & Ujian",
+  "header.skillSheets": "Lembar Keterampilan",
+  "header.reviewModeration": "Moderasi Ulasan",
+  "header.issueCertificates": "Terbitkan Sertifikat",
+  "header.newsroom": "Ruang Redaksi",
+
+  "offline.online": "Daring",
+  "offline.offline": "Luring",
+  "offline.offlineNotice": "Anda sedang luring. Menampilkan data tersimpan.",
+  "offline.backOnline": "Kembali daring",
+  "offline.pending.one": "{count} perubahan menunggu sinkronisasi",
+  "offline.pending.other": "{count} perubahan menunggu sinkronisasi",
+  "offline.syncing": "Menyinkronkan perubahan luring...",
+  "offline.syncNow": "Sinkronkan sekarang",
+  "offline.rejectedTitle": "Beberapa Perubahan Luring Ditolak",
+  "offline.rejectedText": "Perubahan ini dicatat saat luring tetapi tidak diterima server:",
+
+  "search.placeholder": "Cari program, sertifikasi, berita, orang...",
+  "search.noResults": "Tidak ada hasil untuk \"{search}\".",
+  "search.recent": "Pencarian Terakhir",
+  "search.clearRecent": "Hapus pencarian terakhir",
+  "search.yourAccount": "Akun Anda",
+  "search.title": "Cari",
+  "search.description": "Cari program pelatihan, sertifikasi, berita, tim kami, dan halaman situs.",
+  "search.group.programs": "Program Pelatihan",
+  "search.group.certifications": "Sertifikasi",
+  "search.group.news": "Berita",
+  "search.group.team": "Tim Kami",
+  "search.group.pages": "Halaman",
+  "search.page.home": "Beranda",
+  "search.page.homeDescription": "Halaman beranda Fire Training Ground",
+  "search.page.about": "Tentang Kami",
+  "search.page.aboutDescription": "Siapa kami",
+  "search.page.services": "Layanan",
+  "search.page.servicesDescription": "Konsultasi, dokumentasi, dan penilaian risiko",
+  "search.page.team": "Tim Kami",
+  "search.page.teamDescription": "Instruktur dan konsultan",
+  "search.page.contact": "Kontak",
+  "search.page.contactDescription": "Telepon, email, dan lokasi",
+  "search.page.training": "Program Pelatihan",
+  "search.page.trainingDescription": "Jelajahi seluruh katalog",
+  "search.page.compare": "Bandingkan Program",
+  "search.page.compareDescription": "Perbandingan berdampingan dan ekspor",
+  "search.page.schedule": "Jadwal",
+  "search.page.scheduleDescription": "Angkatan dan sesi mendatang",
+  "search.page.news": "Berita",
+  "search.page.newsDescription": "Berita dan pengumuman terbaru",
+  "search.page.verify": "Verifikasi Sertifikat",
+  "search.page.verifyDescription": "Periksa kode verifikasi sertifikat",
+
+  "auth.welcomeBack": "Selamat Datang Kembali",
+  "auth.createAccount": "Buat Akun",
+  "auth.signInSubtitle": "Masuk untuk mengakses dasbor pelatihan HSE Anda",
+  "auth.registerSubtitle": "Bergabunglah dengan komunitas pelatihan HSE kami",
+  "auth.continueWithGoogle": "Lanjutkan dengan Google",
+  "auth.continueWithFacebook": "Lanjutkan dengan Facebook",
+  "auth.connectingTo": "Menghubungkan ke {provider}...",
+  "auth.orContinueWithEmail": "atau lanjutkan dengan email",
+  "auth.login": "Masuk",
+  "auth.register": "Daftar",
+  "auth.fullName": "Nama Lengkap",
+  "auth.fullNamePlaceholder": "Masukkan nama lengkap Anda",
+  "auth.phone": "Nomor Telepon",
+  "auth.phonePlaceholder": "Masukkan nomor telepon Anda",
+  "auth.email": "Alamat Email",
+  "auth.emailPlaceholder": "Masukkan email Anda",
+  "auth.password": "Kata Sandi",
+  "auth.passwordPlaceholder": "Masukkan kata sandi Anda",
+  "auth.confirmPassword": "Konfirmasi Kata Sandi",
+  "auth.confirmPasswordPlaceholder": "Ulangi kata sandi Anda",
+  "auth.passwordStrength": "Kekuatan Kata Sandi",
+  "auth.strength.veryWeak": "Sangat Lemah",
+  "auth.strength.weak": "Lemah",
+  "auth.strength.fair": "Cukup",
+  "auth.strength.good": "Baik",
+  "auth.strength.strong": "Kuat",
+  "auth.requirements": "Persyaratan:",
+  "auth.requirement.length": "Minimal 8 karakter",
+  "auth.requirement.uppercase": "Satu huruf kapital",
+  "auth.requirement.lowercase": "Satu huruf kecil",
+  "auth.requirement.number": "Satu angka",
+  "auth.requirement.special": "Satu karakter khusus",
+  "auth.rememberMe": "Ingat saya",
+  "auth.agreeTo": "Saya menyetujui",
+  "auth.terms": "Syarat & Ketentuan",
+  "auth.forgotPassword": "Lupa kata sandi?",
+  "auth.signingIn": "Sedang masuk...",
+  "auth.creatingAccount": "Membuat akun...",
+  "auth.signIn": "Masuk",
+  "auth.noAccount": "Belum punya akun?",
+  "auth.haveAccount": "Sudah punya akun?",
+  "auth.signUpLink": "Daftar",
+  "auth.signInLink": "Masuk",
+
+  "auth.validation.emailFormat": "Masukkan format email yang valid",
+  "auth.validation.emailCheckError": "Gagal memeriksa email. Silakan coba lagi.",
+  "auth.validation.emailTaken": "Email ini sudah terdaftar",
+  "auth.validation.emailAvailable": "Email tersedia",
+  "auth.validation.phoneInvalid": "Masukkan nomor telepon yang valid",
+  "auth.validation.phoneCheckError": "Gagal memeriksa nomor telepon. Silakan coba lagi.",
+  "auth.validation.phoneTaken": "Nomor telepon ini sudah terdaftar",
+  "auth.validation.phoneAvailable": "Nomor telepon tersedia",
+  "auth.validation.checking": "Memeriksa ketersediaan...",
+  "auth.validation.emailAvailabilityError": "Gagal memeriksa ketersediaan email",
+  "auth.validation.phoneAvailabilityError": "Gagal memeriksa ketersediaan nomor telepon",
+  "auth.validation.emailRequired": "Email wajib diisi",
+  "auth.validation.emailInvalid": "Masukkan alamat email yang valid",
+  "auth.validation.passwordRequired": "Kata sandi wajib diisi",
+  "auth.validation.passwordRequirements": "Kata sandi harus memenuhi semua persyaratan",
+  "auth.validation.fullNameRequired": "Nama lengkap wajib diisi",
+  "auth.validation.fullNameShort": "Nama lengkap minimal 2 karakter",
+  "auth.validation.confirmRequired": "Konfirmasi kata sandi Anda",
+  "auth.validation.passwordMismatch": "Kata sandi tidak cocok",
+  "auth.validation.emailChecking": "Harap tunggu, ketersediaan email sedang diperiksa",
+  "auth.validation.phoneChecking": "Harap tunggu, ketersediaan nomor telepon sedang diperiksa",
+
+  "auth.alert.verifiedTitle": "Akun terverifikasi",
+  "auth.alert.verifiedText": "Silakan masuk dengan akun Anda yang sudah terdaftar.",
+  "auth.alert.loginSuccessTitle": "Login berhasil!",
+  "auth.alert.loginSuccessText": "Anda akan diarahkan kembali dalam 2 detik.",
+  "auth.alert.socialFailedTitle": "Autentikasi {provider} Gagal",
+  "auth.alert.socialFailedText": "Terjadi kesalahan saat menghubungkan akun Anda. Silakan coba lagi.",
+  "auth.alert.validationTitle": "Kesalahan Validasi",
+  "auth.alert.validationText": "Perbaiki kesalahan pada formulir",
+  "auth.alert.notConfirmedTitle": "Email Belum Dikonfirmasi",
+  "auth.alert.notConfirmedText": "Akun Anda sudah ada, tetapi Anda perlu memverifikasi alamat email sebelum masuk.",
+  "auth.alert.resendButton": "Kirim Ulang Email Verifikasi",
+  "auth.alert.ok": "OK",
+  "auth.alert.resendFailedTitle": "Gagal Mengirim Ulang",
+  "auth.alert.resendSentTitle": "Email Verifikasi Terkirim!",
+  "auth.alert.resendSentText": "Tautan verifikasi baru telah dikirim ke alamat email Anda. Silakan periksa kotak masuk.",
+  "auth.alert.loginFailedTitle": "Login Gagal",
+  "auth.alert.loginFailedText": "Email atau kata sandi salah. Silakan coba lagi.",
+  "auth.alert.registrationFailedTitle": "Pendaftaran Gagal",
+  "auth.alert.registrationSuccessTitle": "Pendaftaran Berhasil!",
+  "auth.alert.registrationSuccessText": "Silakan periksa email Anda untuk memverifikasi akun.",
+
+  "catalog.title": "Program Pelatihan",
+  "catalog.subtitle":
+    "Temukan program pelatihan tanggap darurat menyeluruh yang dirancang untuk menyiapkan Anda menghadapi tantangan nyata",
+  "catalog.searchPlaceholder": "Cari program, keterampilan, atau sertifikasi...",
+  "catalog.filters": "Filter",
+  "catalog.sortBy": "Urutkan",
+  "catalog.sort.featured": "Unggulan Dahulu",
+  "catalog.sort.rating": "Rating Tertinggi",
+  "catalog.sort.priceLow": "Harga: Rendah ke Tinggi",
+  "catalog.sort.priceHigh": "Harga: Tinggi ke Rendah",
+  "catalog.sort.duration": "Durasi",
+  "catalog.category": "Kategori",
+  "catalog.level": "Tingkat",
+  "catalog.certification": "Sertifikasi",
+  "catalog.priceRange": "Rentang Harga: {min} - {max}",
+  "catalog.featuredOnly": "Tampilkan hanya program unggulan",
+  "catalog.new": "Baru",
+  "catalog.moreTags": "+{count} lainnya",
+  "catalog.reviewCount.one": "{count} ulasan",
+  "catalog.reviewCount.other": "{count} ulasan",
+  "catalog.noReviews": "Belum ada ulasan",
+  "catalog.remove": "Hapus",
+  "catalog.compare": "Bandingkan",
+  "catalog.learnMore": "Selengkapnya",
+  "catalog.emptyTitle": "Program tidak ditemukan",
+  "catalog.emptyText": "Coba ubah kata kunci atau filter untuk menemukan lebih banyak program.",
+  "catalog.clearFilters": "Hapus Semua Filter",
+  "catalog.showing": "Menampilkan {from} sampai {to} dari {total} program",
+  "catalog.resultsFor": "Hasil untuk \"{search}\"",
+  "catalog.compareCount": "Bandingkan ({count})",
+  "catalog.comparisonTitle": "Perbandingan Program",
+  "catalog.price": "Harga",
+  "catalog.duration": "Durasi",
+  "catalog.location": "Lokasi",
+  "catalog.rating": "Rating",
+  "catalog.startDate": "Tanggal Mulai",
+  "catalog.instructor": "Instruktur",
+  "catalog.keySkills": "Keterampilan Utama",
+  "catalog.viewDetails": "Lihat Detail",
+  "catalog.compareTipLabel": "Tips:",
+  "catalog.compareTip":
+    "Anda dapat membandingkan hingga {max} program. Tambahkan program lain dari daftar di atas untuk perbandingan yang lebih baik.",
+  "catalog.openComparison": "Buka Perbandingan Lengkap & Ekspor",
+  "catalog.clearComparisons": "Hapus Semua Perbandingan",
+
+  "news.sectionTitle": "Berita & Informasi Terbaru",
+  "news.title": "Berita & Informasi",
+  "news.subtitle": "Ikuti perkembangan, pencapaian, dan inisiatif terbaru kami",
+  "news.searchPlaceholder": "Cari berita...",
+  "news.filterByDate": "Filter berdasarkan tanggal",
+  "news.empty": "Tidak ada berita yang sesuai dengan kriteria Anda.",
+  "news.readMore": "Baca Selengkapnya",
+  "news.viewAll": "Lihat Semua Berita",
+  "news.minRead": "{minutes} menit baca",
+  "news.tableOfContents": "Dalam artikel ini",
+  "news.notFound": "Berita tidak ditemukan",
+  "news.returnHome": "Kembali ke Beranda",
+  "news.backToNews": "Kembali ke Berita",
+
+  "home.hero.titleLead": "BERJUANG UNTUK MEREKA DI",
+  "home.hero.titleAccent": "GARIS DEPAN",
+  "home.hero.subtitle":
+    "Fire Training HSE Association adalah salah satu organisasi pelatihan keselamatan kebakaran terbesar dan paling berpengaruh, yang memajukan hak dan keselamatan pemadam kebakaran di seluruh Amerika Utara.",
+  "home.hero.whoWeAre": "SIAPA KAMI",
+  "home.hero.joinUs": "BERGABUNG",
+  "home.hero.members": "Anggota Profesional",
+  "home.hero.affiliates": "Organisasi Afiliasi",
+  "home.hero.populationProtected": "Populasi Terlindungi",
+
+  "home.services.eyebrow": "PENGEMBANGAN PROFESIONAL",
+  "home.services.titleLead": "Program",
+  "home.services.titleAccent": "Pelatihan",
+  "home.services.subtitle":
+    "Program pelatihan dan sertifikasi menyeluruh yang dirancang untuk meningkatkan keterampilan pemadam kebakaran, pengetahuan keselamatan, dan pengembangan profesional di setiap jenjang karier.",
+  "home.services.duration": "Durasi: {duration}",
+  "home.services.enrollNow": "Daftar Sekarang",
+  "home.services.ctaTitle": "Siap Mengembangkan Karier Anda?",
+  "home.services.ctaText":
+    "Bergabunglah dengan ribuan pemadam kebakaran yang telah mengembangkan karier mereka melalui program pelatihan profesional kami. Hubungi kami hari ini untuk membahas pendaftaran dan jalur sertifikasi.",
+  "home.services.viewAll": "Lihat Semua Program",
+  "home.services.getInformation": "Dapatkan Informasi",
+
+  "home.about.eyebrow": "PRIORITAS KAMI",
+  "home.about.titleLead": "Hal Terpenting bagi",
+  "home.about.titleAccent": "Pemadam Kebakaran",
+  "home.about.subtitle":
+    "Komitmen kami terhadap keselamatan, kesehatan, dan kemajuan profesional pemadam kebakaran mendorong semua yang kami lakukan. Inilah bidang utama tempat kami memusatkan advokasi, pelatihan, dan dukungan.",
+  "home.about.safety.title": "Keselamatan & Perlindungan",
+  "home.about.safety.description":
+    "Pemadam kebakaran memiliki pekerjaan yang berbahaya. Kami berupaya membuatnya lebih aman. Pelajari alat, sumber daya, dan dukungan yang tersedia untuk melindungi Anda dan keluarga.",
+  "home.about.health.title": "Perlindungan Kesehatan Presumtif",
+  "home.about.health.description":
+    "Pemadam kebakaran berisiko lebih tinggi terkena kanker, penyakit jantung dan paru-paru, serta gangguan kesehatan perilaku. Cari tahu perlindungan presumtif yang tersedia.",
+  "home.about.cancer.title": "Kesadaran Kanker",
+  "home.about.cancer.description":
+    "Kanker akibat kerja adalah penyebab utama kematian saat bertugas di dinas pemadam kebakaran. Pelajari apa yang kami lakukan untuk melawan penyakit mematikan ini.",
+  "home.about.bargaining.title": "Perundingan Bersama",
+  "home.about.bargaining.description":
+    "Setiap pekerja berhak didengar. Pelajari apa yang dilakukan serikat untuk menjamin perundingan bersama di tingkat lokal, negara bagian, dan federal.",
+  "home.about.pay.title": "Gaji & Tunjangan",
+  "home.about.pay.description":
+    "Memahami sistem pensiun dan memilih tunjangan bisa membingungkan. Serikat kami siap membantu anggota dan pimpinan afiliasi.",
+  "home.about.training.title": "Keunggulan Pelatihan",
+  "home.about.training.description":
+    "Program pengembangan profesional dan pelatihan yang memenuhi standar industri tertinggi untuk pendidikan keselamatan kebakaran dan tanggap darurat.",
+  "home.about.missionTitle": "Misi Kami",
+  "home.about.missionText":
+    "Memajukan hak, keselamatan, dan masa depan pemadam kebakaran, petugas medis darurat, dan petugas penyelamat melalui program pelatihan, advokasi, dan pengembangan profesional yang melayani masyarakat di seluruh Amerika Serikat dan Kanada.",
+
+  "home.team.titleLead": "Kenali Tim Ahli",
+  "home.team.titleAccent": "Kami",
+  "home.team.subtitle":
+    "Tim profesional bersertifikat kami membawa pengalaman puluhan tahun di bidang keselamatan kebakaran, tanggap darurat, dan konsultasi HSE untuk menghadirkan program pelatihan kelas dunia.",
+  "home.team.photoAlt": "Tim Departemen Fire Training HSE",
+  "home.team.photoTitle": "Berdedikasi pada Keunggulan Keselamatan",
+  "home.team.photoSubtitle": "Pakar profesional pelatihan keselamatan kebakaran dan HSE",
+  "home.team.stats.certifications": "Sertifikasi",
+  "home.team.stats.certificationsDescription": "Total sertifikasi profesional seluruh tim kami",
+  "home.team.stats.graduates": "Peserta Lulus",
+  "home.team.stats.graduatesDescription": "Profesional yang terlatih dalam keselamatan kebakaran dan HSE",
+  "home.team.stats.programs": "Program Pelatihan",
+  "home.team.stats.programsDescription": "Kursus dan lokakarya menyeluruh yang telah diselenggarakan",
+  "home.team.stats.experience": "Tahun Pengalaman",
+  "home.team.stats.experienceDescription": "Rata-rata tahun pengalaman profesional per instruktur",
+  "home.team.experience": "Pengalaman:",
+  "home.team.certifications": "Sertifikasi:",
+  "home.team.specialties": "Keahlian:",
+  "home.team.ctaTitle": "Bergabung dengan Misi Kami",
+  "home.team.ctaText":
+    "Kami selalu mencari profesional keselamatan kebakaran yang berkualifikasi untuk bergabung dengan tim kami",
+  "home.team.ctaNote":
+    "Hubungi kami untuk mengetahui peluang karier di bidang pelatihan keselamatan kebakaran dan konsultasi HSE",
+
+  "footer.tagline": "Lapangan Latihan Pemadam Kebakaran",
+  "footer.about":
+    "Penyedia terdepan pelatihan keselamatan kebakaran dan layanan konsultasi HSE. Membangun masyarakat yang lebih aman melalui pendidikan ahli dan pengembangan profesional.",
+  "footer.quickLinks": "Tautan Cepat",
+  "footer.home": "Beranda",
+  "footer.aboutLink": "Tentang",
+  "footer.ourTeam": "Tim Kami",
+  "footer.ourServices": "Layanan Kami",
+  "footer.service.fireSafety": "Pelatihan Keselamatan Kebakaran",
+  "footer.service.hseConsulting": "Konsultasi HSE",
+  "footer.service.industrialSafety": "Keselamatan Industri",
+  "footer.service.emergencyResponse": "Tanggap Darurat",
+  "footer.service.buildingSafety": "Keselamatan Gedung",
+  "footer.service.equipmentTraining": "Pelatihan Peralatan",
+  "footer.contactInfo": "Info Kontak",
+  "footer.emergency": "Darurat 24/7",
+  "footer.quickResponse": "Respons Cepat",
+  "footer.copyright": "© {year} Fire Training Ground - Badak LNG. Hak cipta dilindungi.",
+  "footer.privacy": "Kebijakan Privasi",
+  "footer.terms": "Ketentuan Layanan",
+  "footer.safetyGuidelines": "Pedoman Keselamatan",
+
+  "enrollment.status.pending": "Menunggu Tinjauan",
+  "enrollment.status.confirmed": "Terkonfirmasi",
+  "enrollment.status.waitlisted": "Daftar Tunggu",
+  "enrollment.status.offered": "Kursi Ditawarkan",
+  "enrollment.status.cancelled": "Dibatalkan",
+  "enrollment.status.completed": "Selesai",
+  "enrollment.card.title": "Pendaftaran Anda",
+  "enrollment.card.starts": "Mulai {date} · {venue}",
+  "enrollment.card.waitlistPosition": "Daftar Tunggu #{position}",
+  "enrollment.card.offerNotice":
+    "Ada kursi kosong untuk Anda. Terima dalam {time} atau kursi akan diberikan ke orang berikutnya.",
+  "enrollment.card.openCourse": "Buka Kursus",
+  "enrollment.card.acceptSeat": "Terima Kursi",
+  "enrollment.card.decline": "Tolak",
+  "enrollment.card.leaveWaitlist": "Keluar dari Daftar Tunggu",
+  "enrollment.card.cancel": "Batalkan",
+  "enrollment.card.seatConfirmedTitle": "Kursi Terkonfirmasi",
+  "enrollment.card.seatConfirmedText": "Kursi Anda sudah terkonfirmasi. Sampai jumpa di sesi pertama!",
+  "enrollment.card.offerUnavailableTitle": "Penawaran Tidak Tersedia",
+  "enrollment.card.offerUnavailableText":
+    "Penawaran kursi ini telah kedaluwarsa dan diberikan ke orang berikutnya di daftar tunggu.",
+  "enrollment.card.declineTitle": "Tolak kursi ini?",
+  "enrollment.card.cancelTitle": "Batalkan pendaftaran?",
+  "enrollment.card.leaveWaitlistText": "Anda akan kehilangan posisi di antrean.",
+  "enrollment.card.releaseSeatText": "Kursi Anda akan ditawarkan ke orang berikutnya di daftar tunggu.",
+  "enrollment.card.declineSeat": "Tolak Kursi",
+  "enrollment.card.cancelEnrollment": "Batalkan Pendaftaran",
+  "enrollment.card.keep": "Pertahankan",
+  "enrollment.card.cancelFailedTitle": "Pembatalan Gagal",
+  "enrollment.card.cancelFailedText": "Pendaftaran Anda tidak dapat dibatalkan. Silakan coba lagi.",
+
+  "certificates.validity.valid": "Berlaku",
+  "certificates.validity.expired": "Kedaluwarsa",
+  "certificates.validity.revoked": "Dicabut",
+  "certificates.expiry.expiring_30": "Berakhir dalam 30 hari",
+  "certificates.expiry.expiring_60": "Berakhir dalam 60 hari",
+  "certificates.expiry.expiring_90": "Berakhir dalam 90 hari",
+  "certificates.card.issued": "Diterbitkan",
+  "certificates.card.validUntil": "Berlaku hingga",
+  "certificates.card.noExpiry": "Tanpa masa berlaku",
+  "certificates.card.renewed": "Diperbarui oleh pelatihan penyegaran berikutnya",
+  "certificates.card.recertificationRequired": "Perlu sertifikasi ulang",
+  "certificates.card.book": "Pesan {program}",
+  "certificates.card.share": "Bagikan tautan verifikasi",
+  "certificates.card.verify": "Verifikasi",
+  "certificates.card.downloadFailedTitle": "Unduhan Gagal",
+  "certificates.card.downloadFailedText": "Sertifikat tidak dapat dibuat. Silakan coba lagi.",
+  "certificates.card.linkCopiedTitle": "Tautan Disalin",
+  "certificates.card.linkCopiedText": "Siapa pun yang memiliki tautan ini dapat memverifikasi sertifikat.",
+
+  "dashboard.welcome": "Selamat datang kembali, {name}",
+  "dashboard.subtitle": "Pendaftaran, sesi, sertifikat, dan pembayaran Anda di satu tempat.",
+  "dashboard.browsePrograms": "Jelajahi Program",
+  "dashboard.stats.activeEnrollments": "Pendaftaran Aktif",
+  "dashboard.stats.upcomingSessions": "Sesi Mendatang",
+  "dashboard.stats.certificatesEarned": "Sertifikat Diperoleh",
+  "dashboard.stats.outstandingBalance": "Saldo Terutang",
+  "dashboard.currentEnrollments": "Pendaftaran Saat Ini & Mendatang",
+  "dashboard.noEnrollmentsTitle": "Tidak ada pendaftaran aktif",
+  "dashboard.noEnrollmentsText": "Pilih angkatan mendatang untuk memulai sertifikasi berikutnya.",
+  "dashboard.viewSchedule": "Lihat Jadwal",
+  "dashboard.trainingProgress": "Kemajuan Pelatihan",
+  "dashboard.noSyllabus": "Belum ada silabus",
+  "dashboard.topicsCompleted": "{completed}/{total} topik",
+  "dashboard.resume": "Lanjutkan dari terakhir kali",
+  "dashboard.reviewCourse": "Tinjau kursus",
+  "dashboard.certificates": "Sertifikat",
+  "dashboard.viewAll": "Lihat semua",
+  "dashboard.noCertificates": "Sertifikat akan muncul di sini setelah Anda menyelesaikan program pelatihan.",
+  "dashboard.upcomingSessions": "Sesi Mendatang",
+  "dashboard.noSessions": "Tidak ada sesi terjadwal.",
+  "dashboard.fullSchedule": "Jadwal Lengkap",
+  "dashboard.outstandingPayments": "Pembayaran Terutang",
+  "dashboard.nothingOutstanding": "Tidak ada tagihan terutang.",
+  "dashboard.overdueSince": "Terlambat sejak {date}",
+  "dashboard.due": "Jatuh tempo {date}",
+  "dashboard.invoiceQuestions": "Ada pertanyaan tentang tagihan? Kirim email ke",
+  "dashboard.recertificationDeadlines": "Tenggat Sertifikasi Ulang",
+  "dashboard.noExpiringCertificates": "Tidak ada sertifikat Anda yang akan berakhir.",
+  "dashboard.expired": "Kedaluwarsa sejak {date}",
+  "dashboard.expires": "Berakhir {date}",
+
+  "schedule.title": "Jadwal Pelatihan",
+  "schedule.subtitle": "Angkatan mendatang di semua program, dengan ketersediaan kursi secara langsung.",
+  "schedule.category": "Kategori",
+  "schedule.allCategories": "Semua kategori",
+  "schedule.location": "Lokasi",
+  "schedule.allLocations": "Semua lokasi",
+  "schedule.empty": "Belum ada sesi mendatang yang dijadwalkan.",
+  "schedule.upcomingSessions": "Sesi Mendatang",
+  "schedule.calendar": "Kalender",
+  "schedule.program": "Program",
+  "schedule.cohort": "Angkatan",
+  "schedule.dates": "Tanggal",
+  "schedule.venue": "Tempat",
+  "schedule.instructors": "Instruktur",
+  "schedule.seats": "Kursi",
+  "schedule.enroll": "Daftar",
+  "schedule.toBeAnnounced": "Akan diumumkan",
+  "schedule.seatsLeft": "Sisa {remaining} dari {capacity}",
+  "schedule.full": "Penuh",
+  "schedule.waiting": "{count} menunggu",
+  "schedule.joinWaitlist": "Masuk Daftar Tunggu",
+  "schedule.selectDay": "Pilih hari",
+  "schedule.noSessionsOnDay": "Tidak ada sesi terjadwal pada hari ini.",
+
+  "certificates.title": "Sertifikat Saya",
+  "certificates.subtitle": "Unduh sertifikat Anda atau bagikan tautan verifikasinya kepada pemberi kerja.",
+  "certificates.dueTitle": "Sertifikasi ulang diperlukan",
+  "certificates.due.one":
+    "1 sertifikat telah atau akan kedaluwarsa dalam 90 hari. Pesan pelatihan penyegaran yang disarankan agar tetap berlaku.",
+  "certificates.due.other":
+    "{count} sertifikat telah atau akan kedaluwarsa dalam 90 hari. Pesan pelatihan penyegaran yang disarankan agar tetap berlaku.",
+  "certificates.emptyTitle": "Belum ada sertifikat",
+
+  "verify.title": "Verifikasi Sertifikat",
+  "verify.subtitle": "Masukkan kode yang tercetak di bawah kode QR pada sertifikat.",
+  "verify.submit": "Verifikasi",
+  "verify.unavailable": "Verifikasi sedang tidak tersedia. Silakan coba lagi nanti.",
+  "verify.notFoundTitle": "Sertifikat tidak ditemukan",
+  "verify.notFoundText":
+    "Tidak ada sertifikat yang cocok dengan {code}. Kode mungkin salah ketik, atau sertifikat tidak asli.",
+  "verify.verdict.valid": "Asli dan berlaku",
+  "verify.verdict.expired": "Asli tetapi kedaluwarsa",
+  "verify.verdict.revoked": "Dicabut",
+  "verify.holder": "Pemegang",
+  "verify.certification": "Sertifikasi",
+  "verify.program": "Program",
+  "verify.issuer": "Penerbit",
+  "verify.leadInstructor": "Instruktur utama",
+  "verify.code": "Kode",
+
+  "quizzes.kind.knowledge_check": "Uji Pemahaman",
+  "quizzes.kind.final_exam": "Ujian Tertulis Akhir",
+  "skills.standing.passed": "Disahkan",
+  "skills.standing.failed": "Perlu Uji Ulang",
+  "skills.standing.not_evaluated": "Belum Dinilai",
+
+  "learning.updateFailedTitle": "Pembaruan Gagal",
+  "learning.updateFailedText": "Kemajuan Anda tidak dapat disimpan. Silakan coba lagi.",
+  "learning.noAccessTitle": "Tidak ada akses kursus",
+  "learning.noAccessText": "Daftar di salah satu angkatan program ini untuk memantau kemajuan Anda di sini.",
+  "learning.viewProgram": "Lihat Program",
+  "learning.startLearning": "Mulai Belajar",
+  "learning.resume": "Lanjutkan dari Terakhir Kali",
+  "learning.allComplete": "Semua topik selesai",
+  "learning.programProgress": "Kemajuan program",
+  "learning.topicsProgress": "{completed}/{total} topik · {percent}%",
+  "learning.attendance":
+    "Kehadiran {percent}% ({attended} dari {counted} sesi) · {required}% diperlukan untuk sertifikasi",
+  "learning.assessments": "Penilaian",
+  "learning.assessmentsText": "Lulus semua penilaian agar memenuhi syarat sertifikasi.",
+  "learning.module": "Modul {number}",
+  "learning.bestScore": "Nilai terbaik {score}%",
+  "learning.passed": "Lulus",
+  "learning.resumeQuiz": "Lanjutkan",
+  "learning.retake": "Ulangi",
+  "learning.takeQuiz": "Kerjakan Kuis",
+  "learning.practicalSkills": "Keterampilan Praktik",
+  "learning.practicalSkillsText":
+    "Instruktur menilai keterampilan ini di lapangan latihan. Keterampilan wajib harus disahkan sebelum sertifikasi.",
+  "learning.steps": "{count} langkah",
+  "learning.within": "dalam {time}",
+  "learning.optional": "Opsional",
+  "learning.inTime": "dalam {time}",
+  "learning.signedBy": "disahkan oleh {name} pada {date}",
+  "learning.criticalFail": "Gagal kritis: {failures}",
+  "learning.noSyllabus": "Silabus program ini belum diterbitkan.",
+  "learning.moduleTitle": "Modul {number}: {title}",
+  "learning.markComplete": "Tandai {topic} selesai",
+  "learning.hours": "{hours} jam",
+  "learning.takeKnowledgeCheck": "Kerjakan uji pemahaman",
+  "learning.completedOn": "Selesai {date}",
+  "learning.markedByInstructor": "ditandai oleh instruktur",
+
+  "quiz.couldNotStartTitle": "Tidak Dapat Dimulai",
+  "quiz.couldNotStartText": "Kuis tidak dapat dimulai. Silakan coba lagi.",
+  "quiz.unansweredTitle": "Kirim dengan pertanyaan yang belum dijawab?",
+  "quiz.unansweredText": "{count} pertanyaan belum dijawab dan akan dinilai salah.",
+  "quiz.submit": "Kirim",
+  "quiz.submitFailedTitle": "Pengiriman Gagal",
+  "quiz.submitFailedText": "Jawaban Anda tidak dapat dikirim. Periksa koneksi Anda dan coba lagi.",
+  "quiz.backToCourse": "Kembali ke kursus",
+  "quiz.unavailableTitle": "Kuis tidak tersedia",
+  "quiz.unavailableText": "Kuis ini tidak ada atau Anda tidak terdaftar di programnya.",
+  "quiz.answered": "{answered}/{total} terjawab",
+  "quiz.submitAnswers": "Kirim Jawaban",
+  "quiz.timeRanOut": "Waktu habis",
+  "quiz.notPassedYet": "Belum lulus",
+  "quiz.points": "{earned}/{total} poin · {passing}% untuk lulus",
+  "quiz.topic": "Modul {number} · {week}: {title}",
+  "quiz.allQuestions": "Semua",
+  "quiz.questions": "Pertanyaan",
+  "quiz.minutes": "{minutes} mnt",
+  "quiz.untimed": "Tanpa batas waktu",
+  "quiz.timeLimit": "Batas waktu",
+  "quiz.toPass": "Untuk lulus",
+  "quiz.attemptsLeft": "Sisa percobaan",
+  "quiz.passedWithScore": "Anda lulus kuis ini dengan nilai terbaik {score}%.",
+  "quiz.noAttemptsLeft": "Anda telah menggunakan semua percobaan. Hubungi instruktur Anda untuk mengatur ujian ulang.",
+  "quiz.resumeAttempt": "Lanjutkan Percobaan",
+  "quiz.retakeQuiz": "Ulangi Kuis",
+  "quiz.startQuiz": "Mulai Kuis",
+  "quiz.timerNotice":
+    "Penghitung waktu mulai saat Anda memulai dan tetap berjalan jika Anda meninggalkan halaman. Jawaban dikirim otomatis saat waktu habis.",
+  "quiz.previousAttempts": "Percobaan Sebelumnya",
+  "quiz.timedOut": "Waktu habis",
+  "quiz.notPassed": "Tidak lulus",
+
+  "quizzes.type.single_choice": "Pilihan Tunggal",
+  "quizzes.type.multiple_choice": "Pilihan Ganda",
+  "quizzes.type.true_false": "Benar / Salah",
+  "quizzes.type.hotspot": "Titik pada Gambar",
+  "quizzes.type.ordering": "Pengurutan",
+
+  "quiz.instructions.multipleChoice": "Pilih semua jawaban yang benar.",
+  "quiz.instructions.hotspot": "Klik titik yang benar pada gambar.",
+  "quiz.instructions.ordering": "Susun langkah-langkah dalam urutan yang benar.",
+  "quiz.moveUp": "Pindah ke atas",
+  "quiz.moveDown": "Pindah ke bawah",
+
+  "compare.backToPrograms": "Kembali ke Program Pelatihan",
+  "compare.title": "Bandingkan Program",
+  "compare.subtitle":
+    "Bandingkan hingga {max} program secara berdampingan dan ekspor perbandingannya untuk permintaan pembelian.",
+  "compare.exportCsv": "Ekspor CSV",
+  "compare.exportPdf": "Ekspor PDF",
+  "compare.exportFailedTitle": "Ekspor Gagal",
+  "compare.exportFailedText": "PDF tidak dapat dibuat. Silakan coba lagi.",
+  "compare.differencesOnly": "Tampilkan perbedaan saja",
+  "compare.rowsDiffer": "{count} dari {total} baris berbeda",
+  "compare.addProgram": "Tambahkan program",
+  "compare.emptyBefore": "Tambahkan program untuk dibandingkan, atau pilih dari",
+  "compare.emptyLink": "katalog pelatihan",
+  "compare.remove": "Hapus {title}",
+  "compare.allMatch": "Program-program ini sama pada setiap atribut yang dibandingkan.",
+
+  "compare.row.price": "Harga",
+  "compare.row.duration": "Durasi",
+  "compare.row.hours": "Jam Tatap Muka",
+  "compare.row.level": "Tingkat",
+  "compare.row.certification": "Sertifikasi",
+  "compare.row.body": "Lembaga Sertifikasi",
+  "compare.row.prerequisites": "Prasyarat",
+  "compare.row.nextSession": "Sesi Berikutnya",
+  "compare.row.seats": "Sisa Kursi",
+  "compare.row.location": "Lokasi",
+  "compare.row.instructor": "Instruktur Utama",
+  "compare.row.rating": "Penilaian Peserta",
+  "compare.hours": "{hours} jam",
+  "compare.notPublished": "Belum dipublikasikan",
+  "compare.none": "Tidak ada",
+  "compare.noneScheduled": "Belum dijadwalkan",
+  "compare.full": "Penuh (daftar tunggu dibuka)",
+  "compare.seatsOf": "{remaining} dari {capacity}",
+  "compare.rating": "{rating} / 5 ({count} ulasan)",
+  "compare.noReviews": "Belum ada ulasan",
+  "compare.attribute": "Atribut",
+  "compare.pdfTitle": "Perbandingan Program Pelatihan",
+  "compare.pdfGenerated": "Dibuat {date} · Baris yang disorot berbeda antarprogram",
+
+  "detail.backToPrograms": "Kembali ke Program",
+  "detail.share": "Bagikan",
+  "detail.downloadBrochure": "Unduh Brosur",
+  "detail.scheduleTitle": "Jadwal & Ketersediaan",
+
+  "notFound.title": "Ups! Halaman tidak ditemukan",
+  "notFound.home": "Kembali ke Beranda",
+
+  "notifications.title": "Notifikasi",
+  "notifications.empty": "Tidak ada notifikasi baru.",
+
+  "checkIn.failedTitle": "Check-in gagal",
+  "checkIn.scanAgain": "Silakan pindai kode lagi.",
+  "checkIn.checkingIn": "Sedang melakukan check-in...",
+  "checkIn.reviewTitle": "Dikirim untuk ditinjau",
+  "checkIn.flag.duplicate":
+    "Anda sudah tercatat dalam daftar hadir hari ini. Instruktur Anda telah diberi tahu tentang pemindaian berulang.",
+  "checkIn.flag.out_of_window":
+    "Check-in untuk sesi ini sedang tidak dibuka. Pemindaian telah dicatat untuk ditinjau instruktur Anda.",
+  "checkIn.late": "Check-in terlambat",
+  "checkIn.done": "Anda sudah check-in",
+  "checkIn.dashboard": "Buka Dasbor Saya",
+
+  "reviews.status.pending": "Menunggu Moderasi",
+  "reviews.status.published": "Diterbitkan",
+  "reviews.status.rejected": "Ditolak",
+  "reviews.dimension.instructor": "Instruktur",
+  "reviews.dimension.facilities": "Fasilitas",
+  "reviews.dimension.content": "Materi Kursus",
+  "reviews.unavailable": "Ulasan tidak tersedia saat ini.",
+  "reviews.title": "Ulasan Peserta",
+  "reviews.count.one": "{count} ulasan",
+  "reviews.count.other": "{count} ulasan",
+  "reviews.yourReview": "Ulasan Anda",
+  "reviews.prompt": "Anda telah menyelesaikan program ini. Bagaimana pengalaman Anda?",
+  "reviews.edit": "Ubah Ulasan",
+  "reviews.write": "Tulis Ulasan",
+  "reviews.onlyCompleted": "Ulasan hanya dapat ditulis oleh peserta yang telah menyelesaikan program ini.",
+  "reviews.empty": "Belum ada ulasan.",
+  "reviews.dialog.editTitle": "Ubah Ulasan Anda",
+  "reviews.dialog.experience": "Pengalaman Anda",
+  "reviews.dialog.placeholder": "Apa yang berjalan baik, dan apa yang bisa lebih baik?",
+  "reviews.dialog.moderation":
+    "Ulasan diperiksa sebelum diterbitkan. Mengubah ulasan akan mengirimkannya untuk diperiksa lagi.",
+  "reviews.dialog.submit": "Kirim Ulasan",
+  "reviews.dialog.chooseRating": "Pilih penilaian",
+  "reviews.dialog.commentTooShort": "Ceritakan sedikit lebih banyak kepada peserta lain (minimal 20 karakter)",
+  "reviews.dialog.thanksTitle": "Terima kasih atas ulasan Anda",
+  "reviews.dialog.thanksText": "Ulasan akan muncul di halaman program setelah diperiksa oleh tim kami.",
+  "reviews.dialog.failedTitle": "Ulasan Tidak Tersimpan",
+  "reviews.dialog.failedText": "Ulasan Anda tidak dapat disimpan. Silakan coba lagi.",
+
+  "enrollDialog.validation.cohort": "Pilih angkatan",
+  "enrollDialog.validation.fullName": "Nama lengkap wajib diisi",
+  "enrollDialog.validation.email": "Masukkan alamat email yang valid",
+  "enrollDialog.validation.phone": "Masukkan nomor telepon yang valid",
+  "enrollDialog.validation.employer": "Perusahaan wajib diisi",
+  "enrollDialog.validation.jobTitle": "Jabatan wajib diisi",
+  "enrollDialog.validation.prerequisites": "Anda harus memenuhi prasyarat untuk mendaftar",
+  "enrollDialog.validation.medical": "Pernyataan kebugaran medis wajib diisi",
+  "enrollDialog.step.cohort": "Angkatan",
+  "enrollDialog.step.details": "Data Anda",
+  "enrollDialog.step.declarations": "Pernyataan",
+  "enrollDialog.failedTitle": "Pendaftaran Gagal",
+  "enrollDialog.failedText": "Kami tidak dapat menyelesaikan pendaftaran Anda. Silakan coba lagi.",
+  "enrollDialog.waitlistedTitle": "Anda masuk daftar tunggu",
+  "enrollDialog.receivedTitle": "Pendaftaran diterima",
+  "enrollDialog.waitlistedText":
+    "Anda berada di urutan {position} dalam antrean. Saat ada kursi kosong, kursi itu akan ditawarkan kepada Anda, dan Anda memiliki waktu 48 jam untuk menerimanya.",
+  "enrollDialog.receivedText":
+    "Koordinator pelatihan kami akan meninjau pendaftaran Anda dan mengonfirmasi kursi Anda melalui email.",
+  "enrollDialog.seatsRemaining": "Sisa kursi",
+  "enrollDialog.seatsOf": "{remaining} dari {capacity}",
+  "enrollDialog.status": "Status",
+  "enrollDialog.done": "Selesai",
+  "enrollDialog.title": "Daftar di {title}",
+  "enrollDialog.stepOf": "Langkah {step} dari {total}: {title}",
+  "enrollDialog.noCohorts": "Belum ada angkatan mendatang untuk program ini. Silakan periksa kembali nanti.",
+  "enrollDialog.alreadyEnrolled": "Sudah terdaftar",
+  "enrollDialog.fullWaiting": "Penuh · {count} menunggu",
+  "enrollDialog.fullJoinWaitlist": "Penuh · Masuk daftar tunggu",
+  "enrollDialog.seatsLeft": "Sisa {count} kursi",
+  "enrollDialog.seatsTaken": "{taken} dari {capacity} kursi terisi",
+  "enrollDialog.fullName": "Nama Lengkap",
+  "enrollDialog.email": "Email",
+  "enrollDialog.phone": "Telepon",
+  "enrollDialog.employeeId": "ID Karyawan (opsional)",
+  "enrollDialog.employer": "Perusahaan",
+  "enrollDialog.jobTitle": "Jabatan",
+  "enrollDialog.invoiceNote": "Perusahaan Anda akan ditagih biaya program sebesar {price}.",
+  "enrollDialog.prerequisitesLabel": "Saya memenuhi prasyarat program ini",
+  "enrollDialog.prerequisitesHint": "Termasuk persyaratan pendidikan dan fisik yang tercantum di tab Persyaratan.",
+  "enrollDialog.medicalLabel": "Pernyataan kebugaran medis",
+  "enrollDialog.medicalHint":
+    "Saya menyatakan bahwa saya sehat secara medis untuk pelatihan yang menuntut fisik dan akan membawa surat keterangan dokter ke sesi pertama.",
+  "enrollDialog.medicalNotes": "Catatan medis (opsional)",
+  "enrollDialog.medicalNotesPlaceholder": "Alergi, kondisi, atau obat yang perlu diketahui instruktur",
+  "enrollDialog.enrollingIn": "Anda mendaftar di {code}, {dates}.",
+  "enrollDialog.joiningWaitlist": "{code} sudah penuh, sehingga Anda akan masuk di urutan terakhir daftar tunggunya.",
+  "enrollDialog.submit": "Kirim Pendaftaran",
+  "enrollDialog.continue": "Lanjutkan",
+
+  "detail.featuredProgram": "Program Unggulan",
+  "detail.tab.overview": "Ringkasan",
+  "detail.tab.curriculum": "Kurikulum",
+  "detail.tab.requirements": "Persyaratan",
+  "detail.tab.certification": "Sertifikasi",
+  "detail.tab.reviews": "Ulasan",
+  "detail.overviewTitle": "Ringkasan Program",
+  "detail.whatYouLearn": "Yang Akan Anda Pelajari:",
+  "detail.learn.als": "Teknik bantuan hidup lanjut",
+  "detail.learn.pharmacology": "Farmakologi kegawatdaruratan",
+  "detail.learn.trauma": "Penilaian dan penanganan trauma",
+  "detail.learn.cardiac": "Protokol kegawatdaruratan jantung",
+  "detail.programFeatures": "Fitur Program:",
+  "detail.feature.simulation": "Laboratorium simulasi mutakhir",
+  "detail.feature.rotations": "Rotasi klinis di rumah sakit",
+  "detail.feature.field": "Pengalaman lapangan bersama unit EMS",
+  "detail.feature.online": "Platform belajar daring 24/7",
+  "detail.curriculumTitle": "Kurikulum Kursus",
+  "detail.syllabusSoon": "Silabus lengkap program ini akan segera diterbitkan.",
+  "detail.moduleDetail": "Detail Modul",
+  "detail.requirementsTitle": "Prasyarat & Persyaratan",
+  "detail.prerequisites": "Prasyarat:",
+  "detail.noPrerequisites": "Program ini tidak memiliki prasyarat.",
+  "detail.physicalRequirements": "Persyaratan Fisik:",
+  "detail.physical.fitness": "Penilaian kebugaran fisik",
+  "detail.physical.clearance": "Surat keterangan sehat dari dokter",
+  "detail.physical.screening": "Tes narkoba dan pemeriksaan latar belakang",
+  "detail.certificationTitle": "Sertifikasi & Prospek Karier",
+  "detail.certificationsEarned": "Sertifikasi yang Diperoleh:",
+  "detail.careerOpportunities": "Peluang Karier:",
+  "detail.leadInstructor": "Instruktur Utama",
+  "detail.instructorCredentials": "Paramedis, Dokter Spesialis Kedaruratan",
+  "detail.noInstructorRatings": "Belum ada penilaian dari peserta",
+  "detail.instructorExperience": "Berpengalaman lebih dari 15 tahun di bidang kedokteran kedaruratan dan pelatihan EMS",
+  "detail.programDetails": "Detail Program",
+  "detail.duration": "Durasi",
+  "detail.format": "Format",
+  "detail.formatHybrid": "Hibrida",
+  "detail.classSize": "Ukuran Kelas",
+  "detail.classSizeValue": "Maks. 24 peserta",
+  "detail.nextStartDate": "Tanggal Mulai Berikutnya",
+  "detail.language": "Bahasa",
+  "detail.languageEnglish": "Bahasa Inggris",
+  "detail.enrollNow": "Daftar Sekarang",
+  "detail.infoSession": "Jadwalkan Sesi Informasi",
+  "detail.callUs": "Ada pertanyaan? Hubungi kami di",
+  "detail.additionalFeatures": "Fitur Tambahan",
+  "detail.extra.online": "Platform belajar daring",
+  "detail.extra.scheduling": "Jadwal fleksibel",
+  "detail.extra.placement": "Bantuan penempatan kerja",
+  "detail.extra.credits": "Kredit pendidikan berkelanjutan",
+  "detail.learningObjectives": "Tujuan Pembelajaran",
+  "detail.downloadSample": "Unduh Contoh PDF",
+  "detail.career.emt": "Teknisi Medis Darurat",
+  "detail.career.paramedic": "Paramedis",
+  "detail.career.flightMedic": "Petugas Medis Udara",
+  "detail.career.erTechnician": "Teknisi Unit Gawat Darurat",
+  "detail.career.fireMedic": "Petugas Medis Pemadam Kebakaran",
+  "detail.career.criticalCare": "Transportasi Perawatan Kritis",
+  "detail.career.emsSupervisor": "Supervisor EMS",
+  "detail.career.trainingInstructor": "Instruktur Pelatihan",
+  "detail.overviewText":
+    "Program pelatihan Layanan Medis Darurat kami dirancang untuk memberikan pendidikan menyeluruh dan pengalaman langsung bagi calon maupun tenaga medis darurat yang sudah bekerja. Program intensif ini memadukan pengetahuan teori dengan keterampilan praktik untuk mempersiapkan peserta menghadapi situasi darurat yang sesungguhnya.",
+  "detail.moduleTitle": "Modul {number}: {title}",
+  "detail.validFor": "Berlaku selama {months} bulan",
+  "detail.instructorRating": "Penilaian instruktur {rating} ({count})",
+  "detail.infoSessionSubject": "Sesi informasi: {title}",
+  "detail.contactHours": "{hours} jam tatap muka",
+  "detail.issuedBy": "Diterbitkan oleh: {issuer}",
+  "detail.sampleAlt": "Contoh {name}",
+  "detail.sampleTraineeName": "Nama Anda",
+
+  "home.contact.phone": "Telepon",
+  "home.contact.email": "Email",
+  "home.contact.location": "Lokasi",
+  "home.contact.hours": "Jam Operasional",
+  "home.contact.phoneSubtitle": "Saluran Darurat 24/7 Tersedia",
+  "home.contact.emailSubtitle": "Respons Cepat Terjamin",
+  "home.contact.locationSubtitle": "Fasilitas PT Badak LNG",
+  "home.contact.hoursSubtitle": "Layanan Darurat 24/7",
+  "home.contact.weekdayHours": "Sen-Jum: 08.00 - 18.00",
+  "home.contact.saturdayHours": "Sab: 09.00 - 16.00",
+  "home.contact.titleLead": "Hubungi",
+  "home.contact.titleAccent": "Kami",
+  "home.contact.subtitle":
+    "Ingin meningkatkan pengetahuan keselamatan kebakaran atau membutuhkan konsultasi HSE? Hubungi kami hari ini untuk membahas kebutuhan pelatihan dan persyaratan keselamatan Anda.",
+  "home.contact.formTitle": "Kirim Pesan kepada Kami",
+  "home.contact.firstName": "Nama Depan *",
+  "home.contact.lastName": "Nama Belakang *",
+  "home.contact.emailAddress": "Alamat Email *",
+  "home.contact.phoneNumber": "Nomor Telepon",
+  "home.contact.organization": "Organisasi/Perusahaan",
+  "home.contact.trainingInterest": "Minat Pelatihan",
+  "home.contact.message": "Pesan *",
+  "home.contact.send": "Kirim Pesan",
+  "home.contact.requiredNote": "* Wajib diisi. Kami akan membalas dalam 24 jam.",
+  "home.contact.callEmergency": "Hubungi Saluran Darurat",
+  "home.contact.firstNamePlaceholder": "Nama depan Anda",
+  "home.contact.lastNamePlaceholder": "Nama belakang Anda",
+  "home.contact.organizationPlaceholder": "Nama organisasi Anda",
+  "home.contact.messagePlaceholder":
+    "Ceritakan kebutuhan pelatihan, jumlah peserta, tanggal yang diinginkan, atau persyaratan khusus Anda...",
+  "home.contact.interest.placeholder": "Pilih program pelatihan",
+  "home.contact.interest.fire_safety": "Pelatihan Keselamatan Kebakaran",
+  "home.contact.interest.hse_consulting": "Konsultasi HSE",
+  "home.contact.interest.industrial_safety": "Keselamatan Industri",
+  "home.contact.interest.team_leadership": "Kepemimpinan Tim",
+  "home.contact.interest.building_safety": "Keselamatan Gedung",
+  "home.contact.interest.equipment_training": "Pelatihan Peralatan",
+  "home.contact.interest.custom": "Solusi Pelatihan Khusus",
+  "home.contact.emergencyTitle": "Kontak Darurat",
+  "home.contact.emergencyText":
+    "Untuk keadaan darurat keselamatan kebakaran atau kebutuhan konsultasi mendesak, tim tanggap darurat kami siap 24/7.",
+
+  "home.map.facility": "Fasilitas Pengolahan Gas Alam",
+  "home.map.directions": "Petunjuk Arah",
+  "home.map.title": "Peta Interaktif",
+  "home.map.tokenPrompt":
+    "Masukkan token akses Mapbox Anda untuk melihat lokasi PT Badak LNG di Bontang, Kalimantan Timur",
+  "home.map.load": "Muat Peta",
+  "home.map.tokenPlaceholder": "Masukkan token akses Mapbox...",
+  "home.map.freeToken": "Dapatkan token gratis Anda di",
+
+  "home.priority.safetyProtection.description":
+    "Petugas pemadam kebakaran menghadapi banyak bahaya setiap hari, mulai dari runtuhnya bangunan hingga paparan bahan kimia. Program keselamatan kami yang menyeluruh memastikan setiap petugas mendapatkan peralatan pelindung, protokol keselamatan, dan prosedur tanggap darurat terbaru.",
+  "home.priority.safetyProtection.benefit1": "Peralatan pelindung mutakhir",
+  "home.priority.safetyProtection.benefit2": "Pembaruan pelatihan keselamatan secara berkala",
+  "home.priority.safetyProtection.benefit3": "Sistem dukungan darurat 24/7",
+  "home.priority.safetyProtection.benefit4": "Program edukasi keselamatan keluarga",
+  "home.priority.safetyProtection.stat.injuryReduction": "Penurunan Cedera",
+  "home.priority.safetyProtection.stat.equipmentUpgrades": "Peningkatan Peralatan",
+  "home.priority.safetyProtection.stat.safetyProtocols": "Protokol Keselamatan",
+  "home.priority.presumptiveHealth.description":
+    "Petugas pemadam kebakaran memiliki angka kanker, penyakit jantung, dan gangguan kesehatan serius lainnya yang jauh lebih tinggi akibat paparan kerja. Perlindungan kesehatan presumtif kami memastikan Anda menerima perawatan medis dan dukungan yang layak.",
+  "home.priority.presumptiveHealth.benefit1": "Pemeriksaan kesehatan menyeluruh",
+  "home.priority.presumptiveHealth.benefit2": "Perlindungan penyakit presumtif",
+  "home.priority.presumptiveHealth.benefit3": "Layanan dukungan kesehatan mental",
+  "home.priority.presumptiveHealth.benefit4": "Program deteksi dini",
+  "home.priority.presumptiveHealth.stat.healthScreenings": "Pemeriksaan Kesehatan",
+  "home.priority.presumptiveHealth.stat.coverageClaims": "Klaim Perlindungan",
+  "home.priority.presumptiveHealth.stat.earlyDetection": "Deteksi Dini",
+  "home.priority.cancerAwareness.description":
+    "Kanker akibat pekerjaan adalah penyebab utama kematian dalam tugas di kalangan petugas pemadam kebakaran. Kami berkomitmen pada edukasi, pencegahan, dan dukungan bagi mereka yang terdampak melalui program kesadaran dan pengobatan yang menyeluruh.",
+  "home.priority.cancerAwareness.benefit1": "Edukasi pencegahan kanker",
+  "home.priority.cancerAwareness.benefit2": "Program skrining dini",
+  "home.priority.cancerAwareness.benefit3": "Layanan dukungan pengobatan",
+  "home.priority.cancerAwareness.benefit4": "Inisiatif pendanaan riset",
+  "home.priority.cancerAwareness.stat.livesSaved": "Nyawa Terselamatkan",
+  "home.priority.cancerAwareness.stat.awarenessPrograms": "Program Kesadaran",
+  "home.priority.cancerAwareness.stat.researchFunding": "Pendanaan Riset",
+  "home.priority.collectiveBargaining.description":
+    "Setiap petugas pemadam kebakaran berhak atas perwakilan yang adil dan suara dalam kondisi kerjanya. Upaya perundingan bersama kami berfokus pada kondisi kerja yang lebih baik, kompensasi yang adil, dan tunjangan yang menyeluruh.",
+  "home.priority.collectiveBargaining.benefit1": "Negosiasi upah yang adil",
+  "home.priority.collectiveBargaining.benefit2": "Kondisi kerja yang lebih baik",
+  "home.priority.collectiveBargaining.benefit3": "Paket tunjangan menyeluruh",
+  "home.priority.collectiveBargaining.benefit4": "Perlindungan hak di tempat kerja",
+  "home.priority.collectiveBargaining.stat.contractsNegotiated": "Kontrak yang Dirundingkan",
+  "home.priority.collectiveBargaining.stat.wageIncreases": "Kenaikan Upah",
+  "home.priority.collectiveBargaining.stat.membersServed": "Anggota Terlayani",
+  "home.priority.payBenefits.description":
+    "Memahami sistem pensiun dan struktur tunjangan yang rumit bisa sangat membingungkan. Tim khusus kami memberikan pendampingan dan advokasi agar Anda menerima seluruh kompensasi dan tunjangan yang menjadi hak Anda.",
+  "home.priority.payBenefits.benefit1": "Bantuan perencanaan pensiun",
+  "home.priority.payBenefits.benefit2": "Panduan optimalisasi tunjangan",
+  "home.priority.payBenefits.benefit3": "Layanan perencanaan masa pensiun",
+  "home.priority.payBenefits.benefit4": "Program edukasi keuangan",
+  "home.priority.payBenefits.stat.pensionClaims": "Klaim Pensiun",
+  "home.priority.payBenefits.stat.benefitIncreases": "Kenaikan Tunjangan",
+  "home.priority.payBenefits.stat.membersAssisted": "Anggota Terbantu",
+  "home.priority.trainingExcellence.description":
+    "Pengembangan profesional sangat penting bagi kemajuan karier dan keselamatan publik. Program pelatihan kami memenuhi standar industri tertinggi dan mempersiapkan petugas pemadam kebakaran menghadapi tantangan tanggap darurat modern.",
+  "home.priority.trainingExcellence.benefit1": "Program sertifikasi lanjutan",
+  "home.priority.trainingExcellence.benefit2": "Kursus pengembangan kepemimpinan",
+  "home.priority.trainingExcellence.benefit3": "Pelatihan keterampilan teknis",
+  "home.priority.trainingExcellence.benefit4": "Dukungan pengembangan karier",
+  "home.priority.trainingExcellence.stat.trainingHours": "Jam Pelatihan",
+  "home.priority.trainingExcellence.stat.certifications": "Sertifikasi",
+  "home.priority.trainingExcellence.stat.successRate": "Tingkat Keberhasilan",
+  "home.priority.focusArea": "Area Fokus Prioritas",
+  "home.priority.getInvolved": "Ayo Terlibat",
+  "home.priority.getInvolvedText": "Pelajari bagaimana program ini dapat bermanfaat bagi Anda dan keluarga.",
+  "home.priority.close": "Tutup",
+  "home.priority.contactUs": "Hubungi Kami",
+  "home.priority.overview": "Ringkasan",
+  "home.priority.impact": "Dampak & Hasil",
+  "home.priority.benefits": "Manfaat Utama",
+
+  "catalog.presets.linkCopiedTitle": "Tautan Disalin",
+  "catalog.presets.linkCopiedText": "Siapa pun yang membuka tautan ini akan melihat katalog dengan filter ini.",
+  "catalog.presets.copyFailedTitle": "Gagal Menyalin",
+  "catalog.presets.copyFailedText": "Salin alamat dari bilah alamat browser Anda.",
+  "catalog.presets.saveTitle": "Simpan Filter",
+  "catalog.presets.presetName": "Nama preset",
+  "catalog.presets.presetPlaceholder": "mis. Tingkat dasar di bawah $5.000",
+  "catalog.presets.presetRequired": "Beri nama preset",
+  "catalog.presets.save": "Simpan",
+  "catalog.presets.savedTitle": "Preset Tersimpan",
+  "catalog.presets.saveFailedTitle": "Gagal Menyimpan",
+  "catalog.presets.saveFailedText": "Preset tidak dapat disimpan. Silakan coba lagi.",
+  "catalog.presets.deleteFailedTitle": "Gagal Menghapus",
+  "catalog.presets.deleteFailedText": "Preset tidak dapat dihapus. Silakan coba lagi.",
+  "catalog.presets.menu": "Preset",
+  "catalog.presets.saveCurrent": "Simpan Saat Ini",
+  "catalog.presets.copyLink": "Salin Tautan",
+  "catalog.presets.savedFilters": "Filter Tersimpan",
+  "catalog.presets.signIn": "Masuk untuk menyimpan preset filter.",
+  "catalog.presets.empty": "Belum ada preset tersimpan.",
+  "catalog.presets.delete": "Hapus {name}",
+
+  "roles.trainee": "Peserta",
+  "roles.instructor": "Instruktur",
+  "roles.coordinator": "Koordinator Pelatihan",
+  "roles.hse_officer": "Petugas HSE",
+  "roles.admin": "Administrator",
+
+  "access.restrictedTitle": "Akses dibatasi",
+  "access.restrictedText": "Halaman ini hanya tersedia untuk akun {roles}.",
+  "access.backHome": "Kembali ke Beranda",
+}
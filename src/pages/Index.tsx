@@ -1,3 +1,5 @@
+import { useEffect } from "react";
+import { useLocation } from "react-router-dom";
 import FloatingHeader from "@/components/FloatingHeader";
 import HeroSection from "@/components/HeroSection";
 import AboutSection from "@/components/AboutSection";
@@ -8,6 +10,13 @@ import ContactSection from "@/components/ContactSection";
 import Footer from "@/components/Footer";
   
 const Index = () => {
+  const { hash } = useLocation();
+
+  // Search results and other pages link to sections as `/#team`, `/#contact`, ...
+  useEffect(() => {
+    if (hash) document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: "smooth" });
+  }, [hash]);
+
   return (
     <div className="min-h-screen">
       <FloatingHeader />
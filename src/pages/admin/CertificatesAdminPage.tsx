@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { Award, CheckCircle2, Download, Loader2, ShieldX } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  useCertificateBlockers,
+  useEnrollmentCertificates,
+  useIssueCertificates,
+  useRevokeCertificate,
+} from "@/hooks/use-certificates"
+import { useCohortRoster, useConfirmEnrollment } from "@/hooks/use-enrollment-admin"
+import { useCohorts } from "@/hooks/use-schedule"
+import { useTranslation } from "@/hooks/use-translation"
+import { downloadCertificatePdf } from "@/lib/certificatePdf"
+import {
+  certificateValidityLabels,
+  certificateValidityStyles,
+  formatVerificationCode,
+  getCertificateValidity,
+  type Certificate,
+} from "@/lib/certificates"
+import { enrollmentStatusLabels, type Enrollment } from "@/lib/enrollment"
+
+export default function CertificatesAdminPage() {
+  const { t } = useTranslation()
+  const { data: cohorts = [], isLoading: isCohortsLoading } = useCohorts({ includePast: true })
+  const [cohortId, setCohortId] = useState<string>()
+  const { data: roster = [], isLoading } = useCohortRoster(cohortId)
+  const enrollmentIds = useMemo(() => roster.map((enrollment) => enrollment.id), [roster])
+  const { data: certificates = [] } = useEnrollmentCertificates(enrollmentIds)
+  const { data: blockers = {} } = useCertificateBlockers(enrollmentIds)
+  const issueCertificates = useIssueCertificates()
+  const revokeCertificate = useRevokeCertificate()
+  const confirmEnrollment = useConfirmEnrollment()
+
+  // Default to the most recent cohort that has already started.
+  useEffect(() => {
+    if (cohortId || cohorts.length === 0) return
+    const today = new Date().toISOString().slice(0, 10)
+    setCohortId((cohorts.find((cohort) => cohort.startDate <= today) ?? cohorts[0]).id)
+  }, [cohorts, cohortId])
+
+  const certificatesByEnrollment = useMemo(() => {
+    const grouped = new Map<string, Certificate[]>()
+    certificates.forEach((certificate) => {
+      const list = grouped.get(certificate.enrollmentId) ?? []
+      grouped.set(certificate.enrollmentId, [...list, certificate])
+    })
+    return grouped
+  }, [certificates])
+
+  const handleConfirm = async (enrollment: Enrollment) => {
+    try {
+      await confirmEnrollment.mutateAsync(enrollment.id)
+    } catch (error) {
+      console.error("Error confirming enrollment:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Confirmation Failed",
+        text: `${enrollment.fullName}'s enrollment could not be confirmed. Please try again.`,
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleIssue = async (enrollment: Enrollment) => {
+    const { isConfirmed } = await Swal.fire({
+      icon: "question",
+      title: "Issue certificates?",
+      text: `${enrollment.fullName} will be marked as having completed the program.`,
+      showCancelButton: true,
+      confirmButtonText: "Issue",
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+    })
+    if (!isConfirmed) return
+
+    try {
+      const issued = await issueCertificates.mutateAsync(enrollment.id)
+      Swal.fire({
+        icon: "success",
+        title: "Certificates Issued",
+        text: `${issued.length} certificate(s) issued to ${enrollment.fullName}.`,
+        timer: 2000,
+        showConfirmButton: false,
+      })
+    } catch (error) {
+      console.error("Error issuing certificates:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Issuing Failed",
+        text: "Certificates could not be issued. Confirm the enrollment and check that every requirement is met, then try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleRevoke = async (certificate: Certificate) => {
+    const { value: reason } = await Swal.fire({
+      title: "Revoke certificate",
+      input: "textarea",
+      inputLabel: "Reason (shown to the holder, not on the verification page)",
+      showCancelButton: true,
+      confirmButtonText: "Revoke",
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+      inputValidator: (value) => (!value?.trim() ? "A reason is required" : undefined),
+    })
+    if (!reason) return
+
+    try {
+      await revokeCertificate.mutateAsync({ certificateId: certificate.id, reason: reason.trim() })
+    } catch (error) {
+      console.error("Error revoking certificate:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Revoke Failed",
+        text: "The certificate could not be revoked. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Certificates</h1>
+            <p className="text-gray-600">Issue certificates to trainees who completed a cohort, or revoke them.</p>
+          </div>
+          {isCohortsLoading ? (
+            <Skeleton className="h-10 w-72" />
+          ) : (
+            <Select value={cohortId} onValueChange={setCohortId}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Choose a cohort" />
+              </SelectTrigger>
+              <SelectContent>
+                {cohorts.map((cohort) => (
+                  <SelectItem key={cohort.id} value={cohort.id}>
+                    {cohort.code} · {cohort.programTitle} ({format(new Date(cohort.startDate), "LLL y")})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Roster</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }, (_, index) => (
+                  <Skeleton key={index} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : roster.length === 0 ? (
+              <p className="text-center text-gray-600 py-8">Nobody is enrolled in this cohort.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Trainee</TableHead>
+                    <TableHead>Enrollment</TableHead>
+                    <TableHead>Certificates</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster.map((enrollment) => {
+                    const issued = certificatesByEnrollment.get(enrollment.id) ?? []
+                    const outstanding = blockers[enrollment.id] ?? []
+                    return (
+                      <TableRow key={enrollment.id}>
+                        <TableCell>
+                          <p className="font-medium">{enrollment.fullName}</p>
+                          <p className="text-xs text-gray-500">{enrollment.employer}</p>
+                        </TableCell>
+                        <TableCell>{t(enrollmentStatusLabels[enrollment.status])}</TableCell>
+                        <TableCell>
+                          <div className="space-y-2">
+                            {issued.map((certificate) => {
+                              const validity = getCertificateValidity(certificate)
+                              return (
+                                <div key={certificate.id} className="flex flex-wrap items-center gap-2">
+                                  <span className="text-sm">{certificate.certificationName}</span>
+                                  <span className="font-mono text-xs text-gray-500">
+                                    {formatVerificationCode(certificate.verificationCode)}
+                                  </span>
+                                  <Badge variant="outline" className={certificateValidityStyles[validity]}>
+                                    {t(certificateValidityLabels[validity])}
+                                  </Badge>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Download PDF"
+                                    onClick={() => downloadCertificatePdf(certificate)}
+                                  >
+                                    <Download className="w-4 h-4" />
+                                  </Button>
+                                  {validity !== "revoked" && (
+                                    <Button variant="ghost" size="sm" title="Revoke" onClick={() => handleRevoke(certificate)}>
+                                      <ShieldX className="w-4 h-4 text-red-600" />
+                                    </Button>
+                                  )}
+                                </div>
+                              )
+                            })}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {enrollment.status === "pending" && (
+                            <div className="flex flex-col items-end gap-1">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={confirmEnrollment.isPending}
+                                onClick={() => handleConfirm(enrollment)}
+                              >
+                                {confirmEnrollment.isPending && confirmEnrollment.variables === enrollment.id ? (
+                                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                ) : (
+                                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                                )}
+                                Confirm Enrollment
+                              </Button>
+                              <p className="text-xs text-gray-500">Certificates can be issued once the seat is confirmed.</p>
+                            </div>
+                          )}
+                          {enrollment.status === "confirmed" && outstanding.length > 0 && (
+                            <div className="text-left text-sm text-amber-700">
+                              <p className="font-medium">Not yet eligible</p>
+                              <ul className="list-disc pl-4">
+                                {outstanding.map((blocker) => (
+                                  <li key={blocker}>{blocker}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          {enrollment.status === "confirmed" && outstanding.length === 0 && (
+                            <Button
+                              size="sm"
+                              className="bg-red-600 hover:bg-red-700"
+                              disabled={issueCertificates.isPending}
+                              onClick={() => handleIssue(enrollment)}
+                            >
+                              {issueCertificates.isPending && issueCertificates.variables === enrollment.id ? (
+                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              ) : (
+                                <Award className="w-4 h-4 mr-2" />
+                              )}
+                              Issue Certificates
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Archive, CheckCircle, Eye, Pencil, Plus, RotateCcw, Send, XCircle } from "lucide-react";
+import Swal from "sweetalert2";
+import FloatingHeader from "@/components/FloatingHeader";
+import Footer from "@/components/Footer";
+import NewsEditorDialog from "@/components/NewsEditorDialog";
+import { NewsArticleBody, NewsArticleHeader } from "@/components/NewsArticleView";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import {
+  useAdminNewsArticles,
+  useNewsWorkflow,
+  useSaveNewsArticle,
+  type NewsWorkflowAction,
+} from "@/hooks/use-news-admin";
+import {
+  getEffectiveNewsStatus,
+  newsStatusLabels,
+  type AdminNewsArticle,
+  type NewsArticleInput,
+  type NewsStatus,
+} from "@/lib/newsAdmin";
+
+const statusStyles: Record<NewsStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  in_review: "bg-amber-100 text-amber-800",
+  scheduled: "bg-blue-100 text-blue-800",
+  published: "bg-green-100 text-green-800",
+  archived: "bg-red-100 text-red-800",
+};
+
+const statusFilters: Array<NewsStatus | "all"> = ["all", "draft", "in_review", "scheduled", "published", "archived"];
+
+const NewsAdminPage = () => {
+  const { user, profile } = useCurrentUser();
+  const userId = user?.id;
+  const role = profile?.newsRole;
+  const { data: articles = [], isLoading } = useAdminNewsArticles(!!role);
+  const saveArticle = useSaveNewsArticle(userId);
+  const workflow = useNewsWorkflow(userId);
+
+  const [statusFilter, setStatusFilter] = useState<NewsStatus | "all">("all");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingArticle, setEditingArticle] = useState<AdminNewsArticle | null>(null);
+  const [previewArticle, setPreviewArticle] = useState<AdminNewsArticle | null>(null);
+
+  const isApprover = role === "approver";
+  const visibleArticles = articles.filter(
+    (article) => statusFilter === "all" || getEffectiveNewsStatus(article) === statusFilter
+  );
+
+  const canEdit = (article: AdminNewsArticle) =>
+    isApprover || article.status === "draft" || article.status === "in_review";
+
+  const openEditor = (article: AdminNewsArticle | null) => {
+    setEditingArticle(article);
+    setEditorOpen(true);
+  };
+
+  const handleSave = async (input: NewsArticleInput) => {
+    try {
+      await saveArticle.mutateAsync({ id: editingArticle?.id, input });
+      setEditorOpen(false);
+      Swal.fire({
+        icon: "success",
+        title: "Article Saved",
+        timer: 1500,
+        showConfirmButton: false,
+      });
+    } catch (error) {
+      console.error("Error saving article:", error);
+      Swal.fire({
+        icon: "error",
+        title: "Save Failed",
+        text: "The article could not be saved. Please try again.",
+        confirmButtonColor: "#dc2626",
+      });
+    }
+  };
+
+  const runAction = async (action: NewsWorkflowAction, successTitle: string) => {
+    try {
+      await workflow.mutateAsync(action);
+      Swal.fire({
+        icon: "success",
+        title: successTitle,
+        timer: 1500,
+        showConfirmButton: false,
+      });
+    } catch (error) {
+      console.error(`Error running ${action.type} on article:`, error);
+      Swal.fire({
+        icon: "error",
+        title: "Action Failed",
+        text: "You may not have permission to do this. Please try again.",
+        confirmButtonColor: "#dc2626",
+      });
+    }
+  };
+
+  const handleReject = async (article: AdminNewsArticle) => {
+    const { value: note } = await Swal.fire({
+      title: "Return to Editor",
+      input: "textarea",
+      inputLabel: "What needs to change?",
+      inputValidator: (value) => (!value?.trim() ? "Please add a note for the editor" : undefined),
+      showCancelButton: true,
+      confirmButtonText: "Send Back",
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+    });
+    if (note) {
+      runAction({ type: "reject", article, note }, "Returned to Draft");
+    }
+  };
+
+  const handleArchive = async (article: AdminNewsArticle) => {
+    const { isConfirmed } = await Swal.fire({
+      icon: "warning",
+      title: "Archive Article?",
+      text: "It will be removed from the public news pages.",
+      showCancelButton: true,
+      confirmButtonText: "Archive",
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+    });
+    if (isConfirmed) {
+      runAction({ type: "archive", article }, "Article Archived");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">News Editorial</h1>
+            <p className="text-gray-600">Draft, review and publish articles for the news pages.</p>
+          </div>
+          {role && (
+            <Button className="bg-red-600 hover:bg-red-700" onClick={() => openEditor(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Article
+            </Button>
+          )}
+        </div>
+
+        {!role ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <h3 className="text-xl font-semibold text-foreground mb-2">No editorial access</h3>
+              <p className="text-gray-600">
+                Ask an administrator to add you as a news editor or approver.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader className="space-y-4">
+              <CardTitle>Articles</CardTitle>
+              <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as NewsStatus | "all")}>
+                <TabsList className="flex-wrap h-auto">
+                  {statusFilters.map((status) => (
+                    <TabsTrigger key={status} value={status}>
+                      {status === "all" ? "All" : newsStatusLabels[status]}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 5 }, (_, index) => (
+                    <Skeleton key={index} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : visibleArticles.length === 0 ? (
+                <p className="text-center text-gray-600 py-12">No articles in this state.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Publish Date</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleArticles.map((article) => {
+                      const status = getEffectiveNewsStatus(article);
+                      return (
+                        <TableRow key={article.id}>
+                          <TableCell className="max-w-sm">
+                            <p className="font-medium text-foreground truncate">{article.title}</p>
+                            {article.reviewNote && article.status === "draft" && (
+                              <p className="text-xs text-amber-700 truncate">Reviewer: {article.reviewNote}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>{article.category}</TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className={statusStyles[status]}>
+                              {newsStatusLabels[status]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{format(new Date(article.date), "LLL dd, y")}</TableCell>
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="sm" onClick={() => setPreviewArticle(article)} title="Preview">
+                                <Eye className="w-4 h-4" />
+                              </Button>
+                              {canEdit(article) && (
+                                <Button variant="ghost" size="sm" onClick={() => openEditor(article)} title="Edit">
+                                  <Pencil className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {article.status === "draft" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => runAction({ type: "submit", article }, "Submitted for Review")}
+                                  title="Submit for review"
+                                >
+                                  <Send className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {isApprover && article.status === "in_review" && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => runAction({ type: "approve", article }, "Article Approved")}
+                                    title="Approve"
+                                  >
+                                    <CheckCircle className="w-4 h-4 text-green-600" />
+                                  </Button>
+                                  <Button variant="ghost" size="sm" onClick={() => handleReject(article)} title="Send back">
+                                    <XCircle className="w-4 h-4 text-red-600" />
+                                  </Button>
+                                </>
+                              )}
+                              {isApprover && (status === "published" || status === "scheduled") && (
+                                <Button variant="ghost" size="sm" onClick={() => handleArchive(article)} title="Archive">
+                                  <Archive className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {isApprover && article.status === "archived" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => runAction({ type: "restore", article }, "Restored to Draft")}
+                                  title="Restore to draft"
+                                >
+                                  <RotateCcw className="w-4 h-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <NewsEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        article={editingArticle}
+        isSaving={saveArticle.isPending}
+        onSave={handleSave}
+      />
+
+      <Dialog open={!!previewArticle} onOpenChange={(isOpen) => !isOpen && setPreviewArticle(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Preview</DialogTitle>
+          </DialogHeader>
+          {previewArticle && (
+            <>
+              <NewsArticleHeader article={previewArticle} />
+              <NewsArticleBody article={previewArticle} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default NewsAdminPage;
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import QuizEditorDialog from "@/components/QuizEditorDialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useAdminTrainingPrograms } from "@/hooks/use-training-admin"
+import { useDeleteQuiz, useProgramQuizzes, useSaveQuiz } from "@/hooks/use-quizzes"
+import { useTranslation } from "@/hooks/use-translation"
+import { quizKindLabels, type Quiz, type QuizInput, type QuizQuestionInput } from "@/lib/quizzes"
+
+export default function QuizAdminPage() {
+  const { t } = useTranslation()
+  const { data: programs = [], isLoading: isProgramsLoading } = useAdminTrainingPrograms()
+  const [programId, setProgramId] = useState<string>()
+  const { data: quizzes = [], isLoading } = useProgramQuizzes(programId)
+  const saveQuiz = useSaveQuiz()
+  const deleteQuiz = useDeleteQuiz()
+
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingQuiz, setEditingQuiz] = useState<Quiz | null>(null)
+
+  useEffect(() => {
+    if (!programId && programs.length > 0) setProgramId(programs[0].id)
+  }, [programs, programId])
+
+  const program = programs.find((item) => item.id === programId)
+
+  const openEditor = (quiz: Quiz | null) => {
+    setEditingQuiz(quiz)
+    setEditorOpen(true)
+  }
+
+  const handleSave = async (input: QuizInput, questions: QuizQuestionInput[]) => {
+    try {
+      await saveQuiz.mutateAsync({ id: editingQuiz?.id, input, questions })
+      setEditorOpen(false)
+      Swal.fire({
+        icon: "success",
+        title: "Quiz Saved",
+        timer: 1500,
+        showConfirmButton: false,
+      })
+    } catch (error) {
+      console.error("Error saving quiz:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Save Failed",
+        text: "The quiz could not be saved. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleDelete = async (quiz: Quiz) => {
+    const { isConfirmed } = await Swal.fire({
+      icon: "warning",
+      title: "Delete this quiz?",
+      text: `"${quiz.title}" and every attempt at it will be removed.`,
+      showCancelButton: true,
+      confirmButtonText: "Delete",
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+    })
+    if (!isConfirmed) return
+
+    try {
+      await deleteQuiz.mutateAsync(quiz.id)
+    } catch (error) {
+      console.error("Error deleting quiz:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Delete Failed",
+        text: "The quiz could not be deleted. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const describeTopic = (quiz: Quiz) => {
+    if (quiz.moduleIndex === null) return "Whole program"
+    const topic = program?.syllabus[quiz.moduleIndex]?.topics[quiz.topicIndex]
+    return topic ? `Module ${quiz.moduleIndex + 1} · ${topic.title}` : `Module ${quiz.moduleIndex + 1}`
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Quizzes & Exams</h1>
+            <p className="text-gray-600">Knowledge checks and final written exams trainees must pass to certify.</p>
+          </div>
+          <div className="flex gap-2">
+            {isProgramsLoading ? (
+              <Skeleton className="h-10 w-72" />
+            ) : (
+              <Select value={programId} onValueChange={setProgramId}>
+                <SelectTrigger className="w-72">
+                  <SelectValue placeholder="Choose a program" />
+                </SelectTrigger>
+                <SelectContent>
+                  {programs.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button className="bg-red-600 hover:bg-red-700" disabled={!program} onClick={() => openEditor(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Quiz
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{program?.title ?? "Quizzes"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 3 }, (_, index) => (
+                  <Skeleton key={index} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : quizzes.length === 0 ? (
+              <p className="text-center text-gray-600 py-8">This program has no quizzes yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Quiz</TableHead>
+                    <TableHead>Covers</TableHead>
+                    <TableHead>Questions</TableHead>
+                    <TableHead>Time Limit</TableHead>
+                    <TableHead>Pass Mark</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quizzes.map((quiz) => (
+                    <TableRow key={quiz.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div>
+                            <p className="font-medium text-foreground">{quiz.title}</p>
+                            <p className="text-xs text-gray-500">{t(quizKindLabels[quiz.kind])}</p>
+                          </div>
+                          {!quiz.published && <Badge variant="outline">Draft</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{describeTopic(quiz)}</TableCell>
+                      <TableCell>{quiz.questionCount ? `${quiz.questionCount} drawn` : "Whole pool"}</TableCell>
+                      <TableCell>{quiz.timeLimitMinutes ? `${quiz.timeLimitMinutes} min` : "Untimed"}</TableCell>
+                      <TableCell>{quiz.passingScore}%</TableCell>
+                      <TableCell>{quiz.maxAttempts ?? "Unlimited"}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(quiz)} title="Edit">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(quiz)} title="Delete">
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {program && (
+        <QuizEditorDialog
+          open={editorOpen}
+          onOpenChange={setEditorOpen}
+          program={program}
+          quiz={editingQuiz}
+          sortOrder={quizzes.length}
+          isSaving={saveQuiz.isPending}
+          onSave={handleSave}
+        />
+      )}
+
+      <Footer />
+    </div>
+  )
+}
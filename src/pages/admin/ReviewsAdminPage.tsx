@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Check, X } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import StarRating from "@/components/StarRating"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useModerateReview, useReviewsForModeration } from "@/hooks/use-reviews"
+import { useAdminTrainingPrograms } from "@/hooks/use-training-admin"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  reviewDimensionLabels,
+  reviewDimensions,
+  reviewStatusLabels,
+  reviewStatusStyles,
+  type ProgramReview,
+  type ReviewStatus,
+} from "@/lib/reviews"
+
+const moderationStatuses: ReviewStatus[] = ["pending", "published", "rejected"]
+
+export default function ReviewsAdminPage() {
+  const { t } = useTranslation()
+  const { user } = useCurrentUser()
+  const { data: programs = [], isLoading: isProgramsLoading } = useAdminTrainingPrograms()
+  const [programId, setProgramId] = useState<string>()
+  const [status, setStatus] = useState<ReviewStatus>("pending")
+  const { data: reviews = [], isLoading } = useReviewsForModeration(programId, status)
+  const moderateReview = useModerateReview()
+
+  useEffect(() => {
+    if (!programId && programs.length > 0) setProgramId(programs[0].id)
+  }, [programs, programId])
+
+  const program = programs.find((item) => item.id === programId)
+
+  const moderate = async (review: ProgramReview, nextStatus: "published" | "rejected", note: string | null) => {
+    if (!user) return
+    try {
+      await moderateReview.mutateAsync({
+        id: review.id,
+        status: nextStatus,
+        moderationNote: note,
+        moderatedBy: user.id,
+      })
+      Swal.fire({
+        icon: "success",
+        title: nextStatus === "published" ? "Review Published" : "Review Rejected",
+        timer: 1500,
+        showConfirmButton: false,
+      })
+    } catch (error) {
+      console.error("Error moderating review:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Action Failed",
+        text: "The review could not be updated. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleReject = async (review: ProgramReview) => {
+    const { value: note } = await Swal.fire({
+      title: "Reject Review",
+      input: "textarea",
+      inputLabel: "Reason (shown to the trainee)",
+      inputValidator: (value) => (!value?.trim() ? "Please give the trainee a reason" : undefined),
+      showCancelButton: true,
+      confirmButtonText: "Reject",
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+    })
+    if (note) moderate(review, "rejected", note.trim())
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Review Moderation</h1>
+            <p className="text-gray-600">Trainee reviews only count towards a program's rating once published.</p>
+          </div>
+          {isProgramsLoading ? (
+            <Skeleton className="h-10 w-72" />
+          ) : (
+            <Select value={programId} onValueChange={setProgramId}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Choose a program" />
+              </SelectTrigger>
+              <SelectContent>
+                {programs.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4 space-y-0">
+            <CardTitle>{program?.title ?? "Reviews"}</CardTitle>
+            <Tabs value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+              <TabsList>
+                {moderationStatuses.map((item) => (
+                  <TabsTrigger key={item} value={item}>
+                    {t(reviewStatusLabels[item])}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 3 }, (_, index) => (
+                  <Skeleton key={index} className="h-24 w-full" />
+                ))}
+              </div>
+            ) : reviews.length === 0 ? (
+              <p className="text-center text-gray-600 py-8">No {t(reviewStatusLabels[status]).toLowerCase()} reviews.</p>
+            ) : (
+              <div className="space-y-4">
+                {reviews.map((review) => (
+                  <div key={review.id} className="rounded-lg border p-4 space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold text-foreground">{review.reviewerName}</span>
+                        <StarRating value={review.rating} />
+                        <span className="text-sm text-gray-600">{review.rating.toFixed(1)}</span>
+                        <Badge variant="outline" className={reviewStatusStyles[review.status]}>
+                          {t(reviewStatusLabels[review.status])}
+                        </Badge>
+                      </div>
+                      <span className="text-xs text-gray-500">
+                        {format(new Date(review.updatedAt), "LLL dd, y")}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                      {reviewDimensions.map((dimension) => (
+                        <span key={dimension}>
+                          {t(reviewDimensionLabels[dimension])}: {review.ratings[dimension]}/5
+                        </span>
+                      ))}
+                    </div>
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{review.comment}</p>
+                    {review.moderationNote && (
+                      <p className="text-sm text-red-700">Rejected: {review.moderationNote}</p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                      {review.status !== "rejected" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={moderateReview.isPending}
+                          onClick={() => handleReject(review)}
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                      )}
+                      {review.status !== "published" && (
+                        <Button
+                          size="sm"
+                          className="bg-green-600 hover:bg-green-700"
+                          disabled={moderateReview.isPending}
+                          onClick={() => moderate(review, "published", null)}
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Publish
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import SkillSheetEditorDialog from "@/components/SkillSheetEditorDialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useAdminTrainingPrograms } from "@/hooks/use-training-admin"
+import { useDeleteSkillSheet, useProgramSkillSheets, useSaveSkillSheet } from "@/hooks/use-skills"
+import { formatSeconds, type SkillSheet, type SkillSheetInput } from "@/lib/skills"
+
+export default function SkillSheetsAdminPage() {
+  const { data: programs = [], isLoading: isProgramsLoading } = useAdminTrainingPrograms()
+  const [programId, setProgramId] = useState<string>()
+  const { data: sheets = [], isLoading } = useProgramSkillSheets(programId)
+  const saveSheet = useSaveSkillSheet()
+  const deleteSheet = useDeleteSkillSheet()
+
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingSheet, setEditingSheet] = useState<SkillSheet | null>(null)
+
+  useEffect(() => {
+    if (!programId && programs.length > 0) setProgramId(programs[0].id)
+  }, [programs, programId])
+
+  const program = programs.find((item) => item.id === programId)
+
+  const openEditor = (sheet: SkillSheet | null) => {
+    setEditingSheet(sheet)
+    setEditorOpen(true)
+  }
+
+  const handleSave = async (input: SkillSheetInput) => {
+    try {
+      await saveSheet.mutateAsync({ id: editingSheet?.id, input })
+      setEditorOpen(false)
+      Swal.fire({
+        icon: "success",
+        title: "Skill Sheet Saved",
+        timer: 1500,
+        showConfirmButton: false,
+      })
+    } catch (error) {
+      console.error("Error saving skill sheet:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Save Failed",
+        text: "The skill sheet could not be saved. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleDelete = async (sheet: SkillSheet) => {
+    const { isConfirmed } = await Swal.fire({
+      icon: "warning",
+      title: "Delete this skill sheet?",
+      text: `"${sheet.title}" and every signed evaluation against it will be removed.`,
+      showCancelButton: true,
+      confirmButtonText: "Delete",
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+    })
+    if (!isConfirmed) return
+
+    try {
+      await deleteSheet.mutateAsync(sheet.id)
+    } catch (error) {
+      console.error("Error deleting skill sheet:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Delete Failed",
+        text: "The skill sheet could not be deleted. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Skill Sheets</h1>
+            <p className="text-gray-600">Practical skills instructors grade step by step at the training ground.</p>
+          </div>
+          <div className="flex gap-2">
+            {isProgramsLoading ? (
+              <Skeleton className="h-10 w-72" />
+            ) : (
+              <Select value={programId} onValueChange={setProgramId}>
+                <SelectTrigger className="w-72">
+                  <SelectValue placeholder="Choose a program" />
+                </SelectTrigger>
+                <SelectContent>
+                  {programs.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button className="bg-red-600 hover:bg-red-700" disabled={!program} onClick={() => openEditor(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Skill Sheet
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{program?.title ?? "Skill Sheets"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 3 }, (_, index) => (
+                  <Skeleton key={index} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : sheets.length === 0 ? (
+              <p className="text-center text-gray-600 py-8">This program has no skill sheets yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Skill</TableHead>
+                    <TableHead>Steps</TableHead>
+                    <TableHead>Time Limit</TableHead>
+                    <TableHead>Pass Mark</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sheets.map((sheet) => {
+                    const criticalCount = sheet.steps.filter((step) => step.critical).length
+                    return (
+                      <TableRow key={sheet.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium text-foreground">{sheet.title}</p>
+                            {!sheet.required && <Badge variant="outline">Optional</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {sheet.steps.length} steps{criticalCount > 0 && ` · ${criticalCount} critical`}
+                        </TableCell>
+                        <TableCell>
+                          {sheet.timeLimitSeconds ? formatSeconds(sheet.timeLimitSeconds) : "Untimed"}
+                        </TableCell>
+                        <TableCell>{sheet.passingScore}%</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openEditor(sheet)} title="Edit">
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(sheet)} title="Delete">
+                              <Trash2 className="w-4 h-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {program && (
+        <SkillSheetEditorDialog
+          open={editorOpen}
+          onOpenChange={setEditorOpen}
+          program={program}
+          sheet={editingSheet}
+          sortOrder={sheets.length}
+          isSaving={saveSheet.isPending}
+          onSave={handleSave}
+        />
+      )}
+
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import { useState } from "react"
+import { Link } from "react-router-dom"
+import { format } from "date-fns"
+import { ExternalLink, Pencil, Plus } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import TrainingProgramEditorDialog from "@/components/TrainingProgramEditorDialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useAdminTrainingPrograms, useSaveTrainingProgram } from "@/hooks/use-training-admin"
+import { getTrainingIcon, type TrainingProgram } from "@/data/trainingData"
+import type { TrainingProgramInput } from "@/lib/trainingAdmin"
+
+export default function TrainingAdminPage() {
+  const { data: programs = [], isLoading } = useAdminTrainingPrograms()
+  const saveProgram = useSaveTrainingProgram()
+
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingProgram, setEditingProgram] = useState<TrainingProgram | null>(null)
+
+  const openEditor = (program: TrainingProgram | null) => {
+    setEditingProgram(program)
+    setEditorOpen(true)
+  }
+
+  const handleSave = async (input: TrainingProgramInput) => {
+    try {
+      await saveProgram.mutateAsync({ id: editingProgram?.id, input })
+      setEditorOpen(false)
+      Swal.fire({
+        icon: "success",
+        title: "Program Saved",
+        timer: 1500,
+        showConfirmButton: false,
+      })
+    } catch (error) {
+      console.error("Error saving training program:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Save Failed",
+        text: "The program could not be saved. Check that the slug is unique and try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Training Programs</h1>
+            <p className="text-gray-600">Update schedules, prices and certifications without a deploy.</p>
+          </div>
+          <Button className="bg-red-600 hover:bg-red-700" onClick={() => openEditor(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Program
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Catalog</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }, (_, index) => (
+                  <Skeleton key={index} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Program</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Level</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Next Start</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {programs.map((program) => {
+                    const ProgramIcon = getTrainingIcon(program.icon)
+                    return (
+                      <TableRow key={program.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            <ProgramIcon className="w-5 h-5 text-red-600 flex-shrink-0" />
+                            <div>
+                              <p className="font-medium text-foreground">{program.title}</p>
+                              <p className="text-xs text-gray-500">/training/{program.slug}</p>
+                            </div>
+                            {program.featured && <Badge className="bg-red-500">Featured</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>{program.category}</TableCell>
+                        <TableCell>{program.level}</TableCell>
+                        <TableCell>${program.price.toLocaleString()}</TableCell>
+                        <TableCell>{format(new Date(program.startDate), "LLL dd, y")}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" asChild title="View on site">
+                              <Link to={`/training/${program.slug}`}>
+                                <ExternalLink className="w-4 h-4" />
+                              </Link>
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => openEditor(program)} title="Edit">
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <TrainingProgramEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        program={editingProgram}
+        isSaving={saveProgram.isPending}
+        onSave={handleSave}
+      />
+
+      <Footer />
+    </div>
+  )
+}
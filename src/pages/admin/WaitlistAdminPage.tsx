@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useCohortWaitlist, useReorderWaitlist } from "@/hooks/use-enrollment-admin"
+import { useCohorts } from "@/hooks/use-schedule"
+
+export default function WaitlistAdminPage() {
+  const { data: cohorts = [], isLoading: isCohortsLoading } = useCohorts()
+  const [cohortId, setCohortId] = useState<string>()
+  const { data: entries = [], isLoading } = useCohortWaitlist(cohortId)
+  const reorder = useReorderWaitlist(cohortId)
+
+  // Open on the first cohort that actually has a queue.
+  useEffect(() => {
+    if (cohortId || cohorts.length === 0) return
+    setCohortId((cohorts.find((cohort) => cohort.waitlistCount > 0) ?? cohorts[0]).id)
+  }, [cohorts, cohortId])
+
+  const cohort = cohorts.find((item) => item.id === cohortId)
+  const offers = entries.filter((entry) => entry.status === "offered")
+  const queue = entries.filter((entry) => entry.status === "waitlisted")
+
+  const moveEntry = async (index: number, offset: -1 | 1) => {
+    const ids = queue.map((entry) => entry.id)
+    const [moved] = ids.splice(index, 1)
+    ids.splice(index + offset, 0, moved)
+    try {
+      await reorder.mutateAsync(ids)
+    } catch (error) {
+      console.error("Error reordering waitlist:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Reorder Failed",
+        text: "The waitlist could not be reordered. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Waitlists</h1>
+            <p className="text-gray-600">
+              Freed seats are offered to the top of the queue automatically, with 48 hours to accept.
+            </p>
+          </div>
+          {isCohortsLoading ? (
+            <Skeleton className="h-10 w-72" />
+          ) : (
+            <Select value={cohortId} onValueChange={setCohortId}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Choose a cohort" />
+              </SelectTrigger>
+              <SelectContent>
+                {cohorts.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.code} · {item.programTitle} ({item.waitlistCount} waiting)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {cohort && (
+          <p className="text-sm text-gray-600 mb-4">
+            Starts {format(new Date(cohort.startDate), "LLL dd, y")} · {cohort.seatsTaken} of {cohort.capacity} seats
+            taken
+          </p>
+        )}
+
+        <div className="space-y-6">
+          {offers.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Open Seat Offers</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Trainee</TableHead>
+                      <TableHead>Employer</TableHead>
+                      <TableHead>Offer Expires</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {offers.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>
+                          <p className="font-medium">{entry.fullName}</p>
+                          <p className="text-xs text-gray-500">{entry.email}</p>
+                        </TableCell>
+                        <TableCell>{entry.employer}</TableCell>
+                        <TableCell>
+                          {entry.offerExpiresAt && (
+                            <Badge variant="outline" className="bg-red-50 text-red-800">
+                              in {formatDistanceToNow(new Date(entry.offerExpiresAt))}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Queue</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 4 }, (_, index) => (
+                    <Skeleton key={index} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : queue.length === 0 ? (
+                <p className="text-center text-gray-600 py-8">Nobody is waiting for this cohort.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>Trainee</TableHead>
+                      <TableHead>Employer</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead className="text-right">Order</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {queue.map((entry, index) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="font-semibold">{index + 1}</TableCell>
+                        <TableCell>
+                          <p className="font-medium">{entry.fullName}</p>
+                          <p className="text-xs text-gray-500">{entry.email}</p>
+                        </TableCell>
+                        <TableCell>
+                          <p>{entry.employer}</p>
+                          <p className="text-xs text-gray-500">{entry.jobTitle}</p>
+                        </TableCell>
+                        <TableCell>{format(new Date(entry.createdAt), "LLL dd, y")}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Move up"
+                              disabled={index === 0 || reorder.isPending}
+                              onClick={() => moveEntry(index, -1)}
+                            >
+                              <ArrowUp className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Move down"
+                              disabled={index === queue.length - 1 || reorder.isPending}
+                              onClick={() => moveEntry(index, 1)}
+                            >
+                              <ArrowDown className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
@@ -3,7 +3,7 @@
 import type React from "react"
 import logoBadak from "@/assets/logobadak.png"
 import { useState, useEffect } from "react"
-import { useNavigate } from "react-router-dom"
+import { useNavigate, useSearchParams } from "react-router-dom"
 import { motion, AnimatePresence } from "framer-motion"
 import { Eye, EyeOff, Mail, Lock, User, Phone, Check, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
@@ -13,6 +13,9 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Separator } from "@/components/ui/separator"
 import Swal from "sweetalert2"
 import { supabase } from "@/lib/supabaseClient"
+import { getSafeRedirect } from "@/lib/profile"
+import type { I18n } from "@/lib/i18n"
+import { useTranslation } from "@/hooks/use-translation"
 
 interface FormData {
   email: string
@@ -55,29 +58,29 @@ const validatePhone = (phone: string): boolean => {
   return phoneRegex.test(phone.replace(/\s/g, ""))
 }
 
-const checkEmailAvailability = async (email: string): Promise<{ isValid: boolean; message: string }> => {
+const checkEmailAvailability = async (email: string, t: I18n["t"]): Promise<{ isValid: boolean; message: string }> => {
   // Simulate API delay
   await new Promise((resolve) => setTimeout(resolve, 800))
 
   if (!validateEmail(email)) {
-    return { isValid: false, message: "Please enter a valid email format" }
+    return { isValid: false, message: t("auth.validation.emailFormat") }
   }
 
   const { data: existingUser, error } = await supabase.from("profiles").select("id").eq("email", email.toLowerCase())
 
   if (error) {
     console.error("Error checking email:", error)
-    return { isValid: false, message: "Error checking email. Please try again." }
+    return { isValid: false, message: t("auth.validation.emailCheckError") }
   }
 
   if (existingUser && existingUser.length > 0) {
-    return { isValid: false, message: "This email is already registered" }
+    return { isValid: false, message: t("auth.validation.emailTaken") }
   }
 
-  return { isValid: true, message: "Email is available" }
+  return { isValid: true, message: t("auth.validation.emailAvailable") }
 }
 
-const checkPhoneAvailability = async (phone: string): Promise<{ isValid: boolean; message: string }> => {
+const checkPhoneAvailability = async (phone: string, t: I18n["t"]): Promise<{ isValid: boolean; message: string }> => {
   // Simulate API delay
   await new Promise((resolve) => setTimeout(resolve, 600))
 
@@ -86,7 +89,7 @@ const checkPhoneAvailability = async (phone: string): Promise<{ isValid: boolean
   }
 
   if (!validatePhone(phone)) {
-    return { isValid: false, message: "Please enter a valid phone number" }
+    return { isValid: false, message: t("auth.validation.phoneInvalid") }
   }
 
   const cleanPhone = phone.replace(/\s/g, "")
@@ -94,14 +97,14 @@ const checkPhoneAvailability = async (phone: string): Promise<{ isValid: boolean
 
   if (error) {
     console.error("Error checking phone:", error)
-    return { isValid: false, message: "Error checking phone. Please try again." }
+    return { isValid: false, message: t("auth.validation.phoneCheckError") }
   }
 
   if (existingUser && existingUser.length > 0) {
-    return { isValid: false, message: "This phone number is already registered" }
+    return { isValid: false, message: t("auth.validation.phoneTaken") }
   }
 
-  return { isValid: true, message: "Phone number is available" }
+  return { isValid: true, message: t("auth.validation.phoneAvailable") }
 }
 
 export default function AuthPage() {
@@ -142,6 +145,11 @@ export default function AuthPage() {
   const [touchedFields, setTouchedFields] = useState<Record<string, boolean>>({})
 
   const navigate = useNavigate()
+  const { t } = useTranslation()
+  const [searchParams] = useSearchParams()
+  // Set by <RequireRole> so users land back on the page that asked them to sign in;
+  // a plain sign-in goes to the dashboard.
+  const redirectTo = getSafeRedirect(searchParams.get("redirect"), "/dashboard")
 
   useEffect(() => {
     const { data: authListener } = supabase.auth.onAuthStateChange(async (event, session) => {
@@ -163,8 +171,8 @@ export default function AuthPage() {
 
           Swal.fire({
             icon: "success",
-            title: "Akun terverifikasi",
-            text: "Silakan sign in dengan akun Anda yang sudah terdaftar.",
+            title: t("auth.alert.verifiedTitle"),
+            text: t("auth.alert.verifiedText"),
             confirmButtonColor: "#dc2626",
           }).then(() => {
             // Ensure the form is in login mode.
@@ -175,21 +183,20 @@ export default function AuthPage() {
           // The manual email/password login is handled in `handleSubmit`.
           Swal.fire({
             icon: "success",
-            title: "Login berhasil!",
-            text: "Anda akan diarahkan ke halaman utama dalam 2 detik.",
+            title: t("auth.alert.loginSuccessTitle"),
+            text: t("auth.alert.loginSuccessText"),
             timer: 2000,
             timerProgressBar: true,
             showConfirmButton: false,
             confirmButtonColor: "#dc2626",
           }).then(() => {
-            // Redirect to home page after login
-            navigate("/")
+            navigate(redirectTo)
           })
         }
       }
     })
     return () => authListener.subscription.unsubscribe()
-  }, [navigate])
+  }, [navigate, redirectTo, t])
 
   const calculatePasswordStrength = (password: string): PasswordStrength => {
     const checks = {
@@ -209,32 +216,32 @@ export default function AuthPage() {
     switch (score) {
       case 0:
       case 1:
-        label = "Very Weak"
+        label = t("auth.strength.veryWeak")
         color = "text-red-600"
         bgColor = "bg-red-500"
         break
       case 2:
-        label = "Weak"
+        label = t("auth.strength.weak")
         color = "text-orange-600"
         bgColor = "bg-orange-500"
         break
       case 3:
-        label = "Fair"
+        label = t("auth.strength.fair")
         color = "text-yellow-600"
         bgColor = "bg-yellow-500"
         break
       case 4:
-        label = "Good"
+        label = t("auth.strength.good")
         color = "text-blue-600"
         bgColor = "bg-blue-500"
         break
       case 5:
-        label = "Strong"
+        label = t("auth.strength.strong")
         color = "text-green-600"
         bgColor = "bg-green-500"
         break
       default:
-        label = "Very Weak"
+        label = t("auth.strength.veryWeak")
         color = "text-red-600"
         bgColor = "bg-red-500"
     }
@@ -261,7 +268,7 @@ export default function AuthPage() {
       const { error } = await supabase.auth.signInWithOAuth({
         provider,
         options: {
-          redirectTo: window.location.origin, // Redirect back to your app after auth
+          redirectTo: window.location.origin + redirectTo, // Redirect back to your app after auth
         },
       })
 
@@ -269,8 +276,8 @@ export default function AuthPage() {
         console.error(`${provider} auth error:`, error)
         await Swal.fire({
           icon: "error",
-          title: `${provider === "google" ? "Google" : "Facebook"} Authentication Failed`,
-          text: "There was an error connecting to your account. Please try again.",
+          title: t("auth.alert.socialFailedTitle", { provider: provider === "google" ? "Google" : "Facebook" }),
+          text: t("auth.alert.socialFailedText"),
           confirmButtonColor: "#dc2626",
         })
       }
@@ -308,10 +315,10 @@ export default function AuthPage() {
 
     // Real-time email validation for registration
     if (field === "email" && !isLogin && value.length > 0) {
-      setEmailValidation({ isChecking: true, isValid: null, message: "Checking availability..." })
+      setEmailValidation({ isChecking: true, isValid: null, message: t("auth.validation.checking") })
 
       try {
-        const result = await checkEmailAvailability(value)
+        const result = await checkEmailAvailability(value, t)
         setEmailValidation({
           isChecking: false,
           isValid: result.isValid,
@@ -321,17 +328,17 @@ export default function AuthPage() {
         setEmailValidation({
           isChecking: false,
           isValid: false,
-          message: "Error checking email availability",
+          message: t("auth.validation.emailAvailabilityError"),
         })
       }
     }
 
     // Real-time phone validation for registration
     if (field === "phone" && !isLogin && value.length > 0) {
-      setPhoneValidation({ isChecking: true, isValid: null, message: "Checking availability..." })
+      setPhoneValidation({ isChecking: true, isValid: null, message: t("auth.validation.checking") })
 
       try {
-        const result = await checkPhoneAvailability(value)
+        const result = await checkPhoneAvailability(value, t)
         setPhoneValidation({
           isChecking: false,
           isValid: result.isValid,
@@ -341,7 +348,7 @@ export default function AuthPage() {
         setPhoneValidation({
           isChecking: false,
           isValid: false,
-          message: "Error checking phone availability",
+          message: t("auth.validation.phoneAvailabilityError"),
         })
       }
     }
@@ -362,37 +369,37 @@ export default function AuthPage() {
 
     // Email validation
     if (!formData.email) {
-      newErrors.email = "Email is required"
+      newErrors.email = t("auth.validation.emailRequired")
     } else if (!validateEmail(formData.email)) {
-      newErrors.email = "Please enter a valid email address"
+      newErrors.email = t("auth.validation.emailInvalid")
     } else if (!isLogin && emailValidation.isValid === false) {
       newErrors.email = emailValidation.message
     }
 
     // Password validation
     if (!formData.password) {
-      newErrors.password = "Password is required"
+      newErrors.password = t("auth.validation.passwordRequired")
     } else if (!isLogin && !validatePassword(formData.password)) {
-      newErrors.password = "Password must meet all requirements"
+      newErrors.password = t("auth.validation.passwordRequirements")
     }
 
     // Register-specific validations
     if (!isLogin) {
       if (!formData.fullName) {
-        newErrors.fullName = "Full name is required"
+        newErrors.fullName = t("auth.validation.fullNameRequired")
       } else if (formData.fullName.length < 2) {
-        newErrors.fullName = "Full name must be at least 2 characters"
+        newErrors.fullName = t("auth.validation.fullNameShort")
       }
 
       if (!formData.confirmPassword) {
-        newErrors.confirmPassword = "Please confirm your password"
+        newErrors.confirmPassword = t("auth.validation.confirmRequired")
       } else if (formData.password !== formData.confirmPassword) {
-        newErrors.confirmPassword = "Passwords do not match"
+        newErrors.confirmPassword = t("auth.validation.passwordMismatch")
       }
 
       if (formData.phone) {
         if (!validatePhone(formData.phone)) {
-          newErrors.phone = "Please enter a valid phone number"
+          newErrors.phone = t("auth.validation.phoneInvalid")
         } else if (phoneValidation.isValid === false) {
           newErrors.phone = phoneValidation.message
         }
@@ -400,11 +407,11 @@ export default function AuthPage() {
 
       // Check if validations are still in progress
       if (emailValidation.isChecking) {
-        newErrors.email = "Please wait while we check email availability"
+        newErrors.email = t("auth.validation.emailChecking")
       }
 
       if (phoneValidation.isChecking) {
-        newErrors.phone = "Please wait while we check phone availability"
+        newErrors.phone = t("auth.validation.phoneChecking")
       }
     }
 
@@ -418,8 +425,8 @@ export default function AuthPage() {
     if (!validateForm()) {
       Swal.fire({
         icon: "error",
-        title: "Validation Error",
-        text: "Please fix the errors in the form",
+        title: t("auth.alert.validationTitle"),
+        text: t("auth.alert.validationText"),
         confirmButtonColor: "#dc2626",
       })
       return
@@ -441,11 +448,11 @@ export default function AuthPage() {
         if (error.message === "Email not confirmed") {
           const { value: didRequestResend } = await Swal.fire({
             icon: "warning",
-            title: "Email Not Confirmed",
-            text: "Your account exists but you need to verify your email address before logging in.",
+            title: t("auth.alert.notConfirmedTitle"),
+            text: t("auth.alert.notConfirmedText"),
             showCancelButton: true,
-            confirmButtonText: "Resend Verification Email",
-            cancelButtonText: "OK",
+            confirmButtonText: t("auth.alert.resendButton"),
+            cancelButtonText: t("auth.alert.ok"),
             confirmButtonColor: "#dc2626",
             cancelButtonColor: "#6b7280",
           })
@@ -459,15 +466,15 @@ export default function AuthPage() {
             if (resendError) {
               await Swal.fire({
                 icon: "error",
-                title: "Resend Failed",
+                title: t("auth.alert.resendFailedTitle"),
                 text: resendError.message,
                 confirmButtonColor: "#dc2626",
               })
             } else {
               await Swal.fire({
                 icon: "success",
-                title: "Verification Email Sent!",
-                text: "A new verification link has been sent to your email address. Please check your inbox.",
+                title: t("auth.alert.resendSentTitle"),
+                text: t("auth.alert.resendSentText"),
                 confirmButtonColor: "#dc2626",
               })
             }
@@ -475,8 +482,8 @@ export default function AuthPage() {
         } else {
           await Swal.fire({
             icon: "error",
-            title: "Login Failed",
-            text: error.message || "Invalid email or password. Please try again.",
+            title: t("auth.alert.loginFailedTitle"),
+            text: error.message || t("auth.alert.loginFailedText"),
             confirmButtonColor: "#dc2626",
           })
         }
@@ -484,14 +491,14 @@ export default function AuthPage() {
         // Successful manual login
         Swal.fire({
           icon: "success",
-          title: "Login berhasil!",
-          text: "Anda akan diarahkan ke halaman utama dalam 2 detik.",
+          title: t("auth.alert.loginSuccessTitle"),
+          text: t("auth.alert.loginSuccessText"),
           timer: 2000,
           timerProgressBar: true,
           showConfirmButton: false,
         }).then(() => {
           resetForm()
-          navigate("/")
+          navigate(redirectTo)
         })
       }
     } else {
@@ -512,7 +519,7 @@ export default function AuthPage() {
       if (error) {
         await Swal.fire({
           icon: "error",
-          title: "Registration Failed",
+          title: t("auth.alert.registrationFailedTitle"),
           text: error.message,
           confirmButtonColor: "#dc2626",
         })
@@ -520,8 +527,8 @@ export default function AuthPage() {
         // Successful registration
         await Swal.fire({
           icon: "success",
-          title: "Registration Successful!",
-          text: "Please check your email to verify your account.",
+          title: t("auth.alert.registrationSuccessTitle"),
+          text: t("auth.alert.registrationSuccessText"),
           confirmButtonColor: "#dc2626",
           timer: 2000,
           timerProgressBar: true,
@@ -564,22 +571,22 @@ export default function AuthPage() {
       </div>
 
       {/* Right Side - Form (70%) */}
-      <div className="w-full lg:w-[70%] flex items-center justify-center p-6 bg-gray-50 min-h-screen">
+      <div className="w-full lg:w-[70%] flex items-center justify-center p-6 bg-background min-h-screen">
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.6 }}
           className="w-full max-w-lg"
         >
-          <div className="bg-white rounded-2xl shadow-2xl p-6">
+          <div className="bg-card rounded-2xl shadow-2xl p-6">
             {/* Logo and Header */}
             <div className="text-center mb-6">
               <div className="flex items-center justify-center mb-4 gap-2">
                 <img src={logoBadak} alt="BadakLNG Logo" className="h-10 w-auto" />
               </div>
-              <h2 className="text-2xl font-bold text-gray-900 mb-2">{isLogin ? "Welcome Back" : "Create Account"}</h2>
+              <h2 className="text-2xl font-bold text-foreground mb-2">{isLogin ? t("auth.welcomeBack") : t("auth.createAccount")}</h2>
               <p className="text-gray-600 text-sm">
-                {isLogin ? "Sign in to access your HSE training dashboard" : "Join our HSE training community"}
+                {isLogin ? t("auth.signInSubtitle") : t("auth.registerSubtitle")}
               </p>
             </div>
 
@@ -590,12 +597,12 @@ export default function AuthPage() {
                 variant="outline"
                 onClick={() => handleSocialAuth("google")}
                 disabled={isSocialLoading !== null || isLoading}
-                className="w-full h-10 border-gray-300 hover:bg-gray-50 transition-all duration-200 text-sm"
+                className="w-full h-10 border-gray-300 hover:bg-muted transition-all duration-200 text-sm"
               >
                 {isSocialLoading === "google" ? (
                   <div className="flex items-center justify-center">
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600 mr-2"></div>
-                    Connecting to Google...
+                    {t("auth.connectingTo", { provider: "Google" })}
                   </div>
                 ) : (
                   <div className="flex items-center justify-center">
@@ -617,7 +624,7 @@ export default function AuthPage() {
                         d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
                       />
                     </svg>
-                    Continue with Google
+                    {t("auth.continueWithGoogle")}
                   </div>
                 )}
               </Button>
@@ -627,19 +634,19 @@ export default function AuthPage() {
                 variant="outline"
                 onClick={() => handleSocialAuth("facebook")}
                 disabled={isSocialLoading !== null || isLoading}
-                className="w-full h-10 border-gray-300 hover:bg-gray-50 transition-all duration-200 text-sm"
+                className="w-full h-10 border-gray-300 hover:bg-muted transition-all duration-200 text-sm"
               >
                 {isSocialLoading === "facebook" ? (
                   <div className="flex items-center justify-center">
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600 mr-2"></div>
-                    Connecting to Facebook...
+                    {t("auth.connectingTo", { provider: "Facebook" })}
                   </div>
                 ) : (
                   <div className="flex items-center justify-center">
                     <svg className="w-4 h-4 mr-2" fill="#1877F2" viewBox="0 0 24 24">
                       <path d="M24 12.073c0-6.627-5.373-12-12-12s-12 5.373-12 12c0 5.99 4.388 10.954 10.125 11.854v-8.385H7.078v-3.47h3.047V9.43c0-3.007 1.792-4.669 4.533-4.669 1.312 0 2.686.235 2.686.235v2.953H15.83c-1.491 0-1.956.925-1.956 1.874v2.25h3.328l-.532 3.47h-2.796v8.385C19.612 23.027 24 18.062 24 12.073z" />
                     </svg>
-                    Continue with Facebook
+                    {t("auth.continueWithFacebook")}
                   </div>
                 )}
               </Button>
@@ -649,27 +656,27 @@ export default function AuthPage() {
             <div className="relative mb-4">
               <Separator />
               <div className="absolute inset-0 flex items-center justify-center">
-                <span className="bg-white px-3 text-xs text-gray-500">or continue with email</span>
+                <span className="bg-card px-3 text-xs text-gray-500">{t("auth.orContinueWithEmail")}</span>
               </div>
             </div>
 
             {/* Toggle Buttons */}
-            <div className="flex bg-gray-100 rounded-lg p-1 mb-4">
+            <div className="flex bg-muted rounded-lg p-1 mb-4">
               <button
                 onClick={() => !isLoading && !isSocialLoading && setIsLogin(true)}
                 className={`flex-1 py-2 px-3 rounded-md text-sm font-medium transition-all duration-200 ${
-                  isLogin ? "bg-white text-orange-600 shadow-sm" : "text-gray-600 hover:text-gray-900"
+                  isLogin ? "bg-background text-orange-600 shadow-sm" : "text-gray-600 hover:text-foreground"
                 }`}
               >
-                Login
+                {t("auth.login")}
               </button>
               <button
                 onClick={() => !isLoading && !isSocialLoading && setIsLogin(false)}
                 className={`flex-1 py-2 px-3 rounded-md text-sm font-medium transition-all duration-200 ${
-                  !isLogin ? "bg-white text-orange-600 shadow-sm" : "text-gray-600 hover:text-gray-900"
+                  !isLogin ? "bg-background text-orange-600 shadow-sm" : "text-gray-600 hover:text-foreground"
                 }`}
               >
-                Register
+                {t("auth.register")}
               </button>
             </div>
 
@@ -690,7 +697,7 @@ export default function AuthPage() {
                   <>
                     <div>
                       <Label htmlFor="fullName" className="text-sm font-medium text-gray-700">
-                        Full Name {touchedFields.fullName && errors.fullName && <span className="text-red-500">*</span>}
+                        {t("auth.fullName")} {touchedFields.fullName && errors.fullName && <span className="text-red-500">*</span>}
                       </Label>
                       <div className="relative mt-1">
                         <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
@@ -701,7 +708,7 @@ export default function AuthPage() {
                           onChange={(e) => handleInputChange("fullName", e.target.value)}
                           onBlur={() => setTouchedFields((prev) => ({ ...prev, fullName: true }))}
                           className={`pl-9 h-10 text-sm ${errors.fullName ? "border-red-500" : ""}`}
-                          placeholder="Enter your full name"
+                          placeholder={t("auth.fullNamePlaceholder")}
                         />
                       </div>
                       {errors.fullName && <p className="text-red-500 text-xs mt-1">{errors.fullName}</p>}
@@ -709,7 +716,7 @@ export default function AuthPage() {
 
                     <div>
                       <Label htmlFor="phone" className="text-sm font-medium text-gray-700">
-                        Phone Number
+                        {t("auth.phone")}
                       </Label>
                       <div className="relative mt-1">
                         <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
@@ -728,7 +735,7 @@ export default function AuthPage() {
                                   ? "border-red-500"
                                   : ""
                           }`}
-                          placeholder="Enter your phone number"
+                          placeholder={t("auth.phonePlaceholder")}
                         />
                         {/* Validation Status Icon */}
                         {formData.phone && (
@@ -766,7 +773,7 @@ export default function AuthPage() {
                 {/* Email */}
                 <div>
                   <Label htmlFor="email" className="text-sm font-medium text-gray-700">
-                    Email Address {touchedFields.email && errors.email && <span className="text-red-500">*</span>}
+                    {t("auth.email")} {touchedFields.email && errors.email && <span className="text-red-500">*</span>}
                   </Label>
                   <div className="relative mt-1">
                     <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
@@ -785,7 +792,7 @@ export default function AuthPage() {
                               ? "border-red-500"
                               : ""
                       }`}
-                      placeholder="Enter your email"
+                      placeholder={t("auth.emailPlaceholder")}
                     />
                     {/* Validation Status Icon */}
                     {!isLogin && formData.email && (
@@ -821,7 +828,7 @@ export default function AuthPage() {
                 {/* Password */}
                 <div>
                   <Label htmlFor="password" className="text-sm font-medium text-gray-700">
-                    Password {touchedFields.password && errors.password && <span className="text-red-500">*</span>}
+                    {t("auth.password")} {touchedFields.password && errors.password && <span className="text-red-500">*</span>}
                   </Label>
                   <div className="relative mt-1">
                     <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
@@ -832,7 +839,7 @@ export default function AuthPage() {
                       onChange={(e) => handleInputChange("password", e.target.value)}
                       onBlur={() => setTouchedFields((prev) => ({ ...prev, password: true }))}
                       className={`pl-9 pr-9 h-10 text-sm ${errors.password ? "border-red-500" : ""}`}
-                      placeholder="Enter your password"
+                      placeholder={t("auth.passwordPlaceholder")}
                     />
                     <button
                       type="button"
@@ -855,7 +862,7 @@ export default function AuthPage() {
                       {/* Strength Bar */}
                       <div className="space-y-1">
                         <div className="flex justify-between items-center">
-                          <span className="text-xs font-medium text-gray-700">Password Strength</span>
+                          <span className="text-xs font-medium text-gray-700">{t("auth.passwordStrength")}</span>
                           <span className={`text-xs font-medium ${passwordStrength.color}`}>
                             {passwordStrength.label}
                           </span>
@@ -872,8 +879,8 @@ export default function AuthPage() {
                       </div>
 
                       {/* Requirements Checklist */}
-                      <div className="bg-gray-50 rounded-lg p-2 space-y-1">
-                        <p className="text-xs font-medium text-gray-700 mb-1">Requirements:</p>
+                      <div className="bg-muted rounded-lg p-2 space-y-1">
+                        <p className="text-xs font-medium text-gray-700 mb-1">{t("auth.requirements")}</p>
                         <div className="grid grid-cols-1 gap-1">
                           <div className="flex items-center space-x-2">
                             {passwordStrength.checks.length ? (
@@ -886,7 +893,7 @@ export default function AuthPage() {
                                 passwordStrength.checks.length ? "text-green-700" : "text-red-600"
                               }`}
                             >
-                              At least 8 characters
+                              {t("auth.requirement.length")}
                             </span>
                           </div>
                           <div className="flex items-center space-x-2">
@@ -900,7 +907,7 @@ export default function AuthPage() {
                                 passwordStrength.checks.uppercase ? "text-green-700" : "text-red-600"
                               }`}
                             >
-                              One uppercase letter
+                              {t("auth.requirement.uppercase")}
                             </span>
                           </div>
                           <div className="flex items-center space-x-2">
@@ -914,7 +921,7 @@ export default function AuthPage() {
                                 passwordStrength.checks.lowercase ? "text-green-700" : "text-red-600"
                               }`}
                             >
-                              One lowercase letter
+                              {t("auth.requirement.lowercase")}
                             </span>
                           </div>
                           <div className="flex items-center space-x-2">
@@ -928,7 +935,7 @@ export default function AuthPage() {
                                 passwordStrength.checks.number ? "text-green-700" : "text-red-600"
                               }`}
                             >
-                              One number
+                              {t("auth.requirement.number")}
                             </span>
                           </div>
                           <div className="flex items-center space-x-2">
@@ -942,7 +949,7 @@ export default function AuthPage() {
                                 passwordStrength.checks.special ? "text-green-700" : "text-red-600"
                               }`}
                             >
-                              One special character
+                              {t("auth.requirement.special")}
                             </span>
                           </div>
                         </div>
@@ -955,7 +962,7 @@ export default function AuthPage() {
                 {!isLogin && (
                   <div>
                     <Label htmlFor="confirmPassword" className="text-sm font-medium text-gray-700">
-                      Confirm Password{" "}
+                      {t("auth.confirmPassword")}{" "}
                       {touchedFields.confirmPassword && errors.confirmPassword && (
                         <span className="text-red-500">*</span>
                       )}
@@ -969,7 +976,7 @@ export default function AuthPage() {
                         onChange={(e) => handleInputChange("confirmPassword", e.target.value)}
                         onBlur={() => setTouchedFields((prev) => ({ ...prev, confirmPassword: true }))}
                         className={`pl-9 pr-9 h-10 text-sm ${errors.confirmPassword ? "border-red-500" : ""}`}
-                        placeholder="Confirm your password"
+                        placeholder={t("auth.confirmPasswordPlaceholder")}
                       />
                       <button
                         type="button"
@@ -989,16 +996,16 @@ export default function AuthPage() {
                     <div className="flex items-center">
                       <Checkbox id="remember" checked={rememberMe} onCheckedChange={setRememberMe} />
                       <Label htmlFor="remember" className="ml-2 text-sm text-gray-600">
-                        Remember me
+                        {t("auth.rememberMe")}
                       </Label>
                     </div>
                   ) : (
                     <div className="flex items-center">
                       <Checkbox id="terms" required />
                       <Label htmlFor="terms" className="ml-2 text-sm text-gray-600">
-                        I agree to the{" "}
+                        {t("auth.agreeTo")}{" "}
                         <a href="#" className="text-orange-600 hover:text-orange-700">
-                          Terms & Conditions
+                          {t("auth.terms")}
                         </a>
                       </Label>
                     </div>
@@ -1006,7 +1013,7 @@ export default function AuthPage() {
 
                   {isLogin && (
                     <a href="#" className="text-sm text-orange-600 hover:text-orange-700">
-                      Forgot password?
+                      {t("auth.forgotPassword")}
                     </a>
                   )}
                 </div>
@@ -1020,10 +1027,10 @@ export default function AuthPage() {
                   {isLoading ? (
                     <div className="flex items-center justify-center">
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                      {isLogin ? "Signing In..." : "Creating Account..."}
+                      {isLogin ? t("auth.signingIn") : t("auth.creatingAccount")}
                     </div>
                   ) : (
-                    <span>{isLogin ? "Sign In" : "Create Account"}</span>
+                    <span>{isLogin ? t("auth.signIn") : t("auth.createAccount")}</span>
                   )}
                 </Button>
               </motion.form>
@@ -1032,13 +1039,13 @@ export default function AuthPage() {
             {/* Footer */}
             <div className="mt-4 text-center">
               <p className="text-gray-600 text-sm">
-                {isLogin ? "Don't have an account?" : "Already have an account?"}{" "}
+                {isLogin ? t("auth.noAccount") : t("auth.haveAccount")}{" "}
                 <button
                   onClick={toggleMode}
                   disabled={isLoading || isSocialLoading !== null}
                   className="text-orange-600 hover:text-orange-700 font-medium disabled:opacity-50"
                 >
-                  {isLogin ? "Sign up" : "Sign in"}
+                  {isLogin ? t("auth.signUpLink") : t("auth.signInLink")}
                 </button>
               </p>
             </div>
@@ -0,0 +1,94 @@
+import { Link } from "react-router-dom"
+import { AlarmClock, Award } from "lucide-react"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import CertificateCard from "@/components/CertificateCard"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useUserCertificates } from "@/hooks/use-certificates"
+import { useTrainingPrograms } from "@/hooks/use-training-programs"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  getCertificateExpiryState,
+  getCertificateValidity,
+  getCertificationRule,
+  getRefresherProgram,
+  isCertificateRenewed,
+} from "@/lib/certificates"
+
+export default function MyCertificatesPage() {
+  const { t } = useTranslation()
+  const { user } = useCurrentUser()
+  const { data: certificates = [], isLoading } = useUserCertificates(user?.id)
+  const { data: programs = [] } = useTrainingPrograms()
+
+  const renewedIds = new Set(
+    certificates
+      .filter((certificate) => isCertificateRenewed(certificate, certificates, programs))
+      .map((certificate) => certificate.id)
+  )
+  const dueCount = certificates.filter(
+    (certificate) =>
+      !renewedIds.has(certificate.id) &&
+      (getCertificateValidity(certificate) === "expired" || getCertificateExpiryState(certificate) !== null)
+  ).length
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground">{t("certificates.title")}</h1>
+          <p className="text-gray-600">{t("certificates.subtitle")}</p>
+        </div>
+
+        {dueCount > 0 && (
+          <Alert className="mb-6 border-amber-200 bg-amber-50">
+            <AlarmClock className="h-4 w-4" />
+            <AlertTitle>{t("certificates.dueTitle")}</AlertTitle>
+            <AlertDescription>
+              {t(dueCount === 1 ? "certificates.due.one" : "certificates.due.other", { count: dueCount })}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {Array.from({ length: 3 }, (_, index) => (
+              <Skeleton key={index} className="h-56 rounded-lg" />
+            ))}
+          </div>
+        ) : certificates.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <Award className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-foreground mb-2">{t("certificates.emptyTitle")}</h3>
+              <p className="text-gray-600 mb-6">{t("dashboard.noCertificates")}</p>
+              <Button asChild className="bg-red-600 hover:bg-red-700">
+                <Link to="/training">{t("dashboard.browsePrograms")}</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {certificates.map((certificate) => (
+              <CertificateCard
+                key={certificate.id}
+                certificate={certificate}
+                rule={getCertificationRule(certificate, programs)}
+                refresher={getRefresherProgram(certificate, programs)}
+                renewed={renewedIds.has(certificate.id)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
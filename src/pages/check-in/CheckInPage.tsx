@@ -0,0 +1,84 @@
+import { useEffect, useRef } from "react"
+import { Link, useParams } from "react-router-dom"
+import { AlertTriangle, CheckCircle, Loader2, XCircle } from "lucide-react"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { useCheckInToSession } from "@/hooks/use-check-in"
+import { useTrainingSession } from "@/hooks/use-schedule"
+import { useTranslation } from "@/hooks/use-translation"
+import type { CheckInFlag } from "@/lib/checkIn"
+import type { MessageKey } from "@/locales/en"
+
+const flagMessages: Record<CheckInFlag, MessageKey> = {
+  duplicate: "checkIn.flag.duplicate",
+  out_of_window: "checkIn.flag.out_of_window",
+}
+
+// Reached by scanning the QR code on the instructor's screen. The scan is
+// submitted as soon as the page opens (after sign-in, if needed).
+export default function CheckInPage() {
+  const { t, formatDate } = useTranslation()
+  const { code } = useParams()
+  const checkIn = useCheckInToSession()
+  const { data: session } = useTrainingSession(checkIn.data?.sessionId)
+  const submitted = useRef(false)
+
+  useEffect(() => {
+    if (!code || submitted.current) return
+    submitted.current = true
+    checkIn.mutate(code)
+  }, [code, checkIn])
+
+  const result = checkIn.data
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-md mx-auto px-4 pt-32 pb-16">
+        <Card>
+          <CardContent className="py-12 text-center space-y-4">
+            {checkIn.isError ? (
+              <>
+                <XCircle className="w-14 h-14 text-red-600 mx-auto" />
+                <h1 className="text-2xl font-bold text-foreground">{t("checkIn.failedTitle")}</h1>
+                <p className="text-gray-600">
+                  {checkIn.error instanceof Error ? checkIn.error.message : t("checkIn.scanAgain")}
+                </p>
+              </>
+            ) : !result ? (
+              <>
+                <Loader2 className="w-14 h-14 text-gray-400 mx-auto animate-spin" />
+                <p className="text-gray-600">{t("checkIn.checkingIn")}</p>
+              </>
+            ) : result.flag ? (
+              <>
+                <AlertTriangle className="w-14 h-14 text-amber-500 mx-auto" />
+                <h1 className="text-2xl font-bold text-foreground">{t("checkIn.reviewTitle")}</h1>
+                <p className="text-gray-600">{t(flagMessages[result.flag])}</p>
+              </>
+            ) : (
+              <>
+                <CheckCircle className="w-14 h-14 text-green-600 mx-auto" />
+                <h1 className="text-2xl font-bold text-foreground">
+                  {t(result.attendanceStatus === "late" ? "checkIn.late" : "checkIn.done")}
+                </h1>
+                <p className="text-gray-600">
+                  {session ? `${session.title} · ` : ""}
+                  {formatDate(result.scannedAt, "LLL dd, y · HH:mm:ss")}
+                </p>
+              </>
+            )}
+            <Button asChild variant="outline">
+              <Link to="/dashboard">{t("checkIn.dashboard")}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+import { Link } from "react-router-dom"
+import { isBefore, startOfToday } from "date-fns"
+import { AlarmClock, Award, CalendarDays, ClipboardList, MapPin, PlayCircle, Receipt } from "lucide-react"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import CertificateCard from "@/components/CertificateCard"
+import EnrollmentStatusCard from "@/components/EnrollmentStatusCard"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useUserEnrollments } from "@/hooks/use-enrollment"
+import { useCohortSessions, useCohorts } from "@/hooks/use-schedule"
+import { useUserCertificates } from "@/hooks/use-certificates"
+import { useUserInvoices } from "@/hooks/use-invoices"
+import { useTrainingPrograms } from "@/hooks/use-training-programs"
+import { useEnrollmentProgress } from "@/hooks/use-learning-progress"
+import { useTranslation } from "@/hooks/use-translation"
+import { getSyllabusProgress, getTopicAnchor } from "@/lib/learningProgress"
+import {
+  certificateExpiryLabels,
+  certificateExpiryStyles,
+  certificateValidityLabels,
+  certificateValidityStyles,
+  getCertificateExpiryState,
+  getCertificateValidity,
+  getCertificationRule,
+  getRefresherProgram,
+  isCertificateRenewed,
+} from "@/lib/certificates"
+
+const ACTIVE_STATUSES = ["pending", "confirmed", "waitlisted", "offered"]
+const SEATED_STATUSES = ["pending", "confirmed"]
+
+export default function DashboardPage() {
+  const { t, formatCurrency, formatDate } = useTranslation()
+  const { user, profile } = useCurrentUser()
+  const { data: enrollments = [], isLoading: isEnrollmentsLoading } = useUserEnrollments(user?.id)
+  const { data: certificates = [], isLoading: isCertificatesLoading } = useUserCertificates(user?.id)
+  const { data: invoices = [] } = useUserInvoices(user?.id)
+  const { data: programs = [] } = useTrainingPrograms()
+
+  const activeEnrollments = enrollments.filter((enrollment) => ACTIVE_STATUSES.includes(enrollment.status))
+  const seatedEnrollments = enrollments.filter((enrollment) => SEATED_STATUSES.includes(enrollment.status))
+  const cohortIds = enrollments
+    .filter((enrollment) => enrollment.status !== "cancelled")
+    .map((enrollment) => enrollment.cohortId)
+  const seatedCohortIds = seatedEnrollments.map((enrollment) => enrollment.cohortId)
+
+  const { data: cohorts = [] } = useCohorts({ cohortIds }, cohortIds.length > 0)
+  const { data: sessions = [] } = useCohortSessions(seatedCohortIds)
+  const { data: progress = [] } = useEnrollmentProgress(seatedEnrollments.map((enrollment) => enrollment.id))
+  const cohortsById = new Map(cohorts.map((cohort) => [cohort.id, cohort]))
+
+  const now = new Date()
+  const upcomingSessions = sessions.filter((session) => new Date(session.startsAt) > now).slice(0, 5)
+
+  const enrollmentsById = new Map(enrollments.map((enrollment) => [enrollment.id, enrollment]))
+  const outstandingInvoices = invoices.filter(
+    (invoice) => invoice.status === "unpaid" && enrollmentsById.has(invoice.enrollmentId)
+  )
+  const outstandingTotal = outstandingInvoices.reduce((total, invoice) => total + invoice.amount, 0)
+
+  const deadlines = certificates
+    .filter(
+      (certificate) =>
+        certificate.expiresOn &&
+        certificate.status === "valid" &&
+        !isCertificateRenewed(certificate, certificates, programs)
+    )
+    .sort((a, b) => a.expiresOn.localeCompare(b.expiresOn))
+    .slice(0, 5)
+
+  const firstName = profile?.fullName?.split(" ")[0]
+
+  const stats = [
+    { label: t("dashboard.stats.activeEnrollments"), value: activeEnrollments.length, icon: ClipboardList },
+    {
+      label: t("dashboard.stats.upcomingSessions"),
+      value: sessions.filter((session) => new Date(session.startsAt) > now).length,
+      icon: CalendarDays,
+    },
+    {
+      label: t("dashboard.stats.certificatesEarned"),
+      value: certificates.filter((certificate) => certificate.status === "valid").length,
+      icon: Award,
+    },
+    { label: t("dashboard.stats.outstandingBalance"), value: formatCurrency(outstandingTotal), icon: Receipt },
+  ]
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">{firstName ? t("dashboard.welcome", { name: firstName }) : t("header.myDashboard")}</h1>
+            <p className="text-gray-600">{t("dashboard.subtitle")}</p>
+          </div>
+          <Button asChild className="bg-red-600 hover:bg-red-700">
+            <Link to="/training">{t("dashboard.browsePrograms")}</Link>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+          {stats.map((stat) => (
+            <Card key={stat.label}>
+              <CardContent className="p-5 flex items-center gap-4">
+                <stat.icon className="w-8 h-8 text-red-600 flex-shrink-0" />
+                <div>
+                  <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+                  <p className="text-sm text-gray-600">{stat.label}</p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-8">
+            {isEnrollmentsLoading ? (
+              <Skeleton className="h-48 rounded-lg" />
+            ) : activeEnrollments.length > 0 ? (
+              <EnrollmentStatusCard
+                enrollments={activeEnrollments}
+                cohorts={cohorts}
+                title={t("dashboard.currentEnrollments")}
+                showProgram
+              />
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <ClipboardList className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-xl font-semibold text-foreground mb-2">{t("dashboard.noEnrollmentsTitle")}</h3>
+                  <p className="text-gray-600 mb-6">{t("dashboard.noEnrollmentsText")}</p>
+                  <Button asChild variant="outline">
+                    <Link to="/schedule">{t("dashboard.viewSchedule")}</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {seatedEnrollments.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{t("dashboard.trainingProgress")}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {seatedEnrollments.map((enrollment) => {
+                    const cohort = cohortsById.get(enrollment.cohortId)
+                    const program = programs.find((item) => item.id === cohort?.programId)
+                    const summary = getSyllabusProgress(
+                      program?.syllabus ?? [],
+                      progress.filter((item) => item.enrollmentId === enrollment.id)
+                    )
+                    return (
+                      <div key={enrollment.id} className="space-y-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="font-semibold text-foreground">{cohort?.programTitle ?? cohort?.code}</p>
+                          <span className="text-sm text-gray-600">
+                            {summary.total > 0 ? `${summary.percent}%` : t("dashboard.noSyllabus")}
+                          </span>
+                        </div>
+                        {summary.modules.map((entry, index) => (
+                          <div key={index}>
+                            <div className="flex justify-between text-sm text-gray-600 mb-1">
+                              <span>{entry.title}</span>
+                              <span>{t("dashboard.topicsCompleted", { completed: entry.completed, total: entry.total })}</span>
+                            </div>
+                            <Progress value={entry.percent} className="h-2" />
+                          </div>
+                        ))}
+                        {cohort && summary.total > 0 && (
+                          <Button asChild variant="outline" size="sm">
+                            <Link
+                              to={`/learn/${cohort.programSlug}${summary.resumeAt ? `#${getTopicAnchor(summary.resumeAt)}` : ""}`}
+                            >
+                              <PlayCircle className="w-4 h-4 mr-2" />
+                              {summary.resumeAt ? t("dashboard.resume") : t("dashboard.reviewCourse")}
+                            </Link>
+                          </Button>
+                        )}
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-foreground">{t("dashboard.certificates")}</h2>
+                {certificates.length > 0 && (
+                  <Button asChild variant="link" className="text-red-600">
+                    <Link to="/certificates">{t("dashboard.viewAll")}</Link>
+                  </Button>
+                )}
+              </div>
+              {isCertificatesLoading ? (
+                <Skeleton className="h-56 rounded-lg" />
+              ) : certificates.length === 0 ? (
+                <Card>
+                  <CardContent className="py-10 text-center text-gray-600">
+                    {t("dashboard.noCertificates")}
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid md:grid-cols-2 gap-6">
+                  {certificates.slice(0, 4).map((certificate) => (
+                    <CertificateCard
+                      key={certificate.id}
+                      certificate={certificate}
+                      rule={getCertificationRule(certificate, programs)}
+                      refresher={getRefresherProgram(certificate, programs)}
+                      renewed={isCertificateRenewed(certificate, certificates, programs)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>{t("dashboard.upcomingSessions")}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {upcomingSessions.length === 0 ? (
+                  <p className="text-sm text-gray-600">{t("dashboard.noSessions")}</p>
+                ) : (
+                  upcomingSessions.map((session) => (
+                    <div key={session.id} className="border-l-4 border-red-600 pl-3">
+                      <p className="font-medium text-foreground">{session.title}</p>
+                      <p className="text-sm text-gray-600">{cohortsById.get(session.cohortId)?.programTitle}</p>
+                      <p className="text-sm text-gray-600">
+                        {formatDate(session.startsAt, "EEE, LLL dd · HH:mm")}–{formatDate(session.endsAt, "HH:mm")}
+                      </p>
+                      <p className="flex items-center text-xs text-gray-500">
+                        <MapPin className="w-3 h-3 mr-1" />
+                        {session.venue}
+                      </p>
+                    </div>
+                  ))
+                )}
+                <Button asChild variant="outline" size="sm" className="w-full">
+                  <Link to="/schedule">{t("dashboard.fullSchedule")}</Link>
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{t("dashboard.outstandingPayments")}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {outstandingInvoices.length === 0 ? (
+                  <p className="text-sm text-gray-600">{t("dashboard.nothingOutstanding")}</p>
+                ) : (
+                  outstandingInvoices.map((invoice) => {
+                    const cohort = cohortsById.get(enrollmentsById.get(invoice.enrollmentId)?.cohortId)
+                    const isOverdue = isBefore(new Date(invoice.dueOn), startOfToday())
+                    return (
+                      <div key={invoice.id} className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="font-medium text-foreground">{cohort?.programTitle}</p>
+                          <p className="font-mono text-xs text-gray-500">{invoice.invoiceNumber}</p>
+                          <p className={`text-sm ${isOverdue ? "text-red-600 font-medium" : "text-gray-600"}`}>
+                            {t(isOverdue ? "dashboard.overdueSince" : "dashboard.due", { date: formatDate(invoice.dueOn, "LLL dd, y") })}
+                          </p>
+                        </div>
+                        <p className="font-semibold text-foreground">{formatCurrency(invoice.amount)}</p>
+                      </div>
+                    )
+                  })
+                )}
+                {outstandingInvoices.length > 0 && (
+                  <p className="text-xs text-gray-500 pt-2 border-t">
+                    {t("dashboard.invoiceQuestions")}{" "}
+                    <a href="mailto:info@firetraininghse.com" className="text-red-600 hover:underline">
+                      info@firetraininghse.com
+                    </a>
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{t("dashboard.recertificationDeadlines")}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {deadlines.length === 0 ? (
+                  <p className="text-sm text-gray-600">{t("dashboard.noExpiringCertificates")}</p>
+                ) : (
+                  deadlines.map((certificate) => {
+                    const expiryState = getCertificateExpiryState(certificate)
+                    const isExpired = getCertificateValidity(certificate) === "expired"
+                    const refresher = getRefresherProgram(certificate, programs)
+                    return (
+                      <div key={certificate.id} className="space-y-1">
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="font-medium text-foreground">{certificate.certificationName}</p>
+                          {isExpired ? (
+                            <Badge variant="outline" className={certificateValidityStyles.expired}>
+                              {t(certificateValidityLabels.expired)}
+                            </Badge>
+                          ) : (
+                            expiryState && (
+                              <Badge variant="outline" className={certificateExpiryStyles[expiryState]}>
+                                {t(certificateExpiryLabels[expiryState])}
+                              </Badge>
+                            )
+                          )}
+                        </div>
+                        <p className="flex items-center text-sm text-gray-600">
+                          <AlarmClock className="w-4 h-4 mr-1" />
+                          {t(isExpired ? "dashboard.expired" : "dashboard.expires", {
+                            date: formatDate(certificate.expiresOn, "LLL dd, y"),
+                          })}
+                        </p>
+                        {(isExpired || expiryState) && refresher && (
+                          <Link to={`/training/${refresher.slug}`} className="text-sm text-red-600 hover:underline">
+                            {t("certificates.card.book", { program: refresher.title })}
+                          </Link>
+                        )}
+                      </div>
+                    )
+                  })
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
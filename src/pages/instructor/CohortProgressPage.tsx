@@ -0,0 +1,182 @@
+import { Fragment, useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useCohortRoster } from "@/hooks/use-enrollment-admin"
+import { useEnrollmentProgress, useSetTopicCompletion } from "@/hooks/use-learning-progress"
+import { useCohorts } from "@/hooks/use-schedule"
+import { useTrainingPrograms } from "@/hooks/use-training-programs"
+import { getSyllabusProgress, getTopicKey, type TopicRef } from "@/lib/learningProgress"
+import type { Enrollment } from "@/lib/enrollment"
+
+export default function CohortProgressPage() {
+  const { data: cohorts = [], isLoading: isCohortsLoading } = useCohorts({ includePast: true })
+  const { data: programs = [] } = useTrainingPrograms()
+  const [cohortId, setCohortId] = useState<string>()
+  const { data: roster = [], isLoading } = useCohortRoster(cohortId)
+  const enrollmentIds = useMemo(() => roster.map((enrollment) => enrollment.id), [roster])
+  const { data: progress = [] } = useEnrollmentProgress(enrollmentIds)
+  const setCompletion = useSetTopicCompletion()
+
+  // Default to the most recent cohort that has already started.
+  useEffect(() => {
+    if (cohortId || cohorts.length === 0) return
+    const today = new Date().toISOString().slice(0, 10)
+    setCohortId((cohorts.find((cohort) => cohort.startDate <= today) ?? cohorts[0]).id)
+  }, [cohorts, cohortId])
+
+  const cohort = cohorts.find((item) => item.id === cohortId)
+  const syllabus = programs.find((program) => program.id === cohort?.programId)?.syllabus ?? []
+  const completedKeys = new Set(progress.map((item) => `${item.enrollmentId}:${getTopicKey(item)}`))
+
+  const handleToggle = async (enrollment: Enrollment, topic: TopicRef, complete: boolean) => {
+    try {
+      await setCompletion.mutateAsync({ ...topic, enrollmentId: enrollment.id, userId: enrollment.userId, complete })
+    } catch (error) {
+      console.error("Error updating topic progress:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Update Failed",
+        text: "Progress could not be saved. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Cohort Progress</h1>
+            <p className="text-gray-600">Every trainee's syllabus progress. Tick a topic to mark it complete for them.</p>
+          </div>
+          {isCohortsLoading ? (
+            <Skeleton className="h-10 w-72" />
+          ) : (
+            <Select value={cohortId} onValueChange={setCohortId}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Choose a cohort" />
+              </SelectTrigger>
+              <SelectContent>
+                {cohorts.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.code} · {item.programTitle} ({format(new Date(item.startDate), "LLL y")})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Progress Matrix</CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 4 }, (_, index) => (
+                  <Skeleton key={index} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : roster.length === 0 ? (
+              <p className="text-sm text-gray-600">Nobody holds a seat in this cohort yet.</p>
+            ) : syllabus.length === 0 ? (
+              <p className="text-sm text-gray-600">This program has no syllabus to track progress against.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead rowSpan={2} className="min-w-48">
+                      Trainee
+                    </TableHead>
+                    {syllabus.map((syllabusModule, moduleIndex) => (
+                      <TableHead
+                        key={moduleIndex}
+                        colSpan={syllabusModule.topics.length}
+                        className="text-center border-l"
+                        title={syllabusModule.title}
+                      >
+                        Module {moduleIndex + 1}
+                      </TableHead>
+                    ))}
+                    <TableHead rowSpan={2} className="min-w-40 border-l">
+                      Overall
+                    </TableHead>
+                  </TableRow>
+                  <TableRow>
+                    {syllabus.map((syllabusModule, moduleIndex) => (
+                      <Fragment key={moduleIndex}>
+                        {syllabusModule.topics.map((topic, topicIndex) => (
+                          <TableHead
+                            key={topicIndex}
+                            className={`text-center text-xs ${topicIndex === 0 ? "border-l" : ""}`}
+                            title={`${topic.week}: ${topic.title}`}
+                          >
+                            {moduleIndex + 1}.{topicIndex + 1}
+                          </TableHead>
+                        ))}
+                      </Fragment>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster.map((enrollment) => {
+                    const summary = getSyllabusProgress(
+                      syllabus,
+                      progress.filter((item) => item.enrollmentId === enrollment.id)
+                    )
+                    return (
+                      <TableRow key={enrollment.id}>
+                        <TableCell>
+                          <p className="font-medium">{enrollment.fullName}</p>
+                          <p className="text-xs text-gray-500">{enrollment.employer}</p>
+                        </TableCell>
+                        {syllabus.map((syllabusModule, moduleIndex) => (
+                          <Fragment key={moduleIndex}>
+                            {syllabusModule.topics.map((topic, topicIndex) => {
+                              const ref = { moduleIndex, topicIndex }
+                              const isComplete = completedKeys.has(`${enrollment.id}:${getTopicKey(ref)}`)
+                              return (
+                                <TableCell key={topicIndex} className={`text-center ${topicIndex === 0 ? "border-l" : ""}`}>
+                                  <Checkbox
+                                    checked={isComplete}
+                                    disabled={setCompletion.isPending}
+                                    onCheckedChange={(checked) => handleToggle(enrollment, ref, checked === true)}
+                                    aria-label={`${topic.title} for ${enrollment.fullName}`}
+                                  />
+                                </TableCell>
+                              )
+                            })}
+                          </Fragment>
+                        ))}
+                        <TableCell className="border-l">
+                          <div className="flex items-center gap-2">
+                            <Progress value={summary.percent} className="h-2" />
+                            <span className="text-sm text-gray-600 w-10 text-right">{summary.percent}%</span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
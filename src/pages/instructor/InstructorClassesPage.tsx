@@ -0,0 +1,428 @@
+import { useEffect, useMemo, useState } from "react"
+import { format, isSameDay } from "date-fns"
+import { AlertTriangle, CalendarClock, Check, HeartPulse, Mail, MapPin, Phone, QrCode, StickyNote, UserCheck, X } from "lucide-react"
+import Swal from "sweetalert2"
+import CheckInQrDialog from "@/components/CheckInQrDialog"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import TraineeNotesDialog from "@/components/TraineeNotesDialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  useEnrollmentAttendance,
+  useInstructorSessions,
+  useRecordAttendance,
+  useSessionAttendance,
+} from "@/hooks/use-attendance"
+import { useResolveCheckIn, useSessionCheckIns } from "@/hooks/use-check-in"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useCohortRoster, useSetMedicalClearance } from "@/hooks/use-enrollment-admin"
+import { useCohorts } from "@/hooks/use-schedule"
+import { useTraineeNotes } from "@/hooks/use-trainee-notes"
+import { useTrainingProgram } from "@/hooks/use-training-programs"
+import {
+  attendanceStatusLabels,
+  attendanceStatusStyles,
+  type AttendanceInput,
+  type AttendanceStatus,
+} from "@/lib/attendance"
+import { checkInFlagLabels, type CheckIn } from "@/lib/checkIn"
+import {
+  medicalClearanceLabels,
+  medicalClearanceStyles,
+  type Enrollment,
+  type MedicalClearance,
+} from "@/lib/enrollment"
+
+const attendanceStatuses = Object.keys(attendanceStatusLabels) as AttendanceStatus[]
+const medicalClearances = Object.keys(medicalClearanceLabels) as MedicalClearance[]
+
+// Coordinators can look at any instructor's classes; this value means "mine".
+const OWN_CLASSES = "__own"
+
+export default function InstructorClassesPage() {
+  const { user, hasRole } = useCurrentUser()
+  const canViewOthers = hasRole("coordinator", "admin")
+  const [instructor, setInstructor] = useState(OWN_CLASSES)
+  const [sessionId, setSessionId] = useState<string>()
+  const [notesFor, setNotesFor] = useState<Enrollment | null>(null)
+  const [isQrOpen, setIsQrOpen] = useState(false)
+
+  const { data: allCohorts = [] } = useCohorts({ includePast: true }, canViewOthers)
+  const { data: sessions = [], isLoading: isSessionsLoading } = useInstructorSessions(
+    instructor === OWN_CLASSES ? undefined : instructor
+  )
+  const cohortIds = useMemo(() => [...new Set(sessions.map((session) => session.cohortId))], [sessions])
+  const { data: cohorts = [] } = useCohorts({ cohortIds }, cohortIds.length > 0)
+
+  const session = sessions.find((item) => item.id === sessionId)
+  const cohort = cohorts.find((item) => item.id === session?.cohortId)
+  const { data: program } = useTrainingProgram(cohort?.programSlug)
+  const { data: roster = [], isLoading: isRosterLoading } = useCohortRoster(session?.cohortId)
+  const enrollmentIds = useMemo(() => roster.map((enrollment) => enrollment.id), [roster])
+  // Poll while the QR code is up so scans show up on the register as they land.
+  const { data: records = [] } = useSessionAttendance(session?.id, isQrOpen ? 5000 : false)
+  const { data: checkIns = [] } = useSessionCheckIns(session?.id, isQrOpen ? 5000 : false)
+  const { data: attendance = [] } = useEnrollmentAttendance(enrollmentIds)
+  const { data: notes = [] } = useTraineeNotes(enrollmentIds)
+  const recordAttendance = useRecordAttendance()
+  const setMedicalClearance = useSetMedicalClearance()
+  const resolveCheckIn = useResolveCheckIn()
+
+  const instructorNames = useMemo(
+    () => [...new Set(allCohorts.flatMap((item) => item.instructors))].sort(),
+    [allCohorts]
+  )
+
+  // Open on today's session, else the next one, else the most recent.
+  useEffect(() => {
+    if (sessions.some((item) => item.id === sessionId)) return
+    const now = new Date()
+    const current = sessions.find((item) => new Date(item.endsAt) >= now) ?? sessions[sessions.length - 1]
+    setSessionId(current?.id)
+  }, [sessions, sessionId])
+
+  const statusByEnrollment = new Map(records.map((record) => [record.enrollmentId, record.status]))
+  const attendanceByEnrollment = new Map(attendance.map((item) => [item.enrollmentId, item]))
+  const unmarked = roster.filter((enrollment) => !statusByEnrollment.has(enrollment.id))
+  const flagged = checkIns.filter((checkIn) => checkIn.flag && !checkIn.resolution)
+  const scannedAtByEnrollment = new Map(
+    checkIns.filter((checkIn) => checkIn.attendanceStatus).map((checkIn) => [checkIn.enrollmentId, checkIn.scannedAt])
+  )
+
+  const saveAttendance = async (entries: AttendanceInput[]) => {
+    try {
+      await recordAttendance.mutateAsync(entries)
+    } catch (error) {
+      console.error("Error recording attendance:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Attendance Not Saved",
+        text: "The register could not be updated. Check your connection and try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const markAttendance = (enrollment: Enrollment, status: AttendanceStatus) =>
+    saveAttendance([{ sessionId: session.id, enrollmentId: enrollment.id, userId: enrollment.userId, status }])
+
+  const markRemainingPresent = () =>
+    saveAttendance(
+      unmarked.map((enrollment) => ({
+        sessionId: session.id,
+        enrollmentId: enrollment.id,
+        userId: enrollment.userId,
+        status: "present" as const,
+      }))
+    )
+
+  // Accepting a flagged scan marks the trainee present unless the register
+  // already has them; the scan itself is kept for the record.
+  const handleResolve = async (checkIn: CheckIn, accept: boolean) => {
+    const enrollment = roster.find((item) => item.id === checkIn.enrollmentId)
+    try {
+      if (accept && enrollment && !statusByEnrollment.has(enrollment.id)) {
+        await recordAttendance.mutateAsync([
+          { sessionId: checkIn.sessionId, enrollmentId: enrollment.id, userId: enrollment.userId, status: "present" },
+        ])
+      }
+      await resolveCheckIn.mutateAsync({ id: checkIn.id, resolution: accept ? "accepted" : "dismissed", resolvedBy: user.id })
+    } catch (error) {
+      console.error("Error resolving check-in:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Update Failed",
+        text: "The scan could not be resolved. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const handleClearanceChange = async (enrollment: Enrollment, clearance: MedicalClearance) => {
+    try {
+      await setMedicalClearance.mutateAsync({ enrollmentId: enrollment.id, clearance })
+    } catch (error) {
+      console.error("Error updating medical clearance:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Update Failed",
+        text: "Medical clearance could not be updated. Please try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">My Classes</h1>
+            <p className="text-gray-600">Sessions you teach, their rosters and the daily register.</p>
+          </div>
+          {canViewOthers && (
+            <Select value={instructor} onValueChange={setInstructor}>
+              <SelectTrigger className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={OWN_CLASSES}>My classes</SelectItem>
+                {instructorNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Sessions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 max-h-[70vh] overflow-y-auto">
+              {isSessionsLoading ? (
+                Array.from({ length: 5 }, (_, index) => <Skeleton key={index} className="h-16 w-full" />)
+              ) : sessions.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No sessions list you as the instructor. Ask a coordinator to check the name on your profile matches
+                  the schedule.
+                </p>
+              ) : (
+                sessions.map((item) => {
+                  const itemCohort = cohorts.find((candidate) => candidate.id === item.cohortId)
+                  const isToday = isSameDay(new Date(item.startsAt), new Date())
+                  return (
+                    <button
+                      key={item.id}
+                      type="button"
+                      onClick={() => setSessionId(item.id)}
+                      className={`w-full rounded-lg border p-3 text-left transition-colors ${
+                        item.id === sessionId ? "border-red-600 bg-red-50" : "hover:bg-muted"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-foreground">{item.title}</span>
+                        {isToday && <Badge className="bg-red-600">Today</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-600">
+                        {format(new Date(item.startsAt), "LLL dd, y · HH:mm")} · {itemCohort?.code}
+                      </p>
+                    </button>
+                  )
+                })
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            {!session ? (
+              <CardContent className="py-16 text-center">
+                <CalendarClock className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Choose a session to take attendance.</p>
+              </CardContent>
+            ) : (
+              <>
+                <CardHeader>
+                  <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                    <div>
+                      <CardTitle>{session.title}</CardTitle>
+                      <p className="text-sm text-gray-600">
+                        {cohort?.programTitle} · {cohort?.code}
+                        {program && ` · ${program.minAttendancePercent}% attendance required to certify`}
+                      </p>
+                      <p className="flex items-center text-sm text-gray-600 mt-1">
+                        <CalendarClock className="w-4 h-4 mr-1" />
+                        {format(new Date(session.startsAt), "EEE, LLL dd, y · HH:mm")}–
+                        {format(new Date(session.endsAt), "HH:mm")}
+                        <MapPin className="w-4 h-4 ml-3 mr-1" />
+                        {session.venue}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button className="bg-red-600 hover:bg-red-700" onClick={() => setIsQrOpen(true)}>
+                        <QrCode className="w-4 h-4 mr-2" />
+                        Show Check-In QR
+                      </Button>
+                      <Button
+                        variant="outline"
+                        disabled={unmarked.length === 0 || recordAttendance.isPending}
+                        onClick={markRemainingPresent}
+                      >
+                        <UserCheck className="w-4 h-4 mr-2" />
+                        Mark Remaining Present ({unmarked.length})
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {flagged.length > 0 && (
+                    <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-2">
+                      <p className="flex items-center font-semibold text-amber-800">
+                        <AlertTriangle className="w-4 h-4 mr-2" />
+                        Scans to review ({flagged.length})
+                      </p>
+                      {flagged.map((checkIn) => (
+                        <div key={checkIn.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                          <span className="text-foreground">
+                            {roster.find((enrollment) => enrollment.id === checkIn.enrollmentId)?.fullName ?? "Trainee"} ·{" "}
+                            {checkInFlagLabels[checkIn.flag]} at {format(new Date(checkIn.scannedAt), "LLL dd, HH:mm")}
+                          </span>
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={resolveCheckIn.isPending}
+                              onClick={() => handleResolve(checkIn, true)}
+                            >
+                              <Check className="w-4 h-4 mr-1" />
+                              Accept
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={resolveCheckIn.isPending}
+                              onClick={() => handleResolve(checkIn, false)}
+                            >
+                              <X className="w-4 h-4 mr-1" />
+                              Dismiss
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {isRosterLoading ? (
+                    Array.from({ length: 4 }, (_, index) => <Skeleton key={index} className="h-24 w-full" />)
+                  ) : roster.length === 0 ? (
+                    <p className="text-center text-gray-600 py-8">Nobody holds a seat in this cohort yet.</p>
+                  ) : (
+                    roster.map((enrollment) => {
+                      const status = statusByEnrollment.get(enrollment.id)
+                      const summary = attendanceByEnrollment.get(enrollment.id)
+                      const noteCount = notes.filter((note) => note.enrollmentId === enrollment.id).length
+                      return (
+                        <div key={enrollment.id} className="rounded-lg border p-4 space-y-3">
+                          <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                            <div className="space-y-1">
+                              <p className="font-semibold text-foreground">
+                                {enrollment.fullName}
+                                {scannedAtByEnrollment.has(enrollment.id) && (
+                                  <span className="ml-2 text-xs font-normal text-gray-500">
+                                    <QrCode className="inline w-3 h-3 mr-1" />
+                                    Checked in {format(new Date(scannedAtByEnrollment.get(enrollment.id)), "HH:mm")}
+                                  </span>
+                                )}
+                              </p>
+                              <p className="text-sm text-gray-600">
+                                {enrollment.jobTitle} · {enrollment.employer}
+                              </p>
+                              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                                <a href={`tel:${enrollment.phone}`} className="flex items-center text-gray-700 hover:text-red-600">
+                                  <Phone className="w-4 h-4 mr-1" />
+                                  {enrollment.phone}
+                                </a>
+                                <a
+                                  href={`mailto:${enrollment.email}`}
+                                  className="flex items-center text-gray-700 hover:text-red-600"
+                                >
+                                  <Mail className="w-4 h-4 mr-1" />
+                                  {enrollment.email}
+                                </a>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              {summary && summary.counted > 0 && (
+                                <span
+                                  className={`text-sm ${
+                                    program && summary.percent < program.minAttendancePercent ? "text-red-600" : "text-gray-600"
+                                  }`}
+                                >
+                                  {summary.attended}/{summary.counted} attended · {summary.percent}%
+                                </span>
+                              )}
+                              <Button variant="outline" size="sm" onClick={() => setNotesFor(enrollment)}>
+                                <StickyNote className="w-4 h-4 mr-1" />
+                                Notes{noteCount > 0 && ` (${noteCount})`}
+                              </Button>
+                            </div>
+                          </div>
+
+                          <div className="flex flex-col md:flex-row md:items-center gap-2">
+                            <HeartPulse className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                            <Select
+                              value={enrollment.medicalClearance}
+                              onValueChange={(value) => handleClearanceChange(enrollment, value as MedicalClearance)}
+                            >
+                              <SelectTrigger className={`w-48 h-8 ${medicalClearanceStyles[enrollment.medicalClearance]}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {medicalClearances.map((clearance) => (
+                                  <SelectItem key={clearance} value={clearance}>
+                                    {medicalClearanceLabels[clearance]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <span className="text-sm text-gray-600">
+                              {enrollment.medicalNotes ? `Declared: ${enrollment.medicalNotes}` : "Declared fit, no conditions"}
+                              {enrollment.medicalClearedBy &&
+                                ` · by ${enrollment.medicalClearedBy} on ${format(new Date(enrollment.medicalClearedAt), "LLL dd, y")}`}
+                            </span>
+                          </div>
+
+                          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                            {attendanceStatuses.map((option) => (
+                              <Button
+                                key={option}
+                                type="button"
+                                variant={status === option ? "default" : "outline"}
+                                className={`h-11 ${status === option ? attendanceStatusStyles[option] : ""}`}
+                                disabled={recordAttendance.isPending}
+                                onClick={() => markAttendance(enrollment, option)}
+                              >
+                                {attendanceStatusLabels[option]}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                      )
+                    })
+                  )}
+                </CardContent>
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      {session && (
+        <CheckInQrDialog
+          session={session}
+          roster={roster}
+          checkIns={checkIns}
+          open={isQrOpen}
+          onOpenChange={setIsQrOpen}
+        />
+      )}
+
+      <TraineeNotesDialog
+        enrollment={notesFor}
+        notes={notes.filter((note) => note.enrollmentId === notesFor?.id)}
+        onOpenChange={(open) => !open && setNotesFor(null)}
+      />
+
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { ClipboardList } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import SkillEvaluationForm from "@/components/SkillEvaluationForm"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { useCohortRoster } from "@/hooks/use-enrollment-admin"
+import { useCohorts } from "@/hooks/use-schedule"
+import { useProgramSkillSheets, useRecordSkillEvaluation, useSkillEvaluations } from "@/hooks/use-skills"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  formatSeconds,
+  getSkillStanding,
+  skillStandingLabels,
+  skillStandingStyles,
+} from "@/lib/skills"
+
+export default function SkillSignOffPage() {
+  const { t } = useTranslation()
+  const { profile } = useCurrentUser()
+  const { data: cohorts = [], isLoading: isCohortsLoading } = useCohorts({ includePast: true })
+  const [cohortId, setCohortId] = useState<string>()
+  const [sheetId, setSheetId] = useState<string>()
+  const [enrollmentId, setEnrollmentId] = useState<string>()
+
+  const cohort = cohorts.find((item) => item.id === cohortId)
+  const { data: roster = [], isLoading: isRosterLoading } = useCohortRoster(cohortId)
+  const { data: sheets = [] } = useProgramSkillSheets(cohort?.programId)
+  const enrollmentIds = useMemo(() => roster.map((enrollment) => enrollment.id), [roster])
+  const { data: evaluations = [] } = useSkillEvaluations(enrollmentIds)
+  const recordEvaluation = useRecordSkillEvaluation()
+
+  // Default to the most recent cohort that has already started.
+  useEffect(() => {
+    if (cohortId || cohorts.length === 0) return
+    const today = new Date().toISOString().slice(0, 10)
+    setCohortId((cohorts.find((item) => item.startDate <= today) ?? cohorts[0]).id)
+  }, [cohorts, cohortId])
+
+  useEffect(() => {
+    if (!sheets.some((sheet) => sheet.id === sheetId)) setSheetId(sheets[0]?.id)
+  }, [sheets, sheetId])
+
+  const sheet = sheets.find((item) => item.id === sheetId)
+  const trainee = roster.find((enrollment) => enrollment.id === enrollmentId)
+  const traineeStanding = sheet && trainee ? getSkillStanding(sheet, trainee.id, evaluations) : null
+
+  const handleCohortChange = (value: string) => {
+    setCohortId(value)
+    setEnrollmentId(undefined)
+  }
+
+  const handleSignOff = async (stepResults: Record<string, boolean>, timeSeconds: number | null, notes: string) => {
+    if (!sheet || !trainee) return
+    const { isConfirmed } = await Swal.fire({
+      icon: "question",
+      title: "Sign off this evaluation?",
+      text: `${sheet.title} for ${trainee.fullName}, signed by ${profile?.fullName || "you"} at ${format(new Date(), "HH:mm")}. Signed evaluations cannot be edited.`,
+      showCancelButton: true,
+      confirmButtonText: "Sign Off",
+      confirmButtonColor: "#dc2626",
+      cancelButtonColor: "#6b7280",
+    })
+    if (!isConfirmed) return
+
+    try {
+      const outcome = await recordEvaluation.mutateAsync({
+        sheetId: sheet.id,
+        enrollmentId: trainee.id,
+        stepResults,
+        timeSeconds,
+        notes,
+      })
+      if (outcome.queued) {
+        Swal.fire({
+          icon: "info",
+          title: "Saved Offline",
+          text: `${trainee.fullName}'s evaluation will be signed off and scored as soon as you are back online.`,
+          confirmButtonColor: "#dc2626",
+        })
+        return
+      }
+
+      const evaluation = outcome.result
+      Swal.fire({
+        icon: evaluation.passed ? "success" : "info",
+        title: evaluation.passed ? "Skill Passed" : "Retest Needed",
+        text: `${trainee.fullName} scored ${evaluation.score}%.`,
+        timer: 2000,
+        showConfirmButton: false,
+      })
+    } catch (error) {
+      console.error("Error recording skill evaluation:", error)
+      Swal.fire({
+        icon: "error",
+        title: "Sign-Off Failed",
+        text: "The evaluation could not be saved. Check your connection and try again.",
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Skill Sign-Off</h1>
+            <p className="text-gray-600">Grade practical skills at the training ground and sign off each evaluation.</p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            {isCohortsLoading ? (
+              <Skeleton className="h-12 w-72" />
+            ) : (
+              <Select value={cohortId} onValueChange={handleCohortChange}>
+                <SelectTrigger className="h-12 w-72">
+                  <SelectValue placeholder="Choose a cohort" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cohorts.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.code} · {item.programTitle} ({format(new Date(item.startDate), "LLL y")})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={sheetId} onValueChange={setSheetId} disabled={sheets.length === 0}>
+              <SelectTrigger className="h-12 w-64">
+                <SelectValue placeholder="No skill sheets" />
+              </SelectTrigger>
+              <SelectContent>
+                {sheets.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Trainees</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isRosterLoading ? (
+                Array.from({ length: 5 }, (_, index) => <Skeleton key={index} className="h-14 w-full" />)
+              ) : roster.length === 0 ? (
+                <p className="text-sm text-gray-600">Nobody holds a seat in this cohort yet.</p>
+              ) : (
+                roster.map((enrollment) => {
+                  const standing = sheet ? getSkillStanding(sheet, enrollment.id, evaluations).standing : null
+                  return (
+                    <button
+                      key={enrollment.id}
+                      type="button"
+                      onClick={() => setEnrollmentId(enrollment.id)}
+                      className={`w-full min-h-14 flex items-center justify-between gap-2 rounded-lg border p-3 text-left transition-colors ${
+                        enrollment.id === enrollmentId ? "border-red-600 bg-red-50" : "hover:bg-muted"
+                      }`}
+                    >
+                      <span className="font-medium text-foreground">{enrollment.fullName}</span>
+                      {standing && (
+                        <Badge variant="outline" className={skillStandingStyles[standing]}>
+                          {t(skillStandingLabels[standing])}
+                        </Badge>
+                      )}
+                    </button>
+                  )
+                })
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            {!sheet ? (
+              <CardContent className="py-16 text-center">
+                <ClipboardList className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">This program has no skill sheets yet.</p>
+              </CardContent>
+            ) : !trainee ? (
+              <CardContent className="py-16 text-center">
+                <ClipboardList className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">Choose a trainee to start evaluating {sheet.title}.</p>
+              </CardContent>
+            ) : (
+              <>
+                <CardHeader>
+                  <CardTitle>
+                    {sheet.title} · {trainee.fullName}
+                  </CardTitle>
+                  {sheet.description && <p className="text-sm text-gray-600">{sheet.description}</p>}
+                </CardHeader>
+                <CardContent className="space-y-8">
+                  <SkillEvaluationForm
+                    key={`${sheet.id}:${trainee.id}`}
+                    sheet={sheet}
+                    isSaving={recordEvaluation.isPending}
+                    onSignOff={handleSignOff}
+                  />
+
+                  {traineeStanding.evaluations.length > 0 && (
+                    <div className="space-y-3">
+                      <h3 className="font-semibold text-foreground">Signed Evaluations</h3>
+                      {traineeStanding.evaluations.map((evaluation) => (
+                        <div key={evaluation.id} className="rounded-lg border p-3 text-sm space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-gray-600">
+                              {format(new Date(evaluation.signedOffAt), "LLL dd, y · HH:mm")} · {evaluation.evaluatorName}
+                            </span>
+                            <Badge
+                              variant="outline"
+                              className={evaluation.passed ? skillStandingStyles.passed : skillStandingStyles.failed}
+                            >
+                              {evaluation.passed ? "Pass" : "Fail"} · {evaluation.score}%
+                            </Badge>
+                          </div>
+                          {evaluation.timeSeconds !== null && (
+                            <p className="text-gray-600">Time: {formatSeconds(evaluation.timeSeconds)}</p>
+                          )}
+                          {evaluation.criticalFailures.length > 0 && (
+                            <p className="text-red-700">Critical fail: {evaluation.criticalFailures.join("; ")}</p>
+                          )}
+                          {evaluation.notes && <p className="text-gray-700">{evaluation.notes}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
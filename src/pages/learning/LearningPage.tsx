@@ -0,0 +1,331 @@
+import { useEffect } from "react"
+import { Link, useLocation, useParams } from "react-router-dom"
+import { AlertTriangle, BookOpen, CheckCircle, ClipboardCheck, Clock, PlayCircle } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useTrainingProgram } from "@/hooks/use-training-programs"
+import { useEnrollmentProgress, useProgramEnrollment, useSetTopicCompletion } from "@/hooks/use-learning-progress"
+import { useEnrollmentAttendance } from "@/hooks/use-attendance"
+import { useProgramQuizzes, useQuizAttempts } from "@/hooks/use-quizzes"
+import { useProgramSkillSheets, useSkillEvaluations } from "@/hooks/use-skills"
+import { useTranslation } from "@/hooks/use-translation"
+import { getSyllabusProgress, getTopicAnchor, getTopicKey, type TopicRef } from "@/lib/learningProgress"
+import { getQuizStanding, quizKindLabels } from "@/lib/quizzes"
+import { formatSeconds, getSkillStanding, skillStandingLabels, skillStandingStyles } from "@/lib/skills"
+
+const scrollToTopic = (topic: TopicRef) =>
+  document.getElementById(getTopicAnchor(topic))?.scrollIntoView({ behavior: "smooth", block: "center" })
+
+export default function LearningPage() {
+  const { t, formatDate } = useTranslation()
+  const { slug } = useParams()
+  const location = useLocation()
+  const { data: program, isLoading: isProgramLoading } = useTrainingProgram(slug)
+  const { enrollment, cohort, isLoading: isEnrollmentLoading } = useProgramEnrollment(program?.id)
+  const { data: progress = [], isLoading: isProgressLoading } = useEnrollmentProgress(enrollment ? [enrollment.id] : [])
+  const { data: quizzes = [] } = useProgramQuizzes(program?.id)
+  const { data: attempts = [] } = useQuizAttempts(enrollment ? [enrollment.id] : [])
+  const { data: [attendance] = [] } = useEnrollmentAttendance(enrollment ? [enrollment.id] : [])
+  const { data: skillSheets = [] } = useProgramSkillSheets(program?.id)
+  const { data: evaluations = [] } = useSkillEvaluations(enrollment ? [enrollment.id] : [])
+  const setCompletion = useSetTopicCompletion()
+
+  const syllabus = program?.syllabus ?? []
+  const summary = getSyllabusProgress(syllabus, progress)
+  const progressByKey = new Map(progress.map((item) => [getTopicKey(item), item]))
+  const quizzesByTopic = new Map(
+    quizzes.filter((quiz) => quiz.kind === "knowledge_check").map((quiz) => [getTopicKey(quiz), quiz])
+  )
+
+  // Resume links from the dashboard carry the topic anchor in the hash.
+  const hash = location.hash.slice(1)
+  useEffect(() => {
+    if (!hash || isProgressLoading) return
+    document.getElementById(hash)?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }, [hash, isProgressLoading])
+
+  const handleToggle = async (topic: TopicRef, complete: boolean) => {
+    if (!enrollment) return
+    try {
+      await setCompletion.mutateAsync({ ...topic, enrollmentId: enrollment.id, userId: enrollment.userId, complete })
+    } catch (error) {
+      console.error("Error updating topic progress:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("learning.updateFailedTitle"),
+        text: t("learning.updateFailedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const isLoading = isProgramLoading || isEnrollmentLoading
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16 space-y-6">
+        {isLoading ? (
+          <>
+            <Skeleton className="h-32 rounded-lg" />
+            <Skeleton className="h-64 rounded-lg" />
+          </>
+        ) : !program || !enrollment ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-foreground mb-2">{t("learning.noAccessTitle")}</h3>
+              <p className="text-gray-600 mb-6">{t("learning.noAccessText")}</p>
+              <Button asChild className="bg-red-600 hover:bg-red-700">
+                <Link to={program ? `/training/${program.slug}` : "/training"}>{t("learning.viewProgram")}</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div>
+                    <h1 className="text-2xl font-bold text-foreground">{program.title}</h1>
+                    <p className="text-gray-600">
+                      {cohort?.code} · {cohort && formatDate(cohort.startDate, "LLL dd, y")}
+                    </p>
+                  </div>
+                  {summary.resumeAt ? (
+                    <Button className="bg-red-600 hover:bg-red-700" onClick={() => scrollToTopic(summary.resumeAt)}>
+                      <PlayCircle className="w-4 h-4 mr-2" />
+                      {summary.completed === 0 ? t("learning.startLearning") : t("learning.resume")}
+                    </Button>
+                  ) : (
+                    summary.total > 0 && (
+                      <Badge className="bg-green-100 text-green-800" variant="outline">
+                        {t("learning.allComplete")}
+                      </Badge>
+                    )
+                  )}
+                </div>
+                <div>
+                  <div className="flex justify-between text-sm text-gray-600 mb-1">
+                    <span>{t("learning.programProgress")}</span>
+                    <span>
+                      {t("learning.topicsProgress", {
+                        completed: summary.completed,
+                        total: summary.total,
+                        percent: summary.percent,
+                      })}
+                    </span>
+                  </div>
+                  <Progress value={summary.percent} className="h-3" />
+                </div>
+                {attendance && attendance.counted > 0 && (
+                  <p
+                    className={`text-sm ${
+                      attendance.percent < program.minAttendancePercent ? "text-red-600" : "text-gray-600"
+                    }`}
+                  >
+                    {t("learning.attendance", {
+                      percent: attendance.percent,
+                      attended: attendance.attended,
+                      counted: attendance.counted,
+                      required: program.minAttendancePercent,
+                    })}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {quizzes.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">{t("learning.assessments")}</CardTitle>
+                  <p className="text-sm text-gray-600">{t("learning.assessmentsText")}</p>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {quizzes.map((quiz) => {
+                    const standing = getQuizStanding(quiz, attempts)
+                    return (
+                      <div key={quiz.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                        <div>
+                          <p className="font-medium text-foreground">{quiz.title}</p>
+                          <p className="text-sm text-gray-600">
+                            {t(quizKindLabels[quiz.kind])}
+                            {quiz.moduleIndex !== null && ` · ${t("learning.module", { number: quiz.moduleIndex + 1 })}`}
+                            {standing.bestScore !== null && ` · ${t("learning.bestScore", { score: standing.bestScore })}`}
+                          </p>
+                        </div>
+                        {standing.passed ? (
+                          <Badge className="bg-green-100 text-green-800" variant="outline">
+                            {t("learning.passed")}
+                          </Badge>
+                        ) : (
+                          <Button asChild size="sm" variant="outline">
+                            <Link to={`/learn/${program.slug}/quiz/${quiz.id}`}>
+                              <ClipboardCheck className="w-4 h-4 mr-2" />
+                              {t(
+                                standing.inProgress
+                                  ? "learning.resumeQuiz"
+                                  : standing.attemptsUsed > 0
+                                    ? "learning.retake"
+                                    : "learning.takeQuiz"
+                              )}
+                            </Link>
+                          </Button>
+                        )}
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {skillSheets.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">{t("learning.practicalSkills")}</CardTitle>
+                  <p className="text-sm text-gray-600">{t("learning.practicalSkillsText")}</p>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {skillSheets.map((sheet) => {
+                    const { standing, latest } = getSkillStanding(sheet, enrollment.id, evaluations)
+                    return (
+                      <div key={sheet.id} className="py-3 space-y-1">
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                          <div>
+                            <p className="font-medium text-foreground">{sheet.title}</p>
+                            <p className="text-sm text-gray-600">
+                              {t("learning.steps", { count: sheet.steps.length })}
+                              {sheet.timeLimitSeconds !== null &&
+                                ` · ${t("learning.within", { time: formatSeconds(sheet.timeLimitSeconds) })}`}
+                              {!sheet.required && ` · ${t("learning.optional")}`}
+                            </p>
+                          </div>
+                          <Badge variant="outline" className={skillStandingStyles[standing]}>
+                            {t(skillStandingLabels[standing])}
+                          </Badge>
+                        </div>
+                        {latest && (
+                          <p className="text-xs text-gray-500">
+                            {latest.score}%
+                            {latest.timeSeconds !== null &&
+                              ` ${t("learning.inTime", { time: formatSeconds(latest.timeSeconds) })}`}{" "}
+                            ·{" "}
+                            {t("learning.signedBy", {
+                              name: latest.evaluatorName,
+                              date: formatDate(latest.signedOffAt, "LLL dd, y HH:mm"),
+                            })}
+                          </p>
+                        )}
+                        {latest && !latest.passed && latest.criticalFailures.length > 0 && (
+                          <p className="flex items-start text-xs text-red-700">
+                            <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                            {t("learning.criticalFail", { failures: latest.criticalFailures.join("; ") })}
+                          </p>
+                        )}
+                        {latest?.notes && <p className="text-xs text-gray-700">{latest.notes}</p>}
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {syllabus.length === 0 && (
+              <Card>
+                <CardContent className="py-10 text-center text-gray-600">
+                  {t("learning.noSyllabus")}
+                </CardContent>
+              </Card>
+            )}
+
+            {syllabus.map((syllabusModule, moduleIndex) => {
+              const moduleSummary = summary.modules[moduleIndex]
+              return (
+                <Card key={moduleIndex}>
+                  <CardHeader className="space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <CardTitle className="text-lg">
+                        {t("learning.moduleTitle", { number: moduleIndex + 1, title: syllabusModule.title })}
+                      </CardTitle>
+                      <span className="text-sm text-gray-600 whitespace-nowrap">
+                        {moduleSummary.completed}/{moduleSummary.total}
+                      </span>
+                    </div>
+                    <Progress value={moduleSummary.percent} className="h-2" />
+                  </CardHeader>
+                  <CardContent className="divide-y">
+                    {syllabusModule.topics.map((topic, topicIndex) => {
+                      const ref = { moduleIndex, topicIndex }
+                      const completion = progressByKey.get(getTopicKey(ref))
+                      const quiz = quizzesByTopic.get(getTopicKey(ref))
+                      const isResumePoint =
+                        summary.resumeAt?.moduleIndex === moduleIndex && summary.resumeAt?.topicIndex === topicIndex
+                      return (
+                        <div
+                          key={topicIndex}
+                          id={getTopicAnchor(ref)}
+                          className={`flex items-start gap-3 py-4 ${isResumePoint ? "bg-red-50 -mx-6 px-6" : ""}`}
+                        >
+                          <Checkbox
+                            className="mt-1"
+                            checked={!!completion}
+                            disabled={setCompletion.isPending}
+                            onCheckedChange={(checked) => handleToggle(ref, checked === true)}
+                            aria-label={t("learning.markComplete", { topic: topic.title })}
+                          />
+                          <div className="flex-1 space-y-1">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                              <p className="font-medium text-foreground">
+                                {topic.week}: {topic.title}
+                              </p>
+                              <div className="flex items-center gap-2">
+                                <Badge variant="outline">
+                                  <Clock className="w-3 h-3 mr-1" />
+                                  {t("learning.hours", { hours: topic.contactHours })}
+                                </Badge>
+                                <Badge variant="outline">{topic.assessment}</Badge>
+                              </div>
+                            </div>
+                            <p className="text-sm text-gray-600">{topic.content.join(" · ")}</p>
+                            {quiz && !completion && (
+                              <Link
+                                to={`/learn/${program.slug}/quiz/${quiz.id}`}
+                                className="inline-flex items-center text-sm text-red-600 hover:underline"
+                              >
+                                <ClipboardCheck className="w-3 h-3 mr-1" />
+                                {t("learning.takeKnowledgeCheck")}
+                              </Link>
+                            )}
+                            {completion && (
+                              <p className="flex items-center text-xs text-green-700">
+                                <CheckCircle className="w-3 h-3 mr-1" />
+                                {t("learning.completedOn", { date: formatDate(completion.completedAt, "LLL dd, y") })}
+                                {completion.completedBy &&
+                                  completion.completedBy !== enrollment.userId &&
+                                  ` · ${t("learning.markedByInstructor")}`}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,319 @@
+import { useEffect, useRef, useState } from "react"
+import { Link, useParams } from "react-router-dom"
+import { ArrowLeft, CheckCircle, ClipboardCheck, Timer, XCircle } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import QuizQuestionCard from "@/components/QuizQuestionCard"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useTrainingProgram } from "@/hooks/use-training-programs"
+import { useProgramEnrollment } from "@/hooks/use-learning-progress"
+import { useProgramQuizzes, useQuizAttempts, useStartQuizAttempt, useSubmitQuizAttempt } from "@/hooks/use-quizzes"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  getQuizStanding,
+  isResponseComplete,
+  quizKindLabels,
+  type QuizAttempt,
+  type QuizResponse,
+  type QuizSession,
+} from "@/lib/quizzes"
+
+const formatRemaining = (milliseconds: number) => {
+  const seconds = Math.max(Math.ceil(milliseconds / 1000), 0)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+export default function QuizPage() {
+  const { t, formatDate } = useTranslation()
+  const { slug, quizId } = useParams()
+  const { data: program, isLoading: isProgramLoading } = useTrainingProgram(slug)
+  const { enrollment, isLoading: isEnrollmentLoading } = useProgramEnrollment(program?.id)
+  const { data: quizzes = [], isLoading: isQuizzesLoading } = useProgramQuizzes(program?.id)
+  const { data: attempts = [] } = useQuizAttempts(enrollment ? [enrollment.id] : [])
+  const startAttempt = useStartQuizAttempt()
+  const submitAttempt = useSubmitQuizAttempt()
+
+  const [session, setSession] = useState<QuizSession | null>(null)
+  const [responses, setResponses] = useState<Record<string, QuizResponse>>({})
+  const [result, setResult] = useState<QuizAttempt | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const isSubmitting = useRef(false)
+
+  const quiz = quizzes.find((item) => item.id === quizId)
+  const standing = quiz ? getQuizStanding(quiz, attempts) : null
+  const topic =
+    quiz?.moduleIndex !== null && quiz?.moduleIndex !== undefined
+      ? program?.syllabus[quiz.moduleIndex]?.topics[quiz.topicIndex]
+      : undefined
+  const remaining = session?.expiresAt ? new Date(session.expiresAt).getTime() - now : null
+  const answeredCount = session
+    ? session.questions.filter((question) => isResponseComplete(question, responses[question.id])).length
+    : 0
+
+  const handleStart = async () => {
+    if (!quiz || !enrollment) return
+    try {
+      const started = await startAttempt.mutateAsync({ quizId: quiz.id, enrollmentId: enrollment.id })
+      // Ordering questions are answered by their arrangement, so the served
+      // order stands until the trainee moves something.
+      const initial = Object.fromEntries(
+        started.questions
+          .filter((question) => question.type === "ordering")
+          .map((question) => [question.id, question.options.map((option) => option.id)])
+      )
+      setResult(null)
+      setResponses({ ...initial, ...started.responses })
+      setSession(started)
+      setNow(Date.now())
+    } catch (error) {
+      console.error("Error starting quiz:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("quiz.couldNotStartTitle"),
+        text: error instanceof Error ? error.message : t("quiz.couldNotStartText"),
+        confirmButtonColor: "#dc2626",
+      })
+    }
+  }
+
+  const submit = async (isAutomatic: boolean) => {
+    if (!session || isSubmitting.current) return
+    const unanswered = session.questions.length - answeredCount
+    if (!isAutomatic && unanswered > 0) {
+      const { isConfirmed } = await Swal.fire({
+        icon: "warning",
+        title: t("quiz.unansweredTitle"),
+        text: t("quiz.unansweredText", { count: unanswered }),
+        showCancelButton: true,
+        confirmButtonText: t("quiz.submit"),
+        confirmButtonColor: "#dc2626",
+        cancelButtonColor: "#6b7280",
+      })
+      if (!isConfirmed) return
+    }
+
+    isSubmitting.current = true
+    try {
+      const scored = await submitAttempt.mutateAsync({ attemptId: session.attemptId, responses })
+      setSession(null)
+      setResult(scored)
+      window.scrollTo({ top: 0, behavior: "smooth" })
+    } catch (error) {
+      console.error("Error submitting quiz:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("quiz.submitFailedTitle"),
+        text: t("quiz.submitFailedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    } finally {
+      isSubmitting.current = false
+    }
+  }
+
+  // Ticks the countdown and hands the attempt in once when time runs out; if
+  // that fails the trainee can still submit by hand within the grace period.
+  const submitRef = useRef(submit)
+  submitRef.current = submit
+  useEffect(() => {
+    if (!session?.expiresAt) return
+    const expiresAt = new Date(session.expiresAt).getTime()
+    let isHandedIn = false
+    const interval = window.setInterval(() => {
+      setNow(Date.now())
+      if (!isHandedIn && Date.now() >= expiresAt) {
+        isHandedIn = true
+        submitRef.current(true)
+      }
+    }, 1000)
+    return () => window.clearInterval(interval)
+  }, [session])
+
+  const isLoading = isProgramLoading || isEnrollmentLoading || isQuizzesLoading
+  const backLink = program ? `/learn/${program.slug}` : "/dashboard"
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16 space-y-6">
+        <Button asChild variant="ghost" size="sm" className="-ml-3">
+          <Link to={backLink}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {t("quiz.backToCourse")}
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <Skeleton className="h-64 rounded-lg" />
+        ) : !quiz || !enrollment ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <ClipboardCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-foreground mb-2">{t("quiz.unavailableTitle")}</h3>
+              <p className="text-gray-600">{t("quiz.unavailableText")}</p>
+            </CardContent>
+          </Card>
+        ) : session ? (
+          <>
+            <Card className="sticky top-24 z-10">
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="flex-1">
+                  <p className="font-semibold text-foreground">{quiz.title}</p>
+                  <div className="flex items-center gap-3">
+                    <Progress value={(answeredCount / session.questions.length) * 100} className="h-2" />
+                    <span className="text-sm text-gray-600 whitespace-nowrap">
+                      {t("quiz.answered", { answered: answeredCount, total: session.questions.length })}
+                    </span>
+                  </div>
+                </div>
+                {remaining !== null && (
+                  <Badge
+                    variant="outline"
+                    className={`text-base font-mono ${remaining < 60_000 ? "bg-red-100 text-red-800" : ""}`}
+                  >
+                    <Timer className="w-4 h-4 mr-1" />
+                    {formatRemaining(remaining)}
+                  </Badge>
+                )}
+              </CardContent>
+            </Card>
+
+            {session.questions.map((question, index) => (
+              <QuizQuestionCard
+                key={question.id}
+                question={question}
+                number={index + 1}
+                response={responses[question.id]}
+                onChange={(response) => setResponses((current) => ({ ...current, [question.id]: response }))}
+              />
+            ))}
+
+            <div className="flex justify-end">
+              <Button className="bg-red-600 hover:bg-red-700" disabled={submitAttempt.isPending} onClick={() => submit(false)}>
+                {t("quiz.submitAnswers")}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            {result && (
+              <Card className={result.passed ? "border-green-300" : "border-red-300"}>
+                <CardContent className="py-10 text-center space-y-3">
+                  {result.passed ? (
+                    <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+                  ) : (
+                    <XCircle className="w-12 h-12 text-red-600 mx-auto" />
+                  )}
+                  <h2 className="text-2xl font-bold text-foreground">
+                    {t(result.status === "expired" ? "quiz.timeRanOut" : result.passed ? "learning.passed" : "quiz.notPassedYet")}
+                  </h2>
+                  <p className="text-4xl font-bold text-foreground">{result.score}%</p>
+                  <p className="text-gray-600">
+                    {t("quiz.points", {
+                      earned: result.earnedPoints,
+                      total: result.totalPoints,
+                      passing: quiz.passingScore,
+                    })}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="space-y-2">
+                <Badge variant="outline" className="w-fit">
+                  {t(quizKindLabels[quiz.kind])}
+                </Badge>
+                <CardTitle className="text-2xl">{quiz.title}</CardTitle>
+                {topic && (
+                  <p className="text-sm text-gray-600">
+                    {t("quiz.topic", { number: quiz.moduleIndex + 1, week: topic.week, title: topic.title })}
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {quiz.description && <p className="text-gray-700">{quiz.description}</p>}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                  <div className="rounded-md border p-3">
+                    <p className="text-xl font-bold text-foreground">{quiz.questionCount ?? t("quiz.allQuestions")}</p>
+                    <p className="text-xs text-gray-600">{t("quiz.questions")}</p>
+                  </div>
+                  <div className="rounded-md border p-3">
+                    <p className="text-xl font-bold text-foreground">
+                      {quiz.timeLimitMinutes ? t("quiz.minutes", { minutes: quiz.timeLimitMinutes }) : t("quiz.untimed")}
+                    </p>
+                    <p className="text-xs text-gray-600">{t("quiz.timeLimit")}</p>
+                  </div>
+                  <div className="rounded-md border p-3">
+                    <p className="text-xl font-bold text-foreground">{quiz.passingScore}%</p>
+                    <p className="text-xs text-gray-600">{t("quiz.toPass")}</p>
+                  </div>
+                  <div className="rounded-md border p-3">
+                    <p className="text-xl font-bold text-foreground">{standing.attemptsLeft ?? "∞"}</p>
+                    <p className="text-xs text-gray-600">{t("quiz.attemptsLeft")}</p>
+                  </div>
+                </div>
+
+                {standing.passed ? (
+                  <p className="flex items-center text-green-700">
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    {t("quiz.passedWithScore", { score: standing.bestScore })}
+                  </p>
+                ) : standing.attemptsLeft === 0 && !standing.inProgress ? (
+                  <p className="text-red-700">{t("quiz.noAttemptsLeft")}</p>
+                ) : (
+                  <Button className="bg-red-600 hover:bg-red-700" disabled={startAttempt.isPending} onClick={handleStart}>
+                    {t(
+                      standing.inProgress
+                        ? "quiz.resumeAttempt"
+                        : standing.attemptsUsed > 0
+                          ? "quiz.retakeQuiz"
+                          : "quiz.startQuiz"
+                    )}
+                  </Button>
+                )}
+                {quiz.timeLimitMinutes && !standing.passed && (
+                  <p className="text-xs text-gray-500">{t("quiz.timerNotice")}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {attempts.some((attempt) => attempt.quizId === quiz.id && attempt.submittedAt) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">{t("quiz.previousAttempts")}</CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {attempts
+                    .filter((attempt) => attempt.quizId === quiz.id && attempt.submittedAt)
+                    .map((attempt) => (
+                      <div key={attempt.id} className="flex items-center justify-between py-3 text-sm">
+                        <span className="text-gray-600">{formatDate(attempt.submittedAt, "LLL dd, y · HH:mm")}</span>
+                        <div className="flex items-center gap-3">
+                          <span className="font-semibold text-foreground">{attempt.score}%</span>
+                          <Badge
+                            variant="outline"
+                            className={attempt.passed ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}
+                          >
+                            {t(attempt.passed ? "learning.passed" : attempt.status === "expired" ? "quiz.timedOut" : "quiz.notPassed")}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
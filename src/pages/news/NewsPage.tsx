@@ -19,95 +19,15 @@ import {
 } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { DateRange } from "react-day-picker";
-import { format } from "date-fns";
-
-const newsData = [
-  {
-    id: 1,
-    title: "PT Badak LNG Achieves New Safety Milestone",
-    description:
-      "Our commitment to safety excellence continues with zero incidents recorded for 365 consecutive days.",
-    image: "/placeholder.svg",
-    date: "2024-08-05",
-    category: "Safety",
-  },
-  {
-    id: 2,
-    title: "Sustainable Energy Initiative Launch",
-    description:
-      "Introducing our new renewable energy program to reduce carbon footprint by 30%.",
-    image: "/placeholder.svg",
-    date: "2024-08-03",
-    category: "Environment",
-  },
-  {
-    id: 3,
-    title: "Community Development Program Expansion",
-    description:
-      "Expanding educational support programs for local communities in East Kalimantan.",
-    image: "/placeholder.svg",
-    date: "2024-07-28",
-    category: "Community",
-  },
-  {
-    id: 4,
-    title: "Technology Innovation in LNG Production",
-    description:
-      "Implementation of AI-driven monitoring systems to optimize production efficiency.",
-    image: "/placeholder.svg",
-    date: "2024-07-25",
-    category: "Technology",
-  },
-  {
-    id: 5,
-    title: "International Partnership Agreement",
-    description:
-      "Strategic alliance with global energy partners to enhance LNG distribution network.",
-    image: "/placeholder.svg",
-    date: "2024-07-20",
-    category: "Business",
-  },
-  {
-    id: 6,
-    title: "Employee Excellence Recognition",
-    description:
-      "Celebrating outstanding achievements of our workforce in operational excellence.",
-    image: "/placeholder.svg",
-    date: "2024-07-18",
-    category: "People",
-  },
-  {
-    id: 7,
-    title: "Environmental Conservation Project",
-    description:
-      "New marine conservation initiative to protect coastal ecosystems around Bontang.",
-    image: "/placeholder.svg",
-    date: "2024-07-15",
-    category: "Environment",
-  },
-  {
-    id: 8,
-    title: "Digital Transformation Progress",
-    description:
-      "Advancing digitalization across all operational departments for improved efficiency.",
-    image: "/placeholder.svg",
-    date: "2024-07-10",
-    category: "Technology",
-  },
-];
-
-const categories = [
-  "All",
-  "Safety",
-  "Environment",
-  "Community",
-  "Technology",
-  "Business",
-  "People",
-];
+import { Skeleton } from "@/components/ui/skeleton";
+import { newsCategories as categories } from "@/data/newsData";
+import { useNewsList } from "@/hooks/use-news";
+import { useDebouncedValue } from "@/hooks/use-debounce";
+import { useTranslation } from "@/hooks/use-translation";
 
 const NewsPage = () => {
   const navigate = useNavigate();
+  const { t, formatDate } = useTranslation();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("All");
   const [date, setDate] = useState<DateRange | undefined>(undefined);
@@ -124,35 +44,16 @@ const NewsPage = () => {
     setCurrentPage(1);
   }, [searchTerm, selectedCategory, date]);
 
-  const filteredNews = newsData.filter((news) => {
-    const newsDate = new Date(news.date);
-
-    const matchesSearch =
-      news.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      news.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory =
-      selectedCategory === "All" || news.category === selectedCategory;
-
-    const matchesDate = (() => {
-      if (!date || (!date.from && !date.to)) return true;
-      const from = date.from;
-      const to = date.to ? new Date(date.to.getTime()) : undefined;
-      if (to) {
-        to.setHours(23, 59, 59, 999);
-      }
-      if (from && to) return newsDate >= from && newsDate <= to;
-      if (from) return newsDate >= from;
-      if (to) return newsDate <= to;
-      return true;
-    })();
-    return matchesSearch && matchesCategory && matchesDate;
+  const debouncedSearch = useDebouncedValue(searchTerm);
+  const { data, isLoading } = useNewsList({
+    category: selectedCategory,
+    dateRange: date ? { from: date.from, to: date.to } : undefined,
+    search: debouncedSearch,
+    page: currentPage,
+    pageSize: ITEMS_PER_PAGE,
   });
-
-  // Pagination logic
-  const totalPages = Math.ceil(filteredNews.length / ITEMS_PER_PAGE);
-  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-  const paginatedNews = filteredNews.slice(startIndex, startIndex + ITEMS_PER_PAGE);
-
+  const paginatedNews = data?.articles ?? [];
+  const totalPages = data?.pageCount ?? 0;
 
   const handleNewsClick = (newsId: number) => {
     navigate(`/news/${newsId}`);
@@ -171,16 +72,15 @@ const NewsPage = () => {
             className="mb-6 hover:bg-primary/10"
           >
             <ArrowLeft className="w-4 h-4 mr-2" />
-            Back
+            {t("common.back")}
           </Button>
 
           <div className="text-center max-w-4xl mx-auto">
             <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-6">
-              News & Updates
+              {t("news.title")}
             </h1>
             <p className="text-xl text-muted-foreground mb-8">
-              Stay informed about our latest developments, achievements, and
-              initiatives
+              {t("news.subtitle")}
             </p>
           </div>
         </div>
@@ -194,7 +94,7 @@ const NewsPage = () => {
               <div className="relative flex-1">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search news..."
+                  placeholder={t("news.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -210,14 +110,14 @@ const NewsPage = () => {
                     {date?.from ? (
                       date.to ? (
                         <>
-                          {format(date.from, "LLL dd, y")} -{" "}
-                          {format(date.to, "LLL dd, y")}
+                          {formatDate(date.from, "LLL dd, y")} -{" "}
+                          {formatDate(date.to, "LLL dd, y")}
                         </>
                       ) : (
-                        format(date.from, "LLL dd, y")
+                        formatDate(date.from, "LLL dd, y")
                       )
                     ) : (
-                      <span>Filter by date</span>
+                      <span>{t("news.filterByDate")}</span>
                     )}
                   </Button>
                 </PopoverTrigger>
@@ -236,7 +136,7 @@ const NewsPage = () => {
                       size="sm"
                       onClick={() => setDate(undefined)}
                     >
-                      Reset
+                      {t("common.reset")}
                     </Button>
                   </div>
                 </PopoverContent>
@@ -253,7 +153,7 @@ const NewsPage = () => {
                   size="sm"
                   onClick={() => setSelectedCategory(category)}
                 >
-                  {category}
+                  {category === "All" ? t("common.all") : category}
                 </Button>
               ))}
             </div>
@@ -265,7 +165,13 @@ const NewsPage = () => {
       <section className="py-16">
         <div className="container mx-auto px-4">
           <div className="max-w-6xl mx-auto">
-            {paginatedNews.length > 0 ? (
+            {isLoading ? (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {Array.from({ length: ITEMS_PER_PAGE }, (_, index) => (
+                  <Skeleton key={index} className="h-80 rounded-lg" />
+                ))}
+              </div>
+            ) : paginatedNews.length > 0 ? (
               <>
                 <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {paginatedNews.map((news) => (
@@ -292,11 +198,7 @@ const NewsPage = () => {
                           <div className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
                             <CalendarIcon className="w-4 h-4" />
                             <time dateTime={news.date}>
-                              {new Date(news.date).toLocaleDateString("en-US", {
-                                year: "numeric",
-                                month: "long",
-                                day: "numeric",
-                              })}
+                              {formatDate(news.date)}
                             </time>
                           </div>
                           <h3 className="text-xl font-semibold text-foreground mb-3 group-hover:text-primary transition-colors">
@@ -318,17 +220,17 @@ const NewsPage = () => {
                       onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
                       disabled={currentPage === 1}
                     >
-                      Previous
+                      {t("common.previous")}
                     </Button>
                     <span className="text-muted-foreground text-sm">
-                      Page {currentPage} of {totalPages}
+                      {t("common.pageOf", { page: currentPage, total: totalPages })}
                     </span>
                     <Button
                       variant="outline"
                       onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
                       disabled={currentPage === totalPages}
                     >
-                      Next
+                      {t("common.next")}
                     </Button>
                   </div>
                 )}
@@ -336,7 +238,7 @@ const NewsPage = () => {
             ) : (
               <div className="text-center py-12">
                 <p className="text-muted-foreground text-lg">
-                  No news articles found matching your criteria.
+                  {t("news.empty")}
                 </p>
               </div>
             )}
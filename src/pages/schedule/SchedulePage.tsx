@@ -0,0 +1,92 @@
+import { useEffect, useMemo, useState } from "react"
+import { useNavigate } from "react-router-dom"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import CohortSchedule from "@/components/CohortSchedule"
+import { Card, CardContent } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useCohorts } from "@/hooks/use-schedule"
+import { useTranslation } from "@/hooks/use-translation"
+
+const ALL = "all"
+
+export default function SchedulePage() {
+  useEffect(() => {
+    window.scrollTo(0, 0)
+  }, [])
+
+  const navigate = useNavigate()
+  const { t } = useTranslation()
+  const { data: cohorts = [], isLoading } = useCohorts()
+  const [category, setCategory] = useState(ALL)
+  const [location, setLocation] = useState(ALL)
+
+  const categories = useMemo(() => [...new Set(cohorts.map((cohort) => cohort.programCategory))].sort(), [cohorts])
+  const locations = useMemo(() => [...new Set(cohorts.map((cohort) => cohort.location))].sort(), [cohorts])
+
+  const filteredCohorts = useMemo(
+    () =>
+      cohorts.filter(
+        (cohort) =>
+          (category === ALL || cohort.programCategory === category) &&
+          (location === ALL || cohort.location === location)
+      ),
+    [cohorts, category, location]
+  )
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">{t("schedule.title")}</h1>
+            <p className="text-gray-600">{t("schedule.subtitle")}</p>
+          </div>
+          <div className="flex gap-3">
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder={t("schedule.category")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("schedule.allCategories")}</SelectItem>
+                {categories.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={location} onValueChange={setLocation}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder={t("schedule.location")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("schedule.allLocations")}</SelectItem>
+                {locations.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-6">
+            <CohortSchedule
+              cohorts={filteredCohorts}
+              isLoading={isLoading}
+              showProgram
+              onEnroll={(cohort) => navigate(`/training/${cohort.programSlug}?enroll=${cohort.id}`)}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
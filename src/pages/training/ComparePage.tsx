@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from "react"
+import { Link, useSearchParams } from "react-router-dom"
+import { ArrowLeft, FileDown, FileSpreadsheet, Loader2, Plus, X } from "lucide-react"
+import Swal from "sweetalert2"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import { useCohorts } from "@/hooks/use-schedule"
+import { useTrainingPrograms } from "@/hooks/use-training-programs"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  MAX_COMPARED_PROGRAMS,
+  buildComparisonRows,
+  downloadComparisonCsv,
+  downloadComparisonPdf,
+} from "@/lib/programComparison"
+import type { TrainingCohort } from "@/lib/schedule"
+import { cn } from "@/lib/utils"
+
+// Side-by-side comparison for procurement. The programs are in the URL as
+// `?programs=slug-a,slug-b` so a comparison can be shared or bookmarked.
+export default function ComparePage() {
+  const i18n = useTranslation()
+  const { t } = i18n
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { data: trainingPrograms = [], isLoading } = useTrainingPrograms()
+  const { data: cohorts = [] } = useCohorts()
+  const [differencesOnly, setDifferencesOnly] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+
+  useEffect(() => {
+    window.scrollTo(0, 0)
+  }, [])
+
+  const slugs = (searchParams.get("programs") ?? "").split(",").filter(Boolean).slice(0, MAX_COMPARED_PROGRAMS)
+  const programs = slugs
+    .map((slug) => trainingPrograms.find((program) => program.slug === slug))
+    .filter((program) => !!program)
+  const availablePrograms = trainingPrograms.filter((program) => !slugs.includes(program.slug))
+
+  // Cohorts come back soonest first, so the first one per program is the next.
+  const nextCohorts = useMemo(() => {
+    const next: Record<string, TrainingCohort | undefined> = {}
+    cohorts.forEach((cohort) => {
+      if (!next[cohort.programId]) next[cohort.programId] = cohort
+    })
+    return next
+  }, [cohorts])
+
+  const rows = buildComparisonRows(programs, nextCohorts, i18n)
+  const visibleRows = differencesOnly ? rows.filter((row) => row.differs) : rows
+  const differenceCount = rows.filter((row) => row.differs).length
+
+  const setSlugs = (nextSlugs: string[]) =>
+    setSearchParams(nextSlugs.length > 0 ? { programs: nextSlugs.join(",") } : {}, { replace: true })
+
+  const handleExportPdf = async () => {
+    setIsExporting(true)
+    try {
+      await downloadComparisonPdf(programs, visibleRows, i18n)
+    } catch (error) {
+      console.error("Error generating comparison PDF:", error)
+      Swal.fire({
+        icon: "error",
+        title: t("compare.exportFailedTitle"),
+        text: t("compare.exportFailedText"),
+        confirmButtonColor: "#dc2626",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-32 pb-16">
+        <Link to="/training" className="inline-flex items-center text-sm text-gray-600 hover:text-red-600 mb-4">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          {t("compare.backToPrograms")}
+        </Link>
+
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">{t("compare.title")}</h1>
+            <p className="text-gray-600">{t("compare.subtitle", { max: MAX_COMPARED_PROGRAMS })}</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              disabled={programs.length === 0}
+              onClick={() => downloadComparisonCsv(programs, visibleRows, i18n)}
+            >
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              {t("compare.exportCsv")}
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              disabled={programs.length === 0 || isExporting}
+              onClick={handleExportPdf}
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileDown className="w-4 h-4 mr-2" />}
+              {t("compare.exportPdf")}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-[32rem] w-full rounded-lg" />
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <div className="flex flex-wrap items-center justify-between gap-4 border-b p-4">
+                <div className="flex items-center gap-2">
+                  <Switch id="differences-only" checked={differencesOnly} onCheckedChange={setDifferencesOnly} />
+                  <label htmlFor="differences-only" className="text-sm font-medium text-gray-700">
+                    {t("compare.differencesOnly")}
+                  </label>
+                  {programs.length > 1 && (
+                    <Badge variant="outline" className="bg-amber-100 text-amber-800">
+                      {t("compare.rowsDiffer", { count: differenceCount, total: rows.length })}
+                    </Badge>
+                  )}
+                </div>
+                {programs.length < MAX_COMPARED_PROGRAMS && availablePrograms.length > 0 && (
+                  <Select value="" onValueChange={(slug) => setSlugs([...slugs, slug])}>
+                    <SelectTrigger className="w-72">
+                      <Plus className="w-4 h-4 mr-2 text-gray-500" />
+                      <SelectValue placeholder={t("compare.addProgram")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availablePrograms.map((program) => (
+                        <SelectItem key={program.id} value={program.slug}>
+                          {program.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              {programs.length === 0 ? (
+                <p className="py-16 text-center text-gray-600">
+                  {t("compare.emptyBefore")}{" "}
+                  <Link to="/training" className="text-red-600 hover:underline">
+                    {t("compare.emptyLink")}
+                  </Link>
+                  .
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="w-44 p-4" />
+                        {programs.map((program) => (
+                          <th key={program.id} className="p-4 text-left align-top font-normal">
+                            <div className="flex items-start justify-between gap-2">
+                              <div>
+                                <img
+                                  src={program.image || "/placeholder.svg"}
+                                  alt={program.title}
+                                  className="mb-3 h-24 w-full rounded-md object-cover"
+                                />
+                                <Link
+                                  to={`/training/${program.slug}`}
+                                  className="font-semibold text-foreground hover:text-red-600"
+                                >
+                                  {program.title}
+                                </Link>
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 shrink-0"
+                                aria-label={t("compare.remove", { title: program.title })}
+                                onClick={() => setSlugs(slugs.filter((slug) => slug !== program.slug))}
+                              >
+                                <X className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleRows.map((row) => (
+                        <tr key={row.key} className={cn("border-b last:border-0", row.differs && "bg-amber-50")}>
+                          <th className="p-4 text-left align-top font-medium text-gray-700">{row.label}</th>
+                          {row.values.map((value, index) => (
+                            <td key={index} className="p-4 align-top text-foreground whitespace-pre-line">
+                              {value}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                      {visibleRows.length === 0 && (
+                        <tr>
+                          <td colSpan={programs.length + 1} className="p-8 text-center text-gray-600">
+                            {t("compare.allMatch")}
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
@@ -25,57 +25,69 @@ import { Slider } from "@/components/ui/slider"
 import { motion, AnimatePresence } from "framer-motion"
 import { Link } from "react-router-dom" // Pastikan import ini benar
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
-import { trainingPrograms, TrainingProgram } from "@/data/trainingData"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useTrainingPrograms } from "@/hooks/use-training-programs"
+import { useCatalogFilters } from "@/hooks/use-catalog-filters"
+import { useSession } from "@/hooks/use-session"
+import { useTranslation } from "@/hooks/use-translation"
+import { MAX_CATALOG_PRICE, toPresetQuery, type CatalogSort } from "@/lib/catalogFilters"
+import { MAX_COMPARED_PROGRAMS } from "@/lib/programComparison"
+import CatalogPresetMenu from "@/components/CatalogPresetMenu"
 import FloatingHeader from "@/components/FloatingHeader"
 import Footer from "@/components/Footer"
 
-const categories = [
-  "All",
-  "Fire Safety",
-  "Medical Emergency",
-  "Hazmat",
-  "Technical Rescue",
-  "Wildland Fire",
-  "Investigation",
-]
 const levels = ["All", "Entry Level", "Intermediate", "Professional", "Advanced"]
-const certifications = [
-  "All",
-  "NFPA Certified",
-  "NREMT Certified",
-  "HAZMAT Certified",
-  "NFPA 1006 Certified",
-  "S-130/S-190 Certified",
-  "IAAI Certified",
-]
 
 export default function TrainingProgramsList() {
-  const [searchTerm, setSearchTerm] = useState("")
-  const [selectedCategory, setSelectedCategory] = useState("All")
-  const [selectedLevel, setSelectedLevel] = useState("All")
-  const [selectedCertification, setSelectedCertification] = useState("All")
-  const [priceRange, setPriceRange] = useState([0, 10000])
-  const [showFeaturedOnly, setShowFeaturedOnly] = useState(false)
-  const [sortBy, setSortBy] = useState("featured")
+  const { data: trainingPrograms = [], isLoading } = useTrainingPrograms()
+  const { session } = useSession()
+  const { t, formatCurrency, formatDate, formatNumber } = useTranslation()
+  // Filters, sorting, paging and the comparison list all live in the URL
+  const { filters, updateFilters, applyQuery } = useCatalogFilters()
+  const {
+    search: searchTerm,
+    category: selectedCategory,
+    level: selectedLevel,
+    certification: selectedCertification,
+    featuredOnly: showFeaturedOnly,
+    sortBy,
+    page: currentPage,
+    compare: comparePrograms,
+  } = filters
+  const [minPrice, maxPrice] = filters.priceRange
+  // The slider moves freely while dragging and only writes to the URL on release
+  const [priceRange, setPriceRange] = useState([minPrice, maxPrice])
   const [showFilters, setShowFilters] = useState(false)
-  const [comparePrograms, setComparePrograms] = useState<string[]>([])
   const [showComparison, setShowComparison] = useState(false)
-  const [currentPage, setCurrentPage] = useState(1)
   const [itemsPerPage] = useState(6) // 6 items per page for 3x2 grid
 
+  // Filter options follow the catalog so newly added programs are always reachable
+  const categories = useMemo(
+    () => ["All", ...Array.from(new Set(trainingPrograms.map((program) => program.category)))],
+    [trainingPrograms],
+  )
+  const certifications = useMemo(
+    () => ["All", ...Array.from(new Set(trainingPrograms.map((program) => program.certification)))],
+    [trainingPrograms],
+  )
+
   useEffect(() => {
     // Scroll to top on component mount
     window.scrollTo(0, 0)
   }, [])
 
+  useEffect(() => {
+    setPriceRange([minPrice, maxPrice])
+  }, [minPrice, maxPrice])
+
   const addToCompare = (programId: string) => {
-    if (comparePrograms.length < 3 && !comparePrograms.includes(programId)) {
-      setComparePrograms([...comparePrograms, programId])
+    if (comparePrograms.length < MAX_COMPARED_PROGRAMS && !comparePrograms.includes(programId)) {
+      updateFilters({ compare: [...comparePrograms, programId] })
     }
   }
 
   const removeFromCompare = (programId: string) => {
-    setComparePrograms(comparePrograms.filter((id) => id !== programId))
+    updateFilters({ compare: comparePrograms.filter((id) => id !== programId) })
   }
 
   const getComparePrograms = () => {
@@ -83,7 +95,7 @@ export default function TrainingProgramsList() {
   }
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page)
+    updateFilters({ page })
     // Scroll to the content area, not the top
     const contentElement = document.getElementById("content-area")
     if (contentElement) {
@@ -101,7 +113,7 @@ export default function TrainingProgramsList() {
       const matchesCategory = selectedCategory === "All" || program.category === selectedCategory
       const matchesLevel = selectedLevel === "All" || program.level === selectedLevel
       const matchesCertification = selectedCertification === "All" || program.certification === selectedCertification
-      const matchesPrice = program.price >= priceRange[0] && program.price <= priceRange[1]
+      const matchesPrice = program.price >= minPrice && program.price <= maxPrice
       const matchesFeatured = !showFeaturedOnly || program.featured
 
       return matchesSearch && matchesCategory && matchesLevel && matchesCertification && matchesPrice && matchesFeatured
@@ -113,7 +125,7 @@ export default function TrainingProgramsList() {
         filtered.sort((a, b) => (b.featured ? 1 : 0) - (a.featured ? 1 : 0))
         break
       case "rating":
-        filtered.sort((a, b) => b.rating - a.rating)
+        filtered.sort((a, b) => b.rating - a.rating || b.reviews - a.reviews)
         break
       case "price-low":
         filtered.sort((a, b) => a.price - b.price)
@@ -135,14 +147,15 @@ export default function TrainingProgramsList() {
 
     return { paginatedPrograms, totalPages, totalItems }
   }, [
+    trainingPrograms,
     searchTerm,
     selectedCategory,
     selectedLevel,
     selectedCertification,
-    priceRange,
+    minPrice,
+    maxPrice,
     showFeaturedOnly,
     sortBy,
-    comparePrograms,
     currentPage,
     itemsPerPage,
   ])
@@ -199,13 +212,8 @@ export default function TrainingProgramsList() {
     },
   }
 
-  // Reset pagination when filters change
-  useEffect(() => {
-    setCurrentPage(1)
-  }, [searchTerm, selectedCategory, selectedLevel, selectedCertification, priceRange, showFeaturedOnly, sortBy])
-
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100">
+    <div className="min-h-screen bg-background">
       <FloatingHeader />
 
       {/* Page Header */}
@@ -217,10 +225,9 @@ export default function TrainingProgramsList() {
           className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6"
         >
           <div className="text-center mb-8">
-            <h1 className="text-4xl font-bold text-gray-900 mb-4">Training Programs</h1>
+            <h1 className="text-4xl font-bold text-foreground mb-4">{t("catalog.title")}</h1>
             <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-              Discover comprehensive emergency response training programs designed to prepare you for real-world
-              challenges
+              {t("catalog.subtitle")}
             </p>
           </div>
 
@@ -230,9 +237,10 @@ export default function TrainingProgramsList() {
               <div className="relative flex-1 max-w-md">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
                 <Input
-                  placeholder="Search programs, skills, or certifications..."
+                  placeholder={t("catalog.searchPlaceholder")}
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  // The first keystroke adds a history entry; refining the search replaces it
+                  onChange={(e) => updateFilters({ search: e.target.value }, { replace: !!searchTerm })}
                   className="pl-10 h-12 text-lg"
                 />
               </div>
@@ -240,22 +248,28 @@ export default function TrainingProgramsList() {
               <div className="flex items-center gap-3">
                 <Button variant="outline" onClick={() => setShowFilters(!showFilters)} className="h-12 px-6">
                   <Filter className="w-5 h-5 mr-2" />
-                  Filters
+                  {t("catalog.filters")}
                   <ChevronDown className={`w-4 h-4 ml-2 transition-transform ${showFilters ? "rotate-180" : ""}`} />
                 </Button>
 
-                <Select value={sortBy} onValueChange={setSortBy}>
+                <Select value={sortBy} onValueChange={(value) => updateFilters({ sortBy: value as CatalogSort })}>
                   <SelectTrigger className="w-48 h-12">
-                    <SelectValue placeholder="Sort by" />
+                    <SelectValue placeholder={t("catalog.sortBy")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="featured">Featured First</SelectItem>
-                    <SelectItem value="rating">Highest Rated</SelectItem>
-                    <SelectItem value="price-low">Price: Low to High</SelectItem>
-                    <SelectItem value="price-high">Price: High to Low</SelectItem>
-                    <SelectItem value="duration">Duration</SelectItem>
+                    <SelectItem value="featured">{t("catalog.sort.featured")}</SelectItem>
+                    <SelectItem value="rating">{t("catalog.sort.rating")}</SelectItem>
+                    <SelectItem value="price-low">{t("catalog.sort.priceLow")}</SelectItem>
+                    <SelectItem value="price-high">{t("catalog.sort.priceHigh")}</SelectItem>
+                    <SelectItem value="duration">{t("catalog.sort.duration")}</SelectItem>
                   </SelectContent>
                 </Select>
+
+                <CatalogPresetMenu
+                  userId={session?.user?.id}
+                  currentQuery={toPresetQuery(filters)}
+                  onApply={applyQuery}
+                />
               </div>
             </div>
 
@@ -267,19 +281,19 @@ export default function TrainingProgramsList() {
                   initial="hidden"
                   animate="visible"
                   exit="hidden"
-                  className="bg-white rounded-xl border shadow-sm p-6 space-y-6"
+                  className="bg-card rounded-xl border shadow-sm p-6 space-y-6"
                 >
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
-                      <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">{t("catalog.category")}</label>
+                      <Select value={selectedCategory} onValueChange={(category) => updateFilters({ category })}>
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
                           {categories.map((category) => (
                             <SelectItem key={category} value={category}>
-                              {category}
+                              {category === "All" ? t("common.all") : category}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -287,15 +301,15 @@ export default function TrainingProgramsList() {
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Level</label>
-                      <Select value={selectedLevel} onValueChange={setSelectedLevel}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">{t("catalog.level")}</label>
+                      <Select value={selectedLevel} onValueChange={(level) => updateFilters({ level })}>
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
                           {levels.map((level) => (
                             <SelectItem key={level} value={level}>
-                              {level}
+                              {level === "All" ? t("common.all") : level}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -303,15 +317,18 @@ export default function TrainingProgramsList() {
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Certification</label>
-                      <Select value={selectedCertification} onValueChange={setSelectedCertification}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">{t("catalog.certification")}</label>
+                      <Select
+                        value={selectedCertification}
+                        onValueChange={(certification) => updateFilters({ certification })}
+                      >
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
                           {certifications.map((cert) => (
                             <SelectItem key={cert} value={cert}>
-                              {cert}
+                              {cert === "All" ? t("common.all") : cert}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -320,12 +337,16 @@ export default function TrainingProgramsList() {
 
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Price Range: ${priceRange[0]} - ${priceRange[1]}
+                        {t("catalog.priceRange", {
+                          min: formatCurrency(priceRange[0]),
+                          max: formatCurrency(priceRange[1]),
+                        })}
                       </label>
                       <Slider
                         value={priceRange}
                         onValueChange={setPriceRange}
-                        max={10000}
+                        onValueCommit={([min, max]) => updateFilters({ priceRange: [min, max] })}
+                        max={MAX_CATALOG_PRICE}
                         min={0}
                         step={500}
                         className="mt-3"
@@ -334,9 +355,13 @@ export default function TrainingProgramsList() {
                   </div>
 
                   <div className="flex items-center space-x-2">
-                    <Checkbox id="featured" checked={showFeaturedOnly} onCheckedChange={setShowFeaturedOnly} />
+                    <Checkbox
+                      id="featured"
+                      checked={showFeaturedOnly}
+                      onCheckedChange={(checked) => updateFilters({ featuredOnly: checked === true })}
+                    />
                     <label htmlFor="featured" className="text-sm font-medium text-gray-700">
-                      Show featured programs only
+                      {t("catalog.featuredOnly")}
                     </label>
                   </div>
                 </motion.div>
@@ -349,6 +374,14 @@ export default function TrainingProgramsList() {
       {/* Content Area */}
       <div id="content-area" className="min-h-screen">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {isLoading && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {Array.from({ length: itemsPerPage }, (_, index) => (
+                <Skeleton key={index} className="h-[28rem] rounded-xl" />
+              ))}
+            </div>
+          )}
+
           {/* Program Cards */}
           <motion.div
             variants={containerVariants}
@@ -375,19 +408,21 @@ export default function TrainingProgramsList() {
                         className="w-full h-48 object-cover"
                       />
                       {program.featured && (
-                        <Badge className="absolute top-4 left-4 bg-red-500 hover:bg-red-600">Featured</Badge>
+                        <Badge className="absolute top-4 left-4 bg-red-500 hover:bg-red-600">{t("common.featured")}</Badge>
                       )}
                       <div className="absolute top-4 right-4 bg-white/90 backdrop-blur-sm rounded-full px-3 py-1">
                         <div className="flex items-center space-x-1">
                           <Star className="w-4 h-4 text-yellow-400 fill-current" />
-                          <span className="text-sm font-medium">{program.rating}</span>
+                          <span className="text-sm font-medium">
+                            {program.reviews > 0 ? program.rating.toFixed(1) : t("catalog.new")}
+                          </span>
                         </div>
                       </div>
                     </div>
 
                     <CardHeader className="pb-3">
                       <div className="flex items-start justify-between">
-                        <CardTitle className="text-xl font-bold text-gray-900 line-clamp-2">{program.title}</CardTitle>
+                        <CardTitle className="text-xl font-bold text-foreground line-clamp-2">{program.title}</CardTitle>
                       </div>
                       <p className="text-gray-600 text-sm line-clamp-3 mt-2">{program.description}</p>
                     </CardHeader>
@@ -401,7 +436,7 @@ export default function TrainingProgramsList() {
                         ))}
                         {program.tags.length > 2 && (
                           <Badge variant="outline" className="text-xs">
-                            +{program.tags.length - 2} more
+                            {t("catalog.moreTags", { count: program.tags.length - 2 })}
                           </Badge>
                         )}
                       </div>
@@ -427,8 +462,14 @@ export default function TrainingProgramsList() {
 
                       <div className="flex items-center justify-between pt-4 border-t">
                         <div>
-                          <p className="text-2xl font-bold text-gray-900">${program.price.toLocaleString()}</p>
-                          <p className="text-sm text-gray-500">{program.reviews} reviews</p>
+                          <p className="text-2xl font-bold text-foreground">{formatCurrency(program.price)}</p>
+                          <p className="text-sm text-gray-500">
+                            {program.reviews > 0
+                              ? t(program.reviews === 1 ? "catalog.reviewCount.one" : "catalog.reviewCount.other", {
+                                  count: formatNumber(program.reviews),
+                                })
+                              : t("catalog.noReviews")}
+                          </p>
                         </div>
                         <div className="flex items-center space-x-2">
                           {comparePrograms.includes(program.id) ? (
@@ -439,22 +480,22 @@ export default function TrainingProgramsList() {
                               className="border-red-200 text-red-600 hover:bg-red-50"
                             >
                               <Minus className="w-4 h-4 mr-1" />
-                              Remove
+                              {t("catalog.remove")}
                             </Button>
                           ) : (
                             <Button
                               variant="outline"
                               size="sm"
                               onClick={() => addToCompare(program.id)}
-                              disabled={comparePrograms.length >= 3}
+                              disabled={comparePrograms.length >= MAX_COMPARED_PROGRAMS}
                               className="border-blue-200 text-blue-600 hover:bg-blue-800 disabled:opacity-50"
                             >
                               <Plus className="w-4 h-4 mr-1" />
-                              Compare
+                              {t("catalog.compare")}
                             </Button>
                           )}
                           <Link to={`/training/${program.slug}`}>
-                            <Button className="bg-red-600 hover:bg-red-700">Learn More</Button>
+                            <Button className="bg-red-600 hover:bg-red-700">{t("catalog.learnMore")}</Button>
                           </Link>
                         </div>
                       </div>
@@ -465,25 +506,18 @@ export default function TrainingProgramsList() {
             </AnimatePresence>
           </motion.div>
 
-          {totalItems === 0 && (
+          {!isLoading && totalItems === 0 && (
             <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="text-center py-16">
               <div className="max-w-md mx-auto">
-                <h3 className="text-2xl font-semibold text-gray-900 mb-4">No programs found</h3>
+                <h3 className="text-2xl font-semibold text-foreground mb-4">{t("catalog.emptyTitle")}</h3>
                 <p className="text-gray-600 mb-6">
-                  Try adjusting your search criteria or filters to find more programs.
+                  {t("catalog.emptyText")}
                 </p>
                 <Button
-                  onClick={() => {
-                    setSearchTerm("")
-                    setSelectedCategory("All")
-                    setSelectedLevel("All")
-                    setSelectedCertification("All")
-                    setPriceRange([0, 10000])
-                    setShowFeaturedOnly(false)
-                  }}
+                  onClick={() => applyQuery("")}
                   variant="outline"
                 >
-                  Clear All Filters
+                  {t("catalog.clearFilters")}
                 </Button>
               </div>
             </motion.div>
@@ -497,11 +531,14 @@ export default function TrainingProgramsList() {
               className="mt-12 flex flex-col sm:flex-row items-center justify-between gap-4"
             >
               <p className="text-sm text-gray-600">
-                Showing {(currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, totalItems)} of{" "}
-                {totalItems} programs
+                {t("catalog.showing", {
+                  from: (currentPage - 1) * itemsPerPage + 1,
+                  to: Math.min(currentPage * itemsPerPage, totalItems),
+                  total: totalItems,
+                })}
                 {searchTerm && (
                   <Badge variant="secondary" className="text-sm ml-2">
-                    Results for "{searchTerm}"
+                    {t("catalog.resultsFor", { search: searchTerm })}
                   </Badge>
                 )}
               </p>
@@ -513,17 +550,17 @@ export default function TrainingProgramsList() {
                     onClick={() => handlePageChange(currentPage - 1)}
                     disabled={currentPage === 1}
                   >
-                    Previous
+                    {t("common.previous")}
                   </Button>
                   <span className="text-muted-foreground text-sm">
-                    Page {currentPage} of {totalPages}
+                    {t("common.pageOf", { page: currentPage, total: totalPages })}
                   </span>
                   <Button
                     variant="outline"
                     onClick={() => handlePageChange(currentPage + 1)}
                     disabled={currentPage === totalPages}
                   >
-                    Next
+                    {t("common.next")}
                   </Button>
                 </div>
               )}
@@ -545,22 +582,22 @@ export default function TrainingProgramsList() {
               <SheetTrigger asChild>
                 <Button size="lg" className="bg-blue-600 hover:bg-blue-700 shadow-lg rounded-full px-6 py-3 h-auto">
                   <Compare className="w-5 h-5 mr-2" />
-                  Compare ({comparePrograms.length})
+                  {t("catalog.compareCount", { count: comparePrograms.length })}
                 </Button>
               </SheetTrigger>
               <SheetContent side="bottom" className="h-[80vh] overflow-y-auto">
                 <SheetHeader>
-                  <SheetTitle className="text-2xl font-bold mb-6">Program Comparison</SheetTitle>
+                  <SheetTitle className="text-2xl font-bold mb-6">{t("catalog.comparisonTitle")}</SheetTitle>
                 </SheetHeader>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
                   {getComparePrograms().map((program, index) => (
                     <motion.div
                       key={program.id}
                       initial={{ opacity: 0, x: 50 }}
                       animate={{ opacity: 1, x: 0 }}
                       transition={{ delay: index * 0.1 }}
-                      className="bg-white rounded-lg border shadow-sm overflow-hidden"
+                      className="bg-card rounded-lg border shadow-sm overflow-hidden"
                     >
                       <div className="relative">
                         <img
@@ -576,66 +613,70 @@ export default function TrainingProgramsList() {
                         >
                           <X className="w-4 h-4" />
                         </Button>
-                        {program.featured && <Badge className="absolute top-2 left-2 bg-red-500">Featured</Badge>}
+                        {program.featured && <Badge className="absolute top-2 left-2 bg-red-500">{t("common.featured")}</Badge>}
                       </div>
 
                       <div className="p-4 space-y-4">
                         <div>
-                          <h3 className="font-bold text-lg text-gray-900 mb-2">{program.title}</h3>
+                          <h3 className="font-bold text-lg text-foreground mb-2">{program.title}</h3>
                           <p className="text-sm text-gray-600 line-clamp-2">{program.description}</p>
                         </div>
 
                         <div className="space-y-3">
                           <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                            <span className="text-sm font-medium text-gray-700">Price</span>
-                            <span className="text-lg font-bold text-green-600">${program.price.toLocaleString()}</span>
+                            <span className="text-sm font-medium text-gray-700">{t("catalog.price")}</span>
+                            <span className="text-lg font-bold text-green-600">{formatCurrency(program.price)}</span>
                           </div>
 
                           <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                            <span className="text-sm font-medium text-gray-700">Duration</span>
-                            <span className="text-sm text-gray-900">{program.duration}</span>
+                            <span className="text-sm font-medium text-gray-700">{t("catalog.duration")}</span>
+                            <span className="text-sm text-foreground">{program.duration}</span>
                           </div>
 
                           <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                            <span className="text-sm font-medium text-gray-700">Level</span>
+                            <span className="text-sm font-medium text-gray-700">{t("catalog.level")}</span>
                             <Badge variant="secondary" className="text-xs">
                               {program.level}
                             </Badge>
                           </div>
 
                           <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                            <span className="text-sm font-medium text-gray-700">Certification</span>
-                            <span className="text-sm text-gray-900">{program.certification}</span>
+                            <span className="text-sm font-medium text-gray-700">{t("catalog.certification")}</span>
+                            <span className="text-sm text-foreground">{program.certification}</span>
                           </div>
 
                           <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                            <span className="text-sm font-medium text-gray-700">Location</span>
-                            <span className="text-sm text-gray-900">{program.location}</span>
+                            <span className="text-sm font-medium text-gray-700">{t("catalog.location")}</span>
+                            <span className="text-sm text-foreground">{program.location}</span>
                           </div>
 
                           <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                            <span className="text-sm font-medium text-gray-700">Rating</span>
-                            <div className="flex items-center">
-                              <Star className="w-4 h-4 text-yellow-400 fill-current mr-1" />
-                              <span className="text-sm font-medium">{program.rating}</span>
-                              <span className="text-xs text-gray-500 ml-1">({program.reviews})</span>
-                            </div>
+                            <span className="text-sm font-medium text-gray-700">{t("catalog.rating")}</span>
+                            {program.reviews > 0 ? (
+                              <div className="flex items-center">
+                                <Star className="w-4 h-4 text-yellow-400 fill-current mr-1" />
+                                <span className="text-sm font-medium">{program.rating.toFixed(1)}</span>
+                                <span className="text-xs text-gray-500 ml-1">({program.reviews})</span>
+                              </div>
+                            ) : (
+                              <span className="text-sm text-gray-500">{t("catalog.noReviews")}</span>
+                            )}
                           </div>
 
                           <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                            <span className="text-sm font-medium text-gray-700">Start Date</span>
-                            <span className="text-sm text-gray-900">
-                              {new Date(program.startDate).toLocaleDateString()}
+                            <span className="text-sm font-medium text-gray-700">{t("catalog.startDate")}</span>
+                            <span className="text-sm text-foreground">
+                              {formatDate(program.startDate)}
                             </span>
                           </div>
 
                           <div className="flex justify-between items-center py-2 border-b border-gray-100">
-                            <span className="text-sm font-medium text-gray-700">Instructor</span>
-                            <span className="text-sm text-gray-900">{program.instructor}</span>
+                            <span className="text-sm font-medium text-gray-700">{t("catalog.instructor")}</span>
+                            <span className="text-sm text-foreground">{program.instructor}</span>
                           </div>
 
                           <div className="py-2">
-                            <span className="text-sm font-medium text-gray-700 block mb-2">Key Skills</span>
+                            <span className="text-sm font-medium text-gray-700 block mb-2">{t("catalog.keySkills")}</span>
                             <div className="flex flex-wrap gap-1">
                               {program.tags.map((tag, tagIndex) => (
                                 <Badge key={tagIndex} variant="outline" className="text-xs">
@@ -648,7 +689,7 @@ export default function TrainingProgramsList() {
 
                         <div className="pt-4 border-t">
                           <Link to={`/training/${program.slug}`} className="w-full">
-                            <Button className="w-full bg-red-600 hover:bg-red-700">View Details</Button>
+                            <Button className="w-full bg-red-600 hover:bg-red-700">{t("catalog.viewDetails")}</Button>
                           </Link>
                         </div>
                       </div>
@@ -656,18 +697,27 @@ export default function TrainingProgramsList() {
                   ))}
                 </div>
 
-                {comparePrograms.length < 3 && (
+                {comparePrograms.length < MAX_COMPARED_PROGRAMS && (
                   <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
                     <p className="text-sm text-blue-800">
-                      <strong>Tip:</strong> You can compare up to 3 programs. Add more programs from the list above to
-                      get a better comparison.
+                      <strong>{t("catalog.compareTipLabel")}</strong>{" "}
+                      {t("catalog.compareTip", { max: MAX_COMPARED_PROGRAMS })}
                     </p>
                   </div>
                 )}
 
-                <div className="mt-6 flex justify-center">
-                  <Button variant="outline" onClick={() => setComparePrograms([])} className="px-6">
-                    Clear All Comparisons
+                <div className="mt-6 flex flex-wrap justify-center gap-3">
+                  <Button asChild className="bg-blue-600 hover:bg-blue-700 px-6">
+                    <Link
+                      to={`/training/compare?programs=${getComparePrograms()
+                        .map((program) => program.slug)
+                        .join(",")}`}
+                    >
+                      {t("catalog.openComparison")}
+                    </Link>
+                  </Button>
+                  <Button variant="outline" onClick={() => updateFilters({ compare: [] })} className="px-6">
+                    {t("catalog.clearComparisons")}
                   </Button>
                 </div>
               </SheetContent>
@@ -0,0 +1,141 @@
+import { useState, type FormEvent } from "react"
+import { useNavigate, useParams } from "react-router-dom"
+import { CheckCircle, Search, ShieldAlert, ShieldX, XCircle } from "lucide-react"
+import FloatingHeader from "@/components/FloatingHeader"
+import Footer from "@/components/Footer"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useVerifyCertificate } from "@/hooks/use-certificates"
+import { useTranslation } from "@/hooks/use-translation"
+import { formatVerificationCode, getCertificateValidity, type CertificateValidity } from "@/lib/certificates"
+import type { MessageKey } from "@/locales/en"
+
+const verdicts: Record<CertificateValidity, { icon: typeof CheckCircle; title: MessageKey; className: string }> = {
+  valid: {
+    icon: CheckCircle,
+    title: "verify.verdict.valid",
+    className: "border-green-200 bg-green-50 text-green-800",
+  },
+  expired: {
+    icon: ShieldAlert,
+    title: "verify.verdict.expired",
+    className: "border-amber-200 bg-amber-50 text-amber-800",
+  },
+  revoked: {
+    icon: ShieldX,
+    title: "verify.verdict.revoked",
+    className: "border-red-200 bg-red-50 text-red-800",
+  },
+}
+
+// Public page for HSE gatekeepers and employers; reached by scanning the QR
+// on a certificate or typing its code.
+export default function VerifyCertificatePage() {
+  const { code } = useParams()
+  const navigate = useNavigate()
+  const { t, formatDate } = useTranslation()
+  const [input, setInput] = useState(code ?? "")
+  const { data: certificate, isLoading, isError } = useVerifyCertificate(code)
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const trimmed = input.trim()
+    if (trimmed) navigate(`/verify/${encodeURIComponent(trimmed.toUpperCase())}`)
+  }
+
+  const verdict = certificate ? verdicts[getCertificateValidity(certificate)] : null
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FloatingHeader />
+
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 pt-32 pb-16 space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-foreground">{t("verify.title")}</h1>
+          <p className="text-gray-600">{t("verify.subtitle")}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder="XXXX-XXXX-XXXX"
+            className="h-12 font-mono uppercase"
+          />
+          <Button type="submit" className="h-12 bg-red-600 hover:bg-red-700">
+            <Search className="w-4 h-4 mr-2" />
+            {t("verify.submit")}
+          </Button>
+        </form>
+
+        {code &&
+          (isLoading ? (
+            <Skeleton className="h-64 w-full rounded-lg" />
+          ) : isError ? (
+            <Card>
+              <CardContent className="py-12 text-center text-gray-600">
+                {t("verify.unavailable")}
+              </CardContent>
+            </Card>
+          ) : !certificate ? (
+            <Card className="border-red-200">
+              <CardContent className="py-12 text-center">
+                <XCircle className="w-12 h-12 text-red-600 mx-auto mb-4" />
+                <h3 className="text-xl font-semibold text-foreground mb-2">{t("verify.notFoundTitle")}</h3>
+                <p className="text-gray-600">{t("verify.notFoundText", { code })}</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <div className={`flex items-center gap-3 rounded-t-lg border-b px-6 py-4 ${verdict.className}`}>
+                <verdict.icon className="w-6 h-6" />
+                <span className="font-semibold">{t(verdict.title)}</span>
+              </div>
+              <CardContent className="p-6">
+                <dl className="grid sm:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-gray-500">{t("verify.holder")}</dt>
+                    <dd className="font-semibold text-foreground">{certificate.traineeName}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">{t("verify.certification")}</dt>
+                    <dd className="font-semibold text-foreground">{certificate.certificationName}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">{t("verify.program")}</dt>
+                    <dd className="font-medium">{certificate.programTitle}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">{t("verify.issuer")}</dt>
+                    <dd className="font-medium">{certificate.issuer}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">{t("certificates.card.issued")}</dt>
+                    <dd className="font-medium">{formatDate(certificate.issuedOn, "LLL dd, y")}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">{t("certificates.card.validUntil")}</dt>
+                    <dd className="font-medium">
+                      {certificate.expiresOn ? formatDate(certificate.expiresOn, "LLL dd, y") : t("certificates.card.noExpiry")}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">{t("verify.leadInstructor")}</dt>
+                    <dd className="font-medium">{certificate.instructorName}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">{t("verify.code")}</dt>
+                    <dd className="font-mono">{formatVerificationCode(certificate.verificationCode)}</dd>
+                  </div>
+                </dl>
+              </CardContent>
+            </Card>
+          ))}
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
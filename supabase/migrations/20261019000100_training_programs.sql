@@ -0,0 +1,46 @@
+-- Training catalog shared by the home page, /training and /training/:slug.
+create table if not exists public.training_programs (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique,
+  icon text not null default 'Flame',
+  title text not null,
+  description text not null,
+  duration text not null,
+  level text not null check (level in ('Entry Level', 'Intermediate', 'Professional', 'Advanced', 'Leadership', 'Specialist', 'Technical')),
+  certification text not null,
+  location text not null,
+  rating numeric(2, 1) not null default 0,
+  reviews integer not null default 0,
+  price numeric(10, 2) not null default 0,
+  featured boolean not null default false,
+  category text not null,
+  instructor text not null,
+  start_date date not null,
+  image text,
+  tags text[] not null default '{}',
+  certifications_details jsonb not null default '[]'::jsonb,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.training_programs enable row level security;
+
+create policy "Training programs are readable by everyone"
+  on public.training_programs for select
+  using (true);
+
+-- Fixed ids match the offline catalog in src/data/trainingData.ts, so
+-- program_id lookups line up whichever copy is being served.
+insert into public.training_programs
+  (id, slug, icon, title, description, duration, level, certification, location, rating, reviews, price, featured, category, instructor, start_date, image, tags, certifications_details, sort_order)
+values
+  ('00000000-0000-4000-8000-000000000001', 'fire-fighter-training-academy', 'Flame', 'Fire Fighter Training Academy', 'Comprehensive certification programs for aspiring fire fighters, including physical training, emergency response, and technical skills development.', '12-16 weeks', 'Entry Level', 'NFPA Certified', 'Los Angeles, CA', 4.8, 245, 6500, true, 'Fire Safety', 'Captain Mike Rodriguez', '2024-03-15', '/news1.jpeg', array['Physical Training', 'Emergency Response', 'Safety Protocols']::text[], '[{"name":"NFPA 1001: Fire Fighter I & II","issuer":"National Fire Protection Association","previewImage":"/certs/TranskripNilaiSem6.png","downloadUrl":"/certs/TranskripNilaiSem6.pdf"},{"name":"First Responder Operations","issuer":"State Fire Academy","previewImage":"/certs/TranskripNilaiSem6.png","downloadUrl":"/certs/TranskripNilaiSem6.pdf"}]'::jsonb, 10),
+  ('00000000-0000-4000-8000-000000000002', 'emergency-medical-services', 'Shield', 'Emergency Medical Services', 'Advanced EMS training programs for firefighters and emergency medical personnel, including paramedic certification and continuing education.', '6-12 months', 'Professional', 'NREMT Certified', 'New York, NY', 4.9, 127, 8500, true, 'Medical Emergency', 'Dr. Sarah Johnson', '2024-03-20', '/news2.jpg', array['Paramedic', 'Life Support', 'Medical Training']::text[], '[{"name":"NREMT Paramedic","issuer":"National Registry of Emergency Medical Technicians","previewImage":"/certs/nremt-paramedic-sample.jpg","downloadUrl":"/certs/nremt-paramedic-sample.pdf"},{"name":"State Paramedic License","issuer":"State Department of Health","previewImage":"/certs/state-paramedic-sample.jpg","downloadUrl":"/certs/state-paramedic-sample.pdf"}]'::jsonb, 20),
+  ('00000000-0000-4000-8000-000000000003', 'hazardous-materials-response', 'HardHat', 'Hazardous Materials Response', 'Specialized training for handling hazardous materials incidents, chemical spills, and environmental emergencies with proper safety protocols.', '8-10 weeks', 'Intermediate', 'HAZMAT Certified', 'Houston, TX', 4.7, 89, 5200, false, 'Hazmat', 'Chief David Chen', '2024-04-01', '/news3.jpg', array['Chemical Safety', 'Environmental', 'Specialized Equipment']::text[], '[{"name":"OSHA HAZWOPER 40-Hour","issuer":"Occupational Safety and Health Administration","previewImage":"/certs/hazwoper-sample.jpg","downloadUrl":"/certs/hazwoper-sample.pdf"}]'::jsonb, 30),
+  ('00000000-0000-4000-8000-000000000004', 'technical-rescue-operations', 'Wrench', 'Technical Rescue Operations', 'Advanced rescue techniques including rope rescue, confined space, trench rescue, and structural collapse operations for emergency responders.', '14-18 weeks', 'Technical', 'NFPA 1006 Certified', 'Denver, CO', 4.6, 156, 7800, false, 'Technical Rescue', 'Lieutenant Anna Martinez', '2024-04-10', '/news4.jpg', array['Rope Rescue', 'Confined Space', 'Structural Collapse']::text[], '[]'::jsonb, 40),
+  ('00000000-0000-4000-8000-000000000005', 'wildland-fire-suppression', 'Mountain', 'Wildland Fire Suppression', 'Comprehensive wildland firefighting training covering fire behavior, suppression tactics, safety protocols, and equipment operation.', '6-8 weeks', 'Intermediate', 'S-130/S-190 Certified', 'Phoenix, AZ', 4.5, 203, 4800, false, 'Wildland Fire', 'Forest Ranger Tom Wilson', '2024-05-01', '/news1.jpeg', array['Fire Behavior', 'Suppression Tactics', 'Safety Protocols']::text[], '[]'::jsonb, 50),
+  ('00000000-0000-4000-8000-000000000006', 'fire-investigation-arson', 'Search', 'Fire Investigation & Arson', 'Professional training in fire scene investigation, evidence collection, cause determination, and courtroom testimony for fire investigators.', '10-12 weeks', 'Professional', 'IAAI Certified', 'Chicago, IL', 4.8, 78, 6200, false, 'Investigation', 'Detective Lisa Thompson', '2024-05-15', '/news2.jpg', array['Evidence Collection', 'Cause Determination', 'Legal Procedures']::text[], '[]'::jsonb, 60),
+  ('00000000-0000-4000-8000-000000000007', 'leadership-development', 'Users', 'Leadership Development', 'Command and leadership training for fire officers, including incident command, personnel management, and strategic planning.', '5-8 weeks', 'Leadership', 'FESHE Certified', 'Washington, D.C.', 4.9, 112, 7200, true, 'Leadership', 'Chief Emily Williams', '2024-06-01', '/news3.jpg', array['Incident Command', 'Management', 'Strategy']::text[], '[]'::jsonb, 70),
+  ('00000000-0000-4000-8000-000000000008', 'fire-prevention-inspection', 'Building', 'Fire Prevention & Inspection', 'Code enforcement and fire prevention training programs for inspectors and prevention specialists.', '3-6 weeks', 'Specialist', 'ICC Certified', 'Online', 4.7, 95, 3500, false, 'Fire Safety', 'Inspector John Davis', '2024-06-10', '/news4.jpg', array['Code Enforcement', 'Inspection', 'Public Safety']::text[], '[]'::jsonb, 80)
+on conflict (slug) do nothing;
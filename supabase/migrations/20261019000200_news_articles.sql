@@ -0,0 +1,53 @@
+-- Published news shared by the home page carousel, /news and /news/:id.
+create table if not exists public.news_articles (
+  id bigint generated by default as identity primary key,
+  title text not null,
+  description text not null,
+  content text not null default '',
+  image text,
+  category text not null,
+  status text not null default 'draft' check (status in ('draft', 'published')),
+  published_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists news_articles_published_idx
+  on public.news_articles (status, published_at desc);
+
+alter table public.news_articles enable row level security;
+
+create policy "Published news is readable by everyone"
+  on public.news_articles for select
+  using (status = 'published' and published_at <= now());
+
+insert into public.news_articles
+  (id, title, description, content, image, category, status, published_at)
+overriding system value
+values
+  (1, 'PT Badak LNG Achieves New Safety Milestone', 'Our commitment to safety excellence continues with zero incidents recorded for 365 consecutive days.', 'PT Badak LNG is proud to announce a significant safety milestone, completing 365 consecutive days without any recordable incidents. This achievement reflects our unwavering commitment to maintaining the highest safety standards in the LNG industry.
+
+Our comprehensive safety program includes regular training sessions, advanced monitoring systems, and strict adherence to international safety protocols. Every employee contributes to this success through their dedication to safety-first practices.
+
+This milestone is particularly meaningful as it demonstrates that safety and productivity can go hand in hand. Our zero-incident record has been achieved while maintaining optimal production levels and meeting all delivery commitments to our customers.
+
+Moving forward, we remain committed to continuous improvement in our safety programs and maintaining this excellent record.', '/news1.jpeg', 'Safety', 'published', '2024-08-05T00:00:00+08:00'),
+  (2, 'Sustainable Energy Initiative Launch', 'Introducing our new renewable energy program to reduce carbon footprint by 30%.', 'PT Badak LNG launches an ambitious sustainable energy initiative aimed at reducing our carbon footprint by 30% over the next five years. This comprehensive program includes solar panel installations, energy efficiency improvements, and innovative carbon capture technologies.
+
+The initiative represents our commitment to environmental stewardship and aligns with global efforts to combat climate change. Key components include:
+
+- Installation of 50MW solar panel systems across our facilities
+- Implementation of advanced energy management systems
+- Adoption of carbon capture and storage technologies
+- Employee training programs on sustainable practices
+
+This investment of $200 million demonstrates our long-term commitment to sustainable operations while maintaining our position as a leading LNG producer.', '/news2.jpg', 'Environment', 'published', '2024-08-03T00:00:00+08:00'),
+  (3, 'Community Development Program Expansion', 'Expanding educational support programs for local communities in East Kalimantan.', 'PT Badak LNG is proud to announce the expansion of its community development programs, focusing on enhancing educational opportunities for local communities in East Kalimantan. This initiative includes new scholarships, school infrastructure improvements, and vocational training programs designed to empower the next generation. Our goal is to foster sustainable growth and create lasting positive impacts in the regions where we operate.', '/news3.jpg', 'Community', 'published', '2024-07-28T00:00:00+08:00'),
+  (4, 'Technology Innovation in LNG Production', 'Implementation of AI-driven monitoring systems to optimize production efficiency.', 'In a major step towards digital transformation, PT Badak LNG has successfully implemented a new AI-driven monitoring system across its production facilities. This state-of-the-art technology will enhance operational efficiency, improve safety protocols, and allow for predictive maintenance, further solidifying our position as a leader in LNG production technology. The system analyzes real-time data to optimize processes and prevent potential issues before they arise.', '/news4.jpg', 'Technology', 'published', '2024-07-25T00:00:00+08:00'),
+  (5, 'International Partnership Agreement', 'Strategic alliance with global energy partners to enhance LNG distribution network.', 'PT Badak LNG has signed a strategic partnership agreement with global energy partners to strengthen the reliability and reach of its LNG distribution network. The agreement covers shared shipping capacity, joint planning for regasification terminals, and knowledge exchange on operational best practices, helping us serve customers across the Asia-Pacific region more efficiently.', '/placeholder.svg', 'Business', 'published', '2024-07-20T00:00:00+08:00'),
+  (6, 'Employee Excellence Recognition', 'Celebrating outstanding achievements of our workforce in operational excellence.', 'This year''s Employee Excellence Recognition celebrated teams and individuals whose work raised the bar for operational excellence at PT Badak LNG. Awards were presented across safety leadership, process improvement, and community service, recognizing the people whose dedication keeps our plant running safely and reliably every day.', '/placeholder.svg', 'People', 'published', '2024-07-18T00:00:00+08:00'),
+  (7, 'Environmental Conservation Project', 'New marine conservation initiative to protect coastal ecosystems around Bontang.', 'PT Badak LNG has started a marine conservation project to protect the coastal ecosystems around Bontang. Working with local fishing communities and environmental researchers, the program focuses on mangrove rehabilitation, coral reef monitoring, and awareness campaigns that help preserve the biodiversity our neighbors depend on.', '/placeholder.svg', 'Environment', 'published', '2024-07-15T00:00:00+08:00'),
+  (8, 'Digital Transformation Progress', 'Advancing digitalization across all operational departments for improved efficiency.', 'Our digital transformation program continues to advance across every operational department. Paperless work permits, integrated maintenance planning, and real-time production dashboards are now in daily use, reducing administrative workload and giving our teams the information they need to make faster, safer decisions.', '/placeholder.svg', 'Technology', 'published', '2024-07-10T00:00:00+08:00')
+on conflict (id) do nothing;
+
+select setval(pg_get_serial_sequence('public.news_articles', 'id'), (select max(id) from public.news_articles));
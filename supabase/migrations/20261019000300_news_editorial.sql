@@ -0,0 +1,98 @@
+-- Editorial workflow for /admin/news: editors draft and submit, approvers
+-- publish, schedule, send back or archive.
+alter table public.profiles
+  add column if not exists news_role text check (news_role in ('editor', 'approver'));
+
+-- Users have no general update policy on their own profile. The newsroom role
+-- is still guarded here, on inserted rows as well as updates, so no sign-up
+-- path or later policy can self-assign it. It is granted with the service key
+-- or from the SQL editor, where there is no signed-in user.
+create or replace function public.guard_profile_roles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.news_role is not null then
+      raise exception 'Only administrators can change roles';
+    end if;
+  elsif new.news_role is distinct from old.news_role then
+    raise exception 'Only administrators can change roles';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_profile_roles on public.profiles;
+create trigger guard_profile_roles
+  before insert or update on public.profiles
+  for each row execute function public.guard_profile_roles();
+
+alter table public.news_articles drop constraint if exists news_articles_status_check;
+alter table public.news_articles
+  add constraint news_articles_status_check
+  check (status in ('draft', 'in_review', 'scheduled', 'published', 'archived'));
+
+alter table public.news_articles
+  add column if not exists author_id uuid references auth.users (id) on delete set null,
+  add column if not exists reviewer_id uuid references auth.users (id) on delete set null,
+  add column if not exists review_note text,
+  add column if not exists submitted_at timestamptz,
+  add column if not exists approved_at timestamptz;
+
+create or replace function public.current_news_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select news_role from public.profiles where id = auth.uid();
+$$;
+
+drop policy if exists "Published news is readable by everyone" on public.news_articles;
+
+create policy "Live news is readable by everyone"
+  on public.news_articles for select
+  using (status in ('published', 'scheduled') and published_at <= now());
+
+create policy "Newsroom can read every article"
+  on public.news_articles for select
+  to authenticated
+  using (public.current_news_role() is not null);
+
+create policy "Newsroom can create drafts"
+  on public.news_articles for insert
+  to authenticated
+  with check (
+    public.current_news_role() is not null
+    and status = 'draft'
+    and author_id = auth.uid()
+  );
+
+create policy "Editors can work on unpublished articles"
+  on public.news_articles for update
+  to authenticated
+  using (public.current_news_role() = 'editor' and status in ('draft', 'in_review'))
+  with check (status in ('draft', 'in_review'));
+
+create policy "Approvers can update any article"
+  on public.news_articles for update
+  to authenticated
+  using (public.current_news_role() = 'approver')
+  with check (public.current_news_role() = 'approver');
+
+insert into storage.buckets (id, name, public)
+values ('news-covers', 'news-covers', true)
+on conflict (id) do nothing;
+
+create policy "Newsroom can upload news covers"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'news-covers' and public.current_news_role() is not null);
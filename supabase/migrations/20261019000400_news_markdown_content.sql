@@ -0,0 +1,23 @@
+-- Article bodies are Markdown; re-save the seeded article whose lists were
+-- stored as indented plain text.
+update public.news_articles
+set content = 'PT Badak LNG launches an ambitious sustainable energy initiative aimed at reducing our carbon footprint by 30% over the next five years. This comprehensive program includes solar panel installations, energy efficiency improvements, and innovative carbon capture technologies.
+
+## Why It Matters
+
+The initiative represents our commitment to environmental stewardship and aligns with global efforts to combat climate change.
+
+> Safety and sustainability are two sides of the same commitment to the people of Bontang.
+
+## Key Components
+
+- Installation of 50MW solar panel systems across our facilities
+- Implementation of advanced energy management systems
+- Adoption of carbon capture and storage technologies
+- Employee training programs on sustainable practices
+
+## Investment
+
+This investment of $200 million demonstrates our long-term commitment to sustainable operations while maintaining our position as a leading LNG producer.',
+  updated_at = now()
+where id = 2;
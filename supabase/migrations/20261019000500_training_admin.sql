@@ -0,0 +1,52 @@
+-- Training coordinators maintain the catalog from /admin/training. The role
+-- column starts with the one role this needs and grows as more are added.
+alter table public.profiles
+  add column if not exists role text not null default 'trainee'
+  check (role in ('trainee', 'coordinator'));
+
+create or replace function public.can_manage_training()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select role = 'coordinator' from public.profiles where id = auth.uid()), false);
+$$;
+
+-- Roles are granted with the service key or from the SQL editor, never by the
+-- user whose profile it is.
+create or replace function public.guard_profile_roles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.role is distinct from old.role or new.news_role is distinct from old.news_role)
+    and auth.uid() is not null then
+    raise exception 'Only administrators can change roles';
+  end if;
+  return new;
+end;
+$$;
+
+create policy "Coordinators can add training programs"
+  on public.training_programs for insert
+  to authenticated
+  with check (public.can_manage_training());
+
+create policy "Coordinators can update training programs"
+  on public.training_programs for update
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+insert into storage.buckets (id, name, public)
+values ('training-assets', 'training-assets', true)
+on conflict (id) do nothing;
+
+create policy "Coordinators can upload training assets"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'training-assets' and public.can_manage_training());
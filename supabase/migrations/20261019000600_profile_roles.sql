@@ -0,0 +1,76 @@
+-- One platform role per profile, checked by <RequireRole> on the client and
+-- by `current_user_role()` in RLS. The newsroom role stays separate because
+-- editorial duties cut across platform roles.
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles
+  add constraint profiles_role_check
+  check (role in ('trainee', 'instructor', 'coordinator', 'hse_officer', 'admin'));
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select role from public.profiles where id = auth.uid()), 'trainee');
+$$;
+
+create or replace function public.can_manage_training()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.current_user_role() in ('coordinator', 'admin');
+$$;
+
+create or replace function public.current_news_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case when role = 'admin' then 'approver' else news_role end
+  from public.profiles
+  where id = auth.uid();
+$$;
+
+drop policy if exists "Users can read their own profile" on public.profiles;
+create policy "Users can read their own profile"
+  on public.profiles for select
+  to authenticated
+  using (id = auth.uid() or public.current_user_role() = 'admin');
+
+drop policy if exists "Admins can update any profile" on public.profiles;
+create policy "Admins can update any profile"
+  on public.profiles for update
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- Admins can now change roles from the app as well. Anyone else signing up
+-- starts as a trainee outside the newsroom.
+create or replace function public.guard_profile_roles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or public.current_user_role() = 'admin' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if coalesce(new.role, 'trainee') <> 'trainee' or new.news_role is not null then
+      raise exception 'Only administrators can change roles';
+    end if;
+  elsif new.role is distinct from old.role or new.news_role is distinct from old.news_role then
+    raise exception 'Only administrators can change roles';
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,175 @@
+-- Cohorts are scheduled intakes of a training program; trainees enroll into
+-- a cohort rather than the program itself.
+create table if not exists public.training_cohorts (
+  id uuid primary key default gen_random_uuid(),
+  program_id uuid not null references public.training_programs (id) on delete cascade,
+  code text not null unique,
+  start_date date not null,
+  end_date date not null,
+  location text not null,
+  capacity integer not null check (capacity > 0),
+  status text not null default 'open' check (status in ('open', 'closed', 'cancelled')),
+  created_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index if not exists training_cohorts_program_id_idx on public.training_cohorts (program_id, start_date);
+
+alter table public.training_cohorts enable row level security;
+
+create policy "Cohorts are readable by everyone"
+  on public.training_cohorts for select
+  using (true);
+
+create policy "Coordinators can manage cohorts"
+  on public.training_cohorts for all
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+create table if not exists public.enrollments (
+  id uuid primary key default gen_random_uuid(),
+  cohort_id uuid not null references public.training_cohorts (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'confirmed', 'waitlisted', 'cancelled')),
+  full_name text not null,
+  email text not null,
+  phone text not null,
+  employer text not null,
+  job_title text not null,
+  employee_id text,
+  prerequisites_accepted boolean not null check (prerequisites_accepted),
+  medical_fitness_declared boolean not null check (medical_fitness_declared),
+  medical_notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- A trainee holds at most one live enrollment per cohort.
+create unique index if not exists enrollments_active_cohort_user_idx
+  on public.enrollments (cohort_id, user_id)
+  where status <> 'cancelled';
+
+alter table public.enrollments enable row level security;
+
+create policy "Trainees can read their own enrollments"
+  on public.enrollments for select
+  to authenticated
+  using (user_id = auth.uid() or public.can_manage_training());
+
+create policy "Trainees can cancel their own enrollments"
+  on public.enrollments for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and status = 'cancelled');
+
+create policy "Coordinators can update enrollments"
+  on public.enrollments for update
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+-- Pending and confirmed enrollments hold a seat; the waitlist does not.
+create or replace view public.training_cohort_availability as
+select
+  c.*,
+  count(e.id) filter (where e.status in ('pending', 'confirmed'))::integer as seats_taken,
+  greatest(c.capacity - count(e.id) filter (where e.status in ('pending', 'confirmed')), 0)::integer as seats_remaining
+from public.training_cohorts c
+left join public.enrollments e on e.cohort_id = c.id
+group by c.id;
+
+grant select on public.training_cohort_availability to anon, authenticated;
+
+-- Enrollment goes through this function so the seat check and the insert
+-- happen under one lock on the cohort and two trainees cannot take the last seat.
+create or replace function public.enroll_in_cohort(
+  p_cohort_id uuid,
+  p_full_name text,
+  p_email text,
+  p_phone text,
+  p_employer text,
+  p_job_title text,
+  p_employee_id text,
+  p_prerequisites_accepted boolean,
+  p_medical_fitness_declared boolean,
+  p_medical_notes text
+)
+returns public.enrollments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cohort public.training_cohorts;
+  v_taken integer;
+  v_enrollment public.enrollments;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to enroll';
+  end if;
+
+  select * into v_cohort from public.training_cohorts where id = p_cohort_id for update;
+  if not found or v_cohort.status <> 'open' or v_cohort.start_date <= current_date then
+    raise exception 'This cohort is not open for enrollment';
+  end if;
+
+  select count(*) into v_taken
+  from public.enrollments
+  where cohort_id = p_cohort_id and status in ('pending', 'confirmed');
+
+  insert into public.enrollments (
+    cohort_id, user_id, status, full_name, email, phone, employer, job_title, employee_id,
+    prerequisites_accepted, medical_fitness_declared, medical_notes
+  )
+  values (
+    p_cohort_id, auth.uid(),
+    case when v_taken < v_cohort.capacity then 'pending' else 'waitlisted' end,
+    p_full_name, p_email, p_phone, p_employer, p_job_title, nullif(p_employee_id, ''),
+    p_prerequisites_accepted, p_medical_fitness_declared, nullif(p_medical_notes, '')
+  )
+  returning * into v_enrollment;
+
+  return v_enrollment;
+end;
+$$;
+
+grant execute on function public.enroll_in_cohort(uuid, text, text, text, text, text, text, boolean, boolean, text) to authenticated;
+
+-- A coordinator confirms a pending seat once the trainee is cleared to attend.
+create or replace function public.confirm_enrollment(p_enrollment_id uuid)
+returns public.enrollments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_enrollment public.enrollments;
+begin
+  if not public.can_manage_training() then
+    raise exception 'Only training coordinators can confirm enrollments';
+  end if;
+
+  update public.enrollments
+  set status = 'confirmed', updated_at = now()
+  where id = p_enrollment_id and status = 'pending'
+  returning * into v_enrollment;
+
+  if not found then
+    raise exception 'Only pending enrollments can be confirmed';
+  end if;
+
+  return v_enrollment;
+end;
+$$;
+
+grant execute on function public.confirm_enrollment(uuid) to authenticated;
+
+-- Two upcoming intakes per program, coded from the slug initials (e.g. EMS-2611).
+insert into public.training_cohorts (program_id, code, start_date, end_date, location, capacity)
+select p.id, upper(regexp_replace(p.slug, '(^|-)([a-z])[a-z]*', '\2', 'g')) || '-' || to_char(c.start_date, 'YYMM'), c.start_date, c.start_date + c.length_days, p.location, 24
+from public.training_programs p
+cross join (
+  values (date '2026-11-16', 60), (date '2027-02-08', 60)
+) as c (start_date, length_days)
+on conflict (code) do nothing;
@@ -0,0 +1,81 @@
+-- Cohorts gain a home venue and teaching team, and are broken down into
+-- individual sessions (each with its own venue and instructor) for /schedule.
+alter table public.training_cohorts
+  add column if not exists venue text not null default 'Classroom',
+  add column if not exists instructors text[] not null default '{}';
+
+create table if not exists public.training_sessions (
+  id uuid primary key default gen_random_uuid(),
+  cohort_id uuid not null references public.training_cohorts (id) on delete cascade,
+  title text not null,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  venue text not null,
+  instructor text,
+  created_at timestamptz not null default now(),
+  check (ends_at > starts_at)
+);
+
+create index if not exists training_sessions_starts_at_idx on public.training_sessions (starts_at);
+create index if not exists training_sessions_cohort_id_idx on public.training_sessions (cohort_id);
+
+alter table public.training_sessions enable row level security;
+
+create policy "Training sessions are readable by everyone"
+  on public.training_sessions for select
+  using (true);
+
+create policy "Coordinators can manage training sessions"
+  on public.training_sessions for all
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+-- Recreated rather than replaced: `c.*` now expands to the new columns.
+drop view if exists public.training_cohort_availability;
+
+create view public.training_cohort_availability as
+select
+  c.*,
+  p.title as program_title,
+  p.slug as program_slug,
+  p.category as program_category,
+  count(e.id) filter (where e.status in ('pending', 'confirmed'))::integer as seats_taken,
+  greatest(c.capacity - count(e.id) filter (where e.status in ('pending', 'confirmed')), 0)::integer as seats_remaining
+from public.training_cohorts c
+join public.training_programs p on p.id = c.program_id
+left join public.enrollments e on e.cohort_id = c.id
+group by c.id, p.id;
+
+grant select on public.training_cohort_availability to anon, authenticated;
+
+update public.training_cohorts c
+set
+  venue = case p.category
+    when 'Fire Safety' then 'Burn Tower'
+    when 'Wildland Fire' then 'Burn Tower'
+    when 'Medical Emergency' then 'Medical Simulation Lab'
+    when 'Technical Rescue' then 'Rope Rescue Tower'
+    when 'Hazmat' then 'Hazmat Decontamination Pad'
+    else 'Classroom A'
+  end,
+  instructors = array[p.instructor]
+from public.training_programs p
+where p.id = c.program_id and c.instructors = '{}';
+
+-- Weekly sessions for each seeded cohort: classroom theory on the first day,
+-- then alternating practical days at the cohort venue and classroom reviews.
+insert into public.training_sessions (cohort_id, title, starts_at, ends_at, venue, instructor)
+select
+  c.id,
+  case when w.week = 0 then 'Orientation & Safety Briefing'
+       when w.week % 2 = 1 then 'Practical Drills'
+       else 'Theory & Review' end,
+  (c.start_date + w.week * 7 + time '08:00') at time zone 'Asia/Makassar',
+  (c.start_date + w.week * 7 + time '16:00') at time zone 'Asia/Makassar',
+  case when w.week % 2 = 1 then c.venue else 'Classroom A' end,
+  c.instructors[1]
+from public.training_cohorts c
+cross join generate_series(0, 8) as w (week)
+where c.start_date + w.week * 7 <= c.end_date
+  and not exists (select 1 from public.training_sessions s where s.cohort_id = c.id);
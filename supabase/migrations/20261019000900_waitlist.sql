@@ -0,0 +1,233 @@
+-- Ordered waitlists. When a seat holder cancels, the first person in the
+-- queue is offered the seat and has 48 hours to accept it; an offer that
+-- lapses is cancelled, which in turn offers the seat to the next person.
+alter table public.enrollments
+  add column if not exists waitlist_position integer,
+  add column if not exists offer_expires_at timestamptz;
+
+alter table public.enrollments drop constraint if exists enrollments_status_check;
+alter table public.enrollments
+  add constraint enrollments_status_check
+  check (status in ('pending', 'confirmed', 'waitlisted', 'offered', 'cancelled'));
+
+with queue as (
+  select id, row_number() over (partition by cohort_id order by created_at) as position
+  from public.enrollments
+  where status = 'waitlisted'
+)
+update public.enrollments e
+set waitlist_position = queue.position
+from queue
+where e.id = queue.id and e.waitlist_position is null;
+
+-- Pending, confirmed and unexpired offers hold a seat.
+create or replace function public.cohort_seats_taken(p_cohort_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer
+  from public.enrollments
+  where cohort_id = p_cohort_id
+    and (status in ('pending', 'confirmed') or (status = 'offered' and offer_expires_at > now()));
+$$;
+
+drop view if exists public.training_cohort_availability;
+
+create view public.training_cohort_availability as
+select
+  c.*,
+  p.title as program_title,
+  p.slug as program_slug,
+  p.category as program_category,
+  public.cohort_seats_taken(c.id) as seats_taken,
+  greatest(c.capacity - public.cohort_seats_taken(c.id), 0) as seats_remaining,
+  (select count(*)::integer from public.enrollments e where e.cohort_id = c.id and e.status = 'waitlisted') as waitlist_count
+from public.training_cohorts c
+join public.training_programs p on p.id = c.program_id;
+
+grant select on public.training_cohort_availability to anon, authenticated;
+
+create or replace function public.promote_waitlist(p_cohort_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_capacity integer;
+  v_next uuid;
+begin
+  select capacity into v_capacity from public.training_cohorts where id = p_cohort_id for update;
+
+  loop
+    exit when public.cohort_seats_taken(p_cohort_id) >= v_capacity;
+
+    select id into v_next
+    from public.enrollments
+    where cohort_id = p_cohort_id and status = 'waitlisted'
+    order by waitlist_position, created_at
+    limit 1;
+
+    exit when v_next is null;
+
+    update public.enrollments
+    set status = 'offered',
+        waitlist_position = null,
+        offer_expires_at = now() + interval '48 hours',
+        updated_at = now()
+    where id = v_next;
+  end loop;
+end;
+$$;
+
+create or replace function public.handle_enrollment_cancelled()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status in ('pending', 'confirmed', 'offered') and new.status = 'cancelled' then
+    perform public.promote_waitlist(new.cohort_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enrollment_cancelled on public.enrollments;
+create trigger enrollment_cancelled
+  after update of status on public.enrollments
+  for each row execute function public.handle_enrollment_cancelled();
+
+create or replace function public.expire_waitlist_offers()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expired integer;
+begin
+  update public.enrollments
+  set status = 'cancelled', offer_expires_at = null, updated_at = now()
+  where status = 'offered' and offer_expires_at <= now();
+
+  get diagnostics v_expired = row_count;
+  return v_expired;
+end;
+$$;
+
+create or replace function public.accept_waitlist_offer(p_enrollment_id uuid)
+returns public.enrollments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_enrollment public.enrollments;
+begin
+  perform public.expire_waitlist_offers();
+
+  update public.enrollments
+  set status = 'confirmed', offer_expires_at = null, updated_at = now()
+  where id = p_enrollment_id and user_id = auth.uid() and status = 'offered'
+  returning * into v_enrollment;
+
+  if not found then
+    raise exception 'This seat offer has expired or was already answered';
+  end if;
+
+  return v_enrollment;
+end;
+$$;
+
+-- Coordinators reorder a cohort's queue by passing the waitlisted ids in order.
+create or replace function public.reorder_waitlist(p_cohort_id uuid, p_enrollment_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_manage_training() then
+    raise exception 'Only training coordinators can reorder waitlists';
+  end if;
+
+  update public.enrollments e
+  set waitlist_position = queue.position, updated_at = now()
+  from unnest(p_enrollment_ids) with ordinality as queue (id, position)
+  where e.id = queue.id and e.cohort_id = p_cohort_id and e.status = 'waitlisted';
+end;
+$$;
+
+-- New enrollments join the back of the queue whenever the cohort is full or
+-- anyone is already waiting, so nobody skips ahead of the waitlist.
+create or replace function public.enroll_in_cohort(
+  p_cohort_id uuid,
+  p_full_name text,
+  p_email text,
+  p_phone text,
+  p_employer text,
+  p_job_title text,
+  p_employee_id text,
+  p_prerequisites_accepted boolean,
+  p_medical_fitness_declared boolean,
+  p_medical_notes text
+)
+returns public.enrollments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cohort public.training_cohorts;
+  v_has_queue boolean;
+  v_enrollment public.enrollments;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to enroll';
+  end if;
+
+  perform public.expire_waitlist_offers();
+
+  select * into v_cohort from public.training_cohorts where id = p_cohort_id for update;
+  if not found or v_cohort.status <> 'open' or v_cohort.start_date <= current_date then
+    raise exception 'This cohort is not open for enrollment';
+  end if;
+
+  select exists (
+    select 1 from public.enrollments where cohort_id = p_cohort_id and status = 'waitlisted'
+  ) into v_has_queue;
+
+  insert into public.enrollments (
+    cohort_id, user_id, status, waitlist_position, full_name, email, phone, employer, job_title, employee_id,
+    prerequisites_accepted, medical_fitness_declared, medical_notes
+  )
+  select
+    p_cohort_id, auth.uid(), q.status,
+    case when q.status = 'waitlisted' then (
+      select coalesce(max(waitlist_position), 0) + 1 from public.enrollments where cohort_id = p_cohort_id
+    ) end,
+    p_full_name, p_email, p_phone, p_employer, p_job_title, nullif(p_employee_id, ''),
+    p_prerequisites_accepted, p_medical_fitness_declared, nullif(p_medical_notes, '')
+  from (
+    select case
+      when not v_has_queue and public.cohort_seats_taken(p_cohort_id) < v_cohort.capacity then 'pending'
+      else 'waitlisted'
+    end as status
+  ) q
+  returning * into v_enrollment;
+
+  return v_enrollment;
+end;
+$$;
+
+grant execute on function public.accept_waitlist_offer(uuid) to authenticated;
+grant execute on function public.reorder_waitlist(uuid, uuid[]) to authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule('expire-waitlist-offers', '*/15 * * * *', $$select public.expire_waitlist_offers()$$);
@@ -0,0 +1,119 @@
+-- Certificates issued when a trainee completes a cohort. Each carries a
+-- random verification code that employers and HSE gatekeepers check at
+-- /verify/:code without being able to browse other certificates.
+alter table public.enrollments drop constraint if exists enrollments_status_check;
+alter table public.enrollments
+  add constraint enrollments_status_check
+  check (status in ('pending', 'confirmed', 'waitlisted', 'offered', 'cancelled', 'completed'));
+
+create table if not exists public.certificates (
+  id uuid primary key default gen_random_uuid(),
+  verification_code text not null unique,
+  enrollment_id uuid references public.enrollments (id) on delete set null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  program_id uuid not null references public.training_programs (id),
+  certification_name text not null,
+  issuer text not null,
+  trainee_name text not null,
+  program_title text not null,
+  instructor_name text not null,
+  issued_on date not null default current_date,
+  expires_on date,
+  status text not null default 'valid' check (status in ('valid', 'revoked')),
+  revoked_reason text,
+  issued_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (enrollment_id, certification_name)
+);
+
+create index if not exists certificates_user_id_idx on public.certificates (user_id);
+
+alter table public.certificates enable row level security;
+
+create policy "Trainees can read their own certificates"
+  on public.certificates for select
+  to authenticated
+  using (user_id = auth.uid() or public.can_manage_training());
+
+create policy "Coordinators can revoke certificates"
+  on public.certificates for update
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+-- Marks the enrollment completed and issues one certificate per
+-- certification the program awards (or the program's headline one).
+create or replace function public.issue_certificates(p_enrollment_id uuid)
+returns setof public.certificates
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_enrollment public.enrollments;
+  v_cohort public.training_cohorts;
+  v_program public.training_programs;
+begin
+  if not public.can_manage_training() then
+    raise exception 'Only training coordinators can issue certificates';
+  end if;
+
+  select * into v_enrollment from public.enrollments where id = p_enrollment_id for update;
+  if not found or v_enrollment.status not in ('confirmed', 'completed') then
+    raise exception 'Only confirmed enrollments can be certified';
+  end if;
+
+  select * into v_cohort from public.training_cohorts where id = v_enrollment.cohort_id;
+  select * into v_program from public.training_programs where id = v_cohort.program_id;
+
+  update public.enrollments set status = 'completed', updated_at = now() where id = p_enrollment_id;
+
+  return query
+  insert into public.certificates (
+    verification_code, enrollment_id, user_id, program_id, certification_name, issuer,
+    trainee_name, program_title, instructor_name, issued_by
+  )
+  select
+    upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12)),
+    v_enrollment.id, v_enrollment.user_id, v_program.id, cert.name, cert.issuer,
+    v_enrollment.full_name, v_program.title,
+    coalesce(v_cohort.instructors[1], v_program.instructor),
+    auth.uid()
+  from (
+    select detail ->> 'name' as name, detail ->> 'issuer' as issuer
+    from jsonb_array_elements(v_program.certifications_details) as detail
+    union all
+    select v_program.certification, 'Badak LNG Training Center'
+    where jsonb_array_length(v_program.certifications_details) = 0
+  ) cert
+  on conflict (enrollment_id, certification_name) do nothing
+  returning *;
+end;
+$$;
+
+-- Public lookup by code; returns only what a gatekeeper needs to see.
+create or replace function public.verify_certificate(p_code text)
+returns table (
+  verification_code text,
+  certification_name text,
+  issuer text,
+  trainee_name text,
+  program_title text,
+  instructor_name text,
+  issued_on date,
+  expires_on date,
+  status text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select verification_code, certification_name, issuer, trainee_name, program_title,
+    instructor_name, issued_on, expires_on, status
+  from public.certificates
+  where verification_code = upper(replace(trim(p_code), '-', ''));
+$$;
+
+grant execute on function public.issue_certificates(uuid) to authenticated;
+grant execute on function public.verify_certificate(text) to anon, authenticated;
@@ -0,0 +1,215 @@
+-- Recertification: each certification a program awards can carry a validity
+-- rule (months until it lapses, what renewal takes, and which catalog course
+-- satisfies it). Certificates get an expiry date from that rule, and a daily
+-- job drops 90/60/30-day and expired reminders into the holder's notifications.
+
+-- The annual refresher HAZWOPER holders are pointed at.
+insert into public.training_programs
+  (id, slug, icon, title, description, duration, level, certification, location, rating, reviews, price, featured, category, instructor, start_date, image, tags, certifications_details, sort_order)
+values
+  ('00000000-0000-4000-8000-000000000009', 'hazwoper-8-hour-refresher', 'HardHat', 'HAZWOPER 8-Hour Refresher', 'One-day annual refresher that keeps OSHA HAZWOPER 40-Hour certificates current, covering regulatory updates, PPE, decontamination and incident lessons learned.', '1 day', 'Intermediate', 'HAZWOPER Refresher', 'Houston, TX', 4.6, 64, 450, false, 'Hazmat', 'Chief David Chen', '2024-05-06', '/news3.jpg', array['Refresher', 'Chemical Safety', 'Recertification']::text[], '[{"name":"OSHA HAZWOPER 8-Hour Refresher","issuer":"Occupational Safety and Health Administration","previewImage":"/certs/hazwoper-sample.jpg","downloadUrl":"/certs/hazwoper-sample.pdf","validityMonths":12,"renewalRequirement":"Annual 8-hour refresher","refresherSlug":"hazwoper-8-hour-refresher"}]'::jsonb, 90)
+on conflict (slug) do nothing;
+
+insert into public.training_cohorts (program_id, code, start_date, end_date, location, capacity, venue, instructors)
+select p.id, c.code, c.start_date, c.start_date, p.location, 20, 'Hazmat Decontamination Pad', array[p.instructor]
+from public.training_programs p
+cross join (
+  values ('HAZR-2611', date '2026-11-23'), ('HAZR-2701', date '2027-01-18'), ('HAZR-2703', date '2027-03-15')
+) as c (code, start_date)
+where p.slug = 'hazwoper-8-hour-refresher'
+on conflict (code) do nothing;
+
+insert into public.training_sessions (cohort_id, title, starts_at, ends_at, venue, instructor)
+select
+  c.id,
+  'Refresher Day',
+  (c.start_date + time '08:00') at time zone 'Asia/Makassar',
+  (c.start_date + time '17:00') at time zone 'Asia/Makassar',
+  c.venue,
+  c.instructors[1]
+from public.training_cohorts c
+join public.training_programs p on p.id = c.program_id
+where p.slug = 'hazwoper-8-hour-refresher'
+  and not exists (select 1 from public.training_sessions s where s.cohort_id = c.id);
+
+-- Validity rules for the seeded certifications. Details that already carry a
+-- rule (set through the admin editor) are left alone.
+update public.training_programs p
+set certifications_details = (
+  select jsonb_agg(
+    case when d.detail ? 'validityMonths' or r.rule is null then d.detail else d.detail || r.rule end
+    order by d.position
+  )
+  from jsonb_array_elements(p.certifications_details) with ordinality as d (detail, position)
+  left join (
+    values
+      ('First Responder Operations', '{"validityMonths":12,"renewalRequirement":"Annual operations-level refresher","refresherSlug":"fire-fighter-training-academy"}'::jsonb),
+      ('NREMT Paramedic', '{"validityMonths":24,"renewalRequirement":"60 hours of continuing education every 2 years","refresherSlug":"emergency-medical-services"}'::jsonb),
+      ('State Paramedic License', '{"validityMonths":24,"renewalRequirement":"License renewal every 2 years","refresherSlug":"emergency-medical-services"}'::jsonb),
+      ('OSHA HAZWOPER 40-Hour', '{"validityMonths":12,"renewalRequirement":"Annual 8-hour refresher","refresherSlug":"hazwoper-8-hour-refresher"}'::jsonb)
+  ) as r (name, rule) on r.name = d.detail ->> 'name'
+)
+where jsonb_array_length(p.certifications_details) > 0;
+
+-- Expiry for a certification issued on a given day, or null when it never lapses.
+create or replace function public.certificate_expires_on(p_details jsonb, p_name text, p_issued_on date)
+returns date
+language sql
+immutable
+as $$
+  select (p_issued_on + make_interval(months => (detail ->> 'validityMonths')::integer))::date
+  from jsonb_array_elements(p_details) as detail
+  where detail ->> 'name' = p_name
+    and (detail ->> 'validityMonths') is not null
+  limit 1;
+$$;
+
+create or replace function public.issue_certificates(p_enrollment_id uuid)
+returns setof public.certificates
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_enrollment public.enrollments;
+  v_cohort public.training_cohorts;
+  v_program public.training_programs;
+begin
+  if not public.can_manage_training() then
+    raise exception 'Only training coordinators can issue certificates';
+  end if;
+
+  select * into v_enrollment from public.enrollments where id = p_enrollment_id for update;
+  if not found or v_enrollment.status not in ('confirmed', 'completed') then
+    raise exception 'Only confirmed enrollments can be certified';
+  end if;
+
+  select * into v_cohort from public.training_cohorts where id = v_enrollment.cohort_id;
+  select * into v_program from public.training_programs where id = v_cohort.program_id;
+
+  update public.enrollments set status = 'completed', updated_at = now() where id = p_enrollment_id;
+
+  return query
+  insert into public.certificates (
+    verification_code, enrollment_id, user_id, program_id, certification_name, issuer,
+    trainee_name, program_title, instructor_name, expires_on, issued_by
+  )
+  select
+    upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12)),
+    v_enrollment.id, v_enrollment.user_id, v_program.id, cert.name, cert.issuer,
+    v_enrollment.full_name, v_program.title,
+    coalesce(v_cohort.instructors[1], v_program.instructor),
+    public.certificate_expires_on(v_program.certifications_details, cert.name, current_date),
+    auth.uid()
+  from (
+    select detail ->> 'name' as name, detail ->> 'issuer' as issuer
+    from jsonb_array_elements(v_program.certifications_details) as detail
+    union all
+    select v_program.certification, 'Badak LNG Training Center'
+    where jsonb_array_length(v_program.certifications_details) = 0
+  ) cert
+  on conflict (enrollment_id, certification_name) do nothing
+  returning *;
+end;
+$$;
+
+update public.certificates c
+set expires_on = public.certificate_expires_on(p.certifications_details, c.certification_name, c.issued_on)
+from public.training_programs p
+where p.id = c.program_id
+  and c.expires_on is null;
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null,
+  title text not null,
+  body text not null,
+  link text,
+  -- Lets scheduled jobs re-run without sending the same reminder twice.
+  dedupe_key text unique,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_created_at_idx
+  on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+create policy "Users can read their own notifications"
+  on public.notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can mark their own notifications read"
+  on public.notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- The read marker is the only column users may change; title, body and link
+-- stay as the reminder job wrote them.
+revoke update on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+-- One reminder per certificate per threshold, always the tightest one that
+-- applies, so a certificate first seen 40 days out gets the 60-day reminder
+-- only. Certificates already renewed by a later refresher are skipped.
+create or replace function public.generate_certificate_reminders()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  insert into public.notifications (user_id, kind, title, body, link, dedupe_key)
+  select
+    c.user_id,
+    'certificate_expiry',
+    case when r.threshold = 0 then c.certification_name || ' has expired'
+         else c.certification_name || ' expires in ' || (c.expires_on - current_date) || ' days' end,
+    'Your certificate ' || case when r.threshold = 0 then 'expired on ' else 'is valid until ' end
+      || to_char(c.expires_on, 'Mon DD, YYYY') || '.'
+      || coalesce(' Renewal: ' || (d.detail ->> 'renewalRequirement') || '.', '')
+      || coalesce(' Recommended refresher: ' || rp.title || '.', ''),
+    coalesce('/training/' || rp.slug, '/certificates'),
+    'certificate:' || c.id || ':' || r.threshold
+  from public.certificates c
+  join public.training_programs p on p.id = c.program_id
+  left join lateral (
+    select detail
+    from jsonb_array_elements(p.certifications_details) as detail
+    where detail ->> 'name' = c.certification_name
+    limit 1
+  ) d on true
+  left join public.training_programs rp on rp.slug = coalesce(d.detail ->> 'refresherSlug', p.slug)
+  cross join lateral (
+    select min(t) as threshold
+    from unnest(array[90, 60, 30, 0]) as t
+    where c.expires_on - current_date <= t
+  ) r
+  where c.status = 'valid'
+    and c.expires_on is not null
+    and r.threshold is not null
+    and not exists (
+      select 1
+      from public.certificates renewal
+      where renewal.user_id = c.user_id
+        and renewal.program_id = rp.id
+        and renewal.status = 'valid'
+        and renewal.issued_on > c.issued_on
+    )
+  on conflict (dedupe_key) do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+select public.generate_certificate_reminders();
+
+-- 08:00 in Bontang (UTC+8).
+select cron.schedule('certificate-expiry-reminders', '0 0 * * *', $$select public.generate_certificate_reminders()$$);
@@ -0,0 +1,70 @@
+-- Program fees are invoiced once an enrollment holds a seat (pending or
+-- confirmed), and the invoice is voided if that seat is given up. Trainees
+-- can read their invoices; only coordinators record payments.
+create table if not exists public.enrollment_invoices (
+  id uuid primary key default gen_random_uuid(),
+  invoice_number text not null unique,
+  enrollment_id uuid not null unique references public.enrollments (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount numeric(10, 2) not null check (amount >= 0),
+  due_on date not null,
+  status text not null default 'unpaid' check (status in ('unpaid', 'paid', 'void')),
+  paid_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists enrollment_invoices_user_id_idx on public.enrollment_invoices (user_id);
+
+alter table public.enrollment_invoices enable row level security;
+
+create policy "Trainees can read their own invoices"
+  on public.enrollment_invoices for select
+  to authenticated
+  using (user_id = auth.uid() or public.can_manage_training());
+
+create policy "Coordinators can record payments"
+  on public.enrollment_invoices for update
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+-- Due two weeks before the cohort starts, or today for late enrollments.
+create or replace function public.sync_enrollment_invoice()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status in ('pending', 'confirmed') then
+    insert into public.enrollment_invoices (invoice_number, enrollment_id, user_id, amount, due_on)
+    select
+      'INV-' || c.code || '-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 6)),
+      new.id, new.user_id, p.price, greatest(c.start_date - 14, current_date)
+    from public.training_cohorts c
+    join public.training_programs p on p.id = c.program_id
+    where c.id = new.cohort_id
+    on conflict (enrollment_id) do nothing;
+  elsif new.status = 'cancelled' then
+    update public.enrollment_invoices
+    set status = 'void'
+    where enrollment_id = new.id and status = 'unpaid';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enrollment_invoice on public.enrollments;
+create trigger enrollment_invoice
+  after insert or update of status on public.enrollments
+  for each row execute function public.sync_enrollment_invoice();
+
+insert into public.enrollment_invoices (invoice_number, enrollment_id, user_id, amount, due_on)
+select
+  'INV-' || c.code || '-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 6)),
+  e.id, e.user_id, p.price, greatest(c.start_date - 14, current_date)
+from public.enrollments e
+join public.training_cohorts c on c.id = e.cohort_id
+join public.training_programs p on p.id = c.program_id
+where e.status in ('pending', 'confirmed')
+on conflict (enrollment_id) do nothing;
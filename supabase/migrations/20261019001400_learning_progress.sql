@@ -0,0 +1,129 @@
+-- Per-topic learning progress. Topics live in `training_programs.syllabus`
+-- and are addressed by their module and topic position. Trainees tick off
+-- their own topics; instructors can mark anyone in a cohort they teach and
+-- see that cohort's progress, and coordinators can see every cohort.
+create or replace function public.can_teach()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.current_user_role() in ('instructor', 'coordinator', 'admin');
+$$;
+
+-- Schedules name instructors as free text for display. Access follows the
+-- accounts a coordinator assigns to the cohort's teaching team or to one of
+-- its sessions, never those names, which anyone can put on their profile.
+alter table public.training_cohorts
+  add column if not exists instructor_ids uuid[] not null default '{}';
+
+alter table public.training_sessions
+  add column if not exists instructor_id uuid references auth.users (id) on delete set null;
+
+create index if not exists training_sessions_instructor_id_idx on public.training_sessions (instructor_id);
+
+-- Whether the caller teaches this cohort: on its teaching team or assigned
+-- to one of its sessions. Coordinators teach every cohort for this purpose.
+create or replace function public.teaches_cohort(p_cohort_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.can_manage_training()
+    or (
+      public.can_teach()
+      and exists (
+        select 1
+        from public.training_cohorts c
+        where c.id = p_cohort_id
+          and (
+            auth.uid() = any (c.instructor_ids)
+            or exists (
+              select 1 from public.training_sessions s
+              where s.cohort_id = c.id and s.instructor_id = auth.uid()
+            )
+          )
+      )
+    );
+$$;
+
+-- Whether the enrollment belongs to a cohort the caller teaches.
+create or replace function public.teaches_enrollment(p_enrollment_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.enrollments e
+    where e.id = p_enrollment_id and public.teaches_cohort(e.cohort_id)
+  );
+$$;
+
+drop policy if exists "Trainees can read their own enrollments" on public.enrollments;
+create policy "Trainees can read their own enrollments"
+  on public.enrollments for select
+  to authenticated
+  using (user_id = auth.uid() or public.can_manage_training() or public.teaches_cohort(cohort_id));
+
+create table if not exists public.topic_progress (
+  id uuid primary key default gen_random_uuid(),
+  enrollment_id uuid not null references public.enrollments (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  module_index integer not null check (module_index >= 0),
+  topic_index integer not null check (topic_index >= 0),
+  completed_at timestamptz not null default now(),
+  completed_by uuid references auth.users (id) on delete set null default auth.uid(),
+  unique (enrollment_id, module_index, topic_index)
+);
+
+create index if not exists topic_progress_user_id_idx on public.topic_progress (user_id);
+
+alter table public.topic_progress enable row level security;
+
+-- Whether the caller may record progress against this enrollment: their own
+-- seat, or anyone's in a cohort they teach.
+create or replace function public.can_record_progress(p_enrollment_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.enrollments e
+    where e.id = p_enrollment_id
+      and e.user_id = p_user_id
+      and e.status in ('pending', 'confirmed', 'completed')
+      and (e.user_id = auth.uid() or public.teaches_cohort(e.cohort_id))
+  );
+$$;
+
+create policy "Trainees and instructors can read progress"
+  on public.topic_progress for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from public.enrollments e
+      where e.id = enrollment_id and public.teaches_cohort(e.cohort_id)
+    )
+  );
+
+create policy "Trainees and instructors can mark topics complete"
+  on public.topic_progress for insert
+  to authenticated
+  with check (public.can_record_progress(enrollment_id, user_id));
+
+create policy "Trainees and instructors can reopen topics"
+  on public.topic_progress for delete
+  to authenticated
+  using (public.can_record_progress(enrollment_id, user_id));
+
+grant execute on function public.teaches_cohort(uuid) to authenticated;
+grant execute on function public.teaches_enrollment(uuid) to authenticated;
@@ -0,0 +1,417 @@
+-- Online quizzes: module knowledge checks and final written exams. Each quiz
+-- has a question pool; an attempt draws a random subset, is scored on the
+-- server and never exposes the answer key to trainees. Passing a knowledge
+-- check completes the syllabus topic it belongs to, and every published
+-- quiz must be passed before certificates can be issued.
+create table if not exists public.quizzes (
+  id uuid primary key default gen_random_uuid(),
+  program_id uuid not null references public.training_programs (id) on delete cascade,
+  title text not null,
+  description text not null default '',
+  kind text not null check (kind in ('knowledge_check', 'final_exam')),
+  module_index integer check (module_index >= 0),
+  topic_index integer check (topic_index >= 0),
+  time_limit_minutes integer check (time_limit_minutes > 0),
+  -- How many questions an attempt draws from the pool; null uses them all.
+  question_count integer check (question_count > 0),
+  passing_score integer not null default 70 check (passing_score between 1 and 100),
+  max_attempts integer check (max_attempts > 0),
+  published boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- Knowledge checks belong to a syllabus topic; final exams cover the program.
+  check (
+    (kind = 'knowledge_check' and module_index is not null and topic_index is not null)
+    or (kind = 'final_exam' and module_index is null and topic_index is null)
+  )
+);
+
+create index if not exists quizzes_program_id_idx on public.quizzes (program_id);
+
+-- `answer` holds option ids (in the correct order for ordering questions) or,
+-- for hotspots, the target region as percentages of the image size.
+create table if not exists public.quiz_questions (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id uuid not null references public.quizzes (id) on delete cascade,
+  type text not null check (type in ('single_choice', 'multiple_choice', 'true_false', 'hotspot', 'ordering')),
+  prompt text not null,
+  image_url text,
+  options jsonb not null default '[]'::jsonb,
+  answer jsonb not null,
+  points integer not null default 1 check (points > 0),
+  sort_order integer not null default 0
+);
+
+create index if not exists quiz_questions_quiz_id_idx on public.quiz_questions (quiz_id);
+
+create table if not exists public.quiz_attempts (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id uuid not null references public.quizzes (id) on delete cascade,
+  enrollment_id uuid not null references public.enrollments (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  question_ids uuid[] not null,
+  responses jsonb not null default '{}'::jsonb,
+  status text not null default 'in_progress' check (status in ('in_progress', 'submitted', 'expired')),
+  started_at timestamptz not null default now(),
+  expires_at timestamptz,
+  submitted_at timestamptz,
+  earned_points integer,
+  total_points integer,
+  score integer,
+  passed boolean not null default false
+);
+
+create index if not exists quiz_attempts_enrollment_id_idx on public.quiz_attempts (enrollment_id);
+
+-- At most one open attempt per trainee and quiz, even when two tabs start it
+-- at the same moment.
+create unique index if not exists quiz_attempts_one_in_progress_idx
+  on public.quiz_attempts (quiz_id, enrollment_id)
+  where status = 'in_progress';
+
+alter table public.quizzes enable row level security;
+alter table public.quiz_questions enable row level security;
+alter table public.quiz_attempts enable row level security;
+
+create policy "Anyone signed in can read published quizzes"
+  on public.quizzes for select
+  to authenticated
+  using (published or public.can_manage_training());
+
+create policy "Coordinators can manage quizzes"
+  on public.quizzes for all
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+-- Trainees only ever see questions through start_quiz_attempt, without answers.
+create policy "Coordinators can manage quiz questions"
+  on public.quiz_questions for all
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+create policy "Trainees and instructors can read attempts"
+  on public.quiz_attempts for select
+  to authenticated
+  using (user_id = auth.uid() or public.teaches_enrollment(enrollment_id));
+
+create or replace function public.is_quiz_response_correct(p_type text, p_answer jsonb, p_response jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(
+    case
+      when p_type = 'hotspot' then
+        (p_response ->> 'x')::numeric between (p_answer ->> 'x')::numeric
+          and (p_answer ->> 'x')::numeric + (p_answer ->> 'width')::numeric
+        and (p_response ->> 'y')::numeric between (p_answer ->> 'y')::numeric
+          and (p_answer ->> 'y')::numeric + (p_answer ->> 'height')::numeric
+      when jsonb_typeof(p_response) <> 'array' then false
+      when p_type = 'ordering' then p_response = p_answer
+      -- Choice questions compare the chosen set, ignoring order.
+      else (
+        select array_agg(distinct value order by value) from jsonb_array_elements_text(p_response)
+      ) = (
+        select array_agg(distinct value order by value) from jsonb_array_elements_text(p_answer)
+      )
+    end,
+    false
+  );
+$$;
+
+-- Starts an attempt for the signed-in trainee, or resumes the one still in
+-- progress. Returns the drawn questions without their answers; ordering
+-- questions come back shuffled.
+create or replace function public.start_quiz_attempt(p_quiz_id uuid, p_enrollment_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quiz public.quizzes;
+  v_enrollment public.enrollments;
+  v_attempt public.quiz_attempts;
+  v_used integer;
+begin
+  select * into v_quiz from public.quizzes where id = p_quiz_id and published;
+  if not found then
+    raise exception 'Quiz not found';
+  end if;
+
+  select e.* into v_enrollment
+  from public.enrollments e
+  join public.training_cohorts c on c.id = e.cohort_id
+  where e.id = p_enrollment_id
+    and e.user_id = auth.uid()
+    and e.status in ('pending', 'confirmed', 'completed')
+    and c.program_id = v_quiz.program_id;
+  if not found then
+    raise exception 'You are not enrolled in this program';
+  end if;
+
+  -- Attempts abandoned past their time limit are closed out and still count.
+  update public.quiz_attempts
+  set status = 'expired', submitted_at = expires_at, earned_points = 0, score = 0
+  where quiz_id = p_quiz_id
+    and enrollment_id = p_enrollment_id
+    and status = 'in_progress'
+    and expires_at < now() - interval '1 minute';
+
+  select * into v_attempt
+  from public.quiz_attempts
+  where quiz_id = p_quiz_id and enrollment_id = p_enrollment_id and status = 'in_progress'
+  for update;
+
+  if not found then
+    if exists (
+      select 1 from public.quiz_attempts
+      where quiz_id = p_quiz_id and enrollment_id = p_enrollment_id and passed
+    ) then
+      raise exception 'You have already passed this quiz';
+    end if;
+
+    select count(*) into v_used
+    from public.quiz_attempts
+    where quiz_id = p_quiz_id and enrollment_id = p_enrollment_id;
+    if v_quiz.max_attempts is not null and v_used >= v_quiz.max_attempts then
+      raise exception 'No attempts remaining';
+    end if;
+
+    insert into public.quiz_attempts (quiz_id, enrollment_id, user_id, question_ids, expires_at)
+    values (
+      p_quiz_id,
+      p_enrollment_id,
+      v_enrollment.user_id,
+      array(
+        select id from public.quiz_questions
+        where quiz_id = p_quiz_id
+        order by random()
+        limit v_quiz.question_count
+      ),
+      now() + make_interval(mins => v_quiz.time_limit_minutes)
+    )
+    on conflict (quiz_id, enrollment_id) where status = 'in_progress' do nothing
+    returning * into v_attempt;
+
+    -- Another request opened the attempt first; resume that one instead.
+    if not found then
+      select * into v_attempt
+      from public.quiz_attempts
+      where quiz_id = p_quiz_id and enrollment_id = p_enrollment_id and status = 'in_progress';
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'attempt_id', v_attempt.id,
+    'started_at', v_attempt.started_at,
+    'expires_at', v_attempt.expires_at,
+    'responses', v_attempt.responses,
+    'questions', (
+      select coalesce(jsonb_agg(
+        jsonb_build_object(
+          'id', q.id,
+          'type', q.type,
+          'prompt', q.prompt,
+          'image_url', q.image_url,
+          'points', q.points,
+          'options', case
+            when q.type = 'ordering' then (
+              select coalesce(jsonb_agg(option order by random()), '[]'::jsonb)
+              from jsonb_array_elements(q.options) as option
+            )
+            else q.options
+          end
+        )
+        order by array_position(v_attempt.question_ids, q.id)
+      ), '[]'::jsonb)
+      from public.quiz_questions q
+      where q.id = any(v_attempt.question_ids)
+    )
+  );
+end;
+$$;
+
+-- Scores an attempt. A minute of grace covers the auto-submit round trip;
+-- anything later is recorded as expired with no marks.
+create or replace function public.submit_quiz_attempt(p_attempt_id uuid, p_responses jsonb)
+returns public.quiz_attempts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_attempt public.quiz_attempts;
+  v_quiz public.quizzes;
+  v_late boolean;
+  v_earned integer;
+  v_total integer;
+  v_score integer;
+begin
+  select * into v_attempt
+  from public.quiz_attempts
+  where id = p_attempt_id and user_id = auth.uid()
+  for update;
+  if not found then
+    raise exception 'Attempt not found';
+  end if;
+  if v_attempt.status <> 'in_progress' then
+    raise exception 'This attempt has already been submitted';
+  end if;
+
+  select * into v_quiz from public.quizzes where id = v_attempt.quiz_id;
+  v_late := v_attempt.expires_at is not null and now() > v_attempt.expires_at + interval '1 minute';
+
+  select
+    coalesce(sum(q.points) filter (
+      where not v_late and public.is_quiz_response_correct(q.type, q.answer, p_responses -> q.id::text)
+    ), 0),
+    coalesce(sum(q.points), 0)
+  into v_earned, v_total
+  from public.quiz_questions q
+  where q.id = any(v_attempt.question_ids);
+
+  v_score := case when v_total > 0 then round(v_earned * 100.0 / v_total) else 0 end;
+
+  update public.quiz_attempts
+  set
+    responses = coalesce(p_responses, '{}'::jsonb),
+    status = case when v_late then 'expired' else 'submitted' end,
+    submitted_at = now(),
+    earned_points = v_earned,
+    total_points = v_total,
+    score = v_score,
+    passed = not v_late and v_score >= v_quiz.passing_score
+  where id = p_attempt_id
+  returning * into v_attempt;
+
+  if v_attempt.passed and v_quiz.kind = 'knowledge_check' then
+    insert into public.topic_progress (enrollment_id, user_id, module_index, topic_index, completed_by)
+    values (v_attempt.enrollment_id, v_attempt.user_id, v_quiz.module_index, v_quiz.topic_index, v_attempt.user_id)
+    on conflict (enrollment_id, module_index, topic_index) do nothing;
+  end if;
+
+  return v_attempt;
+end;
+$$;
+
+-- Outstanding requirements standing between each enrollment and its
+-- certificates. Visible to the trainee and to teaching staff.
+create or replace function public.certificate_blockers(p_enrollment_ids uuid[])
+returns table (enrollment_id uuid, blocker text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.id, 'Pass ' || q.title
+  from public.enrollments e
+  join public.training_cohorts c on c.id = e.cohort_id
+  join public.quizzes q on q.program_id = c.program_id and q.published
+  where e.id = any(p_enrollment_ids)
+    and (e.user_id = auth.uid() or public.teaches_cohort(e.cohort_id))
+    and not exists (
+      select 1 from public.quiz_attempts a
+      where a.quiz_id = q.id and a.enrollment_id = e.id and a.passed
+    )
+  order by e.id, q.kind, q.sort_order, q.title;
+$$;
+
+create or replace function public.issue_certificates(p_enrollment_id uuid)
+returns setof public.certificates
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_enrollment public.enrollments;
+  v_cohort public.training_cohorts;
+  v_program public.training_programs;
+begin
+  if not public.can_manage_training() then
+    raise exception 'Only training coordinators can issue certificates';
+  end if;
+
+  select * into v_enrollment from public.enrollments where id = p_enrollment_id for update;
+  if not found or v_enrollment.status not in ('confirmed', 'completed') then
+    raise exception 'Only confirmed enrollments can be certified';
+  end if;
+
+  if exists (select 1 from public.certificate_blockers(array[p_enrollment_id])) then
+    raise exception 'This trainee has not met every certification requirement';
+  end if;
+
+  select * into v_cohort from public.training_cohorts where id = v_enrollment.cohort_id;
+  select * into v_program from public.training_programs where id = v_cohort.program_id;
+
+  update public.enrollments set status = 'completed', updated_at = now() where id = p_enrollment_id;
+
+  return query
+  insert into public.certificates (
+    verification_code, enrollment_id, user_id, program_id, certification_name, issuer,
+    trainee_name, program_title, instructor_name, expires_on, issued_by
+  )
+  select
+    upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12)),
+    v_enrollment.id, v_enrollment.user_id, v_program.id, cert.name, cert.issuer,
+    v_enrollment.full_name, v_program.title,
+    coalesce(v_cohort.instructors[1], v_program.instructor),
+    public.certificate_expires_on(v_program.certifications_details, cert.name, current_date),
+    auth.uid()
+  from (
+    select detail ->> 'name' as name, detail ->> 'issuer' as issuer
+    from jsonb_array_elements(v_program.certifications_details) as detail
+    union all
+    select v_program.certification, 'Badak LNG Training Center'
+    where jsonb_array_length(v_program.certifications_details) = 0
+  ) cert
+  on conflict (enrollment_id, certification_name) do nothing
+  returning *;
+end;
+$$;
+
+grant execute on function public.start_quiz_attempt(uuid, uuid) to authenticated;
+grant execute on function public.submit_quiz_attempt(uuid, jsonb) to authenticated;
+grant execute on function public.certificate_blockers(uuid[]) to authenticated;
+
+-- Starter knowledge check for the first academy topic.
+insert into public.quizzes (program_id, title, description, kind, module_index, topic_index, time_limit_minutes, question_count, passing_score, max_attempts)
+select p.id, 'Fire Science Fundamentals Check',
+  'Combustion, heat transfer and the warning signs of flashover and backdraft.',
+  'knowledge_check', 0, 0, 15, 5, 80, 3
+from public.training_programs p
+where p.slug = 'fire-fighter-training-academy'
+  and not exists (
+    select 1 from public.quizzes q
+    where q.program_id = p.id and q.title = 'Fire Science Fundamentals Check'
+  );
+
+insert into public.quiz_questions (quiz_id, type, prompt, options, answer, sort_order)
+select q.id, v.type, v.prompt, v.options::jsonb, v.answer::jsonb, v.sort_order
+from public.quizzes q
+cross join (
+  values
+    ('single_choice', 'Which element turns the fire triangle into the fire tetrahedron?',
+      '[{"id":"a","label":"Smoke"},{"id":"b","label":"Chemical chain reaction"},{"id":"c","label":"Water vapour"},{"id":"d","label":"Nitrogen"}]',
+      '["b"]', 1),
+    ('multiple_choice', 'Which of these are methods of heat transfer? Select all that apply.',
+      '[{"id":"a","label":"Conduction"},{"id":"b","label":"Convection"},{"id":"c","label":"Radiation"},{"id":"d","label":"Ventilation"}]',
+      '["a","b","c"]', 2),
+    ('true_false', 'Thick, dark smoke pushing out under pressure is a warning sign of flashover.',
+      '[{"id":"true","label":"True"},{"id":"false","label":"False"}]',
+      '["true"]', 3),
+    ('ordering', 'Put the stages of compartment fire development in order.',
+      '[{"id":"a","label":"Incipient"},{"id":"b","label":"Growth"},{"id":"c","label":"Fully developed"},{"id":"d","label":"Decay"}]',
+      '["a","b","c","d"]', 4),
+    ('single_choice', 'A backdraft is most likely when a closed, smouldering compartment is suddenly given...',
+      '[{"id":"a","label":"Water"},{"id":"b","label":"Fuel"},{"id":"c","label":"Oxygen"},{"id":"d","label":"Foam"}]',
+      '["c"]', 5),
+    ('true_false', 'Rollover is the same thing as a backdraft.',
+      '[{"id":"true","label":"True"},{"id":"false","label":"False"}]',
+      '["false"]', 6)
+) as v (type, prompt, options, answer, sort_order)
+where q.title = 'Fire Science Fundamentals Check'
+  and not exists (select 1 from public.quiz_questions existing where existing.quiz_id = q.id);
@@ -0,0 +1,237 @@
+-- Practical skill sheets. Each sheet lists graded steps, some of them
+-- critical (failing one fails the skill outright), an optional time limit
+-- and a pass mark. Instructors evaluate trainees at the training ground and
+-- sign off each evaluation; evaluations are never edited, a retest is simply
+-- a new one. Every required sheet must be passed before certification.
+create table if not exists public.skill_sheets (
+  id uuid primary key default gen_random_uuid(),
+  program_id uuid not null references public.training_programs (id) on delete cascade,
+  title text not null,
+  description text not null default '',
+  -- [{ "id": "...", "description": "...", "points": 1, "critical": false }]
+  steps jsonb not null default '[]'::jsonb,
+  time_limit_seconds integer check (time_limit_seconds > 0),
+  passing_score integer not null default 80 check (passing_score between 1 and 100),
+  required boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists skill_sheets_program_id_idx on public.skill_sheets (program_id);
+
+create table if not exists public.skill_evaluations (
+  id uuid primary key default gen_random_uuid(),
+  sheet_id uuid not null references public.skill_sheets (id) on delete cascade,
+  enrollment_id uuid not null references public.enrollments (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- { "<step id>": true | false }
+  step_results jsonb not null,
+  time_seconds numeric(6, 1),
+  earned_points integer not null,
+  total_points integer not null,
+  score integer not null,
+  critical_failures text[] not null default '{}',
+  passed boolean not null,
+  notes text not null default '',
+  evaluator_id uuid references auth.users (id) on delete set null,
+  evaluator_name text not null,
+  signed_off_at timestamptz not null default now(),
+  -- Generated on the tablet, so a sign-off replayed from the offline queue is
+  -- only stored once.
+  client_id uuid unique
+);
+
+create index if not exists skill_evaluations_enrollment_id_idx on public.skill_evaluations (enrollment_id);
+
+alter table public.skill_sheets enable row level security;
+alter table public.skill_evaluations enable row level security;
+
+create policy "Anyone signed in can read skill sheets"
+  on public.skill_sheets for select
+  to authenticated
+  using (true);
+
+create policy "Coordinators can manage skill sheets"
+  on public.skill_sheets for all
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+create policy "Trainees and instructors can read evaluations"
+  on public.skill_evaluations for select
+  to authenticated
+  using (user_id = auth.uid() or public.teaches_enrollment(enrollment_id));
+
+-- Scores the evaluation from the step results so the pass decision never
+-- depends on the tablet, and signs it off as the calling instructor at the
+-- time it was evaluated, which is earlier than now when it was queued offline.
+-- Sending the same p_client_id again returns the evaluation already stored.
+create or replace function public.record_skill_evaluation(
+  p_sheet_id uuid,
+  p_enrollment_id uuid,
+  p_step_results jsonb,
+  p_time_seconds numeric,
+  p_notes text,
+  p_evaluated_at timestamptz default null,
+  p_client_id uuid default null
+)
+returns public.skill_evaluations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sheet public.skill_sheets;
+  v_enrollment public.enrollments;
+  v_earned integer;
+  v_total integer;
+  v_score integer;
+  v_critical text[];
+  v_evaluation public.skill_evaluations;
+begin
+  if not public.can_teach() then
+    raise exception 'Only instructors can sign off skills';
+  end if;
+
+  select * into v_sheet from public.skill_sheets where id = p_sheet_id;
+  if not found then
+    raise exception 'Skill sheet not found';
+  end if;
+
+  select e.* into v_enrollment
+  from public.enrollments e
+  join public.training_cohorts c on c.id = e.cohort_id
+  where e.id = p_enrollment_id
+    and e.status in ('pending', 'confirmed', 'completed')
+    and c.program_id = v_sheet.program_id;
+  if not found then
+    raise exception 'This trainee is not enrolled in the skill''s program';
+  end if;
+
+  if not public.teaches_cohort(v_enrollment.cohort_id) then
+    raise exception 'Only instructors of this cohort can sign off its trainees';
+  end if;
+
+  select
+    coalesce(sum((step ->> 'points')::integer) filter (where (p_step_results ->> (step ->> 'id'))::boolean), 0),
+    coalesce(sum((step ->> 'points')::integer), 0),
+    coalesce(array_agg(step ->> 'description') filter (
+      where (step ->> 'critical')::boolean and coalesce((p_step_results ->> (step ->> 'id'))::boolean, false) = false
+    ), '{}')
+  into v_earned, v_total, v_critical
+  from jsonb_array_elements(v_sheet.steps) as step;
+
+  v_score := case when v_total > 0 then round(v_earned * 100.0 / v_total) else 0 end;
+
+  insert into public.skill_evaluations (
+    sheet_id, enrollment_id, user_id, step_results, time_seconds, earned_points, total_points,
+    score, critical_failures, passed, notes, evaluator_id, evaluator_name, signed_off_at, client_id
+  )
+  values (
+    p_sheet_id,
+    p_enrollment_id,
+    v_enrollment.user_id,
+    p_step_results,
+    p_time_seconds,
+    v_earned,
+    v_total,
+    v_score,
+    v_critical,
+    v_score >= v_sheet.passing_score
+      and cardinality(v_critical) = 0
+      and (v_sheet.time_limit_seconds is null or coalesce(p_time_seconds <= v_sheet.time_limit_seconds, false)),
+    coalesce(p_notes, ''),
+    auth.uid(),
+    coalesce(nullif((select full_name from public.profiles where id = auth.uid()), ''), 'Instructor'),
+    least(coalesce(p_evaluated_at, now()), now()),
+    p_client_id
+  )
+  on conflict (client_id) do nothing
+  returning * into v_evaluation;
+
+  if not found then
+    select * into v_evaluation
+    from public.skill_evaluations
+    where client_id = p_client_id and evaluator_id = auth.uid();
+    if not found then
+      raise exception 'This evaluation was already recorded by another instructor';
+    end if;
+  end if;
+
+  return v_evaluation;
+end;
+$$;
+
+create or replace function public.certificate_blockers(p_enrollment_ids uuid[])
+returns table (enrollment_id uuid, blocker text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.id, 'Pass ' || q.title
+  from public.enrollments e
+  join public.training_cohorts c on c.id = e.cohort_id
+  join public.quizzes q on q.program_id = c.program_id and q.published
+  where e.id = any(p_enrollment_ids)
+    and (e.user_id = auth.uid() or public.teaches_cohort(e.cohort_id))
+    and not exists (
+      select 1 from public.quiz_attempts a
+      where a.quiz_id = q.id and a.enrollment_id = e.id and a.passed
+    )
+  union all
+  select e.id, 'Pass skill: ' || s.title
+  from public.enrollments e
+  join public.training_cohorts c on c.id = e.cohort_id
+  join public.skill_sheets s on s.program_id = c.program_id and s.required
+  where e.id = any(p_enrollment_ids)
+    and (e.user_id = auth.uid() or public.teaches_cohort(e.cohort_id))
+    and not exists (
+      select 1 from public.skill_evaluations v
+      where v.sheet_id = s.id and v.enrollment_id = e.id and v.passed
+    );
+$$;
+
+grant execute on function public.record_skill_evaluation(uuid, uuid, jsonb, numeric, text, timestamptz, uuid) to authenticated;
+
+-- Core fireground skills for the academy.
+insert into public.skill_sheets (program_id, title, description, steps, time_limit_seconds, passing_score, sort_order)
+select p.id, v.title, v.description, v.steps::jsonb, v.time_limit_seconds, v.passing_score, v.sort_order
+from public.training_programs p
+cross join (
+  values
+    ('SCBA Donning', 'Don full PPE and SCBA from the ready position and go on air.',
+      '[{"id":"scba-1","description":"Check cylinder gauge reads full","points":1,"critical":false},
+        {"id":"scba-2","description":"Open cylinder valve fully","points":1,"critical":true},
+        {"id":"scba-3","description":"Don harness and tighten shoulder and waist straps","points":1,"critical":false},
+        {"id":"scba-4","description":"Don facepiece and perform negative-pressure seal check","points":2,"critical":true},
+        {"id":"scba-5","description":"Pull hood over facepiece edges with no exposed skin","points":1,"critical":false},
+        {"id":"scba-6","description":"Don helmet and gloves, connect regulator and breathe air","points":1,"critical":false}]',
+      60, 80, 1),
+    ('Hose Advancement', 'Advance a charged 1¾" attack line up a stairway and into a structure.',
+      '[{"id":"hose-1","description":"Bleed air and check pattern before entry","points":1,"critical":false},
+        {"id":"hose-2","description":"Maintain a low profile at the doorway","points":1,"critical":false},
+        {"id":"hose-3","description":"Advance the line without kinks, flaking excess at the stairs","points":2,"critical":false},
+        {"id":"hose-4","description":"Keep the nozzle under control at all times","points":2,"critical":true},
+        {"id":"hose-5","description":"Communicate with the backup firefighter throughout","points":1,"critical":false}]',
+      null, 80, 2),
+    ('Ladder Raise', 'Two-firefighter raise of a 24 ft extension ladder to a second-floor window.',
+      '[{"id":"ladder-1","description":"Check for overhead obstructions and power lines","points":1,"critical":true},
+        {"id":"ladder-2","description":"Set the butt at the correct distance from the building","points":1,"critical":false},
+        {"id":"ladder-3","description":"Raise the fly section with the halyard under control","points":2,"critical":false},
+        {"id":"ladder-4","description":"Confirm pawls are locked before climbing","points":1,"critical":true},
+        {"id":"ladder-5","description":"Achieve a climbing angle of about 75 degrees","points":1,"critical":false}]',
+      null, 80, 3),
+    ('Portable Extinguisher Use', 'Select and operate a portable extinguisher on a live Class B pan fire.',
+      '[{"id":"ext-1","description":"Select the correct extinguisher for the fire class","points":1,"critical":true},
+        {"id":"ext-2","description":"Approach from upwind at a safe distance","points":1,"critical":false},
+        {"id":"ext-3","description":"Pull the pin, aim at the base, squeeze and sweep","points":2,"critical":false},
+        {"id":"ext-4","description":"Back away while watching for re-ignition","points":1,"critical":false}]',
+      null, 80, 4)
+) as v (title, description, steps, time_limit_seconds, passing_score, sort_order)
+where p.slug = 'fire-fighter-training-academy'
+  and not exists (
+    select 1 from public.skill_sheets s
+    where s.program_id = p.id and s.title = v.title
+  );
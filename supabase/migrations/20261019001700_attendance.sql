@@ -0,0 +1,214 @@
+-- Instructor portal: instructors see the sessions they are assigned to, take
+-- daily attendance, keep notes on trainees and record medical clearance.
+-- Programs set a minimum attendance that trainees must reach to certify.
+alter table public.training_programs
+  add column if not exists min_attendance_percent integer not null default 80
+    check (min_attendance_percent between 0 and 100);
+
+-- Trainees declare fitness when enrolling; an instructor confirms it on the
+-- first day before any practical work.
+alter table public.enrollments
+  add column if not exists medical_clearance text not null default 'pending'
+    check (medical_clearance in ('pending', 'cleared', 'restricted')),
+  add column if not exists medical_cleared_by text,
+  add column if not exists medical_cleared_at timestamptz;
+
+-- Sessions taught by the caller: assigned to the session itself or on the
+-- cohort's teaching team. Coordinators may pass an instructor's display name
+-- to see their classes instead.
+create or replace function public.instructor_sessions(p_instructor text default null)
+returns setof public.training_sessions
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.*
+  from public.training_sessions s
+  join public.training_cohorts c on c.id = s.cohort_id
+  join public.training_programs p on p.id = c.program_id
+  where public.can_teach()
+    and c.status <> 'cancelled'
+    and case
+      when p_instructor is not null and public.can_manage_training() then
+        s.instructor = p_instructor or p_instructor = any(c.instructors) or p.instructor = p_instructor
+      else
+        s.instructor_id = auth.uid() or auth.uid() = any (c.instructor_ids)
+    end
+  order by s.starts_at;
+$$;
+
+create table if not exists public.session_attendance (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.training_sessions (id) on delete cascade,
+  enrollment_id uuid not null references public.enrollments (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null check (status in ('present', 'late', 'absent', 'excused')),
+  recorded_by uuid references auth.users (id) on delete set null default auth.uid(),
+  recorded_at timestamptz not null default now(),
+  unique (session_id, enrollment_id)
+);
+
+create index if not exists session_attendance_enrollment_id_idx on public.session_attendance (enrollment_id);
+
+-- Registers taken offline reach the server when the tablet reconnects, so
+-- recorded_at is the time the instructor marked the trainee. A replayed mark
+-- never overwrites one recorded after it, and no mark is dated in the future.
+create or replace function public.keep_latest_attendance()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.recorded_at := least(new.recorded_at, now());
+  if tg_op = 'UPDATE' and new.recorded_at < old.recorded_at then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists keep_latest_attendance on public.session_attendance;
+create trigger keep_latest_attendance
+  before insert or update on public.session_attendance
+  for each row execute function public.keep_latest_attendance();
+
+alter table public.session_attendance enable row level security;
+
+create policy "Trainees and instructors can read attendance"
+  on public.session_attendance for select
+  to authenticated
+  using (user_id = auth.uid() or public.teaches_enrollment(enrollment_id));
+
+create policy "Instructors can take attendance"
+  on public.session_attendance for insert
+  to authenticated
+  with check (public.teaches_enrollment(enrollment_id) and public.can_record_progress(enrollment_id, user_id));
+
+create policy "Instructors can correct attendance"
+  on public.session_attendance for update
+  to authenticated
+  using (public.teaches_enrollment(enrollment_id))
+  with check (public.teaches_enrollment(enrollment_id) and public.can_record_progress(enrollment_id, user_id));
+
+-- Staff-only notes; trainees do not see what instructors write about them.
+create table if not exists public.trainee_notes (
+  id uuid primary key default gen_random_uuid(),
+  enrollment_id uuid not null references public.enrollments (id) on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  author_id uuid references auth.users (id) on delete set null default auth.uid(),
+  author_name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists trainee_notes_enrollment_id_idx on public.trainee_notes (enrollment_id, created_at);
+
+alter table public.trainee_notes enable row level security;
+
+create policy "Instructors can read trainee notes"
+  on public.trainee_notes for select
+  to authenticated
+  using (public.teaches_enrollment(enrollment_id));
+
+create policy "Instructors can write trainee notes"
+  on public.trainee_notes for insert
+  to authenticated
+  with check (public.teaches_enrollment(enrollment_id) and author_id = auth.uid());
+
+create policy "Authors can delete their trainee notes"
+  on public.trainee_notes for delete
+  to authenticated
+  using (author_id = auth.uid());
+
+-- Instructors may read enrollments but not update them, so clearance goes
+-- through this function, which touches nothing else on the row.
+create or replace function public.set_medical_clearance(p_enrollment_id uuid, p_clearance text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.teaches_enrollment(p_enrollment_id) then
+    raise exception 'Only instructors of this cohort can record medical clearance';
+  end if;
+
+  update public.enrollments
+  set
+    medical_clearance = p_clearance,
+    medical_cleared_by = case when p_clearance = 'pending' then null
+      else coalesce(nullif((select full_name from public.profiles where id = auth.uid()), ''), 'Instructor') end,
+    medical_cleared_at = case when p_clearance = 'pending' then null else now() end,
+    updated_at = now()
+  where id = p_enrollment_id;
+end;
+$$;
+
+-- Attendance over sessions that have finished. Late counts as attended and
+-- excused sessions are left out; a session with no record counts as missed.
+create or replace function public.enrollment_attendance(p_enrollment_ids uuid[])
+returns table (enrollment_id uuid, attended integer, counted integer, percent integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    e.id,
+    count(*) filter (where a.status in ('present', 'late'))::integer,
+    count(*) filter (where a.status is distinct from 'excused')::integer,
+    case when count(*) filter (where a.status is distinct from 'excused') = 0 then 100
+      else round(
+        count(*) filter (where a.status in ('present', 'late')) * 100.0
+          / count(*) filter (where a.status is distinct from 'excused')
+      )::integer
+    end
+  from public.enrollments e
+  join public.training_sessions s on s.cohort_id = e.cohort_id and s.ends_at <= now()
+  left join public.session_attendance a on a.session_id = s.id and a.enrollment_id = e.id
+  where e.id = any(p_enrollment_ids)
+    and (e.user_id = auth.uid() or public.teaches_cohort(e.cohort_id))
+  group by e.id;
+$$;
+
+create or replace function public.certificate_blockers(p_enrollment_ids uuid[])
+returns table (enrollment_id uuid, blocker text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.id, 'Pass ' || q.title
+  from public.enrollments e
+  join public.training_cohorts c on c.id = e.cohort_id
+  join public.quizzes q on q.program_id = c.program_id and q.published
+  where e.id = any(p_enrollment_ids)
+    and (e.user_id = auth.uid() or public.teaches_cohort(e.cohort_id))
+    and not exists (
+      select 1 from public.quiz_attempts a
+      where a.quiz_id = q.id and a.enrollment_id = e.id and a.passed
+    )
+  union all
+  select e.id, 'Pass skill: ' || s.title
+  from public.enrollments e
+  join public.training_cohorts c on c.id = e.cohort_id
+  join public.skill_sheets s on s.program_id = c.program_id and s.required
+  where e.id = any(p_enrollment_ids)
+    and (e.user_id = auth.uid() or public.teaches_cohort(e.cohort_id))
+    and not exists (
+      select 1 from public.skill_evaluations v
+      where v.sheet_id = s.id and v.enrollment_id = e.id and v.passed
+    )
+  union all
+  select e.id, 'Attendance ' || a.percent || '% (' || p.min_attendance_percent || '% required)'
+  from public.enrollments e
+  join public.training_cohorts c on c.id = e.cohort_id
+  join public.training_programs p on p.id = c.program_id
+  join public.enrollment_attendance(p_enrollment_ids) a on a.enrollment_id = e.id
+  where e.id = any(p_enrollment_ids)
+    and a.percent < p.min_attendance_percent;
+$$;
+
+grant execute on function public.instructor_sessions(text) to authenticated;
+grant execute on function public.set_medical_clearance(uuid, text) to authenticated;
+grant execute on function public.enrollment_attendance(uuid[]) to authenticated;
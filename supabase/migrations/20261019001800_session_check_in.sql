@@ -0,0 +1,134 @@
+-- QR self check-in. While a session runs, the instructor's screen shows a QR
+-- code that rotates every 30 seconds; each code is a short-lived random token
+-- so a photo of it forwarded to an absent trainee stops working almost at
+-- once. Scans that are duplicates or fall outside the session's window are
+-- kept, flagged, for the instructor to accept or dismiss.
+create table if not exists public.session_check_in_codes (
+  code text primary key,
+  session_id uuid not null references public.training_sessions (id) on delete cascade,
+  issued_by uuid references auth.users (id) on delete set null default auth.uid(),
+  expires_at timestamptz not null
+);
+
+create index if not exists session_check_in_codes_expires_at_idx on public.session_check_in_codes (expires_at);
+
+-- No policies: codes are only ever read and written by the functions below.
+alter table public.session_check_in_codes enable row level security;
+
+create table if not exists public.session_check_ins (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.training_sessions (id) on delete cascade,
+  enrollment_id uuid not null references public.enrollments (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  scanned_at timestamptz not null default now(),
+  -- Attendance the scan recorded; null when it was flagged instead.
+  attendance_status text check (attendance_status in ('present', 'late')),
+  flag text check (flag in ('duplicate', 'out_of_window')),
+  resolution text check (resolution in ('accepted', 'dismissed')),
+  resolved_by uuid references auth.users (id) on delete set null,
+  resolved_at timestamptz
+);
+
+create index if not exists session_check_ins_session_id_idx on public.session_check_ins (session_id, scanned_at);
+
+alter table public.session_check_ins enable row level security;
+
+create policy "Trainees and instructors can read check-ins"
+  on public.session_check_ins for select
+  to authenticated
+  using (user_id = auth.uid() or public.teaches_enrollment(enrollment_id));
+
+create policy "Instructors can resolve flagged check-ins"
+  on public.session_check_ins for update
+  to authenticated
+  using (public.teaches_enrollment(enrollment_id) and flag is not null)
+  with check (public.teaches_enrollment(enrollment_id));
+
+-- Issues the next code for the instructor's display. Codes stay valid a little
+-- longer than the 30 second rotation so a scan mid-rotation still lands.
+create or replace function public.issue_check_in_code(p_session_id uuid)
+returns public.session_check_in_codes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.session_check_in_codes;
+begin
+  if not exists (
+    select 1 from public.training_sessions
+    where id = p_session_id and public.teaches_cohort(cohort_id)
+  ) then
+    raise exception 'Only instructors of this cohort can display its check-in codes';
+  end if;
+
+  delete from public.session_check_in_codes where expires_at < now() - interval '1 day';
+
+  insert into public.session_check_in_codes (code, session_id, expires_at)
+  values (replace(gen_random_uuid()::text, '-', ''), p_session_id, now() + interval '45 seconds')
+  returning * into v_code;
+
+  return v_code;
+end;
+$$;
+
+-- Scanned by the trainee while signed in. Check-in opens 30 minutes before
+-- the session and closes when it ends; arriving more than 15 minutes after
+-- the start counts as late.
+create or replace function public.check_in_to_session(p_code text)
+returns public.session_check_ins
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.session_check_in_codes;
+  v_session public.training_sessions;
+  v_enrollment public.enrollments;
+  v_flag text;
+  v_status text;
+  v_check_in public.session_check_ins;
+begin
+  select * into v_code from public.session_check_in_codes where code = p_code;
+  if not found then
+    raise exception 'This check-in code is not valid';
+  end if;
+  if v_code.expires_at < now() then
+    raise exception 'This check-in code has expired. Scan the code on screen again.';
+  end if;
+
+  select * into v_session from public.training_sessions where id = v_code.session_id;
+
+  select * into v_enrollment
+  from public.enrollments
+  where cohort_id = v_session.cohort_id
+    and user_id = auth.uid()
+    and status in ('pending', 'confirmed', 'completed');
+  if not found then
+    raise exception 'You are not on the roster for this session';
+  end if;
+
+  if now() < v_session.starts_at - interval '30 minutes' or now() > v_session.ends_at then
+    v_flag := 'out_of_window';
+  elsif exists (
+    select 1 from public.session_attendance
+    where session_id = v_session.id and enrollment_id = v_enrollment.id
+  ) then
+    v_flag := 'duplicate';
+  else
+    v_status := case when now() > v_session.starts_at + interval '15 minutes' then 'late' else 'present' end;
+
+    insert into public.session_attendance (session_id, enrollment_id, user_id, status, recorded_by)
+    values (v_session.id, v_enrollment.id, v_enrollment.user_id, v_status, auth.uid());
+  end if;
+
+  insert into public.session_check_ins (session_id, enrollment_id, user_id, attendance_status, flag)
+  values (v_session.id, v_enrollment.id, v_enrollment.user_id, v_status, v_flag)
+  returning * into v_check_in;
+
+  return v_check_in;
+end;
+$$;
+
+grant execute on function public.issue_check_in_code(uuid) to authenticated;
+grant execute on function public.check_in_to_session(text) to authenticated;
@@ -0,0 +1,156 @@
+-- Trainee reviews. Only someone who completed a cohort can review the
+-- program, once per enrollment, rating the instructor, facilities and
+-- content separately. Reviews are moderated before they are shown, and
+-- `training_programs.rating` / `reviews` are recomputed from published ones
+-- instead of being typed in.
+create table if not exists public.program_reviews (
+  id uuid primary key default gen_random_uuid(),
+  program_id uuid not null references public.training_programs (id) on delete cascade,
+  enrollment_id uuid not null unique references public.enrollments (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  reviewer_name text not null,
+  instructor_rating integer not null check (instructor_rating between 1 and 5),
+  facilities_rating integer not null check (facilities_rating between 1 and 5),
+  content_rating integer not null check (content_rating between 1 and 5),
+  rating numeric(2, 1) generated always as (round((instructor_rating + facilities_rating + content_rating) / 3.0, 1)) stored,
+  comment text not null check (length(trim(comment)) >= 20),
+  status text not null default 'pending' check (status in ('pending', 'published', 'rejected')),
+  moderation_note text,
+  moderated_by uuid references auth.users (id) on delete set null,
+  moderated_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists program_reviews_program_id_idx on public.program_reviews (program_id, status, created_at desc);
+
+alter table public.program_reviews enable row level security;
+
+create policy "Published reviews are readable by everyone"
+  on public.program_reviews for select
+  using (status = 'published' or user_id = auth.uid() or public.can_manage_training());
+
+create policy "Coordinators can moderate reviews"
+  on public.program_reviews for update
+  to authenticated
+  using (public.can_manage_training())
+  with check (public.can_manage_training());
+
+-- Writes (or rewrites) the caller's review for a completed enrollment. An
+-- edited review goes back into the moderation queue.
+create or replace function public.submit_program_review(
+  p_enrollment_id uuid,
+  p_instructor_rating integer,
+  p_facilities_rating integer,
+  p_content_rating integer,
+  p_comment text
+)
+returns public.program_reviews
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_enrollment public.enrollments;
+  v_program_id uuid;
+  v_name text;
+  v_review public.program_reviews;
+begin
+  select * into v_enrollment
+  from public.enrollments
+  where id = p_enrollment_id and user_id = auth.uid() and status = 'completed';
+  if not found then
+    raise exception 'Only trainees who completed this program can review it';
+  end if;
+
+  select program_id into v_program_id from public.training_cohorts where id = v_enrollment.cohort_id;
+
+  -- First name and last initial, e.g. "Budi S."
+  v_name := split_part(trim(v_enrollment.full_name), ' ', 1)
+    || coalesce(' ' || left(nullif(split_part(trim(v_enrollment.full_name), ' ', 2), ''), 1) || '.', '');
+
+  insert into public.program_reviews (
+    program_id, enrollment_id, user_id, reviewer_name,
+    instructor_rating, facilities_rating, content_rating, comment
+  )
+  values (
+    v_program_id, v_enrollment.id, v_enrollment.user_id, v_name,
+    p_instructor_rating, p_facilities_rating, p_content_rating, trim(p_comment)
+  )
+  on conflict (enrollment_id) do update set
+    instructor_rating = excluded.instructor_rating,
+    facilities_rating = excluded.facilities_rating,
+    content_rating = excluded.content_rating,
+    comment = excluded.comment,
+    status = 'pending',
+    moderation_note = null,
+    moderated_by = null,
+    moderated_at = null,
+    updated_at = now()
+  returning * into v_review;
+
+  return v_review;
+end;
+$$;
+
+create or replace function public.refresh_program_rating(p_program_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.training_programs p
+  set
+    rating = coalesce((
+      select round(avg(r.rating), 1) from public.program_reviews r
+      where r.program_id = p.id and r.status = 'published'
+    ), 0),
+    reviews = (
+      select count(*) from public.program_reviews r
+      where r.program_id = p.id and r.status = 'published'
+    )
+  where p.id = p_program_id;
+$$;
+
+create or replace function public.sync_program_rating()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_program_rating(coalesce(new.program_id, old.program_id));
+  return null;
+end;
+$$;
+
+drop trigger if exists sync_program_rating on public.program_reviews;
+create trigger sync_program_rating
+  after insert or update or delete on public.program_reviews
+  for each row execute function public.sync_program_rating();
+
+-- Per-dimension averages and the star distribution for the detail page.
+create or replace view public.program_review_stats as
+select
+  program_id,
+  count(*)::integer as review_count,
+  round(avg(rating), 1) as average_rating,
+  round(avg(instructor_rating), 1) as average_instructor,
+  round(avg(facilities_rating), 1) as average_facilities,
+  round(avg(content_rating), 1) as average_content,
+  array[
+    count(*) filter (where round(rating) = 1),
+    count(*) filter (where round(rating) = 2),
+    count(*) filter (where round(rating) = 3),
+    count(*) filter (where round(rating) = 4),
+    count(*) filter (where round(rating) = 5)
+  ]::integer[] as distribution
+from public.program_reviews
+where status = 'published'
+group by program_id;
+
+grant select on public.program_review_stats to anon, authenticated;
+grant execute on function public.submit_program_review(uuid, integer, integer, integer, text) to authenticated;
+
+-- The seeded ratings were placeholders; start every program from its real reviews.
+select public.refresh_program_rating(id) from public.training_programs;
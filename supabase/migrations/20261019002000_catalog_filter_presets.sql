@@ -0,0 +1,18 @@
+-- Named catalog filter presets. The /training filters live in the URL, so a
+-- preset is just the query string saved under a name for the signed-in user.
+create table if not exists public.catalog_filter_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  name text not null check (length(trim(name)) > 0),
+  query text not null default '',
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.catalog_filter_presets enable row level security;
+
+create policy "Users manage their own filter presets"
+  on public.catalog_filter_presets for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,22 @@
+-- What a trainee must already hold or be able to do before enrolling. Shown on
+-- the program's Requirements tab and in the side-by-side comparison.
+alter table public.training_programs
+  add column if not exists prerequisites text[] not null default '{}';
+
+-- Seed prerequisites; programs whose list was already edited keep it.
+update public.training_programs p
+set prerequisites = s.prerequisites
+from (
+  values
+    ('fire-fighter-training-academy', array['18 years or older', 'High school diploma or equivalent', 'Valid driver''s license', 'Pass the Candidate Physical Ability Test (CPAT)']),
+    ('emergency-medical-services', array['High school diploma or equivalent', 'Current CPR/BLS certification', 'EMT-Basic certification (preferred)', 'Immunization records and background check']),
+    ('hazardous-materials-response', array['HAZMAT Awareness certification', 'Employed or sponsored by a response agency', 'Medical clearance for respirator use']),
+    ('technical-rescue-operations', array['Firefighter I or equivalent', 'Current CPR certification', 'Able to work at height and in confined spaces']),
+    ('wildland-fire-suppression', array['18 years or older', 'Pass the arduous Work Capacity Test (pack test)', 'Leather boots meeting NFPA 1977']),
+    ('fire-investigation-arson', array['Firefighter II or law-enforcement officer certification', 'Two years of fire service or investigative experience']),
+    ('leadership-development', array['Company officer rank or department nomination', 'ICS-100 and ICS-200 completed']),
+    ('fire-prevention-inspection', array['Firefighter I or a building trades background', 'Able to read construction drawings']),
+    ('hazwoper-8-hour-refresher', array['Initial 40-hour or 24-hour HAZWOPER training', 'Last HAZWOPER certificate dated within 12 months'])
+) as s (slug, prerequisites)
+where p.slug = s.slug
+  and p.prerequisites = '{}';
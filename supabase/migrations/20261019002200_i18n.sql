@@ -0,0 +1,54 @@
+-- Interface language per user. Null until they pick one, so their first
+-- sign-in keeps whatever language they were already browsing in.
+alter table public.profiles
+  add column if not exists locale text
+  check (locale in ('en', 'id'));
+
+-- Users have no general update policy on their own profile, so the language
+-- preference is saved through this function instead.
+create or replace function public.set_profile_locale(new_locale text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to save a language preference';
+  end if;
+
+  update public.profiles
+  set locale = new_locale
+  where id = auth.uid();
+end;
+$$;
+
+grant execute on function public.set_profile_locale(text) to authenticated;
+
+-- Translatable content. English stays in the regular columns; other locales
+-- are stored as {"id": {"title": "...", "description": "..."}} and any field
+-- left out falls back to English.
+alter table public.training_programs
+  add column if not exists translations jsonb not null default '{}';
+
+alter table public.news_articles
+  add column if not exists translations jsonb not null default '{}';
+
+-- Seed Indonesian titles and descriptions; programs whose translations were
+-- already edited keep them.
+update public.training_programs p
+set translations = jsonb_build_object('id', jsonb_build_object('title', s.title, 'description', s.description))
+from (
+  values
+    ('fire-fighter-training-academy', 'Akademi Pelatihan Pemadam Kebakaran', 'Program sertifikasi lengkap bagi calon pemadam kebakaran, mencakup latihan fisik, tanggap darurat, dan pengembangan keterampilan teknis.'),
+    ('emergency-medical-services', 'Layanan Medis Darurat', 'Pelatihan EMS tingkat lanjut bagi pemadam kebakaran dan tenaga medis darurat, termasuk sertifikasi paramedis dan pendidikan berkelanjutan.'),
+    ('hazardous-materials-response', 'Penanganan Bahan Berbahaya', 'Pelatihan khusus menangani insiden bahan berbahaya, tumpahan bahan kimia, dan keadaan darurat lingkungan dengan protokol keselamatan yang tepat.'),
+    ('technical-rescue-operations', 'Operasi Penyelamatan Teknis', 'Teknik penyelamatan tingkat lanjut meliputi penyelamatan tali, ruang terbatas, parit, dan runtuhan bangunan bagi petugas tanggap darurat.'),
+    ('wildland-fire-suppression', 'Pemadaman Kebakaran Hutan dan Lahan', 'Pelatihan pemadaman kebakaran hutan dan lahan yang mencakup perilaku api, taktik pemadaman, protokol keselamatan, dan pengoperasian peralatan.'),
+    ('fire-investigation-arson', 'Investigasi Kebakaran & Pembakaran', 'Pelatihan profesional investigasi lokasi kebakaran, pengumpulan bukti, penentuan penyebab, dan kesaksian di pengadilan bagi investigator kebakaran.'),
+    ('leadership-development', 'Pengembangan Kepemimpinan', 'Pelatihan komando dan kepemimpinan bagi perwira pemadam kebakaran, termasuk komando insiden, manajemen personel, dan perencanaan strategis.'),
+    ('fire-prevention-inspection', 'Pencegahan & Inspeksi Kebakaran', 'Program pelatihan penegakan peraturan dan pencegahan kebakaran bagi inspektur dan spesialis pencegahan.'),
+    ('hazwoper-8-hour-refresher', 'Penyegaran HAZWOPER 8 Jam', 'Penyegaran tahunan satu hari untuk menjaga sertifikat OSHA HAZWOPER 40 Jam tetap berlaku, mencakup pembaruan regulasi, APD, dekontaminasi, dan pembelajaran dari insiden.')
+) as s (slug, title, description)
+where p.slug = s.slug
+  and p.translations = '{}';